@@ -1,8 +1,27 @@
+import * as BackgroundTask from "expo-background-task";
 import * as Notifications from "expo-notifications";
 import { SchedulableTriggerInputTypes } from "expo-notifications";
+import * as TaskManager from "expo-task-manager";
+import { auth } from '../../config/firebase';
+import { FirebaseAcademicCalendarService } from '../../data/services/AcademicCalendarService';
+import { FirebaseCancellationService } from '../../data/services/CancellationService';
 import { FirebaseClassroomService } from '../../data/services/ClassroomService';
 import { NotificationClientService } from '../../data/services/NotificationClientService';
 import { NotificationTemplate } from "../constants/NotificationTemplates";
+import { getClassFreeBlock } from "../utils/AcademicCalendarUtils";
+import { addDaysToDateKey, getAcademicToday, getAcademicWeekdayName } from "../utils/AcademicDateUtils";
+import { getDayOrderForDate, getDayOrderName } from "../utils/DayOrderUtils";
+import { getHeldClassInstancesForDate } from "../utils/ScheduleUtils";
+import { formatDateKey } from "../utils/SemesterUtils";
+
+// Evening reminders are scheduled per day, this many days ahead. The refresh
+// task below moves the window forward while the app stays closed.
+const REMINDER_DAYS_AHEAD = 7;
+
+// Background task that reschedules the reminders (the OS decides when it runs,
+// never more often than this)
+const REMINDER_REFRESH_TASK = "attendance-reminder-refresh";
+const REMINDER_REFRESH_INTERVAL_MINUTES = 12 * 60;
 
 export interface AttendanceReminderSettings {
   userId: string;
@@ -75,6 +94,8 @@ export class AttendanceCronService {
         await this.scheduleMorningMessages(userId, settings);
       }
 
+      await this.registerReminderRefreshTask();
+
       this.currentUserId = userId;
       this.isInitialized = true;
       console.log("Attendance cron service initialized successfully");
@@ -119,41 +140,35 @@ export class AttendanceCronService {
       // Cancel any existing attendance notifications first to prevent duplicates
       await this.cancelAllAttendanceNotifications();
 
-      // Schedule first reminder at 5:00 PM
-      const firstReminderTemplate = this.getRandomAttendanceReminderTemplate();
-      const firstReminderTrigger: Notifications.DailyTriggerInput = {
-        hour: settings.eveningReminderTime.hour,
-        minute: settings.eveningReminderTime.minute,
-        type: SchedulableTriggerInputTypes.DAILY
-      };
-      const firstReminderId =
-        await notificationService.scheduleLocalNotification(
-          firstReminderTemplate,
-          firstReminderTrigger
-        );
-
-      this.scheduledNotifications.set(
-        "attendance_first_reminder",
-        firstReminderId
-      );
+      // Only days with classes that weren't cancelled get reminders
+      const reminderDates = await this.getDatesWithActiveClasses(userId, REMINDER_DAYS_AHEAD);
+      const now = new Date();
 
-      // Schedule second reminder at 7:00 PM
-      const secondReminderTemplate = this.getRandomSecondReminderTemplate();
-      const secondReminderTrigger: Notifications.DailyTriggerInput = {
-        hour: settings.secondReminderTime.hour,
-        minute: settings.secondReminderTime.minute,
-        type: SchedulableTriggerInputTypes.DAILY
-      };
-      const secondReminderId =
-        await notificationService.scheduleLocalNotification(
-          secondReminderTemplate,
-          secondReminderTrigger
-        );
+      for (const date of reminderDates) {
+        // First reminder at 5:00 PM
+        const firstReminderTime = new Date(date + "T00:00:00");
+        firstReminderTime.setHours(settings.eveningReminderTime.hour, settings.eveningReminderTime.minute, 0, 0);
+        if (firstReminderTime > now) {
+          const firstReminderId =
+            await notificationService.scheduleLocalNotification(
+              this.getRandomAttendanceReminderTemplate(),
+              { type: SchedulableTriggerInputTypes.DATE, date: firstReminderTime }
+            );
+          this.scheduledNotifications.set(`attendance_first_reminder_${date}`, firstReminderId);
+        }
 
-      this.scheduledNotifications.set(
-        "attendance_second_reminder",
-        secondReminderId
-      );
+        // Second reminder at 7:00 PM
+        const secondReminderTime = new Date(date + "T00:00:00");
+        secondReminderTime.setHours(settings.secondReminderTime.hour, settings.secondReminderTime.minute, 0, 0);
+        if (secondReminderTime > now) {
+          const secondReminderId =
+            await notificationService.scheduleLocalNotification(
+              this.getRandomSecondReminderTemplate(),
+              { type: SchedulableTriggerInputTypes.DATE, date: secondReminderTime }
+            );
+          this.scheduledNotifications.set(`attendance_second_reminder_${date}`, secondReminderId);
+        }
+      }
 
       console.log("Attendance reminders scheduled successfully");
     } catch (error) {
@@ -161,6 +176,80 @@ export class AttendanceCronService {
     }
   }
 
+  // Let the OS wake the app now and then to reschedule reminders, so they keep
+  // coming after the scheduled days run out even if the app isn't opened
+  private async registerReminderRefreshTask(): Promise<void> {
+    try {
+      const status = await BackgroundTask.getStatusAsync();
+      if (status !== BackgroundTask.BackgroundTaskStatus.Available) {
+        console.log("Background tasks unavailable; reminders refresh when the app opens");
+        return;
+      }
+      if (await TaskManager.isTaskRegisteredAsync(REMINDER_REFRESH_TASK)) return;
+
+      await BackgroundTask.registerTaskAsync(REMINDER_REFRESH_TASK, {
+        minimumInterval: REMINDER_REFRESH_INTERVAL_MINUTES,
+      });
+      console.log("Attendance reminder refresh task registered");
+    } catch (error) {
+      console.error("Failed to register attendance reminder refresh task:", error);
+    }
+  }
+
+  // Dates (from today) that have at least one class instance without a confirmed cancellation
+  private async getDatesWithActiveClasses(userId: string, daysAhead: number): Promise<string[]> {
+    const classroomService = new FirebaseClassroomService();
+    const cancellationService = new FirebaseCancellationService();
+    const academicCalendarService = new FirebaseAcademicCalendarService();
+    const activeDates: string[] = [];
+
+    try {
+      const classrooms = await classroomService.getUserClassrooms(userId);
+      const schedules = await Promise.all(
+        classrooms.map(classroom => classroomService.getClassroomSchedule(classroom.id))
+      );
+      // Holidays, days off and breaks on the academic calendar have no classes to remind about
+      const lastDay = new Date();
+      lastDay.setDate(lastDay.getDate() + daysAhead);
+      const calendars = await Promise.all(
+        classrooms.map((classroom, i) =>
+          academicCalendarService.getWorkingDayCalendar(
+            classroom,
+            schedules[i],
+            formatDateKey(new Date()),
+            formatDateKey(lastDay)
+          )
+        )
+      );
+
+      for (let i = 0; i < daysAhead; i++) {
+        const day = new Date();
+        day.setDate(day.getDate() + i);
+        const date = formatDateKey(day);
+
+        for (const [index, schedule] of schedules.entries()) {
+          if (!schedule) continue;
+          const instances = getHeldClassInstancesForDate(schedule, date, calendars[index]);
+          if (instances.length === 0) continue;
+
+          const cancelledKeys = new Set(
+            (await cancellationService.getCancellationsForDate(schedule.classroomId, date))
+              .filter(c => c.status === "confirmed")
+              .map(c => c.instanceKey)
+          );
+          if (instances.some(instance => !cancelledKeys.has(instance.key))) {
+            activeDates.push(date);
+            break;
+          }
+        }
+      }
+    } catch (error) {
+      console.error("Failed to get dates with classes:", error);
+    }
+
+    return activeDates;
+  }
+
   private async scheduleMorningMessages(
     userId: string,
     settings: AttendanceReminderSettings
@@ -182,33 +271,48 @@ export class AttendanceCronService {
       this.scheduledNotifications.set("good_morning_message", goodMorningId);
       console.log("Good morning message scheduled at 6:00 AM");
 
-      // Schedule 8:00 AM Today's Classes Message
-      // Fetch classes for the ACTUAL day when this runs
-      await this.scheduleClassesNotificationForToday(userId, notificationService);
+      // Schedule the 8:00 AM class schedule message for each upcoming day
+      await this.scheduleClassesNotifications(userId, notificationService);
 
     } catch (error) {
       console.error("Failed to schedule morning messages:", error);
     }
   }
 
-  private async scheduleClassesNotificationForToday(
+  // One dated message per day, each listing that day's classes. Days inside an
+  // exam or a break without classes get none; the refresh task keeps the window
+  // moving, so blocks that start or end later are picked up as they come.
+  private async scheduleClassesNotifications(
     userId: string,
     notificationService: NotificationClientService
   ): Promise<void> {
     try {
-      // Get TODAY's actual classes (not when scheduled, but when the method runs)
-      const classesTemplate = await this.getTodaysClassesTemplateRealtime(userId);
-      const classesTrigger: Notifications.DailyTriggerInput = {
-        hour: 8,
-        minute: 0,
-        type: SchedulableTriggerInputTypes.DAILY
-      };
-      const classesId = await notificationService.scheduleLocalNotification(
-        classesTemplate,
-        classesTrigger
-      );
-      this.scheduledNotifications.set("todays_classes_message", classesId);
-      console.log("Today's classes message scheduled at 8:00 AM for", new Date().toLocaleDateString('en-US', { weekday: 'long' }));
+      const today = getAcademicToday();
+      const dates = Array.from({ length: REMINDER_DAYS_AHEAD }, (_, i) => addDaysToDateKey(today, i));
+      const templates = await this.getClassesTemplatesForDates(userId, dates);
+      const now = new Date();
+
+      for (const date of dates) {
+        const classesTemplate = templates.get(date);
+        if (!classesTemplate) continue;
+
+        // No class schedule message during exams or breaks without classes
+        if (classesTemplate.data?.academicBlock) {
+          console.log(`Classes message for ${date} skipped:`, classesTemplate.data.academicBlock);
+          continue;
+        }
+
+        const messageTime = new Date(date + "T00:00:00");
+        messageTime.setHours(8, 0, 0, 0);
+        if (messageTime <= now) continue;
+
+        const classesId = await notificationService.scheduleLocalNotification(
+          classesTemplate,
+          { type: SchedulableTriggerInputTypes.DATE, date: messageTime }
+        );
+        this.scheduledNotifications.set(`todays_classes_message_${date}`, classesId);
+      }
+      console.log("Class schedule messages scheduled at 8:00 AM for the next", REMINDER_DAYS_AHEAD, "days");
     } catch (error) {
       console.error("Failed to schedule classes notification:", error);
     }
@@ -255,107 +359,143 @@ export class AttendanceCronService {
     };
   }
 
-  private async getTodaysClassesTemplateRealtime(userId: string): Promise<NotificationTemplate> {
+  // Build the class schedule message of each date, reading the classrooms,
+  // schedules, blocks and cancellations once for all of them
+  private async getClassesTemplatesForDates(
+    userId: string,
+    dates: string[]
+  ): Promise<Map<string, NotificationTemplate>> {
     const classroomService = new FirebaseClassroomService();
+    const academicCalendarService = new FirebaseAcademicCalendarService();
+    const cancellationService = new FirebaseCancellationService();
+    const templates = new Map<string, NotificationTemplate>();
     
     try {
-      // IMPORTANT: Get the ACTUAL current day, not when this was first scheduled
-      const now = new Date();
-      const dayNames = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
-      const todayName = dayNames[now.getDay()];
-      
-      console.log(`📅 Fetching classes for: ${todayName} (${now.toLocaleDateString()})`);
-      
       const classrooms = await classroomService.getUserClassrooms(userId);
-      const todaysClasses: Array<{name: string, time: string, location: string}> = [];
-      
+      const blocksByClassroom = await academicCalendarService.getBlocksForClassrooms(
+        classrooms.map(classroom => classroom.id)
+      );
+      const classroomData = [];
       for (const classroom of classrooms) {
         const schedule = await classroomService.getClassroomSchedule(classroom.id);
-        if (schedule) {
-          const dayClasses = schedule.classes.filter(cls => {
-            // Match the exact day name
-            const matches = cls.day === todayName;
-            if (matches) {
-              console.log(`✓ Found class: ${cls.name} on ${cls.day}`);
-            }
-            return matches;
-          });
-          
-          dayClasses.forEach(cls => {
-            let timeStr = cls.startTime;
-            if (cls.endTime) {
-              timeStr = `${cls.startTime} - ${cls.endTime}`;
-            }
-            todaysClasses.push({
-              name: cls.name,
-              time: timeStr,
-              location: cls.location || 'Not specified'
+        classroomData.push({
+          classroom,
+          schedule,
+          calendar: schedule
+            ? await academicCalendarService.getWorkingDayCalendar(classroom, schedule, dates[0], dates[dates.length - 1])
+            : undefined,
+          // Cancelled classes are left out of the schedule message
+          cancelledKeys: new Set(
+            (await cancellationService.getConfirmedCancellations(classroom.id)).map(c => c.instanceKey)
+          ),
+        });
+      }
+
+      for (const date of dates) {
+        const dayName = getAcademicWeekdayName(date);
+        const daysClasses: Array<{name: string, time: string, location: string}> = [];
+        const classFreeBlockTitles: string[] = [];
+        const dayOrderNames = new Set<string>();
+
+        for (const { classroom, schedule, calendar, cancelledKeys } of classroomData) {
+          const classFreeBlock = getClassFreeBlock(blocksByClassroom.get(classroom.id), date);
+          if (classFreeBlock) {
+            classFreeBlockTitles.push(classFreeBlock.title);
+          }
+          if (!schedule) continue;
+
+          // Day-order classrooms name the day by its day order
+          const dayOrder = schedule.dayOrder?.enabled ? getDayOrderForDate(schedule.dayOrder, date, calendar) : null;
+          if (dayOrder) {
+            dayOrderNames.add(getDayOrderName(dayOrder));
+          }
+
+          // Expand the day's weekly slots and one-off extra classes (only the extra
+          // ones run on days off or during exams and breaks on the academic calendar)
+          getHeldClassInstancesForDate(schedule, date, calendar)
+            .filter(instance => !cancelledKeys.has(instance.key))
+            .forEach(instance => {
+              let timeStr = instance.startTime;
+              if (instance.endTime) {
+                timeStr = `${instance.startTime} - ${instance.endTime}`;
+              }
+              daysClasses.push({
+                name: instance.subject,
+                time: timeStr,
+                location: instance.location || 'Not specified'
+              });
             });
-          });
         }
-      }
-      
-      // Sort by start time
-      todaysClasses.sort((a, b) => a.time.localeCompare(b.time));
-      
-      console.log(`📚 Total classes found for ${todayName}: ${todaysClasses.length}`);
-      
-      let title = "📚 Today's Class Schedule";
-      let body = "";
-      
-      if (todaysClasses.length === 0) {
-        title = "🎉 No Classes Today!";
-        body = "Enjoy your day off! Rest well and recharge! 😊";
-      } else {
-        // Create clean formatted message
-        const classLines = todaysClasses.slice(0, 6).map((cls, index) => 
-          `${index + 1}. ${cls.name}\n   ⏰ ${cls.time}\n   📍 ${cls.location}`
-        ).join('\n\n');
         
-        body = classLines;
+        // Sort by start time
+        daysClasses.sort((a, b) => a.time.localeCompare(b.time));
+        console.log(`📚 Total classes found for ${dayName} (${date}): ${daysClasses.length}`);
+        
+        let title = dayOrderNames.size > 0
+          ? `📚 Today's Class Schedule (${Array.from(dayOrderNames).join(", ")})`
+          : "📚 Today's Class Schedule";
+        let body = "";
         
-        if (todaysClasses.length > 6) {
-          body += `\n\n📋 +${todaysClasses.length - 6} more classes`;
+        if (daysClasses.length === 0) {
+          title = "🎉 No Classes Today!";
+          body = "Enjoy your day off! Rest well and recharge! 😊";
+        } else {
+          // Create clean formatted message
+          const classLines = daysClasses.slice(0, 6).map((cls, index) => 
+            `${index + 1}. ${cls.name}\n   ⏰ ${cls.time}\n   📍 ${cls.location}`
+          ).join('\n\n');
+          
+          body = classLines;
+          
+          if (daysClasses.length > 6) {
+            body += `\n\n📋 +${daysClasses.length - 6} more classes`;
+          }
+          
+          body += "\n\n✨ Have a great day!";
         }
         
-        body += "\n\n✨ Have a great day!";
+        templates.set(date, {
+          id: "todays_classes",
+          title: title,
+          body: body,
+          data: {
+            type: "class_schedule",
+            day: dayName,
+            date,
+            ...(dayOrderNames.size > 0 ? { dayOrder: Array.from(dayOrderNames).join(", ") } : {}),
+            classCount: daysClasses.length,
+            // Set when there are no classes because of the academic calendar
+            ...(daysClasses.length === 0 && classFreeBlockTitles.length > 0
+              ? { academicBlock: classFreeBlockTitles.join(", ") }
+              : {}),
+            timestamp: new Date().toISOString(),
+          },
+          priority: "default",
+          sound: "default",
+          badge: 0,
+        });
       }
-      
-      return {
-        id: "todays_classes",
-        title: title,
-        body: body,
-        data: {
-          type: "class_schedule",
-          day: todayName,
-          classCount: todaysClasses.length,
-          timestamp: new Date().toISOString(),
-        },
-        priority: "default",
-        sound: "default",
-        badge: 0,
-      };
     } catch (error) {
-      console.error("Error creating today's classes template:", error);
+      console.error("Error creating class schedule templates:", error);
       
-      return {
-        id: "todays_classes",
-        title: "📚 Class Schedule",
-        body: "Check your app for today's class schedule",
-        data: {
-          type: "class_schedule",
-          timestamp: new Date().toISOString(),
-        },
-        priority: "default",
-        sound: "default",
-        badge: 0,
-      };
+      for (const date of dates) {
+        templates.set(date, {
+          id: "todays_classes",
+          title: "📚 Class Schedule",
+          body: "Check your app for today's class schedule",
+          data: {
+            type: "class_schedule",
+            date,
+            timestamp: new Date().toISOString(),
+          },
+          priority: "default",
+          sound: "default",
+          badge: 0,
+        });
+      }
     }
-  }
 
-  private async getTodaysClassesTemplate(userId: string): Promise<NotificationTemplate> {
-    // This method is deprecated - use getTodaysClassesTemplateRealtime instead
-    return this.getTodaysClassesTemplateRealtime(userId);
+    return templates;
   }
 
   private getRandomAttendanceReminderTemplate(): NotificationTemplate {
@@ -631,6 +771,11 @@ export class AttendanceCronService {
     }
   }
 
+  // Reschedule reminders (e.g. after a class was cancelled)
+  async refreshReminders(userId: string): Promise<void> {
+    await this.updateAttendanceSettings(userId, {});
+  }
+
   // Cancel all attendance-related notifications
   async cancelAllAttendanceNotifications(): Promise<void> {
     try {
@@ -677,6 +822,9 @@ export class AttendanceCronService {
   async cleanup(): Promise<void> {
     try {
       await this.cancelAllAttendanceNotifications();
+      if (await TaskManager.isTaskRegisteredAsync(REMINDER_REFRESH_TASK)) {
+        await BackgroundTask.unregisterTaskAsync(REMINDER_REFRESH_TASK);
+      }
       this.isInitialized = false;
       this.currentUserId = null;
       this.initializationPromise = null;
@@ -686,3 +834,19 @@ export class AttendanceCronService {
     }
   }
 }
+
+// Defined at module scope so the task exists when the OS starts the app in the
+// background. It reschedules for whoever is signed in on this device.
+TaskManager.defineTask(REMINDER_REFRESH_TASK, async () => {
+  try {
+    await auth.authStateReady();
+    const userId = auth.currentUser?.uid;
+    if (userId) {
+      await AttendanceCronService.getInstance().refreshReminders(userId);
+    }
+    return BackgroundTask.BackgroundTaskResult.Success;
+  } catch (error) {
+    console.error("Failed to refresh attendance reminders in the background:", error);
+    return BackgroundTask.BackgroundTaskResult.Failed;
+  }
+});
@@ -0,0 +1,63 @@
+/**
+ * Academic calendar blocks: which block covers a date, whether it suspends
+ * classes, and the blocks worth a banner
+ */
+
+import { AcademicBlock, AcademicBlockType } from '../../domain/model/AcademicCalendar';
+import { addDaysToDateKey } from './AcademicDateUtils';
+
+export const ACADEMIC_BLOCK_LABELS: Record<AcademicBlockType, string> = {
+  exam: 'Exams',
+  study_holiday: 'Study holiday',
+  fest: 'Fest',
+  internship: 'Internship',
+  event: 'Event',
+};
+
+// Blocks that usually suspend classes; the admin can still change it per block
+export const CLASS_FREE_BLOCK_TYPES: ReadonlySet<AcademicBlockType> = new Set(['exam', 'study_holiday', 'internship']);
+
+/**
+ * Blocks covering a YYYY-MM-DD date
+ */
+export const getBlocksOnDate = <T extends Pick<AcademicBlock, 'startDate' | 'endDate'>>(
+  blocks: readonly T[] | undefined,
+  date: string
+): T[] => {
+  return (blocks || []).filter(block => block.startDate <= date && date <= block.endDate);
+};
+
+/**
+ * The block that suspends regular classes on a date, if any
+ */
+export const getClassFreeBlock = <T extends Pick<AcademicBlock, 'startDate' | 'endDate' | 'classesRun'>>(
+  blocks: readonly T[] | undefined,
+  date: string
+): T | undefined => {
+  return getBlocksOnDate(blocks, date).find(block => !block.classesRun);
+};
+
+/**
+ * Blocks running on a date or starting within the next few days, soonest first
+ */
+export const getUpcomingBlocks = <T extends Pick<AcademicBlock, 'startDate' | 'endDate'>>(
+  blocks: readonly T[],
+  today: string,
+  daysAhead: number = 7
+): T[] => {
+  const horizon = addDaysToDateKey(today, daysAhead);
+  return blocks
+    .filter(block => block.endDate >= today && block.startDate <= horizon)
+    .sort((a, b) => a.startDate.localeCompare(b.startDate));
+};
+
+/**
+ * Short date range of a block, e.g. "12 Mar – 18 Mar" or "12 Mar" for one day
+ */
+export const formatBlockDates = (block: Pick<AcademicBlock, 'startDate' | 'endDate'>): string => {
+  const format = (dateKey: string) =>
+    new Date(dateKey + 'T00:00:00').toLocaleDateString('en-GB', { day: 'numeric', month: 'short' });
+  return block.startDate === block.endDate
+    ? format(block.startDate)
+    : `${format(block.startDate)} – ${format(block.endDate)}`;
+};
@@ -0,0 +1,92 @@
+/**
+ * Academic dates: calendar days (YYYY-MM-DD) as the student sees them in their own time zone.
+ * Attendance dates and weekdays are derived here instead of from UTC ISO timestamps,
+ * which put early-morning check-ins (e.g. before 05:30 in IST) on the previous day.
+ */
+
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// Release of academic date keys: records marked since then already carry their academic date
+export const ACADEMIC_DATE_KEYS_SINCE = '2026-10-19T00:00:00.000Z';
+
+/**
+ * Time zone used for academic dates (the device's zone, falling back to UTC)
+ */
+export const getAcademicTimeZone = (): string => {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+  } catch {
+    return 'UTC';
+  }
+};
+
+/**
+ * Academic date key (YYYY-MM-DD) of an instant in the given time zone
+ */
+export const toAcademicDateKey = (
+  instant: Date | string = new Date(),
+  timeZone: string = getAcademicTimeZone()
+): string => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).formatToParts(new Date(instant));
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find(p => p.type === type)?.value || '';
+
+  return `${part('year')}-${part('month')}-${part('day')}`;
+};
+
+/**
+ * Shift a YYYY-MM-DD date key by a number of days (calendar arithmetic, no time zone involved)
+ */
+export const addDaysToDateKey = (dateKey: string, days: number): string => {
+  const date = new Date(dateKey + 'T00:00:00Z');
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().split('T')[0];
+};
+
+/**
+ * Today's academic date key
+ */
+export const getAcademicToday = (timeZone?: string): string => {
+  return toAcademicDateKey(new Date(), timeZone);
+};
+
+/**
+ * Yesterday's academic date key
+ */
+export const getAcademicYesterday = (timeZone?: string): string => {
+  return addDaysToDateKey(getAcademicToday(timeZone), -1);
+};
+
+/**
+ * Weekday index (0 = Sunday) of a YYYY-MM-DD date key
+ */
+export const getWeekdayIndex = (dateKey: string): number => {
+  return new Date(dateKey + 'T00:00:00Z').getUTCDay();
+};
+
+/**
+ * Weekday name (e.g. "Monday") of a YYYY-MM-DD date key, today by default
+ */
+export const getAcademicWeekdayName = (dateKey: string = getAcademicToday()): string => {
+  return WEEKDAY_NAMES[getWeekdayIndex(dateKey)];
+};
+
+/**
+ * Whether a record's date may have been keyed from the UTC date of the instant it was
+ * marked rather than the academic date (the legacy bug the date-key migration repairs).
+ * Only records marked before academic date keys were released can be affected.
+ */
+export const isUtcKeyedDate = (
+  dateKey: string,
+  markedAt: string,
+  timeZone: string = getAcademicTimeZone()
+): boolean => {
+  if (markedAt >= ACADEMIC_DATE_KEYS_SINCE) return false;
+
+  const utcKey = new Date(markedAt).toISOString().split('T')[0];
+  return dateKey === utcKey && toAcademicDateKey(markedAt, timeZone) !== utcKey;
+};
@@ -0,0 +1,232 @@
+/**
+ * Attendance policy engine: the single place that decides whether attendance
+ * meets an institution's rules, and how many classes can be skipped or must be attended
+ */
+
+import {
+  AttendancePolicy,
+  EligibilityStatus,
+  PolicyEvaluation,
+  PolicyRoundingRule,
+} from '../../domain/model/Attendance';
+
+export const DEFAULT_MINIMUM_PERCENTAGE = 75;
+
+// Attendance counts (in attendance units) evaluated against a policy
+export interface PolicyAttendanceInput {
+  attendedClasses: number;
+  totalClasses: number;
+  classId?: string; // Subject whose minimum applies (per-subject overrides)
+  remainingClasses?: number; // Classes left this semester; counts are projected to the end of it when set
+}
+
+/**
+ * Policy used when neither the classroom nor the university defines one:
+ * a per-subject minimum equal to the classroom's attendance target
+ */
+export const getDefaultPolicy = (
+  minimumPercentage: number = DEFAULT_MINIMUM_PERCENTAGE
+): AttendancePolicy => ({
+  scope: 'per-subject',
+  minimumPercentage,
+  rounding: 'none',
+});
+
+/**
+ * Minimum percentage that applies to a subject (overrides only apply per subject)
+ */
+export const getRequiredPercentage = (policy: AttendancePolicy, classId?: string): number => {
+  if (policy.scope === 'per-subject' && classId && policy.subjectMinimums?.[classId] !== undefined) {
+    return policy.subjectMinimums[classId];
+  }
+  return policy.minimumPercentage;
+};
+
+/**
+ * Round a percentage the way the policy does before comparing it with the minimum
+ */
+export const applyRounding = (percentage: number, rounding: PolicyRoundingRule): number => {
+  switch (rounding) {
+    case 'nearest':
+      return Math.round(percentage);
+    case 'up':
+      return Math.ceil(percentage);
+    case 'down':
+      return Math.floor(percentage);
+    default:
+      return Math.round(percentage * 100) / 100;
+  }
+};
+
+/**
+ * Status of a rounded percentage against the minimum and the condonation band
+ */
+const getEligibility = (
+  policy: AttendancePolicy,
+  effectivePercentage: number,
+  requiredPercentage: number
+): EligibilityStatus => {
+  if (effectivePercentage >= requiredPercentage) return 'eligible';
+  if (policy.condonation && effectivePercentage >= policy.condonation.minimumPercentage) {
+    return 'condonable';
+  }
+  return 'ineligible';
+};
+
+/**
+ * Whether attended/total meets the required percentage after rounding
+ * (nothing counted yet is treated as meeting it)
+ */
+const meetsMinimum = (
+  policy: AttendancePolicy,
+  attended: number,
+  total: number,
+  requiredPercentage: number
+): boolean => {
+  if (total <= 0) return true;
+  return applyRounding((attended / total) * 100, policy.rounding) >= requiredPercentage;
+};
+
+/**
+ * Consecutive classes that must be attended to reach the minimum.
+ * Solves (attended + x) / (total + x) = required / 100, then corrects for rounding.
+ */
+const countClassesToAttend = (
+  policy: AttendancePolicy,
+  attended: number,
+  total: number,
+  required: number
+): number => {
+  if (meetsMinimum(policy, attended, total, required)) return 0;
+  if (required >= 100) return 0; // Unreachable once a class has been missed
+
+  let classes = Math.max(1, Math.ceil((required * total - 100 * attended) / (100 - required)));
+  while (classes > 1 && meetsMinimum(policy, attended + classes - 1, total + classes - 1, required)) {
+    classes--;
+  }
+  while (!meetsMinimum(policy, attended + classes, total + classes, required)) {
+    classes++;
+  }
+  return classes;
+};
+
+/**
+ * Consecutive classes that can be missed while staying at the minimum.
+ * Solves attended / (total + x) = required / 100, then corrects for rounding.
+ */
+const countClassesCanSkip = (
+  policy: AttendancePolicy,
+  attended: number,
+  total: number,
+  required: number
+): number => {
+  if (!meetsMinimum(policy, attended, total, required)) return 0;
+  if (required <= 0) return 0;
+
+  let classes = Math.max(0, Math.floor((100 * attended) / required - total));
+  while (classes > 0 && !meetsMinimum(policy, attended, total + classes, required)) {
+    classes--;
+  }
+  while (meetsMinimum(policy, attended, total + classes + 1, required)) {
+    classes++;
+  }
+  return classes;
+};
+
+/**
+ * Evaluate attendance against a policy. With remainingClasses the counts cover
+ * the rest of the semester (attend N of the remaining classes, skip the rest);
+ * otherwise they are the consecutive classes to attend or skip from now.
+ */
+export const evaluateAttendance = (
+  policy: AttendancePolicy,
+  input: PolicyAttendanceInput
+): PolicyEvaluation => {
+  const { attendedClasses, totalClasses, classId, remainingClasses } = input;
+  const requiredPercentage = getRequiredPercentage(policy, classId);
+  const effectivePercentage =
+    totalClasses > 0 ? applyRounding((attendedClasses / totalClasses) * 100, policy.rounding) : 0;
+  const status = totalClasses > 0
+    ? getEligibility(policy, effectivePercentage, requiredPercentage)
+    : 'eligible';
+
+  let classesToAttend: number;
+  let classesCanSkip: number;
+
+  if (remainingClasses !== undefined) {
+    const remaining = Math.max(0, remainingClasses);
+    const finalTotal = totalClasses + remaining;
+    let needed = 0;
+    while (needed < remaining && !meetsMinimum(policy, attendedClasses + needed, finalTotal, requiredPercentage)) {
+      needed++;
+    }
+    const isReachable = meetsMinimum(policy, attendedClasses + needed, finalTotal, requiredPercentage);
+    classesToAttend = needed;
+    classesCanSkip = isReachable ? remaining - needed : 0;
+  } else {
+    classesToAttend = countClassesToAttend(policy, attendedClasses, totalClasses, requiredPercentage);
+    classesCanSkip = countClassesCanSkip(policy, attendedClasses, totalClasses, requiredPercentage);
+  }
+
+  return {
+    requiredPercentage,
+    effectivePercentage,
+    status,
+    isCritical: totalClasses > 0 && effectivePercentage < requiredPercentage,
+    classesToAttend,
+    classesCanSkip,
+    condonationRequirement: status === 'condonable' ? policy.condonation?.requirement : undefined,
+  };
+};
+
+/**
+ * Evaluate an already computed percentage (e.g. overall performance) against a policy
+ */
+export const evaluatePercentage = (
+  policy: AttendancePolicy,
+  percentage: number,
+  classId?: string
+): EligibilityStatus => {
+  return getEligibility(
+    policy,
+    applyRounding(percentage, policy.rounding),
+    getRequiredPercentage(policy, classId)
+  );
+};
+
+/**
+ * Evaluate a student's overall standing: all subjects combined under an
+ * aggregate policy, or the weakest subject under a per-subject policy
+ */
+export const evaluateOverall = (
+  policy: AttendancePolicy,
+  subjects: PolicyAttendanceInput[]
+): PolicyEvaluation => {
+  if (policy.scope === 'aggregate' || subjects.length === 0) {
+    return evaluateAttendance(policy, {
+      attendedClasses: subjects.reduce((sum, s) => sum + s.attendedClasses, 0),
+      totalClasses: subjects.reduce((sum, s) => sum + s.totalClasses, 0),
+    });
+  }
+
+  const rank: Record<EligibilityStatus, number> = { eligible: 0, condonable: 1, ineligible: 2 };
+  const evaluations = subjects.map(subject => evaluateAttendance(policy, subject));
+  return evaluations.reduce((worst, evaluation) =>
+    rank[evaluation.status] > rank[worst.status] ||
+    (rank[evaluation.status] === rank[worst.status] &&
+      evaluation.effectivePercentage - evaluation.requiredPercentage <
+        worst.effectivePercentage - worst.requiredPercentage)
+      ? evaluation
+      : worst
+  );
+};
+
+/**
+ * Short description of a policy for pills and headers (e.g. "75% per subject, rounded")
+ */
+export const describePolicy = (policy: AttendancePolicy): string => {
+  const parts = [`${policy.minimumPercentage}% ${policy.scope === 'aggregate' ? 'overall' : 'per subject'}`];
+  if (policy.rounding !== 'none') parts.push('rounded');
+  if (policy.condonation) parts.push(`condonable from ${policy.condonation.minimumPercentage}%`);
+  return parts.join(', ');
+};
@@ -0,0 +1,280 @@
+/**
+ * Utility functions for counting attendance records
+ */
+
+import {
+  AbsenceReasonCategory,
+  AttendanceRecord,
+  AttendanceStatus,
+  AttendanceStreak,
+  ExcusedAttendancePolicy,
+  HeatmapDayStatus,
+  InitialAttendance,
+  SemesterHeatmapDay,
+  SessionTypeAttendance,
+} from '../../domain/model/Attendance';
+import { ClassCancellation, Schedule, SessionType } from '../../domain/model/Classroom';
+import { addDaysToDateKey, getAcademicToday, getAcademicYesterday } from './AcademicDateUtils';
+import { isDateWithinSemester } from './SemesterUtils';
+
+export const DEFAULT_EXCUSED_POLICY: ExcusedAttendancePolicy = 'exclude';
+
+export const ABSENCE_REASON_LABELS: Record<AbsenceReasonCategory, string> = {
+  sick: 'Sick',
+  travel: 'Travel',
+  event: 'Event',
+  overslept: 'Overslept',
+  other: 'Other',
+};
+
+export const ABSENCE_REASON_CATEGORIES = Object.keys(ABSENCE_REASON_LABELS) as AbsenceReasonCategory[];
+
+// All counts are in attendance units: a class counts for its session weight (1 by default)
+export interface AttendanceCounts {
+  totalClasses: number; // Classes that count toward the percentage
+  attendedClasses: number;
+  absentClasses: number;
+  excusedClasses: number; // All excused records, whatever the policy
+}
+
+// Raw number of records per status, before any policy is applied
+export interface AttendanceStatusTotals {
+  present: number;
+  absent: number;
+  excused: number;
+}
+
+/**
+ * Derive counted totals from raw status totals, applying the excused policy:
+ * 'exclude' leaves excused classes out of the denominator,
+ * 'count_as_present' counts them as attended
+ */
+export const countsFromStatusTotals = (
+  totals: AttendanceStatusTotals,
+  policy: ExcusedAttendancePolicy = DEFAULT_EXCUSED_POLICY
+): AttendanceCounts => {
+  if (policy === 'count_as_present') {
+    return {
+      totalClasses: totals.present + totals.absent + totals.excused,
+      attendedClasses: totals.present + totals.excused,
+      absentClasses: totals.absent,
+      excusedClasses: totals.excused,
+    };
+  }
+
+  return {
+    totalClasses: totals.present + totals.absent,
+    attendedClasses: totals.present,
+    absentClasses: totals.absent,
+    excusedClasses: totals.excused,
+  };
+};
+
+/**
+ * Count records into totals (weighted by session weight), applying the excused policy
+ */
+export const countAttendance = (
+  records: { status: AttendanceStatus; weight?: number }[],
+  policy: ExcusedAttendancePolicy = DEFAULT_EXCUSED_POLICY
+): AttendanceCounts => {
+  const totals: AttendanceStatusTotals = { present: 0, absent: 0, excused: 0 };
+  for (const record of records) {
+    totals[record.status] += record.weight || 1;
+  }
+  return countsFromStatusTotals(totals, policy);
+};
+
+/**
+ * Count records separately per session type (lab, tutorial, theory)
+ */
+export const countAttendanceBySessionType = (
+  records: { status: AttendanceStatus; weight?: number; sessionType?: SessionType }[],
+  policy: ExcusedAttendancePolicy = DEFAULT_EXCUSED_POLICY
+): SessionTypeAttendance[] => {
+  const sessionTypes = Array.from(new Set(records.map(r => r.sessionType || 'theory')));
+
+  return sessionTypes.map(sessionType => {
+    const counts = countAttendance(
+      records.filter(r => (r.sessionType || 'theory') === sessionType),
+      policy
+    );
+    return {
+      sessionType,
+      totalClasses: counts.totalClasses,
+      attendedClasses: counts.attendedClasses,
+      attendancePercentage: calculateAttendancePercentage(counts),
+    };
+  });
+};
+
+/**
+ * Move one record between status totals (previousStatus is null for a new record).
+ * The record counts for `weight` units, and `previousWeight` before the change.
+ * Returns null when a total would go negative, i.e. the totals had drifted.
+ */
+export const applyStatusChange = (
+  totals: AttendanceStatusTotals,
+  previousStatus: AttendanceStatus | null,
+  newStatus: AttendanceStatus,
+  weight: number = 1,
+  previousWeight: number = weight
+): AttendanceStatusTotals | null => {
+  const next = { ...totals };
+  if (previousStatus) {
+    next[previousStatus] -= previousWeight;
+  }
+  next[newStatus] += weight;
+
+  return next.present < 0 || next.absent < 0 || next.excused < 0 ? null : next;
+};
+
+/**
+ * Attendance percentage rounded to two decimals (0 when nothing is counted)
+ */
+export const calculateAttendancePercentage = (counts: AttendanceCounts): number => {
+  return counts.totalClasses > 0
+    ? Math.round((counts.attendedClasses / counts.totalClasses) * 10000) / 100
+    : 0;
+};
+
+/**
+ * Drop records of cancelled class instances so they don't count against anyone.
+ * Legacy per-day records (no start time) are dropped when their class was
+ * cancelled that day.
+ */
+export const excludeCancelledRecords = <T extends Pick<AttendanceRecord, 'classId' | 'date' | 'startTime'>>(
+  records: T[],
+  cancellations: ClassCancellation[]
+): T[] => {
+  if (cancellations.length === 0) return records;
+
+  return records.filter(record => !cancellations.some(cancellation =>
+    cancellation.status === 'confirmed' &&
+    cancellation.classId === record.classId &&
+    cancellation.date === record.date &&
+    (!record.startTime || cancellation.startTime === record.startTime)
+  ));
+};
+
+/**
+ * Check if a record (or portal baseline) belongs to a classroom's current semester.
+ * Tagged items must carry its id; untagged ones from before semesters were tracked
+ * count when dated inside it. Schedules without a semester keep everything.
+ */
+export const isInSemester = (
+  item: { semesterId?: string },
+  date: string,
+  semester?: Pick<Schedule, 'semesterId' | 'semesterStartDate' | 'semesterEndDate'> | null
+): boolean => {
+  if (!semester?.semesterId) return true;
+  if (item.semesterId) return item.semesterId === semester.semesterId;
+  return isDateWithinSemester(date, semester.semesterStartDate, semester.semesterEndDate);
+};
+
+/**
+ * Drop records the portal baseline already counts (dated on or before its as-of date)
+ */
+export const excludeBaselineRecords = <T extends Pick<AttendanceRecord, 'date'>>(
+  records: T[],
+  baseline?: Pick<InitialAttendance, 'asOfDate'> | null
+): T[] => {
+  if (!baseline) return records;
+  return records.filter(record => record.date > baseline.asOfDate);
+};
+
+/**
+ * Add a portal baseline to counts of app records. Portal classes count one unit
+ * each and are never excused, so the excused policy doesn't affect them.
+ */
+export const addBaselineCounts = (
+  counts: AttendanceCounts,
+  baseline?: Pick<InitialAttendance, 'conductedClasses' | 'attendedClasses'> | null
+): AttendanceCounts => {
+  if (!baseline) return counts;
+  return {
+    totalClasses: counts.totalClasses + baseline.conductedClasses,
+    attendedClasses: counts.attendedClasses + baseline.attendedClasses,
+    absentClasses: counts.absentClasses + baseline.conductedClasses - baseline.attendedClasses,
+    excusedClasses: counts.excusedClasses,
+  };
+};
+
+/**
+ * Build a user's streak from the dates (YYYY-MM-DD) they were present on.
+ * The current streak is only active when it reaches today or yesterday.
+ */
+export const buildAttendanceStreak = (userId: string, presentDates: string[]): AttendanceStreak => {
+  const dates = Array.from(new Set(presentDates)).sort();
+
+  let longestStreak = 0;
+  let runLength = 0;
+  let previousDate: string | null = null;
+
+  for (const date of dates) {
+    let isConsecutive = false;
+    if (previousDate) {
+      isConsecutive = addDaysToDateKey(previousDate, 1) === date;
+    }
+    runLength = isConsecutive ? runLength + 1 : 1;
+    longestStreak = Math.max(longestStreak, runLength);
+    previousDate = date;
+  }
+
+  const today = getAcademicToday();
+  const yesterday = getAcademicYesterday();
+  const lastCheckedDate = dates[dates.length - 1] || '';
+  const isStreakActive = lastCheckedDate === today || lastCheckedDate === yesterday;
+
+  return {
+    userId,
+    currentStreak: isStreakActive ? runLength : 0,
+    lastCheckedDate,
+    totalDaysMarked: dates.length,
+    longestStreak,
+    updatedAt: new Date().toISOString(),
+  };
+};
+
+/**
+ * Heatmap colour of a day from its counts. Excused classes count as attended,
+ * and a holiday stays a holiday unless something was marked on it.
+ */
+export const getHeatmapDayStatus = (
+  day: Omit<SemesterHeatmapDay, 'date' | 'status'>,
+  options: { isHoliday: boolean; isFuture: boolean }
+): HeatmapDayStatus => {
+  const attended = day.presentClasses + day.excusedClasses;
+  const marked = attended + day.absentClasses;
+
+  if (marked === 0) {
+    if (options.isHoliday) return 'holiday';
+    if (day.scheduledClasses === 0) return 'no-class';
+    return options.isFuture ? 'upcoming' : 'unmarked';
+  }
+  if (day.absentClasses === 0) return 'present';
+  return attended === 0 ? 'absent' : 'partial';
+};
+
+/**
+ * Whether enough was given to record a missed class: an absence needs a
+ * category or a note, approved leave always needs a description
+ */
+export const hasAbsenceReason = (
+  status: Exclude<AttendanceStatus, 'present'>,
+  category: AbsenceReasonCategory | null | undefined,
+  note: string
+): boolean => {
+  return !!note.trim() || (status === 'absent' && !!category);
+};
+
+/**
+ * Display text of an absence reason (e.g. "Sick: fever" or just "Travel")
+ */
+export const formatAbsenceReason = (
+  category: AbsenceReasonCategory | null | undefined,
+  note?: string
+): string => {
+  const trimmedNote = note?.trim();
+  if (!category) return trimmedNote || '';
+  return trimmedNote ? `${ABSENCE_REASON_LABELS[category]}: ${trimmedNote}` : ABSENCE_REASON_LABELS[category];
+};
@@ -0,0 +1,126 @@
+/**
+ * Utility functions for the "what-if" bunk planner
+ */
+
+import {
+  BunkPlannerData,
+  BunkSimulationResult,
+  SubjectBunkProjection,
+} from '../../domain/model/Attendance';
+import { ClassInstance } from '../../domain/model/Classroom';
+import { evaluateAttendance, evaluatePercentage, getDefaultPolicy } from './AttendancePolicyUtils';
+
+/**
+ * Sortable position of a class instance (date, then start time)
+ */
+const getInstanceOrder = (instance: ClassInstance): string => {
+  return `${instance.date}_${instance.startTime}`;
+};
+
+/**
+ * Attendance units of a set of class instances
+ */
+const sumWeights = (instances: ClassInstance[]): number => {
+  return instances.reduce((units, instance) => units + instance.weight, 0);
+};
+
+/**
+ * Attendance percentage rounded to two decimals (0 when nothing is counted)
+ */
+const toPercentage = (attended: number, total: number): number => {
+  if (total <= 0) return 0;
+  return Math.round((attended / total) * 10000) / 100;
+};
+
+/**
+ * Keys of every instance held on the given dates (skipping a whole day
+ * skips every subject scheduled on it)
+ */
+export const getInstanceKeysForDates = (
+  instances: ClassInstance[],
+  dates: string[]
+): string[] => {
+  const dateSet = new Set(dates);
+  return instances.filter(i => dateSet.has(i.date)).map(i => i.key);
+};
+
+/**
+ * Project every subject's attendance if the given class instances are skipped
+ * and all other remaining classes are attended
+ */
+export const simulateBunks = (
+  data: BunkPlannerData,
+  skippedKeys: Set<string>
+): BunkSimulationResult => {
+  const skippedInstances = data.upcomingInstances.filter(i => skippedKeys.has(i.key));
+
+  const projections: SubjectBunkProjection[] = data.subjects.map(summary => {
+    const subjectInstances = data.upcomingInstances.filter(
+      i => i.classId === summary.classId && i.classroomId === summary.classroomId
+    );
+    const subjectSkips = subjectInstances.filter(i => skippedKeys.has(i.key));
+    // Totals are in attendance units, so a skipped 3-hour lab counts as 3 skips
+    const plannedSkips = sumWeights(subjectSkips);
+    const remainingClasses = sumWeights(subjectInstances);
+
+    // Classes held up to (and including) the last planned skip
+    const lastSkipOrder = subjectSkips.reduce(
+      (latest, i) => (getInstanceOrder(i) > latest ? getInstanceOrder(i) : latest),
+      ''
+    );
+    const classesUntilLastSkip = lastSkipOrder
+      ? sumWeights(subjectInstances.filter(i => getInstanceOrder(i) <= lastSkipOrder))
+      : 0;
+
+    const afterSkipsTotal = summary.totalClassesSoFar + classesUntilLastSkip;
+    const afterSkipsAttended = summary.totalAttendedSoFar + classesUntilLastSkip - plannedSkips;
+    const finalTotal = summary.totalClassesSoFar + remainingClasses;
+    const finalAttended = summary.totalAttendedSoFar + remainingClasses - plannedSkips;
+
+    const required = summary.requiredAttendancePercentage;
+    const policy = data.policies?.[summary.classroomId] || getDefaultPolicy(required);
+    const projectedPercentageAfterSkips = toPercentage(afterSkipsAttended, afterSkipsTotal);
+    const projectedFinalPercentage = toPercentage(finalAttended, finalTotal);
+    const isBelowMinimum = (percentage: number) =>
+      evaluatePercentage(policy, percentage, summary.classId) !== 'eligible';
+
+    // Skips are already counted as held; everything left after them is still open
+    const { classesCanSkip: skipsLeftAfterPlan } = evaluateAttendance(policy, {
+      attendedClasses: summary.totalAttendedSoFar,
+      totalClasses: summary.totalClassesSoFar + plannedSkips,
+      classId: summary.classId,
+      remainingClasses: remainingClasses - plannedSkips,
+    });
+
+    return {
+      classId: summary.classId,
+      classroomId: summary.classroomId,
+      subject: summary.subject,
+      requiredAttendancePercentage: required,
+      currentAttendancePercentage: summary.currentAttendancePercentage,
+      remainingClasses,
+      plannedSkips,
+      projectedPercentageAfterSkips: plannedSkips > 0
+        ? projectedPercentageAfterSkips
+        : summary.currentAttendancePercentage,
+      projectedFinalPercentage,
+      skipsLeftAfterPlan,
+      fallsBelowTarget: plannedSkips > 0 && (
+        isBelowMinimum(projectedPercentageAfterSkips) || isBelowMinimum(projectedFinalPercentage)
+      ),
+    };
+  });
+
+  projections.sort((a, b) => {
+    if (a.fallsBelowTarget !== b.fallsBelowTarget) {
+      return a.fallsBelowTarget ? -1 : 1;
+    }
+    return a.subject.localeCompare(b.subject);
+  });
+
+  return {
+    projections,
+    skippedInstances,
+    subjectsBelowTarget: projections.filter(p => p.fallsBelowTarget).length,
+  };
+};
@@ -0,0 +1,88 @@
+/**
+ * Day-order timetables: which "Day N" a date falls on, counted over the
+ * classroom's working days from Day 1 or the latest announced override
+ */
+
+import { ClassSchedule, DayOrderSettings } from '../../domain/model/Classroom';
+import { addDaysToDateKey } from './AcademicDateUtils';
+import { isWorkingDay, WorkingDayCalendar } from './SemesterUtils';
+
+export const DEFAULT_DAY_ORDER_CYCLE = 6;
+
+export const DAY_ORDER_CYCLE_OPTIONS = [4, 5, 6, 7, 8];
+
+/**
+ * Timetable day name of a day order, e.g. "Day 3"
+ */
+export const getDayOrderName = (dayOrder: number): string => {
+  return `Day ${dayOrder}`;
+};
+
+/**
+ * All day names of a cycle, "Day 1" to "Day N"
+ */
+export const getDayOrderNames = (cycleLength: number): string[] => {
+  return Array.from({ length: cycleLength }, (_, i) => getDayOrderName(i + 1));
+};
+
+/**
+ * Day order of a timetable day name ("Day 3" → 3), or null for weekday names
+ */
+export const parseDayOrderName = (day: string): number | null => {
+  const match = /^Day (\d+)$/.exec(day);
+  return match ? Number(match[1]) : null;
+};
+
+/**
+ * Day order of a YYYY-MM-DD date, or null before Day 1 and on days off. An
+ * override on the date wins even on a day off; otherwise every working day
+ * after Day 1 (or after the latest override) moves the order on by one.
+ */
+export const getDayOrderForDate = (
+  settings: DayOrderSettings,
+  date: string,
+  calendar?: WorkingDayCalendar
+): number | null => {
+  if (date < settings.startDate) return null;
+
+  const overrides = settings.overrides || {};
+  if (overrides[date]) return overrides[date];
+  if (!isWorkingDay(new Date(date + 'T00:00:00'), calendar)) return null;
+
+  const anchor = Object.keys(overrides)
+    .filter(overrideDate => overrideDate >= settings.startDate && overrideDate < date)
+    .sort()
+    .pop();
+  const cycleLength = settings.cycleLength > 0 ? settings.cycleLength : DEFAULT_DAY_ORDER_CYCLE;
+
+  let dayOrder = anchor ? overrides[anchor] : 0;
+  for (let day = anchor ? addDaysToDateKey(anchor, 1) : settings.startDate; day <= date; day = addDaysToDateKey(day, 1)) {
+    if (isWorkingDay(new Date(day + 'T00:00:00'), calendar)) {
+      dayOrder = (dayOrder % cycleLength) + 1;
+    }
+  }
+  return dayOrder;
+};
+
+/**
+ * Move a weekday timetable onto day orders (Monday → Day 1 … Saturday → Day 6),
+ * or back to weekdays. Days without a counterpart in the cycle are dropped.
+ */
+export const convertTimetableDays = <T extends Pick<ClassSchedule, 'day'>>(
+  classes: T[],
+  toDayOrder: boolean,
+  cycleLength: number
+): T[] => {
+  const weekdays = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+  return classes.flatMap(cls => {
+    const dayOrder = parseDayOrderName(cls.day);
+    if (toDayOrder) {
+      if (dayOrder !== null) return [cls];
+      const index = weekdays.indexOf(cls.day);
+      return index >= 0 && index < cycleLength ? [{ ...cls, day: getDayOrderName(index + 1) }] : [];
+    }
+    if (dayOrder === null) return [cls];
+    return dayOrder <= weekdays.length ? [{ ...cls, day: weekdays[dayOrder - 1] }] : [];
+  });
+};
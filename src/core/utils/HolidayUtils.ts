@@ -0,0 +1,256 @@
+/**
+ * Holiday calendars: built-in national holidays per year, merging of the
+ * national, state and university calendars that apply to a classroom,
+ * and parsing of holiday lists imported from ICS or CSV files
+ */
+
+import { Holiday, HolidayCalendar, HolidayCalendarScope } from '../../domain/model/Holiday';
+import { addDaysToDateKey } from './AcademicDateUtils';
+
+// National holidays on the same date every year (MM-DD)
+const FIXED_NATIONAL_HOLIDAYS: { monthDay: string; name: string }[] = [
+  { monthDay: '01-26', name: 'Republic Day' },
+  { monthDay: '05-01', name: 'Labour Day' },
+  { monthDay: '08-15', name: 'Independence Day' },
+  { monthDay: '10-02', name: 'Gandhi Jayanti' },
+  { monthDay: '12-25', name: 'Christmas' },
+];
+
+// Gazetted festivals whose dates move every year. Years missing here only get
+// the fixed holidays until a national calendar is imported for them.
+const VARIABLE_NATIONAL_HOLIDAYS: Record<number, Holiday[]> = {
+  2025: [
+    { date: '2025-03-14', name: 'Holi' },
+    { date: '2025-03-31', name: 'Id-ul-Fitr' },
+    { date: '2025-04-06', name: 'Ram Navami' },
+    { date: '2025-04-10', name: 'Mahavir Jayanti' },
+    { date: '2025-04-18', name: 'Good Friday' },
+    { date: '2025-05-12', name: 'Buddha Purnima' },
+    { date: '2025-06-07', name: 'Id-ul-Zuha (Bakrid)' },
+    { date: '2025-07-06', name: 'Muharram' },
+    { date: '2025-08-16', name: 'Janmashtami' },
+    { date: '2025-09-05', name: 'Milad-un-Nabi' },
+    { date: '2025-10-20', name: 'Diwali' },
+    { date: '2025-11-05', name: 'Guru Nanak Jayanti' },
+  ],
+  2026: [
+    { date: '2026-03-04', name: 'Holi' },
+    { date: '2026-03-21', name: 'Id-ul-Fitr' },
+    { date: '2026-03-26', name: 'Ram Navami' },
+    { date: '2026-03-31', name: 'Mahavir Jayanti' },
+    { date: '2026-04-03', name: 'Good Friday' },
+    { date: '2026-05-01', name: 'Buddha Purnima' },
+    { date: '2026-05-27', name: 'Id-ul-Zuha (Bakrid)' },
+    { date: '2026-06-26', name: 'Muharram' },
+    { date: '2026-08-26', name: 'Milad-un-Nabi' },
+    { date: '2026-09-04', name: 'Janmashtami' },
+    { date: '2026-10-20', name: 'Dussehra' },
+    { date: '2026-11-08', name: 'Diwali' },
+    { date: '2026-11-24', name: 'Guru Nanak Jayanti' },
+  ],
+};
+
+const builtinDateCache = new Map<number, Set<string>>();
+
+/**
+ * Lowercased alphanumeric key of a state or university name, used in calendar ids
+ */
+export const getHolidayRegionKey = (region: string): string => {
+  return region.toLowerCase().replace(/[^a-z0-9]/g, '');
+};
+
+/**
+ * Id of the calendar of a scope, region and year
+ */
+export const getHolidayCalendarId = (
+  scope: HolidayCalendarScope,
+  year: number,
+  region?: string
+): string => {
+  return scope === 'national' ? `national_${year}` : `${scope}_${getHolidayRegionKey(region || '')}_${year}`;
+};
+
+/**
+ * National holidays shipped with the app for a year (fixed dates plus known festivals)
+ */
+export const getBuiltinNationalCalendar = (year: number): HolidayCalendar => {
+  const holidays = [
+    ...FIXED_NATIONAL_HOLIDAYS.map(({ monthDay, name }) => ({ date: `${year}-${monthDay}`, name })),
+    ...(VARIABLE_NATIONAL_HOLIDAYS[year] || []),
+  ].sort((a, b) => a.date.localeCompare(b.date));
+
+  return {
+    id: getHolidayCalendarId('national', year),
+    scope: 'national',
+    year,
+    holidays,
+    source: 'builtin',
+    updatedAt: '',
+  };
+};
+
+/**
+ * Dates (YYYY-MM-DD) of the built-in national holidays of a year
+ */
+export const getBuiltinHolidayDates = (year: number): ReadonlySet<string> => {
+  if (!builtinDateCache.has(year)) {
+    builtinDateCache.set(year, new Set(getBuiltinNationalCalendar(year).holidays.map(h => h.date)));
+  }
+  return builtinDateCache.get(year)!;
+};
+
+/**
+ * Dates (YYYY-MM-DD) that are a holiday in any of the given calendars
+ */
+export const toHolidayDateSet = (calendars: Pick<HolidayCalendar, 'holidays'>[]): Set<string> => {
+  return new Set(calendars.flatMap(calendar => calendar.holidays.map(holiday => holiday.date)));
+};
+
+/**
+ * Calendar years covered by a YYYY-MM-DD date range
+ */
+export const getYearsInRange = (startDate: string, endDate: string): number[] => {
+  const years: number[] = [];
+  for (let year = Number(startDate.slice(0, 4)); year <= Number(endDate.slice(0, 4)); year++) {
+    years.push(year);
+  }
+  return years;
+};
+
+/**
+ * Split imported holidays into one list per calendar year
+ */
+export const groupHolidaysByYear = (holidays: Holiday[]): Map<number, Holiday[]> => {
+  const byYear = new Map<number, Holiday[]>();
+  for (const holiday of holidays) {
+    const year = Number(holiday.date.slice(0, 4));
+    byYear.set(year, [...(byYear.get(year) || []), holiday]);
+  }
+  return byYear;
+};
+
+/**
+ * Sort holidays by date and drop repeated dates (the first name wins)
+ */
+const dedupeHolidays = (holidays: Holiday[]): Holiday[] => {
+  const byDate = new Map<string, Holiday>();
+  for (const holiday of holidays) {
+    if (!byDate.has(holiday.date)) byDate.set(holiday.date, holiday);
+  }
+  return Array.from(byDate.values()).sort((a, b) => a.date.localeCompare(b.date));
+};
+
+/**
+ * Normalise a date written as YYYY-MM-DD, YYYYMMDD, DD/MM/YYYY or DD-MM-YYYY
+ */
+const toDateKey = (value: string): string | null => {
+  const text = value.trim();
+  let match = text.match(/^(\d{4})-?(\d{2})-?(\d{2})/);
+  if (match) return `${match[1]}-${match[2]}-${match[3]}`;
+
+  match = text.match(/^(\d{1,2})[/-](\d{1,2})[/-](\d{4})$/);
+  if (match) return `${match[3]}-${match[2].padStart(2, '0')}-${match[1].padStart(2, '0')}`;
+
+  return null;
+};
+
+/**
+ * Parse the all-day events of an iCalendar (.ics) file into holidays.
+ * Multi-day events become one holiday per day (DTEND is exclusive).
+ */
+export const parseIcsHolidays = (content: string): Holiday[] => {
+  // Folded lines continue on the next line after a leading space or tab
+  const lines = content.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  const holidays: Holiday[] = [];
+  let event: { start?: string; end?: string; name?: string } | null = null;
+
+  for (const line of lines) {
+    if (line.startsWith('BEGIN:VEVENT')) {
+      event = {};
+      continue;
+    }
+    if (!event) continue;
+
+    if (line.startsWith('END:VEVENT')) {
+      if (event.start) {
+        const name = event.name || 'Holiday';
+        const lastDate = event.end && event.end > event.start ? addDaysToDateKey(event.end, -1) : event.start;
+        for (let date = event.start; date <= lastDate; date = addDaysToDateKey(date, 1)) {
+          holidays.push({ date, name });
+        }
+      }
+      event = null;
+      continue;
+    }
+
+    const separator = line.indexOf(':');
+    if (separator < 0) continue;
+    const property = line.slice(0, separator).split(';')[0].toUpperCase();
+    const value = line.slice(separator + 1);
+
+    if (property === 'DTSTART') event.start = toDateKey(value) || undefined;
+    else if (property === 'DTEND') event.end = toDateKey(value) || undefined;
+    else if (property === 'SUMMARY') {
+      event.name = value.replace(/\\n/gi, ' ').replace(/\\([,;\\])/g, '$1').trim();
+    }
+  }
+
+  return dedupeHolidays(holidays);
+};
+
+/**
+ * Split one CSV line, honouring double-quoted fields
+ */
+const splitCsvLine = (line: string): string[] => {
+  const fields: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') {
+      if (inQuotes && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else {
+        inQuotes = !inQuotes;
+      }
+    } else if (char === ',' && !inQuotes) {
+      fields.push(field.trim());
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field.trim());
+  return fields;
+};
+
+/**
+ * Parse a CSV holiday list. The first column holding a date is the date and the
+ * next non-empty column the name; a header row and unparseable rows are skipped.
+ */
+export const parseCsvHolidays = (content: string): Holiday[] => {
+  const holidays: Holiday[] = [];
+
+  for (const line of content.split(/\r?\n/)) {
+    if (!line.trim()) continue;
+    const fields = splitCsvLine(line);
+    const dateIndex = fields.findIndex(field => toDateKey(field) !== null);
+    if (dateIndex < 0) continue;
+
+    const name = fields.find((field, index) => index !== dateIndex && field) || 'Holiday';
+    holidays.push({ date: toDateKey(fields[dateIndex])!, name });
+  }
+
+  return dedupeHolidays(holidays);
+};
+
+/**
+ * Parse an imported holiday file, telling ICS from CSV by its contents
+ */
+export const parseHolidayFile = (content: string): { format: 'ics' | 'csv'; holidays: Holiday[] } => {
+  return content.includes('BEGIN:VCALENDAR') || content.includes('BEGIN:VEVENT')
+    ? { format: 'ics', holidays: parseIcsHolidays(content) }
+    : { format: 'csv', holidays: parseCsvHolidays(content) };
+};
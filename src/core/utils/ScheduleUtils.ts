@@ -0,0 +1,429 @@
+/**
+ * Utility functions for expanding weekly schedules into dated class instances
+ */
+
+import { AttendanceRecord } from '../../domain/model/Attendance';
+import {
+  ClassInstance,
+  ClassRecurrence,
+  ClassSchedule,
+  RecurrencePattern,
+  Schedule,
+  SessionType,
+  TimetableVersion,
+} from '../../domain/model/Classroom';
+import { addDaysToDateKey, getWeekdayIndex } from './AcademicDateUtils';
+import { getDayOrderForDate, getDayOrderName } from './DayOrderUtils';
+import { formatDateKey, isWorkingDay, parseDate, WorkingDayCalendar } from './SemesterUtils';
+
+export const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+export const DEFAULT_SESSION_TYPE: SessionType = 'theory';
+
+export const SESSION_TYPE_LABELS: Record<SessionType, string> = {
+  theory: 'Theory',
+  lab: 'Lab',
+  tutorial: 'Tutorial',
+};
+
+export const RECURRENCE_LABELS: Record<RecurrencePattern, string> = {
+  weekly: 'Every week',
+  odd_weeks: 'Odd weeks',
+  even_weeks: 'Even weeks',
+  every_n_weeks: 'Every N weeks',
+};
+
+/**
+ * Attendance units a class slot counts for (1 unless a positive weight is set)
+ */
+export const getSessionWeight = (slot: { weight?: number }): number => {
+  return slot.weight && slot.weight > 0 ? slot.weight : 1;
+};
+
+/**
+ * Get the weekday name (e.g. "Monday") for a YYYY-MM-DD date string
+ */
+export const getDayNameForDate = (date: string): string => {
+  return DAY_NAMES[getWeekdayIndex(date)];
+};
+
+/**
+ * The YYYY-MM-DD date teaching weeks count from: the semester start, or the
+ * day the schedule was created when it has no semester dates
+ */
+export const getTeachingWeekStart = (schedule: Pick<Schedule, 'semesterStartDate' | 'createdAt'>): string => {
+  const start = parseDate(schedule.semesterStartDate || '');
+  return start && !isNaN(start.getTime()) ? formatDateKey(start) : schedule.createdAt.slice(0, 10);
+};
+
+/**
+ * Teaching week of a YYYY-MM-DD date. Weeks run Monday to Sunday and the week
+ * holding weekStart is week 1 (earlier dates give 0 or less).
+ */
+export const getTeachingWeekNumber = (weekStart: string, date: string): number => {
+  const mondayOf = (dateKey: string) => addDaysToDateKey(dateKey, -((getWeekdayIndex(dateKey) + 6) % 7));
+  const days = (Date.parse(mondayOf(date) + 'T00:00:00Z') - Date.parse(mondayOf(weekStart) + 'T00:00:00Z')) / 86400000;
+  return Math.round(days / 7) + 1;
+};
+
+/**
+ * Whether a class slot meets in a teaching week under its recurrence rule
+ * (every week when it has none)
+ */
+export const meetsInWeek = (recurrence: ClassRecurrence | undefined, week: number): boolean => {
+  switch (recurrence?.pattern) {
+    case 'odd_weeks':
+      return Math.abs(week) % 2 === 1;
+    case 'even_weeks':
+      return week % 2 === 0;
+    case 'every_n_weeks': {
+      const interval = recurrence.interval && recurrence.interval > 0 ? recurrence.interval : 1;
+      const startWeek = recurrence.startWeek || 1;
+      return week >= startWeek && (week - startWeek) % interval === 0;
+    }
+    default:
+      return true;
+  }
+};
+
+/**
+ * Whether two recurring slots ever meet in the same week, e.g. odd and even
+ * week batches of the same lab never clash
+ */
+export const recurrencesOverlap = (a?: ClassRecurrence, b?: ClassRecurrence): boolean => {
+  const period = (recurrence?: ClassRecurrence) => {
+    if (recurrence?.pattern === 'every_n_weeks') return Math.max(1, recurrence.interval || 1);
+    return recurrence?.pattern === 'odd_weeks' || recurrence?.pattern === 'even_weeks' ? 2 : 1;
+  };
+  const firstWeek = Math.max(a?.startWeek || 1, b?.startWeek || 1);
+  const lastWeek = firstWeek + period(a) * period(b);
+
+  for (let week = firstWeek; week < lastWeek; week++) {
+    if (meetsInWeek(a, week) && meetsInWeek(b, week)) return true;
+  }
+  return false;
+};
+
+/**
+ * Short description of a recurrence, e.g. "Odd weeks" or "Every 3 weeks from week 2"
+ */
+export const describeRecurrence = (recurrence?: ClassRecurrence): string => {
+  if (recurrence?.pattern !== 'every_n_weeks') {
+    return RECURRENCE_LABELS[recurrence?.pattern || 'weekly'];
+  }
+  const interval = recurrence.interval && recurrence.interval > 0 ? recurrence.interval : 1;
+  const startWeek = recurrence.startWeek || 1;
+  return `Every ${interval} weeks${startWeek > 1 ? ` from week ${startWeek}` : ''}`;
+};
+
+/**
+ * Unique key of a class instance: class + date + start time
+ */
+export const getClassInstanceKey = (classId: string, date: string, startTime: string): string => {
+  return `${classId}_${date}_${startTime}`;
+};
+
+/**
+ * Build the Firestore document id for an attendance record.
+ * Records without a start time use the legacy per-day format.
+ */
+export const getAttendanceRecordId = (
+  userId: string,
+  classId: string,
+  date: string,
+  startTime?: string
+): string => {
+  if (!startTime) {
+    return `${userId}_${classId}_${date}`;
+  }
+  return `${userId}_${classId}_${date}_${startTime.replace(':', '')}`;
+};
+
+/**
+ * The weekly classes in force on a YYYY-MM-DD date: the latest timetable
+ * version effective by then. Dates before the first version use the earliest
+ * one, and schedules that were never versioned always use their classes.
+ */
+export const getTimetableForDate = (
+  schedule: Pick<Schedule, 'classes' | 'versions'>,
+  date: string
+): ClassSchedule[] => {
+  const versions = schedule.versions;
+  if (!versions || versions.length === 0) return schedule.classes;
+
+  let active = versions[0];
+  for (const version of versions) {
+    if (version.effectiveFrom <= date) active = version;
+  }
+  return active.classes;
+};
+
+/**
+ * Add a timetable version to a schedule's history, replacing any version
+ * effective the same day. Unversioned schedules first keep their current
+ * classes as the original version, effective from originalFrom.
+ */
+export const addTimetableVersion = (
+  schedule: Pick<Schedule, 'classes' | 'versions' | 'createdBy' | 'createdAt'>,
+  version: TimetableVersion,
+  originalFrom: string
+): TimetableVersion[] => {
+  const history: TimetableVersion[] = schedule.versions && schedule.versions.length > 0
+    ? schedule.versions
+    : [{
+        effectiveFrom: originalFrom,
+        classes: schedule.classes,
+        createdBy: schedule.createdBy,
+        createdAt: schedule.createdAt,
+      }];
+
+  return [...history.filter(v => v.effectiveFrom !== version.effectiveFrom), version]
+    .sort((a, b) => a.effectiveFrom.localeCompare(b.effectiveFrom));
+};
+
+/**
+ * Expand a classroom schedule into the class instances held on a date,
+ * including one-off extra classes, sorted by start time. Day-order classes
+ * ("Day 3") meet on the dates of their day order, counted over the classroom's
+ * working-day calendar (national holidays and a six-day week when missing).
+ */
+export const getClassInstancesForDate = (
+  schedule: Schedule,
+  date: string,
+  calendar?: WorkingDayCalendar
+): ClassInstance[] => {
+  const dayName = getDayNameForDate(date);
+  const dayOrder = schedule.dayOrder ? getDayOrderForDate(schedule.dayOrder, date, calendar) : null;
+  const dayOrderName = dayOrder ? getDayOrderName(dayOrder) : null;
+  const timetable = getTimetableForDate(schedule, date);
+  const week = getTeachingWeekNumber(getTeachingWeekStart(schedule), date);
+
+  const weeklyInstances: ClassInstance[] = timetable
+    .filter(cls => (cls.day === dayName || cls.day === dayOrderName) && meetsInWeek(cls.recurrence, week))
+    .map(cls => ({
+      key: getClassInstanceKey(cls.id, date, cls.startTime),
+      classId: cls.id,
+      classroomId: schedule.classroomId,
+      subject: cls.name,
+      instructor: cls.instructor,
+      location: cls.location,
+      date,
+      startTime: cls.startTime,
+      endTime: cls.endTime,
+      sessionType: cls.sessionType || DEFAULT_SESSION_TYPE,
+      weight: getSessionWeight(cls),
+      ...(schedule.semesterId ? { semesterId: schedule.semesterId } : {}),
+    }));
+
+  const extraInstances: ClassInstance[] = (schedule.extraClasses || [])
+    .filter(extra => extra.date === date)
+    .map(extra => {
+      // Extra classes take the session type and weight of the subject unless they set their own
+      const subjectSlot = timetable.find(cls => cls.id === extra.classId) ||
+        schedule.classes.find(cls => cls.id === extra.classId);
+      return {
+        key: getClassInstanceKey(extra.classId, date, extra.startTime),
+        classId: extra.classId,
+        classroomId: schedule.classroomId,
+        subject: extra.name,
+        instructor: extra.instructor,
+        location: extra.location,
+        date,
+        startTime: extra.startTime,
+        endTime: extra.endTime,
+        sessionType: extra.sessionType || subjectSlot?.sessionType || DEFAULT_SESSION_TYPE,
+        weight: getSessionWeight(extra.weight ? extra : subjectSlot || {}),
+        extraClassId: extra.id,
+        ...(schedule.semesterId ? { semesterId: schedule.semesterId } : {}),
+      };
+    });
+
+  return [...weeklyInstances, ...extraInstances]
+    .sort((a, b) => a.startTime.localeCompare(b.startTime));
+};
+
+/**
+ * The class instances actually held on a YYYY-MM-DD date. Sundays, holidays,
+ * Saturdays off and breaks without classes only keep extra classes; pass the
+ * classroom's working-day calendar, or the built-in national holidays and a
+ * six-day week are used.
+ */
+export const getHeldClassInstancesForDate = (
+  schedule: Schedule,
+  date: string,
+  calendar?: WorkingDayCalendar
+): ClassInstance[] => {
+  const dayInstances = getClassInstancesForDate(schedule, date, calendar);
+  // An announced day order runs classes even on a day that is otherwise off
+  const worked = isWorkingDay(new Date(date + 'T00:00:00'), calendar) || !!schedule.dayOrder?.overrides?.[date];
+  return worked ? dayInstances : dayInstances.filter(i => i.extraClassId);
+};
+
+/**
+ * Expand a classroom schedule into all class instances held between two
+ * YYYY-MM-DD dates (inclusive), over the classroom's working-day calendar
+ */
+export const getClassInstancesInRange = (
+  schedule: Schedule,
+  fromDate: string,
+  toDate: string,
+  calendar?: WorkingDayCalendar
+): ClassInstance[] => {
+  const instances: ClassInstance[] = [];
+  for (let date = fromDate; date <= toDate; date = addDaysToDateKey(date, 1)) {
+    instances.push(...getHeldClassInstancesForDate(schedule, date, calendar));
+  }
+  return instances;
+};
+
+/**
+ * Match attendance records to class instances (keyed by instance key).
+ * Legacy per-day records without a start time are attributed to the
+ * earliest instance of that class on that date.
+ */
+export const matchRecordsToInstances = <T extends Pick<AttendanceRecord, 'classId' | 'date' | 'startTime'>>(
+  instances: ClassInstance[],
+  records: T[]
+): Map<string, T> => {
+  const matched = new Map<string, T>();
+  const legacyRecords: T[] = [];
+
+  for (const record of records) {
+    if (record.startTime) {
+      matched.set(getClassInstanceKey(record.classId, record.date, record.startTime), record);
+    } else {
+      legacyRecords.push(record);
+    }
+  }
+
+  for (const record of legacyRecords) {
+    const instance = instances
+      .filter(i => i.classId === record.classId && i.date === record.date)
+      .sort((a, b) => a.startTime.localeCompare(b.startTime))
+      .find(i => !matched.has(i.key));
+    if (instance) {
+      matched.set(instance.key, record);
+    }
+  }
+
+  return matched;
+};
+
+/**
+ * The class instances held between two YYYY-MM-DD dates (inclusive) that have
+ * neither an attendance record nor a confirmed cancellation: the ones missed-class
+ * reconciliation marks absent or queues for review
+ */
+export const getUnmarkedClassInstances = (
+  schedule: Schedule,
+  fromDate: string,
+  toDate: string,
+  calendar: WorkingDayCalendar | undefined,
+  records: Pick<AttendanceRecord, 'classId' | 'date' | 'startTime'>[],
+  cancelledKeys: ReadonlySet<string> = new Set()
+): ClassInstance[] => {
+  const instances = getClassInstancesInRange(schedule, fromDate, toDate, calendar);
+  const marked = matchRecordsToInstances(instances, records);
+  return instances.filter(instance => !marked.has(instance.key) && !cancelledKeys.has(instance.key));
+};
+
+/**
+ * Project the class units each subject still has between two YYYY-MM-DD dates
+ * (inclusive): the schedule expanded over the classroom's working-day calendar,
+ * leaving out the instances in skipKeys (cancelled or already marked ones)
+ */
+export const projectRemainingClasses = (
+  schedule: Schedule,
+  fromDate: string,
+  toDate: string,
+  calendar?: WorkingDayCalendar,
+  skipKeys: ReadonlySet<string> = new Set()
+): Map<string, number> => {
+  const remaining = new Map<string, number>();
+  if (fromDate > toDate) return remaining;
+
+  for (const instance of getClassInstancesInRange(schedule, fromDate, toDate, calendar)) {
+    if (skipKeys.has(instance.key)) continue;
+    remaining.set(instance.classId, (remaining.get(instance.classId) || 0) + instance.weight);
+  }
+  return remaining;
+};
+
+/**
+ * Fill in the session type and weight of records saved before classes had them,
+ * from the matching class instance in the schedule (or the subject's first slot)
+ */
+export const resolveRecordSessions = <T extends Pick<AttendanceRecord, 'classId' | 'date' | 'startTime' | 'sessionType' | 'weight'>>(
+  records: T[],
+  schedule: Schedule | null
+): (T & { sessionType: SessionType; weight: number })[] => {
+  return records.map(record => {
+    if (record.sessionType && record.weight) {
+      return { ...record, sessionType: record.sessionType, weight: record.weight };
+    }
+
+    const instance = schedule
+      ? getClassInstancesForDate(schedule, record.date).find(
+          i => i.classId === record.classId && (!record.startTime || i.startTime === record.startTime)
+        )
+      : undefined;
+    const slot = instance ||
+      (schedule ? getTimetableForDate(schedule, record.date) : []).find(cls => cls.id === record.classId) ||
+      schedule?.classes.find(cls => cls.id === record.classId);
+
+    return {
+      ...record,
+      sessionType: record.sessionType || slot?.sessionType || DEFAULT_SESSION_TYPE,
+      weight: record.weight || getSessionWeight(slot || {}),
+    };
+  });
+};
+
+// What changed between two timetable versions, slot by slot
+export interface TimetableDiff {
+  added: ClassSchedule[];
+  removed: ClassSchedule[];
+  changed: { before: ClassSchedule; after: ClassSchedule; changes: string[] }[];
+}
+
+/**
+ * Compare two timetables by class slot id, describing each edited slot as
+ * short "old → new" lines (time, room, instructor, session...)
+ */
+export const diffTimetables = (before: ClassSchedule[], after: ClassSchedule[]): TimetableDiff => {
+  const beforeById = new Map(before.map(cls => [cls.id, cls]));
+  const afterIds = new Set(after.map(cls => cls.id));
+  const diff: TimetableDiff = {
+    added: [],
+    removed: before.filter(cls => !afterIds.has(cls.id)),
+    changed: [],
+  };
+
+  for (const cls of after) {
+    const previous = beforeById.get(cls.id);
+    if (!previous) {
+      diff.added.push(cls);
+      continue;
+    }
+
+    const changes: string[] = [];
+    const describe = (label: string, from: string, to: string) => {
+      if (from !== to) changes.push(`${label}: ${from || '—'} → ${to || '—'}`);
+    };
+    describe('Name', previous.name, cls.name);
+    describe('Time', `${previous.day} ${previous.startTime}-${previous.endTime}`, `${cls.day} ${cls.startTime}-${cls.endTime}`);
+    describe('Weeks', describeRecurrence(previous.recurrence), describeRecurrence(cls.recurrence));
+    describe('Room', previous.location, cls.location);
+    describe('Instructor', previous.instructor, cls.instructor);
+    describe(
+      'Session',
+      `${SESSION_TYPE_LABELS[previous.sessionType || DEFAULT_SESSION_TYPE]} ×${getSessionWeight(previous)}`,
+      `${SESSION_TYPE_LABELS[cls.sessionType || DEFAULT_SESSION_TYPE]} ×${getSessionWeight(cls)}`
+    );
+    if (changes.length > 0) {
+      diff.changed.push({ before: previous, after: cls, changes });
+    }
+  }
+
+  return diff;
+};
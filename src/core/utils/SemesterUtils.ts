@@ -2,27 +2,31 @@
  * Utility functions for semester calculations
  */
 
-// List of Indian National Holidays for 2025 (Format: MM-DD)
-const INDIAN_HOLIDAYS = [
-  // Fixed Date Holidays
-  '01-26', // Republic Day
-  '08-15', // Independence Day
-  '10-02', // Gandhi Jayanti
-  '12-25', // Christmas
-  '05-01', // Labour Day (May Day)
-  
-  // Variable Date Holidays for 2025 (these dates change each year)
-  '04-10', // Ram Navami (April 10, 2025)
-  '04-18', // Good Friday (April 18, 2025)
-  '10-31', // Diwali (October 31, 2025)
-  '03-14', // Holi (March 14, 2025)
-  '08-16', // Janmashtami (August 16, 2025)
-  
-  // Add more holidays as needed for your specific region
-];
+import { AcademicBlock } from '../../domain/model/AcademicCalendar';
+import { SaturdayRule, WorkingWeekRules } from '../../domain/model/Classroom';
+import { getClassFreeBlock } from './AcademicCalendarUtils';
+import { getBuiltinHolidayDates } from './HolidayUtils';
 
-// Note: Variable holidays like Diwali, Holi, Eid etc. would need to be calculated
-// or fetched from an API for accuracy. For now, we use only fixed-date holidays.
+/**
+ * What decides whether a day is a working day for a classroom: its holiday
+ * dates (built-in national holidays when missing), its working-week rules
+ * (every Saturday working when missing) and the blocks of its academic
+ * calendar that suspend classes
+ */
+export interface WorkingDayCalendar {
+  holidays?: ReadonlySet<string>;
+  workingWeek?: WorkingWeekRules | null;
+  blocks?: readonly Pick<AcademicBlock, 'startDate' | 'endDate' | 'classesRun'>[];
+}
+
+export const SATURDAY_RULE_LABELS: Record<SaturdayRule, string> = {
+  working: 'Every Saturday',
+  off: 'No Saturdays',
+  second_fourth_off: '2nd & 4th off',
+  first_third_off: '1st & 3rd off',
+  alternate_off: 'Alternate Saturdays',
+  half_day: 'Half days',
+};
 
 /**
  * Check if a date is a Sunday
@@ -32,21 +36,77 @@ export const isSunday = (date: Date): boolean => {
 };
 
 /**
- * Check if a date is an Indian holiday
+ * Check if a date is an Indian holiday: in the given holiday dates (the calendar
+ * of the user's classroom), or in the built-in national calendar when none are given
  */
-export const isIndianHoliday = (date: Date): boolean => {
-  const month = (date.getMonth() + 1).toString().padStart(2, '0');
-  const day = date.getDate().toString().padStart(2, '0');
-  const dateString = `${month}-${day}`;
-  
-  return INDIAN_HOLIDAYS.includes(dateString);
+export const isIndianHoliday = (date: Date, holidays?: ReadonlySet<string>): boolean => {
+  const dateKey = formatDateKey(date);
+  return (holidays || getBuiltinHolidayDates(date.getFullYear())).has(dateKey);
 };
 
 /**
- * Check if a date is a working day (not Sunday and not a holiday)
+ * How much of a Saturday is worked under a classroom's working-week rules
+ * (1 = full day, 0.5 = half day, 0 = off)
  */
-export const isWorkingDay = (date: Date): boolean => {
-  return !isSunday(date) && !isIndianHoliday(date);
+export const getSaturdayWorkValue = (date: Date, rules?: WorkingWeekRules | null): number => {
+  const weekOfMonth = Math.ceil(date.getDate() / 7);
+
+  switch (rules?.saturdays) {
+    case 'off':
+      return 0;
+    case 'second_fourth_off':
+      return weekOfMonth === 2 || weekOfMonth === 4 ? 0 : 1;
+    case 'first_third_off':
+      return weekOfMonth === 1 || weekOfMonth === 3 ? 0 : 1;
+    case 'alternate_off': {
+      const reference = rules.alternateOffFrom ? parseDate(rules.alternateOffFrom) : null;
+      if (!reference) return 1;
+      const weeksApart = Math.round((date.getTime() - reference.getTime()) / (7 * 86400000));
+      return weeksApart % 2 === 0 ? 0 : 1;
+    }
+    case 'half_day':
+      return 0.5;
+    default:
+      return 1;
+  }
+};
+
+/**
+ * How much of a date is worked: 0 on Sundays, holidays, Saturdays off and
+ * during exams or breaks without classes, 0.5 on half-day Saturdays, 1 otherwise
+ */
+export const getWorkingDayValue = (date: Date, calendar?: WorkingDayCalendar): number => {
+  if (isSunday(date) || isIndianHoliday(date, calendar?.holidays)) return 0;
+  if (getClassFreeBlock(calendar?.blocks, formatDateKey(date))) return 0;
+  return date.getDay() === 6 ? getSaturdayWorkValue(date, calendar?.workingWeek) : 1;
+};
+
+/**
+ * Check if a date is a working day (not Sunday, not a holiday, not a Saturday
+ * off and not in a break without classes)
+ */
+export const isWorkingDay = (date: Date, calendar?: WorkingDayCalendar): boolean => {
+  return getWorkingDayValue(date, calendar) > 0;
+};
+
+/**
+ * Short description of a classroom's working week, e.g. "Mon–Sat, 2nd & 4th Saturdays off"
+ */
+export const describeWorkingWeek = (rules?: WorkingWeekRules | null): string => {
+  switch (rules?.saturdays) {
+    case 'off':
+      return 'Mon–Fri';
+    case 'second_fourth_off':
+      return 'Mon–Sat, 2nd & 4th Saturdays off';
+    case 'first_third_off':
+      return 'Mon–Sat, 1st & 3rd Saturdays off';
+    case 'alternate_off':
+      return 'Mon–Sat, alternate Saturdays off';
+    case 'half_day':
+      return 'Mon–Sat, Saturday half day';
+    default:
+      return 'Mon–Sat';
+  }
 };
 
 /**
@@ -90,11 +150,47 @@ export const parseDate = (dateString: string): Date | null => {
 };
 
 /**
- * Calculate total working days in a semester (excluding Sundays and Indian holidays)
+ * Format a Date as a YYYY-MM-DD key using its local calendar day
+ */
+export const formatDateKey = (date: Date): string => {
+  const year = date.getFullYear();
+  const month = (date.getMonth() + 1).toString().padStart(2, '0');
+  const day = date.getDate().toString().padStart(2, '0');
+  return `${year}-${month}-${day}`;
+};
+
+/**
+ * Format a YYYY-MM-DD key as DD/MM/YYYY, the format semester dates are entered in
+ */
+export const formatSemesterDate = (dateKey: string): string => {
+  const [year, month, day] = dateKey.split('-');
+  return `${day}/${month}/${year}`;
+};
+
+/**
+ * Check if a YYYY-MM-DD date falls inside the semester (missing bounds are open)
+ */
+export const isDateWithinSemester = (
+  date: string,
+  semesterStartDate?: string,
+  semesterEndDate?: string
+): boolean => {
+  const start = semesterStartDate ? parseDate(semesterStartDate) : null;
+  const end = semesterEndDate ? parseDate(semesterEndDate) : null;
+
+  if (start && date < formatDateKey(start)) return false;
+  if (end && date > formatDateKey(end)) return false;
+  return true;
+};
+
+/**
+ * Calculate total working days in a semester (excluding Sundays, Indian holidays
+ * and Saturdays off; half-day Saturdays count as half a day)
  */
 export const calculateSemesterWorkingDays = (
   startDate: string | Date,
-  endDate: string | Date
+  endDate: string | Date,
+  calendar?: WorkingDayCalendar
 ): number => {
   let start: Date;
   let end: Date;
@@ -128,13 +224,14 @@ export const calculateSemesterWorkingDays = (
   
   // If start and end are the same day, check if it's a working day
   if (start.getTime() === end.getTime()) {
-    return isWorkingDay(start) ? 1 : 0;
+    return getWorkingDayValue(start, calendar);
   }
   
   let totalDays = 0;
   let workingDays = 0;
   let sundays = 0;
-  let holidays = 0;
+  let holidayCount = 0;
+  let saturdaysOff = 0;
   const currentDate = new Date(start);
   
   console.log('Calculating working days from', start.toDateString(), 'to', end.toDateString());
@@ -144,17 +241,19 @@ export const calculateSemesterWorkingDays = (
     
     if (isSunday(currentDate)) {
       sundays++;
-    } else if (isIndianHoliday(currentDate)) {
-      holidays++;
+    } else if (isIndianHoliday(currentDate, calendar?.holidays)) {
+      holidayCount++;
       console.log('Found holiday on:', currentDate.toDateString());
     } else {
-      workingDays++;
+      const value = getWorkingDayValue(currentDate, calendar);
+      if (value === 0) saturdaysOff++;
+      workingDays += value;
     }
     
     currentDate.setDate(currentDate.getDate() + 1);
   }
   
-  console.log(`Total calculation: ${totalDays} total days, ${sundays} Sundays, ${holidays} holidays, ${workingDays} working days`);
+  console.log(`Total calculation: ${totalDays} total days, ${sundays} Sundays, ${holidayCount} holidays, ${saturdaysOff} Saturdays off, ${workingDays} working days`);
   
   return workingDays;
 };
@@ -163,7 +262,8 @@ export const calculateSemesterWorkingDays = (
  * Calculate working days from start of semester to today
  */
 export const calculateElapsedWorkingDays = (
-  semesterStartDate: string | Date
+  semesterStartDate: string | Date,
+  calendar?: WorkingDayCalendar
 ): number => {
   const today = new Date();
   const startDate = typeof semesterStartDate === 'string' ? parseDate(semesterStartDate) : semesterStartDate;
@@ -178,14 +278,15 @@ export const calculateElapsedWorkingDays = (
     return 0;
   }
   
-  return calculateSemesterWorkingDays(startDate, today);
+  return calculateSemesterWorkingDays(startDate, today, calendar);
 };
 
 /**
  * Calculate remaining working days in semester
  */
 export const calculateRemainingWorkingDays = (
-  semesterEndDate: string | Date
+  semesterEndDate: string | Date,
+  calendar?: WorkingDayCalendar
 ): number => {
   const today = new Date();
   const endDate = typeof semesterEndDate === 'string' ? parseDate(semesterEndDate) : semesterEndDate;
@@ -200,7 +301,7 @@ export const calculateRemainingWorkingDays = (
     return 0;
   }
   
-  return calculateSemesterWorkingDays(today, endDate);
+  return calculateSemesterWorkingDays(today, endDate, calendar);
 };
 
 /**
@@ -208,21 +309,25 @@ export const calculateRemainingWorkingDays = (
  */
 export const calculateWorkingDaysBetween = (
   startDate: string | Date,
-  endDate: string | Date
+  endDate: string | Date,
+  calendar?: WorkingDayCalendar
 ): number => {
-  return calculateSemesterWorkingDays(startDate, endDate);
+  return calculateSemesterWorkingDays(startDate, endDate, calendar);
 };
 
 /**
  * Calculate attendance with pre-registration assumption
- * Assumes user attended target% before registration, actual attendance after
+ * Assumes user attended target% before registration (or the percentage their
+ * college portal showed, when they entered it), actual attendance after
  */
 export const calculateAttendanceWithPreRegistration = (
   semesterStartDate: string,
   semesterEndDate: string,
   userRegistrationDate: string,
   actualAttendedDays: number,
-  targetPercentage: number
+  targetPercentage: number,
+  preRegistrationPercentage: number = targetPercentage,
+  calendar?: WorkingDayCalendar
 ): {
   requiredDays: number;
   canSkipDays: number;
@@ -267,7 +372,7 @@ export const calculateAttendanceWithPreRegistration = (
   // Check if semester hasn't started yet
   if (registrationDate && semesterStart && today < semesterStart) {
     console.warn('⚠️ Semester has not started yet.');
-    const totalSemesterWorkingDays = calculateSemesterWorkingDays(semesterStartDate, semesterEndDate);
+    const totalSemesterWorkingDays = calculateSemesterWorkingDays(semesterStartDate, semesterEndDate, calendar);
     return {
       requiredDays: Math.ceil((targetPercentage / 100) * totalSemesterWorkingDays),
       canSkipDays: 0,
@@ -286,14 +391,14 @@ export const calculateAttendanceWithPreRegistration = (
   if (!registrationDate) {
     console.error('Invalid registration date, falling back to simple calculation');
     // Fallback to simple calculation without pre-registration assumption
-    const totalSemesterWorkingDays = calculateSemesterWorkingDays(semesterStartDate, semesterEndDate);
-    const elapsedWorkingDays = calculateElapsedWorkingDays(semesterStartDate);
-    const remainingWorkingDays = calculateRemainingWorkingDays(semesterEndDate);
+    const totalSemesterWorkingDays = calculateSemesterWorkingDays(semesterStartDate, semesterEndDate, calendar);
+    const elapsedWorkingDays = calculateElapsedWorkingDays(semesterStartDate, calendar);
+    const remainingWorkingDays = calculateRemainingWorkingDays(semesterEndDate, calendar);
     
     const targetDaysForSemester = Math.ceil((targetPercentage / 100) * totalSemesterWorkingDays);
     const currentPerformancePercentage = elapsedWorkingDays > 0 ? (actualAttendedDays / elapsedWorkingDays) * 100 : 0;
     const stillNeedToAttend = Math.max(0, targetDaysForSemester - actualAttendedDays);
-    const maxCanSkipInRemaining = Math.max(0, remainingWorkingDays - stillNeedToAttend);
+    const maxCanSkipInRemaining = Math.max(0, Math.floor(remainingWorkingDays - stillNeedToAttend));
     
     const currentRate = currentPerformancePercentage / 100;
     const projectedAttendanceInRemaining = remainingWorkingDays * currentRate;
@@ -317,18 +422,18 @@ export const calculateAttendanceWithPreRegistration = (
   }
   
   // Calculate periods
-  const totalSemesterWorkingDays = calculateSemesterWorkingDays(semesterStartDate, semesterEndDate);
-  const preRegistrationDays = calculateSemesterWorkingDays(semesterStartDate, registrationDate);
-  const postRegistrationDaysToToday = calculateSemesterWorkingDays(registrationDate, today);
-  const remainingDaysFromToday = calculateSemesterWorkingDays(today, semesterEndDate);
+  const totalSemesterWorkingDays = calculateSemesterWorkingDays(semesterStartDate, semesterEndDate, calendar);
+  const preRegistrationDays = calculateSemesterWorkingDays(semesterStartDate, registrationDate, calendar);
+  const postRegistrationDaysToToday = calculateSemesterWorkingDays(registrationDate, today, calendar);
+  const remainingDaysFromToday = calculateSemesterWorkingDays(today, semesterEndDate, calendar);
   
   console.log(`Pre-registration period: ${preRegistrationDays} working days`);
   console.log(`Post-registration to today: ${postRegistrationDaysToToday} working days`);
   console.log(`Remaining from today: ${remainingDaysFromToday} working days`);
   console.log(`Total semester: ${totalSemesterWorkingDays} working days`);
   
-  // Calculate assumed pre-registration attendance (80% of pre-registration days)
-  const assumedPreRegistrationAttendance = Math.round((targetPercentage / 100) * preRegistrationDays);
+  // Calculate assumed pre-registration attendance (portal or target % of pre-registration days)
+  const assumedPreRegistrationAttendance = Math.round((preRegistrationPercentage / 100) * preRegistrationDays);
   
   // Calculate post-registration performance
   const actualPostRegistrationPerformance = postRegistrationDaysToToday > 0 ? 
@@ -342,7 +447,7 @@ export const calculateAttendanceWithPreRegistration = (
   const currentPerformancePercentage = totalElapsedDays > 0 ? 
     (totalAttendedDays / totalElapsedDays) * 100 : 0;
   
-  console.log(`Assumed pre-registration attendance: ${assumedPreRegistrationAttendance} days (${targetPercentage}% of ${preRegistrationDays})`);
+  console.log(`Assumed pre-registration attendance: ${assumedPreRegistrationAttendance} days (${preRegistrationPercentage}% of ${preRegistrationDays})`);
   console.log(`Actual post-registration performance: ${actualAttendedDays}/${postRegistrationDaysToToday} = ${actualPostRegistrationPerformance.toFixed(2)}%`);
   console.log(`Combined performance: ${totalAttendedDays}/${totalElapsedDays} = ${currentPerformancePercentage.toFixed(2)}%`);
   
@@ -351,7 +456,8 @@ export const calculateAttendanceWithPreRegistration = (
   
   // Calculate requirements for remaining period
   const stillNeedToAttend = Math.max(0, targetDaysForSemester - totalAttendedDays);
-  const maxCanSkipInRemaining = Math.max(0, remainingDaysFromToday - stillNeedToAttend);
+  // Half-day Saturdays can leave half a day over, which can't be skipped on its own
+  const maxCanSkipInRemaining = Math.max(0, Math.floor(remainingDaysFromToday - stillNeedToAttend));
   
   // Project final percentage based on post-registration performance
   const projectedAttendanceInRemaining = remainingDaysFromToday * (actualPostRegistrationPerformance / 100);
@@ -461,10 +567,11 @@ export interface SemesterProgress {
 
 export const getSemesterProgress = (
   startDate: string | Date,
-  endDate: string | Date
+  endDate: string | Date,
+  calendar?: WorkingDayCalendar
 ): SemesterProgress => {
-  const totalWorkingDays = calculateSemesterWorkingDays(startDate, endDate);
-  const elapsedWorkingDays = calculateElapsedWorkingDays(startDate);
+  const totalWorkingDays = calculateSemesterWorkingDays(startDate, endDate, calendar);
+  const elapsedWorkingDays = calculateElapsedWorkingDays(startDate, calendar);
   
   // Ensure elapsed doesn't exceed total (due to edge cases)
   const adjustedElapsed = Math.min(elapsedWorkingDays, totalWorkingDays);
@@ -484,11 +591,11 @@ export const getSemesterProgress = (
 /**
  * Test function to verify calculations
  */
-export const testSemesterCalculation = (startDate: string, endDate: string) => {
+export const testSemesterCalculation = (startDate: string, endDate: string, calendar?: WorkingDayCalendar) => {
   console.log('\n=== SEMESTER CALCULATION TEST ===');
   console.log(`Period: ${startDate} to ${endDate}`);
   
-  const result = getSemesterProgress(startDate, endDate);
+  const result = getSemesterProgress(startDate, endDate, calendar);
   
   console.log('Semester Progress:');
   console.log(`- Total working days: ${result.totalWorkingDays}`);
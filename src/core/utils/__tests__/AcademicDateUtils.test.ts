@@ -0,0 +1,50 @@
+import {
+  ACADEMIC_DATE_KEYS_SINCE,
+  addDaysToDateKey,
+  getAcademicWeekdayName,
+  getWeekdayIndex,
+  isUtcKeyedDate,
+  toAcademicDateKey,
+} from '../AcademicDateUtils';
+
+const IST = 'Asia/Kolkata';
+
+describe('toAcademicDateKey', () => {
+  it('keys early-morning instants on the local day', () => {
+    // 01:00 IST on 3 March is still 2 March in UTC
+    expect(toAcademicDateKey('2026-03-02T19:30:00.000Z', IST)).toBe('2026-03-03');
+    expect(toAcademicDateKey('2026-03-02T19:30:00.000Z', 'UTC')).toBe('2026-03-02');
+  });
+});
+
+describe('addDaysToDateKey', () => {
+  it('crosses month and year ends', () => {
+    expect(addDaysToDateKey('2026-02-28', 1)).toBe('2026-03-01');
+    expect(addDaysToDateKey('2026-01-01', -1)).toBe('2025-12-31');
+  });
+});
+
+describe('weekdays', () => {
+  it('names the weekday of a date key', () => {
+    expect(getWeekdayIndex('2026-03-01')).toBe(0);
+    expect(getAcademicWeekdayName('2026-03-02')).toBe('Monday');
+  });
+});
+
+describe('isUtcKeyedDate', () => {
+  const markedAt = '2026-03-02T19:30:00.000Z';
+
+  it('spots records keyed with the UTC date of an early-morning mark', () => {
+    expect(isUtcKeyedDate('2026-03-02', markedAt, IST)).toBe(true);
+    expect(isUtcKeyedDate('2026-03-03', markedAt, IST)).toBe(false);
+  });
+
+  it('leaves records marked when both dates agree', () => {
+    expect(isUtcKeyedDate('2026-03-02', '2026-03-02T06:00:00.000Z', IST)).toBe(false);
+  });
+
+  it('leaves records marked since the fix', () => {
+    const afterFix = new Date(new Date(ACADEMIC_DATE_KEYS_SINCE).getTime() + 19.5 * 3600000).toISOString();
+    expect(isUtcKeyedDate(afterFix.split('T')[0], afterFix, IST)).toBe(false);
+  });
+});
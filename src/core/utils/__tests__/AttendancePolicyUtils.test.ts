@@ -0,0 +1,98 @@
+import { AttendancePolicy } from '../../../domain/model/Attendance';
+import {
+  applyRounding,
+  describePolicy,
+  evaluateAttendance,
+  evaluateOverall,
+  evaluatePercentage,
+  getDefaultPolicy,
+  getRequiredPercentage,
+} from '../AttendancePolicyUtils';
+
+const policy = (overrides: Partial<AttendancePolicy> = {}): AttendancePolicy => ({
+  ...getDefaultPolicy(75),
+  ...overrides,
+});
+
+describe('getRequiredPercentage', () => {
+  it('applies subject minimums only per subject', () => {
+    const subjectMinimums = { lab: 80 };
+    expect(getRequiredPercentage(policy({ subjectMinimums }), 'lab')).toBe(80);
+    expect(getRequiredPercentage(policy({ subjectMinimums }), 'algo')).toBe(75);
+    expect(getRequiredPercentage(policy({ scope: 'aggregate', subjectMinimums }), 'lab')).toBe(75);
+  });
+});
+
+describe('applyRounding', () => {
+  it('rounds the way the policy says', () => {
+    expect(applyRounding(74.456, 'none')).toBe(74.46);
+    expect(applyRounding(74.5, 'nearest')).toBe(75);
+    expect(applyRounding(74.1, 'up')).toBe(75);
+    expect(applyRounding(74.9, 'down')).toBe(74);
+  });
+
+  it('lets a rounded percentage reach the minimum', () => {
+    expect(evaluatePercentage(policy(), 74.5)).toBe('ineligible');
+    expect(evaluatePercentage(policy({ rounding: 'nearest' }), 74.5)).toBe('eligible');
+  });
+});
+
+describe('evaluateAttendance', () => {
+  it('counts the classes that can be skipped from now', () => {
+    expect(evaluateAttendance(policy(), { attendedClasses: 16, totalClasses: 20 }))
+      .toMatchObject({ status: 'eligible', isCritical: false, classesCanSkip: 1, classesToAttend: 0 });
+  });
+
+  it('counts the classes to attend in a row to recover', () => {
+    expect(evaluateAttendance(policy(), { attendedClasses: 12, totalClasses: 20 }))
+      .toMatchObject({ status: 'ineligible', isCritical: true, classesToAttend: 12, classesCanSkip: 0 });
+  });
+
+  it('treats a subject with nothing counted yet as eligible', () => {
+    expect(evaluateAttendance(policy(), { attendedClasses: 0, totalClasses: 0 }))
+      .toMatchObject({ status: 'eligible', effectivePercentage: 0, isCritical: false });
+  });
+
+  it('asks for the condonation requirement inside the condonation band', () => {
+    const condonable = policy({ condonation: { minimumPercentage: 65, requirement: 'Medical certificate' } });
+    expect(evaluateAttendance(condonable, { attendedClasses: 14, totalClasses: 20 })).toMatchObject({
+      status: 'condonable',
+      isCritical: true,
+      condonationRequirement: 'Medical certificate',
+    });
+  });
+
+  it('projects to the end of the semester when the remaining classes are known', () => {
+    expect(evaluateAttendance(policy(), { attendedClasses: 16, totalClasses: 20, remainingClasses: 10 }))
+      .toMatchObject({ classesToAttend: 7, classesCanSkip: 3 });
+    expect(evaluateAttendance(policy(), { attendedClasses: 12, totalClasses: 20, remainingClasses: 10 }))
+      .toMatchObject({ classesToAttend: 10, classesCanSkip: 0 });
+  });
+});
+
+describe('evaluateOverall', () => {
+  const subjects = [
+    { classId: 'algo', attendedClasses: 18, totalClasses: 20 },
+    { classId: 'lab', attendedClasses: 14, totalClasses: 20 },
+  ];
+
+  it('reports the weakest subject under a per-subject policy', () => {
+    expect(evaluateOverall(policy(), subjects)).toMatchObject({ status: 'ineligible', effectivePercentage: 70 });
+  });
+
+  it('combines every subject under an aggregate policy', () => {
+    expect(evaluateOverall(policy({ scope: 'aggregate' }), subjects))
+      .toMatchObject({ status: 'eligible', effectivePercentage: 80 });
+  });
+});
+
+describe('describePolicy', () => {
+  it('summarises the minimum, rounding and condonation', () => {
+    expect(describePolicy(policy())).toBe('75% per subject');
+    expect(describePolicy(policy({
+      scope: 'aggregate',
+      rounding: 'nearest',
+      condonation: { minimumPercentage: 65, requirement: 'Fee' },
+    }))).toBe('75% overall, rounded, condonable from 65%');
+  });
+});
@@ -0,0 +1,156 @@
+import { ClassCancellation } from '../../../domain/model/Classroom';
+import { addDaysToDateKey, getAcademicToday } from '../AcademicDateUtils';
+import {
+  addBaselineCounts,
+  applyStatusChange,
+  buildAttendanceStreak,
+  calculateAttendancePercentage,
+  countAttendance,
+  excludeBaselineRecords,
+  excludeCancelledRecords,
+  formatAbsenceReason,
+  getHeatmapDayStatus,
+  hasAbsenceReason,
+  isInSemester,
+} from '../AttendanceUtils';
+
+const cancellation = (overrides: Partial<ClassCancellation> = {}): ClassCancellation => ({
+  id: 'classroom-1_algo_2026-03-02_09:00',
+  classroomId: 'classroom-1',
+  classId: 'algo',
+  subject: 'Algorithms',
+  date: '2026-03-02',
+  startTime: '09:00',
+  instanceKey: 'algo_2026-03-02_09:00',
+  status: 'confirmed',
+  createdBy: 'u1',
+  votes: ['u1'],
+  requiredVotes: 1,
+  createdAt: '2026-03-02T10:00:00.000Z',
+  updatedAt: '2026-03-02T10:00:00.000Z',
+  ...overrides,
+});
+
+describe('countAttendance', () => {
+  const records = [
+    { status: 'present' as const, weight: 2 },
+    { status: 'absent' as const },
+    { status: 'excused' as const },
+  ];
+
+  it('leaves excused classes out by default', () => {
+    expect(countAttendance(records)).toEqual({ totalClasses: 3, attendedClasses: 2, absentClasses: 1, excusedClasses: 1 });
+  });
+
+  it('counts excused classes as attended when the policy says so', () => {
+    expect(countAttendance(records, 'count_as_present')).toMatchObject({ totalClasses: 4, attendedClasses: 3 });
+  });
+
+  it('rounds the percentage to two decimals', () => {
+    expect(calculateAttendancePercentage(countAttendance(records))).toBe(66.67);
+    expect(calculateAttendancePercentage(countAttendance([]))).toBe(0);
+  });
+});
+
+describe('applyStatusChange', () => {
+  it('moves a record between statuses with its weights', () => {
+    expect(applyStatusChange({ present: 2, absent: 1, excused: 0 }, 'absent', 'present', 2, 1))
+      .toEqual({ present: 4, absent: 0, excused: 0 });
+  });
+
+  it('reports drifted totals', () => {
+    expect(applyStatusChange({ present: 0, absent: 0, excused: 0 }, 'absent', 'present')).toBeNull();
+  });
+});
+
+describe('excludeCancelledRecords', () => {
+  it('drops records of confirmed cancellations only', () => {
+    const records = [
+      { classId: 'algo', date: '2026-03-02', startTime: '09:00' },
+      { classId: 'algo', date: '2026-03-02', startTime: '11:00' },
+    ];
+    expect(excludeCancelledRecords(records, [cancellation()])).toEqual([records[1]]);
+    expect(excludeCancelledRecords(records, [cancellation({ status: 'proposed' })])).toEqual(records);
+  });
+
+  it('drops legacy per-day records of a cancelled day', () => {
+    expect(excludeCancelledRecords([{ classId: 'algo', date: '2026-03-02' }], [cancellation()])).toEqual([]);
+  });
+});
+
+describe('isInSemester', () => {
+  const semester = { semesterId: 'sem-2', semesterStartDate: '01/03/2026', semesterEndDate: '30/06/2026' };
+
+  it('matches tagged records by semester', () => {
+    expect(isInSemester({ semesterId: 'sem-2' }, '2025-10-01', semester)).toBe(true);
+    expect(isInSemester({ semesterId: 'sem-1' }, '2026-03-02', semester)).toBe(false);
+  });
+
+  it('matches untagged records by date', () => {
+    expect(isInSemester({}, '2026-03-02', semester)).toBe(true);
+    expect(isInSemester({}, '2026-02-27', semester)).toBe(false);
+  });
+
+  it('keeps everything without a tracked semester', () => {
+    expect(isInSemester({ semesterId: 'sem-1' }, '2020-01-01', null)).toBe(true);
+  });
+});
+
+describe('portal baseline', () => {
+  const baseline = { conductedClasses: 10, attendedClasses: 8, asOfDate: '2026-03-15' };
+
+  it('drops records it already counts', () => {
+    expect(excludeBaselineRecords([{ date: '2026-03-15' }, { date: '2026-03-16' }], baseline))
+      .toEqual([{ date: '2026-03-16' }]);
+  });
+
+  it('adds its classes to the counts', () => {
+    expect(addBaselineCounts({ totalClasses: 2, attendedClasses: 1, absentClasses: 1, excusedClasses: 0 }, baseline))
+      .toEqual({ totalClasses: 12, attendedClasses: 9, absentClasses: 3, excusedClasses: 0 });
+  });
+});
+
+describe('buildAttendanceStreak', () => {
+  const today = getAcademicToday();
+
+  it('counts the current run up to today', () => {
+    const streak = buildAttendanceStreak('u1', [addDaysToDateKey(today, -1), today, addDaysToDateKey(today, -5), today]);
+    expect(streak).toMatchObject({ currentStreak: 2, longestStreak: 2, totalDaysMarked: 3, lastCheckedDate: today });
+  });
+
+  it('breaks the streak after a missed day', () => {
+    const streak = buildAttendanceStreak('u1', [addDaysToDateKey(today, -3), addDaysToDateKey(today, -2)]);
+    expect(streak).toMatchObject({ currentStreak: 0, longestStreak: 2 });
+  });
+});
+
+describe('getHeatmapDayStatus', () => {
+  const day = { scheduledClasses: 2, presentClasses: 0, absentClasses: 0, excusedClasses: 0, cancelledClasses: 0 };
+  const past = { isHoliday: false, isFuture: false };
+
+  it('colours marked days by what was attended', () => {
+    expect(getHeatmapDayStatus({ ...day, presentClasses: 1, excusedClasses: 1 }, past)).toBe('present');
+    expect(getHeatmapDayStatus({ ...day, presentClasses: 1, absentClasses: 1 }, past)).toBe('partial');
+    expect(getHeatmapDayStatus({ ...day, absentClasses: 2 }, past)).toBe('absent');
+  });
+
+  it('tells holidays, free days and unmarked days apart', () => {
+    expect(getHeatmapDayStatus(day, { isHoliday: true, isFuture: false })).toBe('holiday');
+    expect(getHeatmapDayStatus({ ...day, scheduledClasses: 0 }, past)).toBe('no-class');
+    expect(getHeatmapDayStatus(day, past)).toBe('unmarked');
+    expect(getHeatmapDayStatus(day, { isHoliday: false, isFuture: true })).toBe('upcoming');
+  });
+});
+
+describe('absence reasons', () => {
+  it('accepts a category alone only for absences', () => {
+    expect(hasAbsenceReason('absent', 'sick', '')).toBe(true);
+    expect(hasAbsenceReason('excused', 'sick', ' ')).toBe(false);
+    expect(hasAbsenceReason('excused', null, 'Hospital visit')).toBe(true);
+  });
+
+  it('formats the category and note', () => {
+    expect(formatAbsenceReason('sick', ' fever ')).toBe('Sick: fever');
+    expect(formatAbsenceReason(null, 'Bus strike')).toBe('Bus strike');
+  });
+});
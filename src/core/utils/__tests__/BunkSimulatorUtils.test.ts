@@ -0,0 +1,97 @@
+import { AttendanceSummary, BunkPlannerData } from '../../../domain/model/Attendance';
+import { ClassInstance } from '../../../domain/model/Classroom';
+import { getInstanceKeysForDates, simulateBunks } from '../BunkSimulatorUtils';
+
+const instance = (classId: string, date: string, weight: number = 1): ClassInstance => ({
+  key: `${classId}_${date}_09:00`,
+  classId,
+  classroomId: 'classroom-1',
+  subject: classId === 'algo' ? 'Algorithms' : 'Lab',
+  instructor: 'Dr. Rao',
+  location: 'LH-1',
+  date,
+  startTime: '09:00',
+  endTime: '10:00',
+  sessionType: weight > 1 ? 'lab' : 'theory',
+  weight,
+});
+
+const summary = (classId: string, subject: string, attended: number, total: number): AttendanceSummary => ({
+  classId,
+  classroomId: 'classroom-1',
+  subject,
+  instructor: 'Dr. Rao',
+  totalClassesSoFar: total,
+  totalAttendedSoFar: attended,
+  totalAbsences: total - attended,
+  totalExcused: 0,
+  currentAttendancePercentage: Math.round((attended / total) * 10000) / 100,
+  requiredAttendancePercentage: 75,
+  TotalClassesForSemester: 0,
+  remainingClasses: 0,
+  classesToAttend: 0,
+  classesCanSkip: 0,
+  isAttendanceCritical: false,
+});
+
+// Algorithms at 16/20 meets Monday to Thursday; the 3-unit lab at 9/10 meets on Monday
+const data: BunkPlannerData = {
+  subjects: [summary('algo', 'Algorithms', 16, 20), summary('lab', 'Lab', 9, 10)],
+  upcomingInstances: [
+    instance('algo', '2026-03-02'),
+    instance('lab', '2026-03-02', 3),
+    instance('algo', '2026-03-03'),
+    instance('algo', '2026-03-04'),
+    instance('algo', '2026-03-05'),
+  ],
+};
+
+const keys = (...list: string[]) => new Set(list);
+
+describe('getInstanceKeysForDates', () => {
+  it('skips every class of a skipped day', () => {
+    expect(getInstanceKeysForDates(data.upcomingInstances, ['2026-03-02']))
+      .toEqual(['algo_2026-03-02_09:00', 'lab_2026-03-02_09:00']);
+  });
+});
+
+describe('simulateBunks', () => {
+  const projectionOf = (skipped: Set<string>, classId: string) =>
+    simulateBunks(data, skipped).projections.find(p => p.classId === classId)!;
+
+  it('keeps subjects without planned skips at their current percentage', () => {
+    expect(projectionOf(keys(), 'lab')).toMatchObject({
+      plannedSkips: 0,
+      projectedPercentageAfterSkips: 90,
+      fallsBelowTarget: false,
+    });
+  });
+
+  it('warns when back-to-back skips dip below the minimum, even if the final percentage recovers', () => {
+    expect(projectionOf(keys('algo_2026-03-02_09:00', 'algo_2026-03-03_09:00'), 'algo')).toMatchObject({
+      plannedSkips: 2,
+      remainingClasses: 4,
+      projectedPercentageAfterSkips: 72.73,
+      projectedFinalPercentage: 75,
+      skipsLeftAfterPlan: 0,
+      fallsBelowTarget: true,
+    });
+  });
+
+  it('counts the skips still left after the plan', () => {
+    expect(projectionOf(keys('algo_2026-03-05_09:00'), 'algo')).toMatchObject({
+      projectedPercentageAfterSkips: 79.17,
+      skipsLeftAfterPlan: 1,
+      fallsBelowTarget: false,
+    });
+  });
+
+  it('counts a skipped lab for its weight and lists subjects below target first', () => {
+    const result = simulateBunks(data, new Set(getInstanceKeysForDates(data.upcomingInstances, ['2026-03-02'])));
+
+    expect(result.skippedInstances).toHaveLength(2);
+    expect(result.subjectsBelowTarget).toBe(1);
+    expect(result.projections.map(p => p.classId)).toEqual(['lab', 'algo']);
+    expect(result.projections[0]).toMatchObject({ plannedSkips: 3, projectedPercentageAfterSkips: 69.23 });
+  });
+});
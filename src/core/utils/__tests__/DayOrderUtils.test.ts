@@ -0,0 +1,73 @@
+import { DayOrderSettings } from '../../../domain/model/Classroom';
+import {
+  convertTimetableDays,
+  getDayOrderForDate,
+  getDayOrderNames,
+  parseDayOrderName,
+} from '../DayOrderUtils';
+import { WorkingDayCalendar } from '../SemesterUtils';
+
+// Day 1 on Monday 2 March 2026
+const settings = (overrides: Partial<DayOrderSettings> = {}): DayOrderSettings => ({
+  enabled: true,
+  cycleLength: 6,
+  startDate: '2026-03-02',
+  ...overrides,
+});
+
+describe('day names', () => {
+  it('lists Day 1 to Day N', () => {
+    expect(getDayOrderNames(4)).toEqual(['Day 1', 'Day 2', 'Day 3', 'Day 4']);
+  });
+
+  it('reads the day order back, and nothing from weekdays', () => {
+    expect(parseDayOrderName('Day 5')).toBe(5);
+    expect(parseDayOrderName('Monday')).toBeNull();
+  });
+});
+
+describe('getDayOrderForDate', () => {
+  const calendar: WorkingDayCalendar = { holidays: new Set(['2026-03-04']), workingWeek: { saturdays: 'off' } };
+
+  it('has no day order before Day 1', () => {
+    expect(getDayOrderForDate(settings(), '2026-03-01', calendar)).toBeNull();
+  });
+
+  it('moves on by one each working day', () => {
+    expect(getDayOrderForDate(settings(), '2026-03-02', calendar)).toBe(1);
+    expect(getDayOrderForDate(settings(), '2026-03-03', calendar)).toBe(2);
+  });
+
+  it('skips holidays and days off', () => {
+    expect(getDayOrderForDate(settings(), '2026-03-04', calendar)).toBeNull();
+    expect(getDayOrderForDate(settings(), '2026-03-05', calendar)).toBe(3);
+    expect(getDayOrderForDate(settings(), '2026-03-07', calendar)).toBeNull();
+    expect(getDayOrderForDate(settings(), '2026-03-09', calendar)).toBe(5);
+  });
+
+  it('wraps around at the end of the cycle', () => {
+    expect(getDayOrderForDate(settings({ cycleLength: 4 }), '2026-03-09', calendar)).toBe(1);
+  });
+
+  it('counts on from the latest announced day order', () => {
+    const announced = settings({ overrides: { '2026-03-05': 1 } });
+    expect(getDayOrderForDate(announced, '2026-03-05', calendar)).toBe(1);
+    expect(getDayOrderForDate(announced, '2026-03-06', calendar)).toBe(2);
+  });
+
+  it('runs an announced day order on a day off', () => {
+    expect(getDayOrderForDate(settings({ overrides: { '2026-03-07': 4 } }), '2026-03-07', calendar)).toBe(4);
+  });
+});
+
+describe('convertTimetableDays', () => {
+  it('moves weekdays onto day orders and drops days outside the cycle', () => {
+    const classes = [{ day: 'Monday' }, { day: 'Friday' }, { day: 'Saturday' }];
+    expect(convertTimetableDays(classes, true, 5).map(c => c.day)).toEqual(['Day 1', 'Day 5']);
+  });
+
+  it('moves day orders back onto weekdays', () => {
+    const classes = [{ day: 'Day 2' }, { day: 'Day 7' }];
+    expect(convertTimetableDays(classes, false, 7).map(c => c.day)).toEqual(['Tuesday']);
+  });
+});
@@ -0,0 +1,195 @@
+import { ClassSchedule, ExtraClass, Schedule } from '../../../domain/model/Classroom';
+import {
+  addTimetableVersion,
+  diffTimetables,
+  getAttendanceRecordId,
+  getClassInstancesForDate,
+  getClassInstancesInRange,
+  getHeldClassInstancesForDate,
+  getTeachingWeekNumber,
+  getTimetableForDate,
+  getUnmarkedClassInstances,
+  meetsInWeek,
+  recurrencesOverlap,
+} from '../ScheduleUtils';
+import { WorkingDayCalendar } from '../SemesterUtils';
+
+const slot = (overrides: Partial<ClassSchedule> = {}): ClassSchedule => ({
+  code: 'CS101',
+  subject: 'Algorithms',
+  id: 'algo',
+  name: 'Algorithms',
+  instructor: 'Dr. Rao',
+  day: 'Monday',
+  startTime: '09:00',
+  endTime: '10:00',
+  location: 'LH-1',
+  ...overrides,
+});
+
+const extra = (overrides: Partial<ExtraClass> = {}): ExtraClass => ({
+  id: 'extra-1',
+  classId: 'algo',
+  name: 'Algorithms',
+  instructor: 'Dr. Rao',
+  location: 'LH-1',
+  date: '2026-03-02',
+  startTime: '14:00',
+  endTime: '15:00',
+  kind: 'makeup',
+  createdBy: 'admin',
+  createdAt: '2026-02-01T00:00:00.000Z',
+  ...overrides,
+});
+
+const buildSchedule = (overrides: Partial<Schedule> = {}): Schedule => ({
+  id: 'schedule-1',
+  classroomId: 'classroom-1',
+  classes: [slot(), slot({ id: 'lab', name: 'Lab', day: 'Saturday', startTime: '10:00', endTime: '13:00' })],
+  semesterStartDate: '02/03/2026',
+  semesterEndDate: '30/06/2026',
+  createdBy: 'admin',
+  createdAt: '2026-02-01T00:00:00.000Z',
+  updatedAt: '2026-02-01T00:00:00.000Z',
+  ...overrides,
+});
+
+// Monday 2 March 2026 to Sunday 8 March 2026
+const MONDAY = '2026-03-02';
+const SATURDAY = '2026-03-07';
+
+describe('getHeldClassInstancesForDate', () => {
+  it('keeps the classes of a working day', () => {
+    const instances = getHeldClassInstancesForDate(buildSchedule(), MONDAY, { holidays: new Set() });
+    expect(instances.map(i => i.key)).toEqual(['algo_2026-03-02_09:00']);
+  });
+
+  it('drops weekly classes on a holiday but keeps extra classes', () => {
+    const schedule = buildSchedule({ extraClasses: [extra()] });
+    const calendar: WorkingDayCalendar = { holidays: new Set([MONDAY]) };
+
+    expect(getClassInstancesForDate(schedule, MONDAY, calendar)).toHaveLength(2);
+    expect(getHeldClassInstancesForDate(schedule, MONDAY, calendar).map(i => i.extraClassId)).toEqual(['extra-1']);
+  });
+
+  it('drops classes on a Saturday off', () => {
+    const calendar: WorkingDayCalendar = { holidays: new Set(), workingWeek: { saturdays: 'off' } };
+    expect(getHeldClassInstancesForDate(buildSchedule(), SATURDAY, calendar)).toEqual([]);
+    expect(getHeldClassInstancesForDate(buildSchedule(), SATURDAY, { holidays: new Set() })).toHaveLength(1);
+  });
+
+  it('drops classes during a break without classes', () => {
+    const calendar: WorkingDayCalendar = {
+      holidays: new Set(),
+      blocks: [{ startDate: '2026-03-01', endDate: '2026-03-03', classesRun: false }],
+    };
+    expect(getHeldClassInstancesForDate(buildSchedule(), MONDAY, calendar)).toEqual([]);
+  });
+
+  it('runs an announced day order on a day that is otherwise off', () => {
+    const schedule = buildSchedule({
+      classes: [slot({ day: 'Day 2' })],
+      dayOrder: { enabled: true, cycleLength: 6, startDate: MONDAY, overrides: { [SATURDAY]: 2 } },
+    });
+    const calendar: WorkingDayCalendar = { holidays: new Set(), workingWeek: { saturdays: 'off' } };
+    expect(getHeldClassInstancesForDate(schedule, SATURDAY, calendar)).toHaveLength(1);
+  });
+});
+
+describe('getClassInstancesInRange', () => {
+  it('expands only the days classes are held', () => {
+    const calendar: WorkingDayCalendar = { holidays: new Set([MONDAY]), workingWeek: { saturdays: 'off' } };
+    expect(getClassInstancesInRange(buildSchedule(), MONDAY, '2026-03-15', calendar).map(i => i.date))
+      .toEqual(['2026-03-09']);
+  });
+});
+
+describe('recurrence', () => {
+  it('numbers teaching weeks from the Monday of the start week', () => {
+    expect(getTeachingWeekNumber('2026-03-04', MONDAY)).toBe(1);
+    expect(getTeachingWeekNumber('2026-03-04', '2026-03-08')).toBe(1);
+    expect(getTeachingWeekNumber('2026-03-04', '2026-03-09')).toBe(2);
+  });
+
+  it('meets in the weeks of its pattern', () => {
+    expect(meetsInWeek(undefined, 2)).toBe(true);
+    expect(meetsInWeek({ pattern: 'odd_weeks' }, 3)).toBe(true);
+    expect(meetsInWeek({ pattern: 'even_weeks' }, 3)).toBe(false);
+    expect(meetsInWeek({ pattern: 'every_n_weeks', interval: 3, startWeek: 2 }, 5)).toBe(true);
+    expect(meetsInWeek({ pattern: 'every_n_weeks', interval: 3, startWeek: 2 }, 1)).toBe(false);
+  });
+
+  it('never clashes odd and even week batches', () => {
+    expect(recurrencesOverlap({ pattern: 'odd_weeks' }, { pattern: 'even_weeks' })).toBe(false);
+    expect(recurrencesOverlap({ pattern: 'odd_weeks' }, undefined)).toBe(true);
+  });
+
+  it('leaves out alternating classes in their off weeks', () => {
+    const schedule = buildSchedule({ classes: [slot({ recurrence: { pattern: 'even_weeks' } })] });
+    expect(getClassInstancesForDate(schedule, MONDAY)).toEqual([]);
+    expect(getClassInstancesForDate(schedule, '2026-03-09')).toHaveLength(1);
+  });
+});
+
+describe('timetable versions', () => {
+  const version = (effectiveFrom: string, classes: ClassSchedule[]) => ({
+    effectiveFrom,
+    classes,
+    createdBy: 'admin',
+    createdAt: '2026-03-10T00:00:00.000Z',
+  });
+
+  it('resolves the version in force on a date', () => {
+    const moved = slot({ day: 'Tuesday' });
+    const schedule = buildSchedule({ classes: [moved], versions: [version(MONDAY, [slot()]), version('2026-03-16', [moved])] });
+
+    expect(getTimetableForDate(schedule, '2026-03-09')[0].day).toBe('Monday');
+    expect(getTimetableForDate(schedule, '2026-03-16')[0].day).toBe('Tuesday');
+    expect(getTimetableForDate(schedule, '2026-02-01')[0].day).toBe('Monday');
+  });
+
+  it('keeps the original timetable when the first version is added', () => {
+    const versions = addTimetableVersion(buildSchedule(), version('2026-03-16', []), MONDAY);
+    expect(versions.map(v => v.effectiveFrom)).toEqual([MONDAY, '2026-03-16']);
+    expect(versions[0].classes).toHaveLength(2);
+  });
+
+  it('describes what changed between versions', () => {
+    const diff = diffTimetables([slot(), slot({ id: 'old' })], [slot({ location: 'LH-2' }), slot({ id: 'new' })]);
+    expect(diff.added.map(c => c.id)).toEqual(['new']);
+    expect(diff.removed.map(c => c.id)).toEqual(['old']);
+    expect(diff.changed[0].changes).toEqual(['Room: LH-1 → LH-2']);
+  });
+});
+
+describe('getAttendanceRecordId', () => {
+  it('keys records per class instance, and legacy records per day', () => {
+    expect(getAttendanceRecordId('u1', 'algo', MONDAY, '09:00')).toBe('u1_algo_2026-03-02_0900');
+    expect(getAttendanceRecordId('u1', 'algo', MONDAY)).toBe('u1_algo_2026-03-02');
+  });
+});
+
+describe('getUnmarkedClassInstances', () => {
+  const schedule = buildSchedule();
+
+  it('finds no missed classes on a holiday or a Saturday off', () => {
+    const calendar: WorkingDayCalendar = { holidays: new Set([MONDAY]), workingWeek: { saturdays: 'off' } };
+    expect(getUnmarkedClassInstances(schedule, MONDAY, '2026-03-08', calendar, [])).toEqual([]);
+  });
+
+  it('leaves out marked and cancelled classes', () => {
+    const calendar: WorkingDayCalendar = { holidays: new Set() };
+    const records = [{ classId: 'algo', date: MONDAY, startTime: '09:00' }];
+
+    expect(getUnmarkedClassInstances(schedule, MONDAY, '2026-03-08', calendar, records).map(i => i.key))
+      .toEqual(['lab_2026-03-07_10:00']);
+    expect(getUnmarkedClassInstances(schedule, MONDAY, '2026-03-08', calendar, records, new Set(['lab_2026-03-07_10:00'])))
+      .toEqual([]);
+  });
+
+  it('matches legacy per-day records to the first instance of the day', () => {
+    const twice = buildSchedule({ classes: [slot(), slot({ startTime: '11:00', endTime: '12:00' })] });
+    const unmarked = getUnmarkedClassInstances(twice, MONDAY, MONDAY, { holidays: new Set() }, [{ classId: 'algo', date: MONDAY }]);
+    expect(unmarked.map(i => i.startTime)).toEqual(['11:00']);
+  });
+});
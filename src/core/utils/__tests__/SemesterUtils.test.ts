@@ -0,0 +1,68 @@
+import {
+  describeWorkingWeek,
+  getSaturdayWorkValue,
+  getWorkingDayValue,
+  isWorkingDay,
+  parseDate,
+} from '../SemesterUtils';
+
+describe('parseDate', () => {
+  it('reads DD/MM/YYYY and DDMMYYYY dates', () => {
+    expect(parseDate('02/03/2026')).toEqual(new Date(2026, 2, 2));
+    expect(parseDate('02032026')).toEqual(new Date(2026, 2, 2));
+  });
+
+  it('returns null for an empty date', () => {
+    expect(parseDate('')).toBeNull();
+  });
+});
+
+describe('isWorkingDay', () => {
+  it('leaves out Sundays and national holidays', () => {
+    expect(isWorkingDay(new Date(2026, 2, 2))).toBe(true);
+    expect(isWorkingDay(new Date(2026, 2, 1))).toBe(false);
+    expect(isWorkingDay(new Date(2026, 0, 26))).toBe(false);
+  });
+
+  it('follows the classroom holidays and working week', () => {
+    expect(isWorkingDay(new Date(2026, 2, 2), { holidays: new Set(['2026-03-02']) })).toBe(false);
+    expect(isWorkingDay(new Date(2026, 2, 7), { workingWeek: { saturdays: 'off' } })).toBe(false);
+    expect(isWorkingDay(new Date(2026, 2, 7), { workingWeek: { saturdays: 'half_day' } })).toBe(true);
+  });
+});
+
+// The Saturdays of March 2026 fall on the 7th, 14th, 21st and 28th
+describe('getSaturdayWorkValue', () => {
+  const saturday = (day: number) => new Date(2026, 2, day);
+
+  it('works every Saturday without rules', () => {
+    expect(getSaturdayWorkValue(saturday(14))).toBe(1);
+  });
+
+  it('takes the 2nd and 4th, or the 1st and 3rd, Saturdays off', () => {
+    expect(getSaturdayWorkValue(saturday(14), { saturdays: 'second_fourth_off' })).toBe(0);
+    expect(getSaturdayWorkValue(saturday(21), { saturdays: 'second_fourth_off' })).toBe(1);
+    expect(getSaturdayWorkValue(saturday(7), { saturdays: 'first_third_off' })).toBe(0);
+    expect(getSaturdayWorkValue(saturday(28), { saturdays: 'first_third_off' })).toBe(1);
+  });
+
+  it('alternates from a Saturday that is off', () => {
+    const rules = { saturdays: 'alternate_off' as const, alternateOffFrom: '2026-03-07' };
+    expect([7, 14, 21].map(day => getSaturdayWorkValue(saturday(day), rules))).toEqual([0, 1, 0]);
+  });
+});
+
+describe('getWorkingDayValue', () => {
+  it('counts a Saturday half day as half a working day', () => {
+    expect(getWorkingDayValue(new Date(2026, 2, 7), { workingWeek: { saturdays: 'half_day' } })).toBe(0.5);
+    expect(getWorkingDayValue(new Date(2026, 2, 8), { workingWeek: { saturdays: 'half_day' } })).toBe(0);
+  });
+});
+
+describe('describeWorkingWeek', () => {
+  it('summarises the Saturday rule', () => {
+    expect(describeWorkingWeek()).toBe('Mon–Sat');
+    expect(describeWorkingWeek({ saturdays: 'off' })).toBe('Mon–Fri');
+    expect(describeWorkingWeek({ saturdays: 'second_fourth_off' })).toBe('Mon–Sat, 2nd & 4th Saturdays off');
+  });
+});
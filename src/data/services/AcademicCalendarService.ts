@@ -0,0 +1,138 @@
+import {
+    collection,
+    deleteDoc,
+    doc,
+    getDoc,
+    getDocs,
+    query,
+    setDoc,
+    where,
+} from "firebase/firestore";
+import { db } from "../../config/firebase";
+import { WorkingDayCalendar } from "../../core/utils/SemesterUtils";
+import { AcademicBlock, AcademicBlockInput } from "../../domain/model/AcademicCalendar";
+import { Classroom, Schedule } from "../../domain/model/Classroom";
+import { FirebaseClassroomService } from "./ClassroomService";
+import { FirebaseHolidayService } from "./HolidayService";
+
+export class FirebaseAcademicCalendarService {
+  private classroomService = new FirebaseClassroomService();
+  private holidayService = new FirebaseHolidayService();
+
+  // Get the academic calendar of a classroom, in date order
+  async getBlocks(classroomId: string): Promise<AcademicBlock[]> {
+    try {
+      const snapshot = await getDocs(
+        query(collection(db, "academicBlocks"), where("classroomId", "==", classroomId))
+      );
+      return snapshot.docs
+        .map(blockDoc => blockDoc.data() as AcademicBlock)
+        .sort((a, b) => a.startDate.localeCompare(b.startDate));
+    } catch (error) {
+      console.error("Error getting academic calendar:", error);
+      return [];
+    }
+  }
+
+  // Get the academic calendars of several classrooms, keyed by classroom id
+  async getBlocksForClassrooms(classroomIds: string[]): Promise<Map<string, AcademicBlock[]>> {
+    const calendars = await Promise.all(classroomIds.map(classroomId => this.getBlocks(classroomId)));
+    return new Map(classroomIds.map((classroomId, i) => [classroomId, calendars[i]]));
+  }
+
+  // Get the working-day calendar of a classroom between two dates: its holidays,
+  // working week and academic calendar. Day orders are counted from Day 1, so
+  // the holidays of a day-order schedule reach back to its start.
+  async getWorkingDayCalendar(
+    classroom: Pick<Classroom, "id" | "holidayState" | "university" | "workingWeek">,
+    schedule: Pick<Schedule, "dayOrder"> | null,
+    fromDate: string,
+    toDate: string
+  ): Promise<WorkingDayCalendar> {
+    const dayOrderStart = schedule?.dayOrder?.startDate;
+    const startDate = dayOrderStart && dayOrderStart < fromDate ? dayOrderStart : fromDate;
+    return {
+      holidays: await this.holidayService.getHolidayDatesForRange(classroom, startDate, toDate),
+      workingWeek: classroom.workingWeek,
+      blocks: await this.getBlocks(classroom.id),
+    };
+  }
+
+  // Get the calendar a schedule's day orders are counted on up to a date, or
+  // undefined for weekday schedules, which don't need one
+  async getDayOrderCalendar(
+    classroom: Pick<Classroom, "id" | "holidayState" | "university" | "workingWeek">,
+    schedule: Pick<Schedule, "dayOrder"> | null,
+    toDate: string
+  ): Promise<WorkingDayCalendar | undefined> {
+    if (!schedule?.dayOrder) return undefined;
+    return this.getWorkingDayCalendar(classroom, schedule, toDate, toDate);
+  }
+
+  // Add a block to a classroom's academic calendar (classroom admin only)
+  async addBlock(
+    userId: string,
+    classroomId: string,
+    input: AcademicBlockInput
+  ): Promise<{ success: boolean; block?: AcademicBlock; error?: string }> {
+    try {
+      const title = input.title.trim();
+      if (!title) {
+        return { success: false, error: "Please give the block a name" };
+      }
+      if (input.endDate < input.startDate) {
+        return { success: false, error: "The block must end on or after its start date" };
+      }
+
+      const classroom = await this.classroomService.getClassroom(classroomId);
+      if (!classroom) {
+        return { success: false, error: "Classroom not found" };
+      }
+      if (classroom.createdBy !== userId) {
+        return { success: false, error: "Only the classroom admin can edit the academic calendar" };
+      }
+
+      const blockRef = doc(collection(db, "academicBlocks"));
+      const block: AcademicBlock = {
+        id: blockRef.id,
+        classroomId,
+        type: input.type,
+        title,
+        startDate: input.startDate,
+        endDate: input.endDate,
+        classesRun: input.classesRun,
+        createdBy: userId,
+        createdAt: new Date().toISOString(),
+      };
+      await setDoc(blockRef, block);
+
+      console.log("✅ Academic block added:", block.id, `${block.startDate} → ${block.endDate}`);
+      return { success: true, block };
+    } catch (error) {
+      console.error("❌ Error adding academic block:", error);
+      return { success: false, error: "Failed to add to the academic calendar" };
+    }
+  }
+
+  // Remove a block from a classroom's academic calendar (classroom admin only)
+  async deleteBlock(userId: string, blockId: string): Promise<{ success: boolean; error?: string }> {
+    try {
+      const blockSnap = await getDoc(doc(db, "academicBlocks", blockId));
+      if (!blockSnap.exists()) {
+        return { success: true };
+      }
+
+      const classroom = await this.classroomService.getClassroom((blockSnap.data() as AcademicBlock).classroomId);
+      if (classroom?.createdBy !== userId) {
+        return { success: false, error: "Only the classroom admin can edit the academic calendar" };
+      }
+
+      await deleteDoc(blockSnap.ref);
+      console.log("✅ Academic block removed:", blockId);
+      return { success: true };
+    } catch (error) {
+      console.error("❌ Error removing academic block:", error);
+      return { success: false, error: "Failed to remove from the academic calendar" };
+    }
+  }
+}
@@ -0,0 +1,96 @@
+import {
+    collection,
+    doc,
+    getDocs,
+    query,
+    setDoc,
+    where,
+} from "firebase/firestore";
+import { db } from "../../config/firebase";
+import {
+    AttendanceChangeSource,
+    AttendanceHistoryEntry,
+    AttendanceRecord,
+    AttendanceStatus,
+} from "../../domain/model/Attendance";
+
+export class FirebaseAttendanceHistoryService {
+  // Build the history entry for a created or changed attendance record
+  // (written by recordChange, or by callers that batch their own writes)
+  createEntry(
+    record: Pick<AttendanceRecord, "id" | "userId" | "classroomId" | "classId" | "date" | "startTime" | "status" | "reason" | "reasonCategory" | "leaveType">,
+    previousStatus: AttendanceStatus | null,
+    source: AttendanceChangeSource,
+    changedBy: string = record.userId
+  ): AttendanceHistoryEntry {
+    const entryId = doc(collection(db, "attendanceHistory")).id;
+    const entry: AttendanceHistoryEntry = {
+      id: entryId,
+      recordId: record.id,
+      userId: record.userId,
+      classroomId: record.classroomId,
+      classId: record.classId,
+      date: record.date,
+      previousStatus,
+      newStatus: record.status,
+      source,
+      changedBy,
+      changedAt: new Date().toISOString(),
+    };
+
+    if (record.startTime) {
+      entry.startTime = record.startTime;
+    }
+    if (record.status !== "present" && record.reason) {
+      entry.reason = record.reason;
+    }
+    if (record.status === "absent" && record.reasonCategory) {
+      entry.reasonCategory = record.reasonCategory;
+    }
+    if (record.status === "excused" && record.leaveType) {
+      entry.leaveType = record.leaveType;
+    }
+
+    return entry;
+  }
+
+  // Append an immutable history entry for a created or changed attendance record
+  async recordChange(
+    record: Pick<AttendanceRecord, "id" | "userId" | "classroomId" | "classId" | "date" | "startTime" | "status" | "reason" | "reasonCategory" | "leaveType">,
+    previousStatus: AttendanceStatus | null,
+    source: AttendanceChangeSource,
+    changedBy: string = record.userId
+  ): Promise<{ success: boolean; error?: string }> {
+    try {
+      const entry = this.createEntry(record, previousStatus, source, changedBy);
+      await setDoc(doc(db, "attendanceHistory", entry.id), entry);
+      console.log("📝 Attendance history recorded:", record.id, previousStatus, "→", record.status, `(${source})`);
+      return { success: true };
+    } catch (error) {
+      console.error("❌ Error recording attendance history:", error);
+      return { success: false, error: "Failed to record attendance history" };
+    }
+  }
+
+  // Get the change history of one attendance record (under any of its ids), newest first
+  async getHistoryForRecord(
+    userId: string,
+    recordIds: string[]
+  ): Promise<AttendanceHistoryEntry[]> {
+    try {
+      const historyQuery = query(
+        collection(db, "attendanceHistory"),
+        where("userId", "==", userId),
+        where("recordId", "in", recordIds)
+      );
+      const historySnapshot = await getDocs(historyQuery);
+
+      return historySnapshot.docs
+        .map(doc => doc.data() as AttendanceHistoryEntry)
+        .sort((a, b) => b.changedAt.localeCompare(a.changedAt));
+    } catch (error) {
+      console.error("Error getting attendance history:", error);
+      return [];
+    }
+  }
+}
@@ -0,0 +1,384 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { doc, getDocFromServer } from "firebase/firestore";
+import { AppState, NativeEventSubscription } from "react-native";
+import { db } from "../../config/firebase";
+import { getAcademicToday } from "../../core/utils/AcademicDateUtils";
+import { getClassInstanceKey } from "../../core/utils/ScheduleUtils";
+import {
+    AbsenceReasonCategory,
+    AttendanceStatus,
+    AttendanceSyncResult,
+    ExcusedLeaveType,
+    PendingAttendanceChange,
+} from "../../domain/model/Attendance";
+import { FirebaseAttendanceService } from "./AttendanceService";
+
+const QUEUE_STORAGE_KEY = "@bunksafe_pending_attendance";
+
+// A single Firestore call is abandoned (and retried later) after this long
+const SYNC_TIMEOUT_MS = 15000;
+
+// Retry delay doubles with every failed attempt, from the base up to the max
+const RETRY_BASE_DELAY_MS = 30 * 1000;
+const RETRY_MAX_DELAY_MS = 10 * 60 * 1000;
+
+type QueuedChangeInput = Omit<PendingAttendanceChange, "id" | "queuedAt" | "attempts" | "lastError">;
+type SyncListener = (result: AttendanceSyncResult) => void;
+
+/**
+ * Durable local queue for attendance check-ins and edits.
+ * Changes are saved on the device first and pushed to Firestore when it is reachable.
+ */
+export class AttendanceQueueService {
+  private static instance: AttendanceQueueService;
+  private attendanceService = new FirebaseAttendanceService();
+  private isSyncing = false;
+  private appStateSubscription: NativeEventSubscription | null = null;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private listeners = new Set<SyncListener>();
+
+  static getInstance(): AttendanceQueueService {
+    if (!AttendanceQueueService.instance) {
+      AttendanceQueueService.instance = new AttendanceQueueService();
+    }
+    return AttendanceQueueService.instance;
+  }
+
+  private getChangeKey(change: Pick<PendingAttendanceChange, "userId" | "id">): string {
+    return `${change.userId}_${change.id}`;
+  }
+
+  private async readQueue(): Promise<PendingAttendanceChange[]> {
+    try {
+      const stored = await AsyncStorage.getItem(QUEUE_STORAGE_KEY);
+      return stored ? JSON.parse(stored) : [];
+    } catch (error) {
+      console.error("Error reading attendance queue:", error);
+      return [];
+    }
+  }
+
+  private async writeQueue(queue: PendingAttendanceChange[]): Promise<void> {
+    await AsyncStorage.setItem(QUEUE_STORAGE_KEY, JSON.stringify(queue));
+  }
+
+  private withTimeout<T>(promise: Promise<T>): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      const timer = setTimeout(() => reject(new Error("Request timed out")), SYNC_TIMEOUT_MS);
+      promise.then(
+        value => {
+          clearTimeout(timer);
+          resolve(value);
+        },
+        error => {
+          clearTimeout(timer);
+          reject(error);
+        }
+      );
+    });
+  }
+
+  // Save a change on the device. A newer change to the same class instance
+  // replaces the queued one, and a day change replaces every queued change of its date.
+  async enqueue(input: QueuedChangeInput): Promise<PendingAttendanceChange> {
+    const change: PendingAttendanceChange = {
+      ...input,
+      id: input.scope === "day" ? `day_${input.date}` : `${input.classId}_${input.date}_${input.startTime}`,
+      reason: input.status !== "present" ? input.reason : undefined,
+      reasonCategory: input.status === "absent" ? input.reasonCategory : undefined,
+      leaveType: input.status === "excused" ? input.leaveType : undefined,
+      queuedAt: new Date().toISOString(),
+      attempts: 0,
+    };
+
+    const queue = await this.readQueue();
+    const changeKey = this.getChangeKey(change);
+    const isReplaced = (c: PendingAttendanceChange) =>
+      this.getChangeKey(c) === changeKey ||
+      (change.scope === "day" && c.userId === change.userId && c.date === change.date);
+    await this.writeQueue([...queue.filter(c => !isReplaced(c)), change]);
+
+    console.log("📥 Attendance change queued:", change.id, change.status);
+    return change;
+  }
+
+  // Mark every class of a day (today or a past date) in one batch. Offline, the whole
+  // day is queued as a single change that sync replays with the same batch.
+  async markWholeDay(
+    userId: string,
+    date: string,
+    status: AttendanceStatus,
+    reason?: string,
+    leaveType?: ExcusedLeaveType,
+    reasonCategory?: AbsenceReasonCategory
+  ): Promise<{ success: boolean; markedCount?: number; isPending?: boolean; error?: string }> {
+    try {
+      if (date > getAcademicToday()) {
+        return { success: false, error: "Cannot mark attendance for a future date" };
+      }
+      // A category alone is enough for an absence; leave always needs a reason
+      if (status !== "present" && !reason?.trim() && !(status === "absent" && reasonCategory)) {
+        return { success: false, error: "Please provide a reason" };
+      }
+
+      const change = await this.enqueue({
+        scope: "day",
+        userId,
+        classroomId: "",
+        classId: "",
+        subject: "",
+        date,
+        startTime: "",
+        status,
+        reason: reason?.trim() || undefined,
+        reasonCategory,
+        leaveType,
+        source: "bulk",
+      });
+
+      const result = await this.sync(userId);
+      const changeKey = this.getChangeKey(change);
+      const conflict = result.conflicts.find(c => this.getChangeKey(c) === changeKey);
+      if (conflict) {
+        return { success: false, error: conflict.lastError || "Failed to mark attendance for the day" };
+      }
+      if (result.pending.some(c => this.getChangeKey(c) === changeKey)) {
+        return { success: true, isPending: true };
+      }
+
+      const synced = result.synced.find(c => this.getChangeKey(c) === changeKey);
+      return { success: true, markedCount: synced?.markedCount ?? 0 };
+    } catch (error) {
+      console.error("❌ Error marking whole day:", error);
+      return { success: false, error: "Failed to mark attendance for the day" };
+    }
+  }
+
+  // Get the changes of a user that have not reached Firestore yet
+  async getPendingChanges(userId: string): Promise<PendingAttendanceChange[]> {
+    const queue = await this.readQueue();
+    return queue.filter(change => change.userId === userId);
+  }
+
+  // Register a callback for finished sync passes; returns an unsubscribe function
+  subscribe(listener: SyncListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Cached reads succeed offline, so ask the server directly before syncing
+  private async isServerReachable(userId: string): Promise<boolean> {
+    try {
+      await this.withTimeout(getDocFromServer(doc(db, "users", userId)));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  // Decide what to do with a queued change given the record on the server.
+  // The local change wins unless the record was changed by hand after it was queued.
+  private async resolveAgainstServer(
+    change: PendingAttendanceChange
+  ): Promise<"apply" | "already-synced" | "conflict"> {
+    const record = await this.attendanceService.getAttendanceRecord(
+      change.userId,
+      change.classId,
+      change.date,
+      change.startTime
+    );
+    if (!record) return "apply";
+
+    // An earlier attempt may have reached the server before timing out
+    if (
+      record.status === change.status &&
+      (change.status === "present" ||
+        (record.reason === change.reason && record.reasonCategory === change.reasonCategory))
+    ) {
+      return "already-synced";
+    }
+
+    if ((record.updatedAt || record.markedAt) <= change.queuedAt) return "apply";
+
+    const [latestEntry] = await this.attendanceService.getAttendanceHistory(change.userId, record.id);
+    return latestEntry?.source === "auto-absent" ? "apply" : "conflict";
+  }
+
+  // Classes a queued day change must leave alone: those with a change queued after it,
+  // and those changed by hand on another device since it was queued
+  private async getKeptInstanceKeys(
+    dayChange: PendingAttendanceChange,
+    queue: PendingAttendanceChange[]
+  ): Promise<string[]> {
+    const keptKeys = queue
+      .filter(c => c.scope !== "day" && c.userId === dayChange.userId && c.date === dayChange.date)
+      .map(c => c.id);
+
+    const records = await this.attendanceService.getAttendanceRecordsForDate(dayChange.userId, dayChange.date);
+    for (const record of records) {
+      if (!record.startTime || (record.updatedAt || record.markedAt) <= dayChange.queuedAt) continue;
+
+      const [latestEntry] = await this.attendanceService.getAttendanceHistory(dayChange.userId, record.id);
+      if (latestEntry?.source !== "auto-absent") {
+        keptKeys.push(getClassInstanceKey(record.classId, record.date, record.startTime));
+      }
+    }
+    return keptKeys;
+  }
+
+  // Push queued changes of a user to Firestore
+  async sync(userId: string): Promise<AttendanceSyncResult> {
+    const result: AttendanceSyncResult = { synced: [], conflicts: [], pending: [] };
+
+    if (this.isSyncing) {
+      result.pending = await this.getPendingChanges(userId);
+      return result;
+    }
+
+    this.isSyncing = true;
+    try {
+      const changes = await this.getPendingChanges(userId);
+      if (changes.length === 0) return result;
+
+      const isReachable = await this.isServerReachable(userId);
+
+      for (const change of changes) {
+        if (!isReachable) {
+          result.pending.push({ ...change, attempts: change.attempts + 1, lastError: "Offline" });
+          continue;
+        }
+
+        try {
+          if (change.scope === "day") {
+            const keepInstanceKeys = await this.withTimeout(this.getKeptInstanceKeys(change, changes));
+            const response = await this.withTimeout(
+              this.attendanceService.markWholeDay(
+                change.userId,
+                change.date,
+                change.status,
+                change.reason,
+                change.leaveType,
+                change.reasonCategory,
+                keepInstanceKeys
+              )
+            );
+
+            if (!response.success) {
+              if (response.retryable) {
+                throw new Error(response.error);
+              }
+              result.conflicts.push({ ...change, lastError: response.error });
+              continue;
+            }
+
+            result.synced.push({ ...change, markedCount: response.markedCount });
+            continue;
+          }
+
+          const resolution = await this.withTimeout(this.resolveAgainstServer(change));
+          if (resolution === "conflict") {
+            result.conflicts.push({ ...change, lastError: "Changed on another device" });
+            continue;
+          }
+
+          if (resolution === "apply") {
+            const response = await this.withTimeout(
+              this.attendanceService.markAttendanceForDate(
+                change.userId,
+                change.classroomId,
+                change.classId,
+                change.date,
+                change.startTime,
+                change.status,
+                change.reason,
+                change.leaveType,
+                change.reasonCategory,
+                change.source
+              )
+            );
+
+            if (!response.success) {
+              if (response.retryable) {
+                throw new Error(response.error);
+              }
+              result.conflicts.push({ ...change, lastError: response.error });
+              continue;
+            }
+          }
+
+          result.synced.push(change);
+        } catch (error) {
+          const message = error instanceof Error ? error.message : "Sync failed";
+          result.pending.push({ ...change, attempts: change.attempts + 1, lastError: message });
+        }
+      }
+
+      // Re-read the queue so changes queued while syncing are kept
+      const processed = new Map(
+        [...result.synced, ...result.conflicts, ...result.pending].map(c => [this.getChangeKey(c), c])
+      );
+      const latestQueue = await this.readQueue();
+      const nextQueue = latestQueue.flatMap(change => {
+        const outcome = processed.get(this.getChangeKey(change));
+        if (!outcome || outcome.queuedAt !== change.queuedAt) return [change];
+        return result.pending.includes(outcome) ? [outcome] : [];
+      });
+      await this.writeQueue(nextQueue);
+
+      console.log(
+        `🔄 Attendance sync: ${result.synced.length} synced, ${result.conflicts.length} conflicts, ${result.pending.length} pending`
+      );
+    } catch (error) {
+      console.error("❌ Error syncing attendance queue:", error);
+    } finally {
+      this.isSyncing = false;
+    }
+
+    this.listeners.forEach(listener => listener(result));
+    this.scheduleRetry(userId, result.pending);
+    return result;
+  }
+
+  // Sync whenever the app comes to the foreground, and keep retrying while
+  // changes are pending
+  startAutoSync(userId: string): void {
+    this.stopAutoSync();
+
+    this.appStateSubscription = AppState.addEventListener("change", nextAppState => {
+      if (nextAppState === "active") {
+        this.sync(userId);
+      }
+    });
+
+    this.sync(userId);
+  }
+
+  stopAutoSync(): void {
+    this.appStateSubscription?.remove();
+    this.appStateSubscription = null;
+
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+  }
+
+  private scheduleRetry(userId: string, pending: PendingAttendanceChange[]): void {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+    if (pending.length === 0 || !this.appStateSubscription) return;
+
+    const attempts = Math.min(...pending.map(change => change.attempts));
+    const delay = Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** Math.max(0, attempts - 1));
+
+    console.log(`⏳ Retrying attendance sync in ${Math.round(delay / 1000)}s`);
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.sync(userId);
+    }, delay);
+  }
+}
@@ -1,156 +1,707 @@
 import {
     collection,
+    deleteDoc,
+    deleteField,
     doc,
     getDoc,
     getDocs,
     query,
+    runTransaction,
     setDoc,
     updateDoc,
     where,
+    writeBatch,
 } from "firebase/firestore";
 import { db } from "../../config/firebase";
-import { calculateAttendanceWithPreRegistration, testSemesterCalculation } from "../../core/utils/SemesterUtils";
+import { getUpcomingBlocks } from "../../core/utils/AcademicCalendarUtils";
 import {
+    ACADEMIC_DATE_KEYS_SINCE,
+    addDaysToDateKey,
+    getAcademicToday,
+    getAcademicYesterday,
+    isUtcKeyedDate,
+    toAcademicDateKey,
+} from "../../core/utils/AcademicDateUtils";
+import {
+    evaluateAttendance,
+    evaluateOverall,
+    evaluatePercentage,
+    getDefaultPolicy,
+} from "../../core/utils/AttendancePolicyUtils";
+import {
+    addBaselineCounts,
+    applyStatusChange,
+    buildAttendanceStreak,
+    calculateAttendancePercentage,
+    countAttendance,
+    countAttendanceBySessionType,
+    countsFromStatusTotals,
+    excludeBaselineRecords,
+    excludeCancelledRecords,
+    getHeatmapDayStatus,
+    isInSemester,
+} from "../../core/utils/AttendanceUtils";
+import {
+    getAttendanceRecordId,
+    getClassInstanceKey,
+    getClassInstancesInRange,
+    getHeldClassInstancesForDate,
+    getUnmarkedClassInstances,
+    matchRecordsToInstances,
+    projectRemainingClasses,
+    resolveRecordSessions,
+} from "../../core/utils/ScheduleUtils";
+import {
+    calculateAttendanceWithPreRegistration,
+    formatDateKey,
+    formatSemesterDate,
+    isDateWithinSemester,
+    isSunday,
+    isWorkingDay,
+    parseDate,
+    testSemesterCalculation,
+    WorkingDayCalendar,
+} from "../../core/utils/SemesterUtils";
+import {
+    AbsenceReasonCategory,
+    AcademicBlockBanner,
+    AttendanceChangeSource,
+    AttendanceHistoryEntry,
+    AttendancePolicy,
     AttendanceRecord,
+    AttendanceStatus,
     AttendanceStreak,
     AttendanceSummary,
+    BunkPlannerData,
+    ClassInstanceAttendance,
     DashboardData,
+    ExcusedAttendancePolicy,
+    ExcusedLeaveType,
+    InitialAttendance,
+    MissedClassHandling,
+    RecentAbsenceReason,
+    ReconciliationResult,
+    SemesterHeatmap,
+    SemesterHeatmapDay,
     SemesterInfo,
+    SubjectAttendanceStats,
     TodaysClass,
+    UnmarkedClassReview,
 } from "../../domain/model/Attendance";
+import { ClassInstance, Classroom, Schedule, SessionType } from "../../domain/model/Classroom";
+import { FirebaseAcademicCalendarService } from "./AcademicCalendarService";
+import { FirebaseAttendanceHistoryService } from "./AttendanceHistoryService";
+import { FirebaseCancellationService } from "./CancellationService";
+import { FirebaseInitialAttendanceService } from "./InitialAttendanceService";
 import { FirebaseClassroomService } from "./ClassroomService";
+import { FirebaseHolidayService } from "./HolidayService";
+import { FirebaseSemesterService } from "./SemesterService";
 import { FirebaseTaskService } from "./TaskService";
 import { FirebaseUserService } from "./UserService";
 
+// How far ahead the bunk planner looks when the semester end date is unknown
+const BUNK_PLANNER_FALLBACK_DAYS = 28;
+
+// Cached subject stats are rebuilt from raw records at least this often
+const STATS_VERIFY_INTERVAL_DAYS = 7;
+
 export class FirebaseAttendanceService {
   private classroomService = new FirebaseClassroomService();
   private userService = new FirebaseUserService();
   private taskService = new FirebaseTaskService();
-
-  // Mark attendance for a class
+  private cancellationService = new FirebaseCancellationService();
+  private historyService = new FirebaseAttendanceHistoryService();
+  private initialAttendanceService = new FirebaseInitialAttendanceService();
+  private holidayService = new FirebaseHolidayService();
+  private semesterService = new FirebaseSemesterService();
+  private academicCalendarService = new FirebaseAcademicCalendarService();
+  private isReconciling = false;
+
+  // Mark attendance for one of today's classes (its first session today when no
+  // start time is given)
   async markAttendance(
     userId: string,
     classroomId: string,
     classId: string,
-    status: "present" | "absent",
+    status: AttendanceStatus,
     reason?: string,
-    subject?: string
+    startTime?: string,
+    leaveType?: ExcusedLeaveType,
+    source: AttendanceChangeSource = "manual"
   ): Promise<{ success: boolean; error?: string }> {
-    try {
-      const today = new Date().toISOString().split("T")[0];
-      const attendanceId = `${userId}_${classId}_${today}`;
-      const now = new Date().toISOString();
+    return this.markAttendanceForDate(
+      userId, classroomId, classId, getAcademicToday(), startTime, status, reason, leaveType, undefined, source
+    );
+  }
 
-      // Fetch subject name if not provided
-      let subjectName = subject;
-      if (!subjectName) {
-        const schedule = await this.classroomService.getClassroomSchedule(classroomId);
-        const classInfo = schedule?.classes.find(c => c.id === classId);
-        subjectName = classInfo?.name || "Unknown Subject";
+  // Update attendance record
+  async updateAttendance(
+    userId: string,
+    classId: string,
+    date: string,
+    status: AttendanceStatus,
+    reason?: string,
+    startTime?: string,
+    leaveType?: ExcusedLeaveType,
+    source: AttendanceChangeSource = "manual"
+  ): Promise<{ success: boolean; error?: string }> {
+    try {
+      const attendanceSnap = await this.findAttendanceSnapshot(userId, classId, date, startTime);
+      if (!attendanceSnap) {
+        return { success: false, error: "Attendance record not found" };
       }
 
-      const attendanceRecord: AttendanceRecord = {
-        id: attendanceId,
-        userId,
-        classroomId,
-        classId,
-        subject: subjectName,
-        date: today,
+      const attendanceId = attendanceSnap.id;
+      const now = new Date().toISOString();
+
+      const updateData: any = {
         status,
-        markedAt: now,
         updatedAt: now,
+        leaveType: status === "excused" && leaveType ? leaveType : deleteField(),
       };
 
-      // Only add reason field if status is absent and reason is provided
-      if (status === "absent" && reason) {
-        attendanceRecord.reason = reason;
+      // Only add reason field if status is absent/excused and reason is provided
+      if (status !== "present" && reason) {
+        updateData.reason = reason;
       }
 
-      await setDoc(doc(db, "attendance", attendanceId), attendanceRecord);
-      console.log("✅ Attendance record saved:", attendanceId);
+      await updateDoc(doc(db, "attendance", attendanceId), updateData);
+      console.log("✅ Attendance record updated:", attendanceId, "status:", status);
+
+      const record = attendanceSnap.data() as AttendanceRecord;
+      await this.historyService.recordChange(
+        { ...record, id: attendanceId, status, reason: reason || record.reason, leaveType },
+        record.status,
+        source
+      );
 
       // Update attendance streak if present
       if (status === "present") {
-        console.log("📊 Status is present, updating streak...");
+        console.log("📊 Status changed to present, updating streak...");
         try {
           await this.updateAttendanceStreak(userId);
-          console.log("✅ Streak update completed");
+          console.log("✅ Streak update completed after status change");
         } catch (streakError) {
           console.error("❌ Streak update failed:", streakError);
           // Don't fail the entire operation if streak update fails
         }
       }
 
-      // Update cached attendance stats
-      await this.updateAttendanceStats(userId, classroomId, classId, status);
+      // Update cached attendance stats for the updated record
+      const { weight } = await this.resolveRecordSession(record);
+      await this.updateAttendanceStats(userId, record.classroomId, classId, record.status, status, record, weight);
 
       return { success: true };
     } catch (error) {
-      console.error("❌ Error marking attendance:", error);
-      return { success: false, error: "Failed to mark attendance" };
+      console.error("❌ Error updating attendance:", error);
+      return { success: false, error: "Failed to update attendance" };
     }
   }
 
-  // Update attendance record
-  async updateAttendance(
+  // Mark or correct attendance for a class instance on today or any past date of the
+  // semester. Without a start time the class's first session that day is meant.
+  async markAttendanceForDate(
     userId: string,
+    classroomId: string,
     classId: string,
     date: string,
-    status: "present" | "absent",
-    reason?: string
-  ): Promise<{ success: boolean; error?: string }> {
+    startTime: string | undefined,
+    status: AttendanceStatus,
+    reason?: string,
+    leaveType?: ExcusedLeaveType,
+    reasonCategory?: AbsenceReasonCategory,
+    source: AttendanceChangeSource = "manual"
+  ): Promise<{ success: boolean; error?: string; retryable?: boolean }> {
     try {
-      const attendanceId = `${userId}_${classId}_${date}`;
+      const today = getAcademicToday();
+      if (date > today) {
+        return { success: false, error: "Cannot mark attendance for a future date" };
+      }
+
+      // The class instance must exist in the classroom schedule on that date
+      const schedule = await this.classroomService.getClassroomSchedule(classroomId);
+      if (!schedule) {
+        return { success: false, error: "Classroom schedule not found" };
+      }
+      if (!isDateWithinSemester(date, schedule.semesterStartDate, schedule.semesterEndDate)) {
+        return { success: false, error: "Date is outside the semester" };
+      }
+      const classroom = await this.classroomService.getClassroom(classroomId);
+      if (!classroom) {
+        return { success: false, error: "Classroom not found" };
+      }
+      const instance = (await this.getHeldClassInstances(classroom, schedule, date)).find(
+        i => i.classId === classId && (!startTime || i.startTime === startTime)
+      );
+      if (!instance) {
+        return { success: false, error: "This class is not scheduled on that day" };
+      }
+      if (await this.isInstanceCancelled(classroomId, classId, date, instance.startTime)) {
+        return { success: false, error: "This class was cancelled" };
+      }
+
       const now = new Date().toISOString();
+      const existingSnap = await this.findAttendanceSnapshot(userId, classId, date, instance.startTime);
+      const previousStatus = existingSnap ? (existingSnap.data() as AttendanceRecord).status : null;
+      let previousWeight = instance.weight;
+
+      if (existingSnap) {
+        previousWeight = (await this.resolveRecordSession(existingSnap.data() as AttendanceRecord)).weight;
+        const updateData: any = {
+          status,
+          sessionType: instance.sessionType,
+          weight: instance.weight,
+          updatedAt: now,
+          reason: status !== "present" && reason ? reason : deleteField(),
+          reasonCategory: status === "absent" && reasonCategory ? reasonCategory : deleteField(),
+          leaveType: status === "excused" && leaveType ? leaveType : deleteField(),
+        };
+        await updateDoc(existingSnap.ref, updateData);
+        console.log("✅ Past attendance record updated:", existingSnap.id);
+
+        const existing = existingSnap.data() as AttendanceRecord;
+        await this.historyService.recordChange(
+          { ...existing, id: existingSnap.id, status, reason, reasonCategory, leaveType },
+          existing.status,
+          source
+        );
+      } else {
+        const attendanceId = getAttendanceRecordId(userId, classId, date, instance.startTime);
+        const attendanceRecord: AttendanceRecord = {
+          id: attendanceId,
+          userId,
+          classroomId,
+          classId,
+          subject: instance.subject,
+          date,
+          startTime: instance.startTime,
+          status,
+          sessionType: instance.sessionType,
+          weight: instance.weight,
+          markedAt: now,
+          updatedAt: now,
+        };
 
-      const updateData: any = {
-        status,
-        updatedAt: now,
-      };
+        if (status !== "present" && reason) {
+          attendanceRecord.reason = reason;
+        }
 
-      // Only add reason field if status is absent and reason is provided
-      if (status === "absent" && reason) {
-        updateData.reason = reason;
+        if (status === "absent" && reasonCategory) {
+          attendanceRecord.reasonCategory = reasonCategory;
+        }
+
+        if (status === "excused" && leaveType) {
+          attendanceRecord.leaveType = leaveType;
+        }
+
+        if (instance.semesterId) {
+          attendanceRecord.semesterId = instance.semesterId;
+        }
+
+        await setDoc(doc(db, "attendance", attendanceId), attendanceRecord);
+        console.log("✅ Past attendance record saved:", attendanceId);
+        await this.historyService.recordChange(attendanceRecord, null, source);
       }
 
-      await updateDoc(doc(db, "attendance", attendanceId), updateData);
-      console.log("✅ Attendance record updated:", attendanceId, "status:", status);
+      // Rebuild totals and streak since a past day changed
+      await this.updateAttendanceStats(
+        userId, classroomId, classId, previousStatus, status,
+        existingSnap ? (existingSnap.data() as AttendanceRecord) : instance,
+        instance.weight, previousWeight
+      );
+      await this.recalculateAttendanceStreak(userId);
 
-      // Update attendance streak if present
+      return { success: true };
+    } catch (error) {
+      console.error("❌ Error marking past attendance:", error);
+      return { success: false, error: "Failed to mark attendance", retryable: true };
+    }
+  }
+
+  // Mark every class of a day (today or a past date) with one status and reason.
+  // Records, history, subject stats and the streak are written in a single batch.
+  // Classes listed in keepInstanceKeys (changed later elsewhere) are left as they are.
+  async markWholeDay(
+    userId: string,
+    date: string,
+    status: AttendanceStatus,
+    reason?: string,
+    leaveType?: ExcusedLeaveType,
+    reasonCategory?: AbsenceReasonCategory,
+    keepInstanceKeys: string[] = []
+  ): Promise<{ success: boolean; markedCount?: number; error?: string; retryable?: boolean }> {
+    try {
+      if (date > getAcademicToday()) {
+        return { success: false, error: "Cannot mark attendance for a future date" };
+      }
+      // A category alone is enough for an absence; leave always needs a reason
+      if (status !== "present" && !reason?.trim() && !(status === "absent" && reasonCategory)) {
+        return { success: false, error: "Please provide a reason" };
+      }
+
+      const entries = (await this.getAttendanceForDate(userId, date)).filter(
+        entry => entry.cancellation?.status !== "confirmed"
+      );
+      if (entries.length === 0) {
+        return { success: false, error: "No classes to mark on this day" };
+      }
+
+      const batch = writeBatch(db);
+      const now = new Date().toISOString();
+      // Records written by this batch, grouped by subject stats doc
+      const recordsByStats = new Map<string, { classroomId: string; classId: string; records: AttendanceRecord[] }>();
+      const changedRecordIds = new Set<string>();
+
+      for (const { instance, record } of entries) {
+        if (keepInstanceKeys.includes(instance.key)) continue;
+
+        const recordId = record?.id || getAttendanceRecordId(userId, instance.classId, date, instance.startTime);
+        const attendanceRecord: AttendanceRecord = {
+          id: recordId,
+          userId,
+          classroomId: instance.classroomId,
+          classId: instance.classId,
+          subject: instance.subject,
+          date,
+          startTime: instance.startTime,
+          status,
+          sessionType: instance.sessionType,
+          weight: instance.weight,
+          markedAt: record?.markedAt || now,
+          updatedAt: now,
+        };
+
+        if (status !== "present" && reason?.trim()) {
+          attendanceRecord.reason = reason.trim();
+        }
+        if (status === "absent" && reasonCategory) {
+          attendanceRecord.reasonCategory = reasonCategory;
+        }
+        if (status === "excused" && leaveType) {
+          attendanceRecord.leaveType = leaveType;
+        }
+        if (record?.semesterId || instance.semesterId) {
+          attendanceRecord.semesterId = record?.semesterId || instance.semesterId;
+        }
+        if (record?.movedFromId) {
+          attendanceRecord.movedFromId = record.movedFromId;
+        }
+
+        batch.set(doc(db, "attendance", recordId), attendanceRecord);
+
+        const entry = this.historyService.createEntry(attendanceRecord, record?.status ?? null, "bulk");
+        batch.set(doc(db, "attendanceHistory", entry.id), entry);
+
+        const statsId = `${userId}_${instance.classroomId}_${instance.classId}`;
+        if (!recordsByStats.has(statsId)) {
+          recordsByStats.set(statsId, { classroomId: instance.classroomId, classId: instance.classId, records: [] });
+        }
+        recordsByStats.get(statsId)!.records.push(attendanceRecord);
+        changedRecordIds.add(recordId);
+      }
+
+      if (changedRecordIds.size === 0) {
+        return { success: true, markedCount: 0 };
+      }
+
+      // Recount each affected subject from its raw records with this batch applied
+      for (const { classroomId, classId, records } of recordsByStats.values()) {
+        const { statsRef, exists, data } = await this.buildAttendanceStatsWrite(
+          userId, classroomId, classId, { date, status }, records
+        );
+        if (exists) {
+          batch.update(statsRef, data);
+        } else {
+          batch.set(statsRef, data);
+        }
+      }
+
+      // Rebuild the streak from present days with this batch applied
+      const presentSnapshot = await getDocs(query(
+        collection(db, "attendance"),
+        where("userId", "==", userId),
+        where("status", "==", "present")
+      ));
+      const presentDates = presentSnapshot.docs
+        .filter(doc => !changedRecordIds.has(doc.id))
+        .map(doc => (doc.data() as AttendanceRecord).date);
       if (status === "present") {
-        console.log("📊 Status changed to present, updating streak...");
-        try {
-          await this.updateAttendanceStreak(userId);
-          console.log("✅ Streak update completed after status change");
-        } catch (streakError) {
-          console.error("❌ Streak update failed:", streakError);
-          // Don't fail the entire operation if streak update fails
+        presentDates.push(date);
+      }
+      batch.set(doc(db, "attendanceStreaks", userId), buildAttendanceStreak(userId, presentDates));
+
+      await batch.commit();
+      console.log(`✅ Marked ${changedRecordIds.size} classes ${status} for ${date}`);
+
+      return { success: true, markedCount: changedRecordIds.size };
+    } catch (error) {
+      console.error("❌ Error marking whole day:", error);
+      return { success: false, error: "Failed to mark attendance for the day", retryable: true };
+    }
+  }
+
+  // Class instances a classroom holds on a date, over its holidays, working week and
+  // academic calendar (only extra classes run on days off)
+  private async getHeldClassInstances(
+    classroom: Classroom,
+    schedule: Schedule,
+    date: string
+  ): Promise<ClassInstance[]> {
+    const calendar = await this.academicCalendarService.getWorkingDayCalendar(classroom, schedule, date, date);
+    return getHeldClassInstancesForDate(schedule, date, calendar);
+  }
+
+  // Session type and weight of a record, resolved from its class slot for older records
+  private async resolveRecordSession(
+    record: AttendanceRecord
+  ): Promise<{ sessionType: SessionType; weight: number }> {
+    const schedule = record.sessionType && record.weight
+      ? null
+      : await this.classroomService.getClassroomSchedule(record.classroomId);
+    const [resolved] = resolveRecordSessions([record], schedule);
+    return { sessionType: resolved.sessionType, weight: resolved.weight };
+  }
+
+  // Get the change history of an attendance record, newest first. A record moved by
+  // the date-key migration keeps its earlier entries under its old id.
+  async getAttendanceHistory(userId: string, recordId: string): Promise<AttendanceHistoryEntry[]> {
+    try {
+      const recordSnap = await getDoc(doc(db, "attendance", recordId));
+      const movedFromId = recordSnap.exists() ? (recordSnap.data() as AttendanceRecord).movedFromId : undefined;
+      return this.historyService.getHistoryForRecord(userId, movedFromId ? [recordId, movedFromId] : [recordId]);
+    } catch (error) {
+      console.error("Error getting attendance history:", error);
+      return [];
+    }
+  }
+
+  // Get the distinct absence reasons a user gave most recently, newest first
+  async getRecentAbsenceReasons(userId: string, limit: number = 3): Promise<RecentAbsenceReason[]> {
+    try {
+      const absenceQuery = query(
+        collection(db, "attendance"),
+        where("userId", "==", userId),
+        where("status", "==", "absent")
+      );
+      const snapshot = await getDocs(absenceQuery);
+      const records = snapshot.docs
+        .map(doc => doc.data() as AttendanceRecord)
+        .filter(record => !!record.reasonCategory)
+        .sort((a, b) => (b.updatedAt || b.markedAt).localeCompare(a.updatedAt || a.markedAt));
+
+      const reasons: RecentAbsenceReason[] = [];
+      const seen = new Set<string>();
+      for (const record of records) {
+        const note = record.reason?.trim() || undefined;
+        const key = `${record.reasonCategory}_${(note || "").toLowerCase()}`;
+        if (seen.has(key)) continue;
+        seen.add(key);
+        reasons.push({ category: record.reasonCategory!, note });
+        if (reasons.length >= limit) break;
+      }
+      return reasons;
+    } catch (error) {
+      console.error("Error getting recent absence reasons:", error);
+      return [];
+    }
+  }
+
+  // Get the attendance counts the user entered from their college portal
+  async getInitialAttendance(userId: string): Promise<InitialAttendance[]> {
+    return this.initialAttendanceService.getUserInitialAttendance(userId);
+  }
+
+  // Save a subject's portal counts and fold them into its cached stats
+  async saveInitialAttendance(
+    input: Pick<InitialAttendance, "userId" | "classroomId" | "classId" | "subject" | "conductedClasses" | "attendedClasses" | "asOfDate">
+  ): Promise<{ success: boolean; error?: string }> {
+    // Portal counts belong to the semester running when they were entered
+    const schedule = await this.classroomService.getClassroomSchedule(input.classroomId);
+    const result = await this.initialAttendanceService.saveInitialAttendance(
+      schedule?.semesterId ? { ...input, semesterId: schedule.semesterId } : input
+    );
+    if (!result.success) {
+      return { success: false, error: result.error };
+    }
+
+    try {
+      await this.rebuildAttendanceStats(input.userId, input.classroomId, input.classId);
+    } catch (error) {
+      console.error("Error rebuilding stats after saving initial attendance:", error);
+    }
+    return { success: true };
+  }
+
+  // Remove a subject's portal counts and rebuild its stats from app records alone
+  async removeInitialAttendance(
+    userId: string,
+    classroomId: string,
+    classId: string
+  ): Promise<{ success: boolean; error?: string }> {
+    const result = await this.initialAttendanceService.deleteInitialAttendance(userId, classroomId, classId);
+    if (!result.success) {
+      return result;
+    }
+
+    try {
+      await this.rebuildAttendanceStats(userId, classroomId, classId);
+    } catch (error) {
+      console.error("Error rebuilding stats after removing initial attendance:", error);
+    }
+    return { success: true };
+  }
+
+  // Get every scheduled class instance on a date (across the user's classrooms)
+  // together with its attendance record
+  async getAttendanceForDate(
+    userId: string,
+    date: string
+  ): Promise<ClassInstanceAttendance[]> {
+    try {
+      const classrooms = await this.classroomService.getUserClassrooms(userId);
+      const dayRecords = await this.getAttendanceRecordsForDate(userId, date);
+      const entries: ClassInstanceAttendance[] = [];
+
+      for (const classroom of classrooms) {
+        const schedule = await this.classroomService.getClassroomSchedule(classroom.id);
+        if (!schedule) continue;
+        if (!isDateWithinSemester(date, schedule.semesterStartDate, schedule.semesterEndDate)) continue;
+
+        // No regular classes on days off or during exams and breaks on the academic calendar
+        const instances = await this.getHeldClassInstances(classroom, schedule, date);
+        const matched = this.matchRecordsToInstances(instances, dayRecords);
+        const cancellations = await this.cancellationService.getCancellationsForDate(classroom.id, date);
+
+        for (const instance of instances) {
+          entries.push({
+            instance,
+            classroomName: classroom.name,
+            record: matched.get(instance.key),
+            cancellation: cancellations.find(c => c.instanceKey === instance.key),
+          });
         }
       }
 
-      // Update cached attendance stats for the updated record
-      const attendanceRef = doc(db, "attendance", attendanceId);
-      const attendanceSnap = await getDoc(attendanceRef);
-      if (attendanceSnap.exists()) {
-        const record = attendanceSnap.data() as AttendanceRecord;
-        await this.updateAttendanceStats(userId, record.classroomId, classId, status);
+      return entries;
+    } catch (error) {
+      console.error("Error getting attendance for date:", error);
+      return [];
+    }
+  }
+
+  // Build the semester heatmap: one entry per day from semester start to end,
+  // coloured by the attendance of the classes held that day
+  async getSemesterHeatmap(userId: string): Promise<SemesterHeatmap | null> {
+    try {
+      const user = await this.userService.getUserById(userId);
+      const classrooms = await this.classroomService.getUserClassrooms(userId);
+      const classroomSchedules: { classroom: Classroom; schedule: Schedule; cancelledKeys: Set<string> }[] = [];
+      for (const classroom of classrooms) {
+        const schedule = await this.classroomService.getClassroomSchedule(classroom.id);
+        if (!schedule) continue;
+        const cancellations = await this.cancellationService.getConfirmedCancellations(classroom.id);
+        classroomSchedules.push({
+          classroom,
+          schedule,
+          cancelledKeys: new Set(cancellations.map(c => c.instanceKey)),
+        });
       }
 
-      return { success: true };
+      // The semester spans every classroom's semester, or the user's own dates
+      const toDateKey = (value?: string) => {
+        const date = parseDate(value || "");
+        return date ? formatDateKey(date) : "";
+      };
+      const startDates = [user?.semesterStartDate, ...classroomSchedules.map(c => c.schedule.semesterStartDate)]
+        .map(toDateKey)
+        .filter(Boolean)
+        .sort();
+      const endDates = [user?.semesterEndDate, ...classroomSchedules.map(c => c.schedule.semesterEndDate)]
+        .map(toDateKey)
+        .filter(Boolean)
+        .sort();
+      if (startDates.length === 0 || endDates.length === 0) return null;
+
+      const startDate = startDates[0];
+      const endDate = endDates[endDates.length - 1];
+      const today = getAcademicToday();
+
+      // Classes follow each classroom's holidays, working week and academic calendar,
+      // and a day off (or a break without classes) in any of them shows as a holiday
+      const calendars = await Promise.all(
+        classroomSchedules.map(({ classroom, schedule }) =>
+          this.academicCalendarService.getWorkingDayCalendar(classroom, schedule, startDate, endDate)
+        )
+      );
+      const holidayCalendars: WorkingDayCalendar[] = calendars.length > 0
+        ? calendars
+        : [{ holidays: await this.holidayService.getHolidayDatesForRange(null, startDate, endDate) }];
+
+      const recordsByDate = new Map<string, AttendanceRecord[]>();
+      const recordsSnapshot = await getDocs(
+        query(collection(db, "attendance"), where("userId", "==", userId))
+      );
+      recordsSnapshot.forEach(recordDoc => {
+        const record = recordDoc.data() as AttendanceRecord;
+        recordsByDate.set(record.date, [...(recordsByDate.get(record.date) || []), record]);
+      });
+
+      const days: SemesterHeatmapDay[] = [];
+      for (let date = startDate; date <= endDate; date = addDaysToDateKey(date, 1)) {
+        const counts = {
+          scheduledClasses: 0,
+          presentClasses: 0,
+          absentClasses: 0,
+          excusedClasses: 0,
+          cancelledClasses: 0,
+        };
+
+        for (const [index, { schedule, cancelledKeys }] of classroomSchedules.entries()) {
+          if (!isDateWithinSemester(date, schedule.semesterStartDate, schedule.semesterEndDate)) continue;
+
+          const instances = getHeldClassInstancesForDate(schedule, date, calendars[index]);
+          const matched = this.matchRecordsToInstances(instances, recordsByDate.get(date) || []);
+          for (const instance of instances) {
+            if (cancelledKeys.has(instance.key)) {
+              counts.cancelledClasses++;
+              continue;
+            }
+            counts.scheduledClasses++;
+
+            const status = matched.get(instance.key)?.status;
+            if (status === "present") counts.presentClasses++;
+            else if (status === "absent") counts.absentClasses++;
+            else if (status === "excused") counts.excusedClasses++;
+          }
+        }
+
+        const calendarDate = new Date(date + "T00:00:00");
+        days.push({
+          date,
+          ...counts,
+          status: getHeatmapDayStatus(counts, {
+            isHoliday: !isSunday(calendarDate) && holidayCalendars.some(calendar => !isWorkingDay(calendarDate, calendar)),
+            isFuture: date > today,
+          }),
+        });
+      }
+
+      return { startDate, endDate, days };
     } catch (error) {
-      console.error("❌ Error updating attendance:", error);
-      return { success: false, error: "Failed to update attendance" };
+      console.error("Error building semester heatmap:", error);
+      return null;
     }
   }
 
-  // Get attendance record for a specific date and class
+  // Get attendance record for a specific date and class (and class instance if startTime is given)
   async getAttendanceRecord(
     userId: string,
     classId: string,
-    date: string
+    date: string,
+    startTime?: string
   ): Promise<AttendanceRecord | null> {
     try {
-      const attendanceId = `${userId}_${classId}_${date}`;
+      const attendanceId = getAttendanceRecordId(userId, classId, date, startTime);
       const attendanceRef = doc(db, "attendance", attendanceId);
       const attendanceSnap = await getDoc(attendanceRef);
 
@@ -164,20 +715,112 @@ export class FirebaseAttendanceService {
     }
   }
 
+  // Get all attendance records of a user for a date
+  async getAttendanceRecordsForDate(
+    userId: string,
+    date: string
+  ): Promise<AttendanceRecord[]> {
+    try {
+      const attendanceQuery = query(
+        collection(db, "attendance"),
+        where("userId", "==", userId),
+        where("date", "==", date)
+      );
+      const attendanceSnapshot = await getDocs(attendanceQuery);
+      return attendanceSnapshot.docs.map(doc => doc.data() as AttendanceRecord);
+    } catch (error) {
+      console.error("Error getting attendance records for date:", error);
+      return [];
+    }
+  }
+
+  // Match attendance records to class instances (keyed by instance key)
+  matchRecordsToInstances(
+    instances: ClassInstance[],
+    records: AttendanceRecord[]
+  ): Map<string, AttendanceRecord> {
+    return matchRecordsToInstances(instances, records);
+  }
+
+  // Check whether a class instance has a confirmed cancellation
+  private async isInstanceCancelled(
+    classroomId: string,
+    classId: string,
+    date: string,
+    startTime: string
+  ): Promise<boolean> {
+    const cancellations = await this.cancellationService.getCancellationsForDate(classroomId, date);
+    const instanceKey = getClassInstanceKey(classId, date, startTime);
+    return cancellations.some(c => c.instanceKey === instanceKey && c.status === "confirmed");
+  }
+
+  // Find the stored attendance document for a class instance, falling back to
+  // the legacy per-day record when no instance-level record exists
+  private async findAttendanceSnapshot(
+    userId: string,
+    classId: string,
+    date: string,
+    startTime?: string
+  ) {
+    if (startTime) {
+      const instanceSnap = await getDoc(
+        doc(db, "attendance", getAttendanceRecordId(userId, classId, date, startTime))
+      );
+      if (instanceSnap.exists()) {
+        return instanceSnap;
+      }
+    }
+
+    const legacySnap = await getDoc(doc(db, "attendance", getAttendanceRecordId(userId, classId, date)));
+    return legacySnap.exists() ? legacySnap : null;
+  }
+
+  // Mark one unmarked class instance absent on the student's behalf
+  private async autoMarkInstanceAbsent(
+    userId: string,
+    classroomId: string,
+    instance: ClassInstance
+  ): Promise<void> {
+    const attendanceId = getAttendanceRecordId(userId, instance.classId, instance.date, instance.startTime);
+    const now = new Date().toISOString();
+    const attendanceRecord: AttendanceRecord = {
+      id: attendanceId,
+      userId,
+      classroomId,
+      classId: instance.classId,
+      subject: instance.subject,
+      date: instance.date,
+      startTime: instance.startTime,
+      status: 'absent',
+      reason: 'Auto-marked as absent (not manually marked)',
+      sessionType: instance.sessionType,
+      weight: instance.weight,
+      markedAt: now,
+      updatedAt: now,
+    };
+    if (instance.semesterId) {
+      attendanceRecord.semesterId = instance.semesterId;
+    }
+
+    await setDoc(doc(db, "attendance", attendanceId), attendanceRecord);
+    await this.historyService.recordChange(attendanceRecord, null, "auto-absent");
+    
+    // Update cached stats
+    await this.updateAttendanceStats(
+      userId, classroomId, instance.classId, null, 'absent', attendanceRecord, instance.weight
+    );
+    console.log(`  ✅ Auto-marked ${instance.subject} (${instance.startTime}) as absent for ${instance.date}`);
+  }
+
   // Auto-mark unmarked attendance as absent for past dates
   async autoMarkUnmarkedAsAbsent(userId: string, targetDate?: string): Promise<void> {
     try {
-      const dateToCheck = targetDate || new Date(Date.now() - 86400000).toISOString().split("T")[0]; // Yesterday
+      const dateToCheck = targetDate || getAcademicYesterday();
       console.log(`🤖 Auto-marking unmarked attendance as absent for: ${dateToCheck}`);
 
-      // Get day of week for the target date
-      const targetDateObj = new Date(dateToCheck + 'T00:00:00');
-      const dayIndex = targetDateObj.getDay();
-      const dayNames = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
-      const dayName = dayNames[dayIndex];
-
-      // Get user's classrooms
+      // Get user's classrooms and the records already marked for that day
       const classrooms = await this.classroomService.getUserClassrooms(userId);
+      const dayRecords = await this.getAttendanceRecordsForDate(userId, dateToCheck);
       let unmarkedCount = 0;
 
       for (const classroom of classrooms) {
@@ -185,37 +828,22 @@ export class FirebaseAttendanceService {
         const schedule = await this.classroomService.getClassroomSchedule(classroom.id);
 
         if (schedule) {
-          // Filter classes for that day
-          const dayClasses = schedule.classes.filter(cls => cls.day === dayName);
-
-          for (const cls of dayClasses) {
-            // Check if attendance is already marked
-            const attendanceId = `${userId}_${cls.id}_${dateToCheck}`;
-            const existingRecord = await this.getAttendanceRecord(userId, cls.id, dateToCheck);
-
-            if (!existingRecord) {
-              // Mark as absent with auto-generated reason
-              const now = new Date().toISOString();
-              const attendanceRecord: AttendanceRecord = {
-                id: attendanceId,
-                userId,
-                classroomId: classroom.id,
-                classId: cls.id,
-                subject: cls.name,
-                date: dateToCheck,
-                status: 'absent',
-                reason: 'Auto-marked as absent (not manually marked)',
-                markedAt: now,
-                updatedAt: now,
-              };
+          // Expand that day's classes into individual instances, leaving out
+          // days off and classes suspended by the academic calendar
+          const dayInstances = await this.getHeldClassInstances(classroom, schedule, dateToCheck);
+          const markedInstances = this.matchRecordsToInstances(dayInstances, dayRecords);
+
+          // Cancelled classes never count as absences
+          const cancelledKeys = new Set(
+            (await this.cancellationService.getCancellationsForDate(classroom.id, dateToCheck))
+              .filter(c => c.status === "confirmed")
+              .map(c => c.instanceKey)
+          );
 
-              await setDoc(doc(db, "attendance", attendanceId), attendanceRecord);
-              
-              // Update cached stats
-              await this.updateAttendanceStats(userId, classroom.id, cls.id, 'absent');
-              
+          for (const instance of dayInstances) {
+            if (!markedInstances.has(instance.key) && !cancelledKeys.has(instance.key)) {
+              await this.autoMarkInstanceAbsent(userId, classroom.id, instance);
               unmarkedCount++;
-              console.log(`  ✅ Auto-marked ${cls.name} as absent for ${dateToCheck}`);
             }
           }
         }
@@ -227,13 +855,226 @@ export class FirebaseAttendanceService {
     }
   }
 
+  // Catch up on every day since the last reconciled date (bounded by each
+  // classroom's semester and the registration date): unmarked class instances are either
+  // auto-marked absent or queued for review, depending on the user's choice.
+  // The last processed day is saved, so no day is processed twice.
+  async reconcileMissedClasses(userId: string): Promise<ReconciliationResult> {
+    const result: ReconciliationResult = { autoMarked: 0, queued: 0 };
+    if (this.isReconciling) return result;
+
+    this.isReconciling = true;
+    try {
+      const user = await this.userService.getUserById(userId);
+      if (!user) return result;
+
+      const registrationDate = user.createdAt ? toAcademicDateKey(user.createdAt) : "";
+      const yesterday = getAcademicYesterday();
+      const resumeFrom = [
+        user.attendanceReconciledThrough ? addDaysToDateKey(user.attendanceReconciledThrough, 1) : "",
+        registrationDate,
+      ].reduce((latest, date) => (date > latest ? date : latest), "");
+      const toDateKey = (value?: string) => {
+        const date = parseDate(value || "");
+        return date ? formatDateKey(date) : "";
+      };
+
+      // Each classroom is reconciled within its current semester (the dates in the
+      // user's profile stand in when the classroom has none)
+      const classrooms = await this.classroomService.getUserClassrooms(userId);
+      const classroomSchedules: {
+        classroomId: string;
+        schedule: Schedule;
+        cancelledKeys: Set<string>;
+        calendar: WorkingDayCalendar;
+        fromDate: string;
+        throughDate: string;
+      }[] = [];
+      for (const classroom of classrooms) {
+        const schedule = await this.classroomService.getClassroomSchedule(classroom.id);
+        if (!schedule) continue;
+
+        const semesterStart = toDateKey(schedule.semesterStartDate || user.semesterStartDate);
+        const semesterEnd = toDateKey(schedule.semesterEndDate || user.semesterEndDate);
+        const classroomFrom = semesterStart > resumeFrom ? semesterStart : resumeFrom;
+        const classroomThrough = semesterEnd && semesterEnd < yesterday ? semesterEnd : yesterday;
+        if (!classroomFrom || classroomFrom > classroomThrough) continue;
+
+        const cancellations = await this.cancellationService.getConfirmedCancellations(classroom.id);
+        classroomSchedules.push({
+          classroomId: classroom.id,
+          schedule,
+          cancelledKeys: new Set(cancellations.map(c => c.instanceKey)),
+          // Holidays, days off and breaks without classes are never missed
+          calendar: await this.academicCalendarService.getWorkingDayCalendar(
+            classroom, schedule, classroomFrom, classroomThrough
+          ),
+          fromDate: classroomFrom,
+          throughDate: classroomThrough,
+        });
+      }
+      if (classroomSchedules.length === 0) return result;
+
+      const fromDate = classroomSchedules.map(c => c.fromDate).sort()[0];
+      const throughDate = classroomSchedules.map(c => c.throughDate).sort().pop()!;
+      console.log(`🧮 Reconciling missed classes from ${fromDate} through ${throughDate}`);
+      const handling = user.missedClassHandling || "auto-absent";
+
+      // One read for the whole range instead of one per day
+      const recordsByDate = new Map<string, AttendanceRecord[]>();
+      const recordsSnapshot = await getDocs(
+        query(collection(db, "attendance"), where("userId", "==", userId))
+      );
+      recordsSnapshot.forEach(recordDoc => {
+        const record = recordDoc.data() as AttendanceRecord;
+        if (record.date < fromDate || record.date > throughDate) return;
+        recordsByDate.set(record.date, [...(recordsByDate.get(record.date) || []), record]);
+      });
+      const queuedIds = new Set(
+        (await this.getUnmarkedClassReviews(userId)).map(review => review.id)
+      );
+
+      for (let date = fromDate; date <= throughDate; date = addDaysToDateKey(date, 1)) {
+        let dayChanges = 0;
+
+        for (const { classroomId, schedule, cancelledKeys, calendar, ...range } of classroomSchedules) {
+          if (date < range.fromDate || date > range.throughDate) continue;
+
+          const unmarkedInstances = getUnmarkedClassInstances(
+            schedule, date, date, calendar, recordsByDate.get(date) || [], cancelledKeys
+          );
+          for (const instance of unmarkedInstances) {
+            if (handling === "review") {
+              const reviewId = getAttendanceRecordId(userId, instance.classId, date, instance.startTime);
+              if (queuedIds.has(reviewId)) continue;
+
+              const review: UnmarkedClassReview = {
+                id: reviewId,
+                userId,
+                classroomId,
+                classId: instance.classId,
+                subject: instance.subject,
+                date,
+                startTime: instance.startTime,
+                endTime: instance.endTime,
+                sessionType: instance.sessionType,
+                weight: instance.weight,
+                queuedAt: new Date().toISOString(),
+              };
+              await setDoc(doc(db, "unmarkedClasses", reviewId), review);
+              queuedIds.add(reviewId);
+              result.queued++;
+            } else {
+              await this.autoMarkInstanceAbsent(userId, classroomId, instance);
+              result.autoMarked++;
+            }
+            dayChanges++;
+          }
+        }
+
+        // Save progress after every day that wrote something, so an interrupted
+        // pass resumes where it stopped
+        if (dayChanges > 0 && date < throughDate) {
+          await this.userService.updateUserProfile(userId, { attendanceReconciledThrough: date });
+        }
+      }
+
+      if (result.autoMarked > 0) {
+        await this.recalculateAttendanceStreak(userId);
+      }
+      await this.userService.updateUserProfile(userId, { attendanceReconciledThrough: throughDate });
+
+      result.fromDate = fromDate;
+      result.throughDate = throughDate;
+      console.log(
+        `🎯 Reconciled ${fromDate} → ${throughDate}: ${result.autoMarked} auto-marked absent, ${result.queued} queued for review`
+      );
+      return result;
+    } catch (error) {
+      console.error("❌ Error reconciling missed classes:", error);
+      return result;
+    } finally {
+      this.isReconciling = false;
+    }
+  }
+
+  // Get the unmarked class instances waiting for review, oldest first.
+  // Instances marked some other way since they were queued are dropped.
+  async getUnmarkedClassReviews(userId: string): Promise<UnmarkedClassReview[]> {
+    try {
+      const reviewsSnapshot = await getDocs(
+        query(collection(db, "unmarkedClasses"), where("userId", "==", userId))
+      );
+      const reviews: UnmarkedClassReview[] = [];
+      for (const reviewDoc of reviewsSnapshot.docs) {
+        const review = reviewDoc.data() as UnmarkedClassReview;
+        if (await this.findAttendanceSnapshot(userId, review.classId, review.date, review.startTime)) {
+          await deleteDoc(reviewDoc.ref);
+          continue;
+        }
+        reviews.push(review);
+      }
+      return reviews.sort((a, b) => `${a.date}_${a.startTime}`.localeCompare(`${b.date}_${b.startTime}`));
+    } catch (error) {
+      console.error("Error getting unmarked class reviews:", error);
+      return [];
+    }
+  }
+
+  // Mark a reviewed class instance and take it off the review queue
+  async resolveUnmarkedClass(
+    review: UnmarkedClassReview,
+    status: AttendanceStatus,
+    reason?: string,
+    leaveType?: ExcusedLeaveType,
+    reasonCategory?: AbsenceReasonCategory
+  ): Promise<{ success: boolean; error?: string }> {
+    const response = await this.markAttendanceForDate(
+      review.userId,
+      review.classroomId,
+      review.classId,
+      review.date,
+      review.startTime,
+      status,
+      reason,
+      leaveType,
+      reasonCategory
+    );
+
+    // Cancelled or rescheduled since it was queued: nothing left to review
+    const isStale = !response.success && !response.retryable;
+    if (!response.success && !isStale) {
+      return { success: false, error: response.error };
+    }
+
+    try {
+      await deleteDoc(doc(db, "unmarkedClasses", review.id));
+      return isStale ? { success: false, error: response.error } : { success: true };
+    } catch (error) {
+      console.error("❌ Error removing unmarked class review:", error);
+      return { success: false, error: "Failed to update the review list" };
+    }
+  }
+
+  // Choose whether missed classes are auto-marked absent or queued for review
+  async updateMissedClassHandling(
+    userId: string,
+    handling: MissedClassHandling
+  ): Promise<{ success: boolean; error?: string }> {
+    try {
+      await this.userService.updateUserProfile(userId, { missedClassHandling: handling });
+      return { success: true };
+    } catch (error) {
+      console.error("❌ Error updating missed class handling:", error);
+      return { success: false, error: "Failed to update missed class handling" };
+    }
+  }
+
   // Update attendance streak
   private async updateAttendanceStreak(userId: string): Promise<void> {
     try {
-      const today = new Date().toISOString().split("T")[0];
-      const yesterday = new Date(Date.now() - 86400000)
-        .toISOString()
-        .split("T")[0];
+      const today = getAcademicToday();
+      const yesterday = getAcademicYesterday();
 
       console.log("🔥 Updating streak for user:", userId, "today:", today, "yesterday:", yesterday);
 
@@ -336,77 +1177,354 @@ export class FirebaseAttendanceService {
     }
   }
 
-  // Update cached attendance statistics
+  // Rebuild the streak from all present records (needed when past days change)
+  private async recalculateAttendanceStreak(userId: string): Promise<void> {
+    try {
+      const presentQuery = query(
+        collection(db, "attendance"),
+        where("userId", "==", userId),
+        where("status", "==", "present")
+      );
+      const presentSnapshot = await getDocs(presentQuery);
+      const streak = buildAttendanceStreak(
+        userId,
+        presentSnapshot.docs.map(doc => (doc.data() as AttendanceRecord).date)
+      );
+
+      await setDoc(doc(db, "attendanceStreaks", userId), streak);
+      console.log("✅ Streak recalculated:", streak.currentStreak, "current,", streak.longestStreak, "longest");
+    } catch (error) {
+      console.error("❌ Error recalculating attendance streak:", error);
+    }
+  }
+
+  // Apply one attendance change to the cached subject stats as a transactional delta.
+  // Falls back to a full rebuild when the stats are missing, drifted or due for verification.
+  // Records the rebuild leaves out (another semester, a cancelled class) don't change the totals.
   private async updateAttendanceStats(
     userId: string,
     classroomId: string,
     classId: string,
-    newStatus: 'present' | 'absent'
+    previousStatus: AttendanceStatus | null,
+    newStatus: AttendanceStatus,
+    marked: Pick<AttendanceRecord, "date" | "startTime" | "semesterId">,
+    weight: number = 1,
+    previousWeight: number = weight
   ): Promise<void> {
     try {
-      const statsId = `${userId}_${classroomId}_${classId}`;
-      const statsRef = doc(db, "attendanceStats", statsId);
-      const statsSnap = await getDoc(statsRef);
+      const statsRef = doc(db, "attendanceStats", `${userId}_${classroomId}_${classId}`);
+      const classroom = await this.classroomService.getClassroom(classroomId);
+      const schedule = await this.classroomService.getClassroomSchedule(classroomId);
+      const cancellations = await this.cancellationService.getConfirmedCancellations(classroomId, classId);
+      const isCounted = isInSemester(marked, marked.date, schedule) &&
+        excludeCancelledRecords([{ ...marked, classId }], cancellations).length > 0;
+      const verifyBefore = new Date(Date.now() - STATS_VERIFY_INTERVAL_DAYS * 86400000).toISOString();
+
+      const needsRebuild = await runTransaction(db, async (transaction) => {
+        const statsSnap = await transaction.get(statsRef);
+        if (!statsSnap.exists()) return true;
+
+        // Stats left over from an earlier semester are recounted for the current one
+        const stats = statsSnap.data() as SubjectAttendanceStats;
+        if (
+          stats.presentClasses === undefined || !stats.weighted ||
+          !stats.verifiedAt || stats.verifiedAt < verifyBefore ||
+          (stats.semesterId || null) !== (classroom?.currentSemesterId || null)
+        ) {
+          return true;
+        }
 
-      // Get all attendance records for this class to calculate totals
-      const attendanceQuery = query(
-        collection(db, "attendance"),
-        where("userId", "==", userId),
-        where("classId", "==", classId)
-      );
-      const attendanceSnapshot = await getDocs(attendanceQuery);
-      
-      const totalClasses = attendanceSnapshot.size;
-      const attendedClasses = attendanceSnapshot.docs.filter(
-        doc => doc.data().status === 'present'
-      ).length;
-      
-      const absentClasses = totalClasses - attendedClasses;
-      const attendancePercentage = totalClasses > 0 
-        ? Math.round((attendedClasses / totalClasses) * 10000) / 100 
-        : 0;
+        // The portal baseline already counts classes up to its date
+        if (!isCounted || (stats.baselineAsOfDate && marked.date <= stats.baselineAsOfDate)) {
+          return false;
+        }
 
-      const now = new Date().toISOString();
-      const today = now.split('T')[0];
-
-      if (statsSnap.exists()) {
-        // Update existing stats
-        await updateDoc(statsRef, {
-          totalClasses,
-          attendedClasses,
-          absentClasses,
-          attendancePercentage,
-          lastMarkedDate: today,
-          lastMarkedStatus: newStatus,
-          updatedAt: now
-        });
-      } else {
-        // Create new stats entry (get subject info from classroom schedule)
-        const schedule = await this.classroomService.getClassroomSchedule(classroomId);
-        const classSchedule = schedule?.classes.find((c) => c.id === classId);
-        
-        await setDoc(statsRef, {
-          id: statsId,
-          userId,
-          classroomId,
-          classId,
-          subject: classSchedule?.name || 'Unknown',
-          instructor: classSchedule?.instructor || 'Unknown',
-          totalClasses,
-          attendedClasses,
-          absentClasses,
-          attendancePercentage,
-          lastMarkedDate: today,
+        const statusTotals = applyStatusChange(
+          { present: stats.presentClasses, absent: stats.absentClasses, excused: stats.excusedClasses },
+          previousStatus,
+          newStatus,
+          weight,
+          previousWeight
+        );
+        if (!statusTotals) {
+          console.warn("⚠️ Attendance stats drifted, rebuilding:", statsSnap.id);
+          return true;
+        }
+
+        const counts = countsFromStatusTotals(statusTotals, classroom?.excusedPolicy);
+        transaction.update(statsRef, {
+          totalClasses: counts.totalClasses,
+          attendedClasses: counts.attendedClasses,
+          absentClasses: counts.absentClasses,
+          excusedClasses: counts.excusedClasses,
+          presentClasses: statusTotals.present,
+          attendancePercentage: calculateAttendancePercentage(counts),
+          lastMarkedDate: marked.date,
           lastMarkedStatus: newStatus,
-          createdAt: now,
-          updatedAt: now
+          updatedAt: new Date().toISOString()
         });
+        return false;
+      });
+
+      if (needsRebuild) {
+        await this.rebuildAttendanceStats(userId, classroomId, classId, { date: marked.date, status: newStatus });
       }
     } catch (error) {
       console.error("Error updating attendance stats:", error);
     }
   }
 
+  // Rebuild a subject's cached stats from its raw attendance records.
+  // Returns true when the cached totals had drifted from the records.
+  private async rebuildAttendanceStats(
+    userId: string,
+    classroomId: string,
+    classId: string,
+    lastMarked?: { date: string; status: AttendanceStatus }
+  ): Promise<boolean> {
+    const { statsRef, exists, data, hasDrifted } = await this.buildAttendanceStatsWrite(
+      userId, classroomId, classId, lastMarked
+    );
+    if (exists) {
+      await updateDoc(statsRef, data);
+    } else {
+      await setDoc(statsRef, data);
+    }
+    return hasDrifted;
+  }
+
+  // Count a subject's cached stats from its raw attendance records, with records about
+  // to be written in the same batch taking the place of the stored ones.
+  // Returns an update for existing stats or the full stats document to create.
+  private async buildAttendanceStatsWrite(
+    userId: string,
+    classroomId: string,
+    classId: string,
+    lastMarked?: { date: string; status: AttendanceStatus },
+    pendingRecords: AttendanceRecord[] = []
+  ) {
+    const statsId = `${userId}_${classroomId}_${classId}`;
+    const statsRef = doc(db, "attendanceStats", statsId);
+    const statsSnap = await getDoc(statsRef);
+
+    // Get all attendance records (one per class instance) for this class to calculate totals
+    const attendanceQuery = query(
+      collection(db, "attendance"),
+      where("userId", "==", userId),
+      where("classId", "==", classId)
+    );
+    const attendanceSnapshot = await getDocs(attendanceQuery);
+    const pendingIds = new Set(pendingRecords.map(record => record.id));
+    const storedRecords = attendanceSnapshot.docs
+      .filter(doc => !pendingIds.has(doc.id))
+      .map(doc => doc.data() as AttendanceRecord);
+
+    // Excused classes count according to the classroom's policy,
+    // and cancelled class instances don't count at all
+    // Classes count for their session weight (older records take it from the schedule)
+    // A portal baseline replaces the records up to its date
+    // Only records (and a baseline) of the classroom's current semester count
+    const classroom = await this.classroomService.getClassroom(classroomId);
+    const schedule = await this.classroomService.getClassroomSchedule(classroomId);
+    const cancellations = await this.cancellationService.getConfirmedCancellations(classroomId, classId);
+    const storedBaseline = await this.initialAttendanceService.getInitialAttendance(userId, classroomId, classId);
+    const baseline = storedBaseline && isInSemester(storedBaseline, storedBaseline.asOfDate, schedule)
+      ? storedBaseline
+      : null;
+    const records = resolveRecordSessions(
+      excludeBaselineRecords(
+        excludeCancelledRecords(
+          [...storedRecords, ...pendingRecords].filter(record => isInSemester(record, record.date, schedule)),
+          cancellations
+        ),
+        baseline
+      ),
+      schedule
+    );
+    const counts = addBaselineCounts(countAttendance(records, classroom?.excusedPolicy), baseline);
+    const { totalClasses, attendedClasses, absentClasses, excusedClasses } = counts;
+    const presentClasses = countAttendance(records.filter(record => record.status === "present")).totalClasses +
+      (baseline?.attendedClasses || 0);
+    const attendancePercentage = calculateAttendancePercentage(counts);
+
+    const now = new Date().toISOString();
+
+    if (statsSnap.exists()) {
+      const previous = statsSnap.data() as SubjectAttendanceStats;
+      // Compare raw totals so a policy change alone doesn't count as drift
+      const hasDrifted = previous.presentClasses !== undefined && !!previous.weighted && (
+        previous.presentClasses !== presentClasses ||
+        previous.absentClasses !== absentClasses ||
+        previous.excusedClasses !== excusedClasses
+      );
+
+      // Update existing stats
+      const updateData: any = {
+        totalClasses,
+        attendedClasses,
+        absentClasses,
+        excusedClasses,
+        presentClasses,
+        weighted: true,
+        attendancePercentage,
+        baselineClasses: baseline ? baseline.conductedClasses : deleteField(),
+        baselineAttendedClasses: baseline ? baseline.attendedClasses : deleteField(),
+        baselineAsOfDate: baseline ? baseline.asOfDate : deleteField(),
+        semesterId: schedule?.semesterId || deleteField(),
+        verifiedAt: now,
+        updatedAt: now
+      };
+      if (lastMarked) {
+        updateData.lastMarkedDate = lastMarked.date;
+        updateData.lastMarkedStatus = lastMarked.status;
+      }
+      return { statsRef, exists: true, data: updateData, hasDrifted };
+    }
+
+    // Create new stats entry (get subject info from classroom schedule)
+    const classSchedule = schedule?.classes.find((c) => c.id === classId);
+
+    const stats: SubjectAttendanceStats = {
+      id: statsId,
+      userId,
+      classroomId,
+      classId,
+      subject: classSchedule?.name || 'Unknown',
+      instructor: classSchedule?.instructor || 'Unknown',
+      totalClasses,
+      attendedClasses,
+      absentClasses,
+      excusedClasses,
+      presentClasses,
+      weighted: true,
+      attendancePercentage,
+      lastMarkedDate: lastMarked?.date || '',
+      lastMarkedStatus: lastMarked?.status || 'present',
+      verifiedAt: now,
+      createdAt: now,
+      updatedAt: now
+    };
+    if (baseline) {
+      stats.baselineClasses = baseline.conductedClasses;
+      stats.baselineAttendedClasses = baseline.attendedClasses;
+      stats.baselineAsOfDate = baseline.asOfDate;
+    }
+    if (schedule?.semesterId) {
+      stats.semesterId = schedule.semesterId;
+    }
+    return { statsRef, exists: false, data: stats, hasDrifted: false };
+  }
+
+  // Rebuild the user's cached stats for every class in a classroom
+  // (e.g. after the classroom's excused policy or cancellations changed)
+  async refreshClassroomStats(userId: string, classroomId: string): Promise<void> {
+    await this.repairAttendanceStats(userId, classroomId);
+  }
+
+  // Repair routine: rebuild cached subject stats from raw records (all of the
+  // user's classrooms, or one) and return how many had drifted
+  async repairAttendanceStats(userId: string, classroomId?: string): Promise<number> {
+    try {
+      const filters = [where("userId", "==", userId)];
+      if (classroomId) {
+        filters.push(where("classroomId", "==", classroomId));
+      }
+      const statsSnapshot = await getDocs(query(collection(db, "attendanceStats"), ...filters));
+
+      let driftedCount = 0;
+      for (const statsDoc of statsSnapshot.docs) {
+        const stats = statsDoc.data() as SubjectAttendanceStats;
+        if (await this.rebuildAttendanceStats(userId, stats.classroomId, stats.classId)) {
+          driftedCount++;
+        }
+      }
+
+      if (driftedCount > 0) {
+        console.warn(`🛠️ Repaired ${driftedCount} drifted attendance stats for user:`, userId);
+      }
+      return driftedCount;
+    } catch (error) {
+      console.error("Error repairing attendance stats:", error);
+      return 0;
+    }
+  }
+
+  // One-time migration: move records that were keyed with the UTC date of the moment
+  // they were marked to their academic date. Only records marked before the fix are
+  // looked at, and one is only moved when its class isn't held on the recorded date
+  // (backdated and auto-absent records name their date on purpose), is held on the
+  // academic date and nothing is recorded there yet. Returns the count moved.
+  async migrateUtcDateKeys(userId: string): Promise<number> {
+    try {
+      const user = await this.userService.getUserById(userId);
+      if (!user || user.dateKeysMigratedAt) return 0;
+
+      // Accounts created since the fix never had UTC-keyed records
+      const recordsSnapshot = user.createdAt < ACADEMIC_DATE_KEYS_SINCE
+        ? await getDocs(query(collection(db, "attendance"), where("userId", "==", userId)))
+        : null;
+      const classrooms = new Map<string, { classroom: Classroom; schedule: Schedule } | null>();
+      let movedCount = 0;
+
+      for (const recordDoc of recordsSnapshot?.docs || []) {
+        const record = recordDoc.data() as AttendanceRecord;
+        if (!record.markedAt || !isUtcKeyedDate(record.date, record.markedAt)) continue;
+
+        if (!classrooms.has(record.classroomId)) {
+          const classroom = await this.classroomService.getClassroom(record.classroomId);
+          const schedule = classroom ? await this.classroomService.getClassroomSchedule(record.classroomId) : null;
+          classrooms.set(record.classroomId, classroom && schedule ? { classroom, schedule } : null);
+        }
+        const entry = classrooms.get(record.classroomId);
+        if (!entry) continue;
+
+        const isRecordedClass = (i: ClassInstance) =>
+          i.classId === record.classId && (!record.startTime || i.startTime === record.startTime);
+        const recordedDateInstances = await this.getHeldClassInstances(entry.classroom, entry.schedule, record.date);
+        if (recordedDateInstances.some(isRecordedClass)) continue;
+
+        const academicDate = toAcademicDateKey(record.markedAt);
+        const instance = (await this.getHeldClassInstances(entry.classroom, entry.schedule, academicDate))
+          .find(isRecordedClass);
+        if (!instance) continue;
+        if (await this.findAttendanceSnapshot(userId, record.classId, academicDate, instance.startTime)) continue;
+        if (await this.isInstanceCancelled(record.classroomId, record.classId, academicDate, instance.startTime)) continue;
+
+        const movedId = getAttendanceRecordId(userId, record.classId, academicDate, instance.startTime);
+        const moved: AttendanceRecord = {
+          ...record,
+          id: movedId,
+          date: academicDate,
+          startTime: instance.startTime,
+          movedFromId: recordDoc.id,
+          updatedAt: new Date().toISOString(),
+        };
+
+        const batch = writeBatch(db);
+        batch.set(doc(db, "attendance", movedId), moved);
+        batch.delete(recordDoc.ref);
+        const historyEntry = this.historyService.createEntry(moved, record.status, "migration");
+        batch.set(doc(db, "attendanceHistory", historyEntry.id), historyEntry);
+        await batch.commit();
+
+        movedCount++;
+        console.log(`📦 Moved attendance record ${recordDoc.id} → ${movedId}`);
+      }
+
+      if (movedCount > 0) {
+        await this.repairAttendanceStats(userId);
+        await this.recalculateAttendanceStreak(userId);
+      }
+
+      await this.userService.updateUserProfile(userId, { dateKeysMigratedAt: new Date().toISOString() });
+      console.log(`✅ Date key migration finished, ${movedCount} records moved`);
+      return movedCount;
+    } catch (error) {
+      console.error("❌ Error migrating attendance date keys:", error);
+      return 0;
+    }
+  }
+
   // Get attendance streak for user
   async getAttendanceStreak(userId: string): Promise<AttendanceStreak | null> {
     try {
@@ -423,13 +1541,16 @@ export class FirebaseAttendanceService {
     }
   }
 
-  // Get cached attendance stats (fast lookup)
+  // Get cached attendance stats (fast lookup). Stats of another semester than
+  // the given one are stale and read as missing.
   async getAttendanceStatsFromCache(
     userId: string,
-    classId: string
+    classId: string,
+    semesterId?: string
   ): Promise<{
     totalClasses: number;
     attendedClasses: number;
+    excusedClasses: number;
     attendancePercentage: number;
   } | null> {
     try {
@@ -444,10 +1565,15 @@ export class FirebaseAttendanceService {
         return null;
       }
 
+      // Stats from before session weights count sessions, not units
       const stats = statsSnapshot.docs[0].data();
+      if (!stats.weighted || (stats.semesterId || null) !== (semesterId || null)) {
+        return null;
+      }
       return {
         totalClasses: stats.totalClasses || 0,
         attendedClasses: stats.attendedClasses || 0,
+        excusedClasses: stats.excusedClasses || 0,
         attendancePercentage: stats.attendancePercentage || 0
       };
     } catch (error) {
@@ -456,11 +1582,51 @@ export class FirebaseAttendanceService {
     }
   }
 
-  // Get attendance summary for a class
+  // Project the class units each subject of a classroom still has this semester:
+  // its schedule expanded from today to the semester end over the classroom's
+  // holidays, working week and academic calendar, without cancelled classes or
+  // the ones already marked today. Null when the semester end is unknown or past.
+  async getRemainingClassProjection(userId: string, classroomId: string): Promise<Map<string, number> | null> {
+    try {
+      const classroom = await this.classroomService.getClassroom(classroomId);
+      const schedule = await this.classroomService.getClassroomSchedule(classroomId);
+      if (!classroom || !schedule) return null;
+
+      const user = schedule.semesterEndDate ? null : await this.userService.getUserById(userId);
+      const semesterStart = parseDate(schedule.semesterStartDate || "");
+      const semesterEnd = parseDate(schedule.semesterEndDate || user?.semesterEndDate || "");
+      if (!semesterEnd) return null;
+
+      const today = getAcademicToday();
+      const startKey = semesterStart ? formatDateKey(semesterStart) : "";
+      const fromDate = startKey > today ? startKey : today;
+      const toDate = formatDateKey(semesterEnd);
+      if (toDate < today) return null;
+
+      const calendar = await this.academicCalendarService.getWorkingDayCalendar(classroom, schedule, today, toDate);
+      const cancellations = await this.cancellationService.getConfirmedCancellations(classroomId);
+      const markedToday = this.matchRecordsToInstances(
+        getHeldClassInstancesForDate(schedule, today, calendar),
+        (await this.getAttendanceRecordsForDate(userId, today)).filter(r => r.classroomId === classroomId)
+      );
+      const skipKeys = new Set([...cancellations.map(c => c.instanceKey), ...markedToday.keys()]);
+
+      return projectRemainingClasses(schedule, fromDate, toDate, calendar, skipKeys);
+    } catch (error) {
+      console.error("Error projecting remaining classes:", error);
+      return null;
+    }
+  }
+
+  // Get attendance summary for a class, evaluated against the classroom's attendance policy
+  // up to the end of the semester. Pass the subject's remaining classes when they are
+  // already projected; otherwise they are projected here.
   async getAttendanceSummary(
     userId: string,
     classId: string,
-    requiredPercentage: number = 75
+    policy: AttendancePolicy = getDefaultPolicy(),
+    excusedPolicy?: ExcusedAttendancePolicy,
+    remainingClasses?: number
   ): Promise<AttendanceSummary | null> {
     try {
       const attendanceRef = collection(db, "attendance");
@@ -476,29 +1642,43 @@ export class FirebaseAttendanceService {
         records.push(doc.data() as AttendanceRecord);
       });
 
-      if (records.length === 0) {
+      // Counts from the college portal stand in for records up to their date
+      const storedBaseline = await this.initialAttendanceService.getInitialAttendanceForClass(userId, classId);
+      if (records.length === 0 && !storedBaseline) {
         return null;
       }
 
-      const totalClasses = records.length;
-      const attendedClasses = records.filter(
-        (r) => r.status === "present"
-      ).length;
-      const absentClasses = totalClasses - attendedClasses;
-      const attendancePercentage = (attendedClasses / totalClasses) * 100;
-
-      // Calculate classes needed to attend to maintain required percentage
-      const requiredAttendedClasses = Math.ceil(
-        (requiredPercentage / 100) * totalClasses
+      // Classes count for their session weight (e.g. a 3-hour lab counts as 3),
+      // and only in the classroom's current semester
+      const classroomId = records[0]?.classroomId || storedBaseline!.classroomId;
+      const schedule = await this.classroomService.getClassroomSchedule(classroomId);
+      const baseline = storedBaseline && isInSemester(storedBaseline, storedBaseline.asOfDate, schedule)
+        ? storedBaseline
+        : null;
+      const cancellations = await this.cancellationService.getConfirmedCancellationsForClass(classId);
+      const countedRecords = resolveRecordSessions(
+        excludeBaselineRecords(
+          excludeCancelledRecords(records.filter(record => isInSemester(record, record.date, schedule)), cancellations),
+          baseline
+        ),
+        schedule
       );
-      const classesToAttend = Math.max(
-        0,
-        requiredAttendedClasses - attendedClasses
-      );
-
-      // Calculate classes that can be skipped while maintaining required percentage
-      const maxAllowedAbsences = totalClasses - requiredAttendedClasses;
-      const classesCanSkip = Math.max(0, maxAllowedAbsences - absentClasses);
+      const { totalClasses, attendedClasses, absentClasses, excusedClasses } =
+        addBaselineCounts(countAttendance(countedRecords, excusedPolicy), baseline);
+      const sessionBreakdown = countAttendanceBySessionType(countedRecords, excusedPolicy);
+      const attendancePercentage =
+        totalClasses > 0 ? (attendedClasses / totalClasses) * 100 : 0;
+
+      // Classes to attend or skip are counted over the classes actually left,
+      // not working days (a subject meeting twice a week has far fewer)
+      const remaining = remainingClasses ??
+        (await this.getRemainingClassProjection(userId, classroomId))?.get(classId);
+      const evaluation = evaluateAttendance(policy, {
+        attendedClasses,
+        totalClasses,
+        classId,
+        remainingClasses: remaining,
+      });
 
       return {
         classId,
@@ -508,13 +1688,16 @@ export class FirebaseAttendanceService {
         totalClassesSoFar: totalClasses,
         totalAttendedSoFar: attendedClasses,
         totalAbsences: absentClasses,
+        totalExcused: excusedClasses,
         currentAttendancePercentage: Math.round(attendancePercentage * 100) / 100,
-        requiredAttendancePercentage: requiredPercentage,
-        expectedTotalForSemester: 0, // Will be calculated by caller
-        remainingClasses: 0, // Will be calculated by caller
-        classesToAttend,
-        classesCanSkip,
-        isAttendanceCritical: attendancePercentage < requiredPercentage,
+        sessionBreakdown: sessionBreakdown.length > 1 ? sessionBreakdown : undefined,
+        requiredAttendancePercentage: evaluation.requiredPercentage,
+        TotalClassesForSemester: totalClasses + (remaining || 0),
+        remainingClasses: remaining || 0,
+        classesToAttend: evaluation.classesToAttend,
+        classesCanSkip: evaluation.classesCanSkip,
+        isAttendanceCritical: evaluation.isCritical,
+        eligibility: evaluation.status,
       };
     } catch (error) {
       console.error("Error getting attendance summary:", error);
@@ -522,24 +1705,108 @@ export class FirebaseAttendanceService {
     }
   }
 
-  // Get today's classes for dashboard
+  // Gather per-subject summaries and the unmarked class instances left this
+  // semester, for the what-if bunk planner
+  async getBunkPlannerData(userId: string): Promise<BunkPlannerData> {
+    try {
+      const user = await this.userService.getUserById(userId);
+      const classrooms = await this.classroomService.getUserClassrooms(userId);
+      const today = getAcademicToday();
+      const todayRecords = await this.getAttendanceRecordsForDate(userId, today);
+
+      const subjects: AttendanceSummary[] = [];
+      const upcomingInstances: ClassInstance[] = [];
+      const policies: Record<string, AttendancePolicy> = {};
+
+      for (const classroom of classrooms) {
+        const schedule = await this.classroomService.getClassroomSchedule(classroom.id);
+        if (!schedule) continue;
+
+        // Plan until the semester end, or a few weeks ahead when it is unknown
+        const semesterEnd = parseDate(schedule.semesterEndDate || user?.semesterEndDate || "");
+        const horizon = semesterEnd || new Date(Date.now() + BUNK_PLANNER_FALLBACK_DAYS * 86400000);
+        const endDate = formatDateKey(horizon);
+        if (endDate < today) continue;
+
+        // Today's classes that are already marked are no longer plannable
+        const calendar = await this.academicCalendarService.getWorkingDayCalendar(classroom, schedule, today, endDate);
+        const markedToday = this.matchRecordsToInstances(
+          getHeldClassInstancesForDate(schedule, today, calendar),
+          todayRecords
+        );
+        const cancelledKeys = new Set(
+          (await this.cancellationService.getConfirmedCancellations(classroom.id)).map(c => c.instanceKey)
+        );
+        const classroomInstances = getClassInstancesInRange(schedule, today, endDate, calendar)
+          .filter(instance => !markedToday.has(instance.key) && !cancelledKeys.has(instance.key));
+        upcomingInstances.push(...classroomInstances);
+
+        const policy = await this.classroomService.getAttendancePolicy(classroom);
+        policies[classroom.id] = policy;
+
+        const seenClassIds = new Set<string>();
+        for (const cls of schedule.classes) {
+          if (seenClassIds.has(cls.id)) continue;
+          seenClassIds.add(cls.id);
+
+          const remainingClasses = classroomInstances
+            .filter(i => i.classId === cls.id)
+            .reduce((units, i) => units + i.weight, 0);
+          const summary = await this.getAttendanceSummary(
+            userId,
+            cls.id,
+            policy,
+            classroom.excusedPolicy,
+            remainingClasses
+          );
+          const totalClassesSoFar = summary?.totalClassesSoFar || 0;
+          const evaluation = evaluateAttendance(policy, {
+            attendedClasses: summary?.totalAttendedSoFar || 0,
+            totalClasses: totalClassesSoFar,
+            classId: cls.id,
+            remainingClasses,
+          });
+
+          subjects.push({
+            classId: cls.id,
+            classroomId: classroom.id,
+            subject: cls.name,
+            instructor: cls.instructor,
+            totalClassesSoFar,
+            totalAttendedSoFar: summary?.totalAttendedSoFar || 0,
+            totalAbsences: summary?.totalAbsences || 0,
+            totalExcused: summary?.totalExcused || 0,
+            currentAttendancePercentage: summary?.currentAttendancePercentage || 0,
+            requiredAttendancePercentage: evaluation.requiredPercentage,
+            TotalClassesForSemester: totalClassesSoFar + remainingClasses,
+            remainingClasses,
+            classesToAttend: evaluation.classesToAttend,
+            classesCanSkip: evaluation.classesCanSkip,
+            isAttendanceCritical: evaluation.isCritical,
+            eligibility: evaluation.status,
+          });
+        }
+      }
+
+      upcomingInstances.sort((a, b) =>
+        `${a.date}_${a.startTime}`.localeCompare(`${b.date}_${b.startTime}`)
+      );
+
+      return { subjects, upcomingInstances, policies };
+    } catch (error) {
+      console.error("Error getting bunk planner data:", error);
+      return { subjects: [], upcomingInstances: [] };
+    }
+  }
+
+  // Get today's class instances for dashboard
   private async getTodaysClasses(userId: string): Promise<TodaysClass[]> {
     try {
-      const today = new Date().getDay(); // 0 = Sunday, 1 = Monday, etc.
-      const dayNames = [
-        "Sunday",
-        "Monday",
-        "Tuesday",
-        "Wednesday",
-        "Thursday",
-        "Friday",
-        "Saturday",
-      ];
-      const todayName = dayNames[today];
-      const todayDate = new Date().toISOString().split("T")[0];
-
-      // Get user's classrooms
+      const todayDate = getAcademicToday();
+
+      // Get user's classrooms and today's records in one query
       const classrooms = await this.classroomService.getUserClassrooms(userId);
+      const todayRecords = await this.getAttendanceRecordsForDate(userId, todayDate);
       const todaysClasses: TodaysClass[] = [];
 
       for (const classroom of classrooms) {
@@ -549,40 +1816,58 @@ export class FirebaseAttendanceService {
         );
 
         if (schedule) {
-          // Filter classes for today
-          const todayClasses = schedule.classes.filter(
-            (cls) => cls.day === todayName
-          );
-
-          for (const cls of todayClasses) {
-            // Check if attendance is already marked for today
-            const attendanceRecord = await this.getAttendanceRecord(
-              userId,
-              cls.id,
-              todayDate
-            );
-
-            // Get attendance summary for this class
-            const summary = await this.getAttendanceSummary(
-              userId,
-              cls.id,
-              classroom.attendanceTarget
-            );
+          const policy = await this.classroomService.getAttendancePolicy(classroom);
+          const projection = await this.getRemainingClassProjection(userId, classroom.id);
+
+          // Expand today's classes into instances (a subject may meet more than once);
+          // none run on days off or during exams and breaks on the academic calendar
+          const todayInstances = await this.getHeldClassInstances(classroom, schedule, todayDate);
+          const markedInstances = this.matchRecordsToInstances(todayInstances, todayRecords);
+          const cancellations = await this.cancellationService.getCancellationsForDate(classroom.id, todayDate);
+          const summaries = new Map<string, AttendanceSummary | null>();
+
+          for (const instance of todayInstances) {
+            const attendanceRecord = markedInstances.get(instance.key);
+
+            // Get attendance summary once per class
+            if (!summaries.has(instance.classId)) {
+              summaries.set(
+                instance.classId,
+                await this.getAttendanceSummary(
+                  userId,
+                  instance.classId,
+                  policy,
+                  classroom.excusedPolicy,
+                  projection ? projection.get(instance.classId) || 0 : undefined
+                )
+              );
+            }
+            const summary = summaries.get(instance.classId);
 
             const todayClass: TodaysClass = {
-              id: `${cls.id}_${todayDate}`,
-              classId: cls.id,
+              id: instance.key,
+              classId: instance.classId,
               classroomId: classroom.id,
-              subject: cls.name,
-              time: `${cls.startTime} - ${cls.endTime}`,
-              instructor: cls.instructor,
-              room: cls.location,
+              subject: instance.subject,
+              date: instance.date,
+              startTime: instance.startTime,
+              time: `${instance.startTime} - ${instance.endTime}`,
+              instructor: instance.instructor,
+              room: instance.location,
               isCheckedIn: !!attendanceRecord,
               attendanceStatus: attendanceRecord?.status,
               reason: attendanceRecord?.reason,
+              reasonCategory: attendanceRecord?.reasonCategory,
+              leaveType: attendanceRecord?.leaveType,
+              cancellation: cancellations.find(c => c.instanceKey === instance.key),
+              extraKind: schedule.extraClasses?.find(e => e.id === instance.extraClassId)?.kind,
+              sessionType: instance.sessionType,
+              weight: instance.weight,
               totalClasses: summary?.totalClassesSoFar || 0,
               attendedClasses: summary?.totalAttendedSoFar || 0,
-              requiredAttendancePercentage: classroom.attendanceTarget,
+              requiredAttendancePercentage: summary?.requiredAttendancePercentage ?? classroom.attendanceTarget,
+              attendancePolicy: policy,
+              TotalClassesForSemester: projection ? summary?.TotalClassesForSemester : undefined,
             };
 
             todaysClasses.push(todayClass);
@@ -666,27 +1951,77 @@ export class FirebaseAttendanceService {
       const userTasks = await this.taskService.getUserTasks(userId);
       const totalTasks = userTasks.length;
 
-      // Calculate overall attendance percentage
+      // Overall standing is judged by the policy of the user's first classroom
+      const classrooms = await this.classroomService.getUserClassrooms(userId);
+      const [primaryClassroom] = classrooms;
+      const overallPolicy = primaryClassroom
+        ? await this.classroomService.getAttendancePolicy(primaryClassroom)
+        : getDefaultPolicy(user.attendanceTarget || 75);
+
+      // Calculate overall attendance percentage (count each class once,
+      // even when it has several instances today)
       let totalClasses = 0;
       let totalAttended = 0;
+      const countedClassIds = new Set<string>();
+      const subjectTotals: { classId: string; attendedClasses: number; totalClasses: number }[] = [];
 
       for (const todayClass of todaysClasses) {
+        if (countedClassIds.has(todayClass.classId)) continue;
+        countedClassIds.add(todayClass.classId);
         totalClasses += todayClass.totalClasses;
         totalAttended += todayClass.attendedClasses;
+        subjectTotals.push({
+          classId: todayClass.classId,
+          attendedClasses: todayClass.attendedClasses,
+          totalClasses: todayClass.totalClasses,
+        });
       }
 
       const overallAttendancePercentage =
         totalClasses > 0 ? Math.round((totalAttended / totalClasses) * 100) : 0;
+      const overallEvaluation = evaluateOverall(overallPolicy, subjectTotals);
+
+      // Exams, breaks and events of the user's classrooms that are on now or start this week
+      const today = getAcademicToday();
+      const blocksByClassroom = await this.academicCalendarService.getBlocksForClassrooms(classrooms.map(c => c.id));
+      const academicBlocks: AcademicBlockBanner[] = getUpcomingBlocks(
+        classrooms.flatMap(classroom =>
+          (blocksByClassroom.get(classroom.id) || []).map(block => ({ ...block, classroomName: classroom.name }))
+        ),
+        today
+      );
+
+      // The first classroom's current semester takes over from the dates in the user's profile
+      const currentSemester = primaryClassroom
+        ? await this.semesterService.getCurrentSemester(primaryClassroom)
+        : null;
+      const semesterStartDate = currentSemester ? formatSemesterDate(currentSemester.startDate) : user.semesterStartDate;
+      const semesterEndDate = currentSemester ? formatSemesterDate(currentSemester.endDate) : user.semesterEndDate;
 
       // Calculate semester information with pre-registration assumption
       let semesterInfo: SemesterInfo | undefined;
-      if (user.semesterStartDate && user.semesterEndDate && user.createdAt) {
-        console.log('Calculating semester info with dates:', user.semesterStartDate, user.semesterEndDate);
+      if (semesterStartDate && semesterEndDate && user.createdAt) {
+        console.log('Calculating semester info with dates:', semesterStartDate, semesterEndDate);
         console.log('User registration date:', user.createdAt);
         
+        // Working days follow the holidays and working week of the user's first classroom
+        const semesterStart = parseDate(semesterStartDate);
+        const semesterEnd = parseDate(semesterEndDate);
+        const workingDayCalendar = {
+          blocks: primaryClassroom ? blocksByClassroom.get(primaryClassroom.id) : undefined,
+          holidays: semesterStart && semesterEnd
+            ? await this.holidayService.getHolidayDatesForRange(
+              primaryClassroom || null,
+              formatDateKey(semesterStart),
+              formatDateKey(semesterEnd)
+            )
+            : undefined,
+          workingWeek: primaryClassroom?.workingWeek,
+        };
+
         // Test the calculation with debug info
-        const progress = testSemesterCalculation(user.semesterStartDate, user.semesterEndDate);
-        const targetPercentage = user.attendanceTarget || 75;
+        const progress = testSemesterCalculation(semesterStartDate, semesterEndDate, workingDayCalendar);
+        const targetPercentage = overallPolicy.minimumPercentage;
         
         // Calculate more accurate attended days by counting actual attendance records
         // First, try to get actual attendance records for better accuracy
@@ -700,11 +2035,13 @@ export class FirebaseAttendanceService {
           );
           const attendanceSnapshot = await getDocs(attendanceQuery);
           
-          // Count unique dates when user was present
+          // Count unique dates in this semester when user was present
           const presentDates = new Set<string>();
           attendanceSnapshot.forEach(doc => {
             const record = doc.data() as AttendanceRecord;
-            presentDates.add(record.date);
+            if (isDateWithinSemester(record.date, semesterStartDate, semesterEndDate)) {
+              presentDates.add(record.date);
+            }
           });
           attendedDays = presentDates.size;
         } catch (error) {
@@ -713,18 +2050,35 @@ export class FirebaseAttendanceService {
           attendedDays = attendanceStreak.totalDaysMarked;
         }
         
+        // Portal counts entered by the user replace the target% assumption before registration
+        const semesterScope = {
+          semesterId: currentSemester?.id,
+          semesterStartDate,
+          semesterEndDate,
+        };
+        const baselines = (await this.initialAttendanceService.getUserInitialAttendance(userId))
+          .filter(baseline => isInSemester(baseline, baseline.asOfDate, semesterScope));
+        const baselineConducted = baselines.reduce((sum, b) => sum + b.conductedClasses, 0);
+        const baselinePercentage = baselineConducted > 0
+          ? Math.round((baselines.reduce((sum, b) => sum + b.attendedClasses, 0) / baselineConducted) * 10000) / 100
+          : undefined;
+
         // Use new calculation that considers pre-registration attendance
         const attendanceCalc = calculateAttendanceWithPreRegistration(
-          user.semesterStartDate,
-          user.semesterEndDate,
+          semesterStartDate,
+          semesterEndDate,
           user.createdAt, // Registration date
           attendedDays,   // Actual attended days since registration
-          targetPercentage
+          targetPercentage,
+          baselinePercentage,
+          workingDayCalendar
         );
 
+        const eligibility = evaluatePercentage(overallPolicy, attendanceCalc.currentPerformancePercentage);
+
         semesterInfo = {
-          startDate: user.semesterStartDate,
-          endDate: user.semesterEndDate,
+          startDate: semesterStartDate,
+          endDate: semesterEndDate,
           totalWorkingDays: progress.totalWorkingDays,
           elapsedWorkingDays: progress.elapsedWorkingDays,
           remainingWorkingDays: attendanceCalc.remainingWorkingDays,
@@ -732,17 +2086,19 @@ export class FirebaseAttendanceService {
           targetAttendancePercentage: targetPercentage,
           requiredAttendanceDays: attendanceCalc.requiredDays,
           canSkipDays: attendanceCalc.canSkipDays,
-          isOnTrack: attendanceCalc.isOnTrack,
+          isOnTrack: eligibility === 'eligible',
+          eligibility,
           currentPerformancePercentage: attendanceCalc.currentPerformancePercentage,
           targetDaysForSemester: attendanceCalc.targetDaysForSemester,
           projectedFinalPercentage: attendanceCalc.projectedFinalPercentage,
+          baselinePercentage,
         };
 
         console.log('Calculated semester info with pre-registration:', semesterInfo);
       } else {
         console.log('Missing required data - semester dates or registration date:', {
-          semesterStart: user.semesterStartDate,
-          semesterEnd: user.semesterEndDate,
+          semesterStart: semesterStartDate,
+          semesterEnd: semesterEndDate,
           createdAt: user.createdAt
         });
       }
@@ -753,8 +2109,10 @@ export class FirebaseAttendanceService {
         attendanceStreak,
         attendanceSummary: [],
         overallAttendancePercentage,
+        overallEvaluation,
         totalTasks,
         semesterInfo,
+        academicBlocks,
       };
     } catch (error) {
       console.error("Error getting dashboard data:", error);
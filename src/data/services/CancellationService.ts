@@ -0,0 +1,221 @@
+import {
+    arrayRemove,
+    arrayUnion,
+    collection,
+    deleteDoc,
+    doc,
+    getDoc,
+    getDocs,
+    query,
+    setDoc,
+    updateDoc,
+    where,
+} from "firebase/firestore";
+import { db } from "../../config/firebase";
+import { ClassCancellation, ClassInstance } from "../../domain/model/Classroom";
+import { FirebaseClassroomService } from "./ClassroomService";
+
+// Share of classroom members that must report a cancellation before it counts
+const CANCELLATION_CONSENSUS_SHARE = 0.5;
+
+export class FirebaseCancellationService {
+  private classroomService = new FirebaseClassroomService();
+
+  // Votes needed for member consensus (at least two unless the classroom is tiny)
+  private getRequiredVotes(memberCount: number): number {
+    return Math.min(
+      memberCount,
+      Math.max(2, Math.ceil(memberCount * CANCELLATION_CONSENSUS_SHARE))
+    );
+  }
+
+  private getCancellationId(classroomId: string, instanceKey: string): string {
+    return `${classroomId}_${instanceKey}`;
+  }
+
+  // Report a class instance as cancelled. Admin reports are confirmed right
+  // away; member reports are confirmed once enough members agree.
+  async reportCancellation(
+    userId: string,
+    instance: Pick<ClassInstance, "key" | "classroomId" | "classId" | "subject" | "date" | "startTime">,
+    reason?: string
+  ): Promise<{ success: boolean; cancellation?: ClassCancellation; error?: string }> {
+    try {
+      const classroom = await this.classroomService.getClassroom(instance.classroomId);
+      if (!classroom || !classroom.members.includes(userId)) {
+        return { success: false, error: "You are not a member of this classroom" };
+      }
+
+      const isAdmin = classroom.createdBy === userId;
+      const cancellationId = this.getCancellationId(instance.classroomId, instance.key);
+      const cancellationRef = doc(db, "classCancellations", cancellationId);
+      const cancellationSnap = await getDoc(cancellationRef);
+      const now = new Date().toISOString();
+
+      let cancellation: ClassCancellation;
+
+      if (cancellationSnap.exists()) {
+        const existing = cancellationSnap.data() as ClassCancellation;
+        const votes = existing.votes.includes(userId) ? existing.votes : [...existing.votes, userId];
+        const reachedConsensus = votes.length >= existing.requiredVotes;
+
+        cancellation = {
+          ...existing,
+          votes,
+          status: isAdmin || reachedConsensus ? "confirmed" : existing.status,
+          confirmedBy: isAdmin ? "admin" : existing.confirmedBy || (reachedConsensus ? "consensus" : undefined),
+          updatedAt: now,
+        };
+
+        const updateData: any = {
+          votes: arrayUnion(userId),
+          status: cancellation.status,
+          updatedAt: now,
+        };
+        if (cancellation.confirmedBy) {
+          updateData.confirmedBy = cancellation.confirmedBy;
+        }
+        await updateDoc(cancellationRef, updateData);
+      } else {
+        const requiredVotes = this.getRequiredVotes(classroom.members.length);
+
+        cancellation = {
+          id: cancellationId,
+          classroomId: instance.classroomId,
+          classId: instance.classId,
+          subject: instance.subject,
+          date: instance.date,
+          startTime: instance.startTime,
+          instanceKey: instance.key,
+          status: isAdmin || requiredVotes <= 1 ? "confirmed" : "proposed",
+          createdBy: userId,
+          votes: [userId],
+          requiredVotes,
+          createdAt: now,
+          updatedAt: now,
+        };
+
+        if (cancellation.status === "confirmed") {
+          cancellation.confirmedBy = isAdmin ? "admin" : "consensus";
+        }
+        if (reason) {
+          cancellation.reason = reason;
+        }
+
+        await setDoc(cancellationRef, cancellation);
+      }
+
+      console.log("✅ Cancellation reported:", cancellationId, cancellation.status);
+      return { success: true, cancellation };
+    } catch (error) {
+      console.error("❌ Error reporting cancellation:", error);
+      return { success: false, error: "Failed to report cancellation" };
+    }
+  }
+
+  // Withdraw a cancellation report. Admins remove the cancellation entirely;
+  // members only take back their own vote.
+  async withdrawCancellation(
+    userId: string,
+    classroomId: string,
+    instanceKey: string
+  ): Promise<{ success: boolean; error?: string }> {
+    try {
+      const cancellationRef = doc(db, "classCancellations", this.getCancellationId(classroomId, instanceKey));
+      const cancellationSnap = await getDoc(cancellationRef);
+      if (!cancellationSnap.exists()) {
+        return { success: false, error: "Cancellation not found" };
+      }
+
+      const classroom = await this.classroomService.getClassroom(classroomId);
+      const existing = cancellationSnap.data() as ClassCancellation;
+      const votes = existing.votes.filter(voterId => voterId !== userId);
+      const isAdmin = classroom?.createdBy === userId;
+
+      if (isAdmin || (votes.length === 0 && existing.createdBy === userId)) {
+        await deleteDoc(cancellationRef);
+        console.log("✅ Cancellation removed:", cancellationSnap.id);
+        return { success: true };
+      }
+
+      // Admin-confirmed cancellations stay confirmed; consensus ones may fall back to proposed
+      const status = existing.confirmedBy === "admin" || votes.length >= existing.requiredVotes
+        ? existing.status
+        : "proposed";
+
+      await updateDoc(cancellationRef, {
+        votes: arrayRemove(userId),
+        status,
+        updatedAt: new Date().toISOString(),
+      });
+
+      console.log("✅ Cancellation vote withdrawn:", cancellationSnap.id);
+      return { success: true };
+    } catch (error) {
+      console.error("❌ Error withdrawing cancellation:", error);
+      return { success: false, error: "Failed to withdraw cancellation" };
+    }
+  }
+
+  // Get cancellation reports (proposed and confirmed) for a classroom on a date
+  async getCancellationsForDate(
+    classroomId: string,
+    date: string
+  ): Promise<ClassCancellation[]> {
+    try {
+      const cancellationsQuery = query(
+        collection(db, "classCancellations"),
+        where("classroomId", "==", classroomId),
+        where("date", "==", date)
+      );
+      const cancellationsSnapshot = await getDocs(cancellationsQuery);
+
+      return cancellationsSnapshot.docs
+        .map(doc => doc.data() as ClassCancellation)
+        .filter(cancellation => cancellation.status === "confirmed" || cancellation.votes.length > 0);
+    } catch (error) {
+      console.error("Error getting cancellations for date:", error);
+      return [];
+    }
+  }
+
+  // Get confirmed cancellations of a classroom (optionally of one class)
+  async getConfirmedCancellations(
+    classroomId: string,
+    classId?: string
+  ): Promise<ClassCancellation[]> {
+    try {
+      const filters = [
+        where("classroomId", "==", classroomId),
+        where("status", "==", "confirmed"),
+      ];
+      if (classId) {
+        filters.push(where("classId", "==", classId));
+      }
+
+      const cancellationsSnapshot = await getDocs(
+        query(collection(db, "classCancellations"), ...filters)
+      );
+      return cancellationsSnapshot.docs.map(doc => doc.data() as ClassCancellation);
+    } catch (error) {
+      console.error("Error getting confirmed cancellations:", error);
+      return [];
+    }
+  }
+
+  // Get confirmed cancellations of a class across classrooms (for lookups keyed by class only)
+  async getConfirmedCancellationsForClass(classId: string): Promise<ClassCancellation[]> {
+    try {
+      const cancellationsQuery = query(
+        collection(db, "classCancellations"),
+        where("classId", "==", classId),
+        where("status", "==", "confirmed")
+      );
+      const cancellationsSnapshot = await getDocs(cancellationsQuery);
+      return cancellationsSnapshot.docs.map(doc => doc.data() as ClassCancellation);
+    } catch (error) {
+      console.error("Error getting class cancellations:", error);
+      return [];
+    }
+  }
+}
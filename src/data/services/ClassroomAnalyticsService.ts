@@ -1,7 +1,30 @@
 import { collection, getDocs, query, where } from "firebase/firestore";
 import { db } from "../../config/firebase";
+import { addDaysToDateKey, getAcademicToday, getWeekdayIndex } from "../../core/utils/AcademicDateUtils";
+import { evaluateAttendance } from "../../core/utils/AttendancePolicyUtils";
+import {
+  ABSENCE_REASON_LABELS,
+  countAttendance,
+  excludeCancelledRecords,
+  isInSemester,
+} from "../../core/utils/AttendanceUtils";
+import { getDayOrderForDate } from "../../core/utils/DayOrderUtils";
+import { resolveRecordSessions } from "../../core/utils/ScheduleUtils";
+import {
+  AbsenceReasonCategory,
+  AttendancePolicy,
+  AttendanceRecord,
+  EligibilityStatus,
+  ExcusedAttendancePolicy,
+  SessionTypeAttendance,
+} from "../../domain/model/Attendance";
+import { ClassCancellation, DayOrderSettings, Schedule, WorkingWeekRules } from "../../domain/model/Classroom";
+import { Semester } from "../../domain/model/Semester";
+import { FirebaseAcademicCalendarService } from "./AcademicCalendarService";
 import { FirebaseAttendanceService } from "./AttendanceService";
+import { FirebaseCancellationService } from "./CancellationService";
 import { FirebaseClassroomService } from "./ClassroomService";
+import { FirebaseSemesterService } from "./SemesterService";
 
 export interface ClassroomAnalytics {
   weeklyPerformance: WeeklyPerformanceData[];
@@ -9,6 +32,23 @@ export interface ClassroomAnalytics {
   weeklyStats: WeeklyStatsData[];
   classroomOverview: ClassroomOverviewData[];
   subjects: SubjectData[];
+  absenceReasons: AbsenceReasonAnalytics;
+}
+
+// One bar of an absence breakdown (a category, subject or weekday)
+export interface AbsenceBreakdownItem {
+  key: string;
+  label: string;
+  count: number; // Missed classes
+  percentage: number; // Share of all absences
+}
+
+// Why, in which subjects and on which weekdays classes were missed
+export interface AbsenceReasonAnalytics {
+  totalAbsences: number;
+  byCategory: AbsenceBreakdownItem[]; // "uncategorized" holds auto-marked and older free-text absences
+  bySubject: AbsenceBreakdownItem[];
+  byWeekday: AbsenceBreakdownItem[]; // Sunday first, weekdays without absences left out
 }
 
 export interface SubjectData {
@@ -18,6 +58,7 @@ export interface SubjectData {
   color: string;
   totalClasses: number;
   attendedClasses: number;
+  excusedClasses: number;
   attendance: number;
   classroomId: string;
   classroomName: string;
@@ -25,6 +66,9 @@ export interface SubjectData {
   targetPercentage: number;
   classesToAttend?: number;
   classesCanSkip?: number;
+  remainingClasses?: number; // Classes still to be held this semester, when its end is known
+  eligibility?: EligibilityStatus;
+  sessionBreakdown?: SessionTypeAttendance[]; // Lab/tutorial/theory split, when the classroom reports it
 }
 
 export interface WeeklyPerformanceData {
@@ -55,16 +99,31 @@ export interface GoalsProgressData {
 }
 
 export interface ClassroomOverviewData {
+  id: string;
   name: string;
   description?: string;
   code?: string;
   studentCount: number;
   color?: string;
+  excusedPolicy?: ExcusedAttendancePolicy;
+  reportSessionTypesSeparately?: boolean;
+  attendancePolicy: AttendancePolicy; // Resolved policy (classroom, university or default)
+  hasOwnPolicy: boolean; // The classroom sets its own policy rather than inheriting one
+  university?: string;
+  holidayState?: string | null; // State whose holidays apply on top of the national ones
+  workingWeek?: WorkingWeekRules | null;
+  dayOrder: DayOrderSettings | null; // Set once the classroom has used a day-order timetable
+  todayDayOrder: number | null; // Today's day order while the day-order timetable is on
+  currentSemester: Semester | null; // Null until the classroom first rolls over to a new semester
+  isAdmin: boolean; // Current user created the classroom
 }
 
 export class FirebaseClassroomAnalyticsService {
   private attendanceService = new FirebaseAttendanceService();
   private classroomService = new FirebaseClassroomService();
+  private cancellationService = new FirebaseCancellationService();
+  private semesterService = new FirebaseSemesterService();
+  private academicCalendarService = new FirebaseAcademicCalendarService();
 
   async getClassroomAnalytics(
     userId: string
@@ -92,6 +151,7 @@ export class FirebaseClassroomAnalyticsService {
         classrooms
       );
       const subjects = await this.getSubjectsData(userId, classrooms);
+      const absenceReasons = await this.getAbsenceReasonAnalytics(userId, classrooms);
 
       return {
         weeklyPerformance,
@@ -99,6 +159,7 @@ export class FirebaseClassroomAnalyticsService {
         weeklyStats,
         classroomOverview,
         subjects,
+        absenceReasons,
       };
     } catch (error) {
       console.error("Error getting classroom analytics:", error);
@@ -113,13 +174,14 @@ export class FirebaseClassroomAnalyticsService {
     try {
       const days = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
       const weeklyData: WeeklyPerformanceData[] = [];
+      const cancellations = await this.getConfirmedCancellations(classrooms);
+      const schedules = await this.getSchedules(classrooms);
 
       // Get the past 7 days
+      const today = getAcademicToday();
       for (let i = 6; i >= 0; i--) {
-        const date = new Date();
-        date.setDate(date.getDate() - i);
-        const dateStr = date.toISOString().split("T")[0];
-        const dayName = days[date.getDay()];
+        const dateStr = addDaysToDateKey(today, -i);
+        const dayName = days[getWeekdayIndex(dateStr)];
 
         // Get attendance for this date
         const attendanceQuery = query(
@@ -129,10 +191,12 @@ export class FirebaseClassroomAnalyticsService {
         );
 
         const attendanceSnapshot = await getDocs(attendanceQuery);
-        const totalClasses = attendanceSnapshot.size;
-        const presentClasses = attendanceSnapshot.docs.filter(
-          (doc) => doc.data().status === "present"
-        ).length;
+        const { totalClasses, attendedClasses: presentClasses } = this.countByClassroom(
+          attendanceSnapshot.docs.map((doc) => doc.data() as AttendanceRecord),
+          classrooms,
+          cancellations,
+          schedules
+        );
 
         const percentage =
           totalClasses > 0 ? (presentClasses / totalClasses) * 100 : 0;
@@ -224,19 +288,19 @@ export class FirebaseClassroomAnalyticsService {
       );
 
       // Filter for the past week in memory to avoid Firebase index requirement
-      const weekStart = new Date();
-      weekStart.setDate(weekStart.getDate() - 7);
-      const weekStartStr = weekStart.toISOString().split("T")[0];
+      const weekStartStr = addDaysToDateKey(getAcademicToday(), -7);
 
       const weeklyRecords = attendanceRecords.filter(
         (record) => record.date >= weekStartStr
       );
 
       // Calculate stats
-      const totalClasses = weeklyRecords.length;
-      const presentClasses = weeklyRecords.filter(
-        (record) => record.status === "present"
-      ).length;
+      const { totalClasses, attendedClasses: presentClasses } = this.countByClassroom(
+        weeklyRecords as AttendanceRecord[],
+        classrooms,
+        await this.getConfirmedCancellations(classrooms),
+        await this.getSchedules(classrooms)
+      );
       const attendanceRate =
         totalClasses > 0
           ? Math.round((presentClasses / totalClasses) * 100)
@@ -304,12 +368,34 @@ export class FirebaseClassroomAnalyticsService {
         // Use the members array that's already in the classroom data
         const studentCount = classroom.members ? classroom.members.length : 0;
 
+        const today = getAcademicToday();
+        const schedule = await this.classroomService.getClassroomSchedule(classroom.id);
+        const todayDayOrder = schedule?.dayOrder?.enabled
+          ? getDayOrderForDate(
+              schedule.dayOrder,
+              today,
+              await this.academicCalendarService.getDayOrderCalendar(classroom, schedule, today)
+            )
+          : null;
+
         classroomOverview.push({
+          id: classroom.id,
           name: classroom.name || "Unnamed Classroom",
           description: classroom.description || undefined,
           code: classroom.code || undefined,
           studentCount,
           color: colors[i % colors.length],
+          excusedPolicy: classroom.excusedPolicy,
+          reportSessionTypesSeparately: classroom.reportSessionTypesSeparately,
+          attendancePolicy: await this.classroomService.getAttendancePolicy(classroom),
+          hasOwnPolicy: !!classroom.attendancePolicy,
+          university: classroom.university || undefined,
+          holidayState: classroom.holidayState || null,
+          workingWeek: classroom.workingWeek || null,
+          dayOrder: schedule?.dayOrder || null,
+          todayDayOrder,
+          currentSemester: await this.semesterService.getCurrentSemester(classroom),
+          isAdmin: classroom.createdBy === userId,
         });
       }
 
@@ -356,6 +442,8 @@ export class FirebaseClassroomAnalyticsService {
         const schedule = await this.classroomService.getClassroomSchedule(
           classroom.id
         );
+        const attendancePolicy = await this.classroomService.getAttendancePolicy(classroom);
+        const projection = await this.attendanceService.getRemainingClassProjection(userId, classroom.id);
         
         if (schedule && schedule.classes) {
           for (const classItem of schedule.classes) {
@@ -365,20 +453,26 @@ export class FirebaseClassroomAnalyticsService {
             const subjectKey = `${subject}-${classroom.id}`;
 
             if (!subjectMap.has(subjectKey)) {
+              const remainingClasses = projection ? projection.get(classItem.id) || 0 : undefined;
+
               // Try to get cached stats first for better performance
               const cachedStats = await this.attendanceService.getAttendanceStatsFromCache(
                 userId,
-                classItem.id
+                classItem.id,
+                schedule.semesterId
               );
 
               let totalClasses = 0;
               let presentClasses = 0;
+              let excusedClasses = 0;
               let attendancePercentage = 0;
+              let sessionBreakdown: SessionTypeAttendance[] | undefined;
 
               if (cachedStats) {
                 // Use cached data (fast)
                 totalClasses = cachedStats.totalClasses;
                 presentClasses = cachedStats.attendedClasses;
+                excusedClasses = cachedStats.excusedClasses;
                 attendancePercentage = Math.round(cachedStats.attendancePercentage);
               } else {
                 // Fallback to querying (slower, but ensures data exists)
@@ -390,10 +484,25 @@ export class FirebaseClassroomAnalyticsService {
                 );
 
                 const attendanceSnapshot = await getDocs(attendanceQuery);
-                totalClasses = attendanceSnapshot.size;
-                presentClasses = attendanceSnapshot.docs.filter(
-                  (doc) => doc.data().status === "present"
-                ).length;
+                const cancellations = await this.cancellationService.getConfirmedCancellations(
+                  classroom.id,
+                  classItem.id
+                );
+                const counts = countAttendance(
+                  resolveRecordSessions(
+                    excludeCancelledRecords(
+                      attendanceSnapshot.docs
+                        .map((doc) => doc.data() as AttendanceRecord)
+                        .filter((record) => isInSemester(record, record.date, schedule)),
+                      cancellations
+                    ),
+                    schedule
+                  ),
+                  classroom.excusedPolicy
+                );
+                totalClasses = counts.totalClasses;
+                presentClasses = counts.attendedClasses;
+                excusedClasses = counts.excusedClasses;
 
                 attendancePercentage =
                   totalClasses > 0
@@ -401,41 +510,30 @@ export class FirebaseClassroomAnalyticsService {
                     : 0;
               }
 
-              // Calculate future planning metrics
-              const targetPercentage = classroom.attendanceTarget || 75;
-              let classesToAttend: number | undefined;
-              let classesCanSkip: number | undefined;
-
-              if (totalClasses > 0) {
-                const currentPercentage = (presentClasses / totalClasses) * 100;
-                
-                if (currentPercentage < targetPercentage) {
-                  // Calculate how many consecutive classes need to be attended to reach target
-                  // Formula: (presentClasses + x) / (totalClasses + x) = targetPercentage / 100
-                  // Solving: x = (targetPercentage * totalClasses - 100 * presentClasses) / (100 - targetPercentage)
-                  const numerator = (targetPercentage * totalClasses) - (100 * presentClasses);
-                  const denominator = 100 - targetPercentage;
-                  
-                  if (denominator > 0 && numerator > 0) {
-                    classesToAttend = Math.ceil(numerator / denominator);
-                  } else {
-                    classesToAttend = 0;
-                  }
-                  classesCanSkip = 0;
-                } else {
-                  // Calculate how many classes can be missed while staying above target
-                  // Formula: presentClasses / (totalClasses + x) = targetPercentage / 100
-                  // Solving: x = (100 * presentClasses / targetPercentage) - totalClasses
-                  if (targetPercentage > 0) {
-                    const maxTotalClasses = (100 * presentClasses) / targetPercentage;
-                    classesCanSkip = Math.max(0, Math.floor(maxTotalClasses - totalClasses));
-                  } else {
-                    classesCanSkip = 0;
-                  }
-                  classesToAttend = 0;
-                }
+              // Separate lab/tutorial/theory percentages for classrooms that report them
+              if (classroom.reportSessionTypesSeparately) {
+                const summary = await this.attendanceService.getAttendanceSummary(
+                  userId,
+                  classItem.id,
+                  attendancePolicy,
+                  classroom.excusedPolicy,
+                  remainingClasses
+                );
+                sessionBreakdown = summary?.sessionBreakdown;
               }
 
+              // Future planning metrics come from the classroom's attendance policy,
+              // over the classes actually left this semester
+              const evaluation = evaluateAttendance(attendancePolicy, {
+                attendedClasses: presentClasses,
+                totalClasses,
+                classId: classItem.id,
+                remainingClasses,
+              });
+              const targetPercentage = evaluation.requiredPercentage;
+              const classesToAttend = totalClasses > 0 ? evaluation.classesToAttend : undefined;
+              const classesCanSkip = totalClasses > 0 ? evaluation.classesCanSkip : undefined;
+
               subjectMap.set(subjectKey, {
                 name: subject,
                 code: classItem.code || classItem.id || `${subject.substring(0, 3).toUpperCase()}${Math.floor(Math.random() * 900) + 100}`,
@@ -443,6 +541,7 @@ export class FirebaseClassroomAnalyticsService {
                 color: colors[colorIndex % colors.length],
                 totalClasses: totalClasses,
                 attendedClasses: presentClasses,
+                excusedClasses,
                 attendance: attendancePercentage,
                 classroomId: classroom.id,
                 classroomName: classroom.name || "Unnamed Classroom",
@@ -450,6 +549,9 @@ export class FirebaseClassroomAnalyticsService {
                 targetPercentage: targetPercentage,
                 classesToAttend: classesToAttend,
                 classesCanSkip: classesCanSkip,
+                remainingClasses,
+                eligibility: totalClasses > 0 ? evaluation.status : undefined,
+                sessionBreakdown,
               });
 
               colorIndex++;
@@ -467,6 +569,121 @@ export class FirebaseClassroomAnalyticsService {
     }
   }
 
+  // Break absences in the user's classrooms down by reason category, subject and weekday
+  private async getAbsenceReasonAnalytics(
+    userId: string,
+    classrooms: any[]
+  ): Promise<AbsenceReasonAnalytics> {
+    try {
+      const absenceQuery = query(
+        collection(db, "attendance"),
+        where("userId", "==", userId),
+        where("status", "==", "absent")
+      );
+      const absenceSnapshot = await getDocs(absenceQuery);
+      // Only absences in each classroom's current semester
+      const schedules = await this.getSchedules(classrooms);
+      const absences = excludeCancelledRecords(
+        absenceSnapshot.docs
+          .map((doc) => doc.data() as AttendanceRecord)
+          .filter((record) => schedules.has(record.classroomId) &&
+            isInSemester(record, record.date, schedules.get(record.classroomId))),
+        await this.getConfirmedCancellations(classrooms)
+      );
+
+      const days = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+      const byCategory = new Map<AbsenceReasonCategory | "uncategorized", number>();
+      const bySubject = new Map<string, { label: string; count: number }>();
+      const byWeekday = new Map<number, number>();
+
+      for (const record of absences) {
+        const category = record.reasonCategory || "uncategorized";
+        byCategory.set(category, (byCategory.get(category) || 0) + 1);
+
+        const subject = bySubject.get(record.classId) || { label: record.subject, count: 0 };
+        bySubject.set(record.classId, { ...subject, count: subject.count + 1 });
+
+        const weekday = getWeekdayIndex(record.date);
+        byWeekday.set(weekday, (byWeekday.get(weekday) || 0) + 1);
+      }
+
+      const totalAbsences = absences.length;
+      const toItem = (key: string, label: string, count: number): AbsenceBreakdownItem => ({
+        key,
+        label,
+        count,
+        percentage: totalAbsences > 0 ? Math.round((count / totalAbsences) * 100) : 0,
+      });
+
+      return {
+        totalAbsences,
+        byCategory: Array.from(byCategory.entries())
+          .map(([category, count]) =>
+            toItem(category, category === "uncategorized" ? "Not given" : ABSENCE_REASON_LABELS[category], count)
+          )
+          .sort((a, b) => b.count - a.count),
+        bySubject: Array.from(bySubject.entries())
+          .map(([classId, { label, count }]) => toItem(classId, label, count))
+          .sort((a, b) => b.count - a.count),
+        byWeekday: Array.from(byWeekday.entries())
+          .sort(([a], [b]) => a - b)
+          .map(([weekday, count]) => toItem(days[weekday], days[weekday], count)),
+      };
+    } catch (error) {
+      console.error("Error getting absence reason analytics:", error);
+      return this.getDefaultAbsenceReasons();
+    }
+  }
+
+  // Confirmed cancellations across the user's classrooms
+  private async getConfirmedCancellations(classrooms: any[]): Promise<ClassCancellation[]> {
+    const cancellations = await Promise.all(
+      classrooms.map((classroom) => this.cancellationService.getConfirmedCancellations(classroom.id))
+    );
+    return cancellations.flat();
+  }
+
+  // Schedules of the user's classrooms, by classroom id
+  private async getSchedules(classrooms: any[]): Promise<Map<string, Schedule | null>> {
+    const schedules = await Promise.all(
+      classrooms.map((classroom) => this.classroomService.getClassroomSchedule(classroom.id))
+    );
+    return new Map(classrooms.map((classroom, i) => [classroom.id, schedules[i]]));
+  }
+
+  // Count records across classrooms, applying each classroom's excused policy
+  // and session weights, and leaving out cancelled class instances
+  private countByClassroom(
+    allRecords: AttendanceRecord[],
+    classrooms: any[],
+    cancellations: ClassCancellation[] = [],
+    schedules: Map<string, Schedule | null> = new Map()
+  ): { totalClasses: number; attendedClasses: number } {
+    const records = excludeCancelledRecords(allRecords, cancellations);
+    const knownClassroomIds = new Set(classrooms.map((classroom) => classroom.id));
+
+    // Records of classrooms the user has left use the default policy
+    const otherCounts = countAttendance(
+      records.filter((record) => !knownClassroomIds.has(record.classroomId))
+    );
+    let totalClasses = otherCounts.totalClasses;
+    let attendedClasses = otherCounts.attendedClasses;
+
+    for (const classroom of classrooms) {
+      const counts = countAttendance(
+        resolveRecordSessions(
+          records.filter((record) => record.classroomId === classroom.id),
+          schedules.get(classroom.id) || null
+        ),
+        classroom.excusedPolicy
+      );
+      totalClasses += counts.totalClasses;
+      attendedClasses += counts.attendedClasses;
+    }
+
+    return { totalClasses, attendedClasses };
+  }
+
   private getDefaultAnalytics(): ClassroomAnalytics {
     return {
       weeklyPerformance: this.getDefaultWeeklyPerformance(),
@@ -474,9 +691,14 @@ export class FirebaseClassroomAnalyticsService {
       weeklyStats: this.getDefaultWeeklyStats(),
       classroomOverview: this.getDefaultClassroomOverview(),
       subjects: [],
+      absenceReasons: this.getDefaultAbsenceReasons(),
     };
   }
 
+  private getDefaultAbsenceReasons(): AbsenceReasonAnalytics {
+    return { totalAbsences: 0, byCategory: [], bySubject: [], byWeekday: [] };
+  }
+
   private getDefaultWeeklyPerformance(): WeeklyPerformanceData[] {
     return [
       { value: 0, label: "Mon" },
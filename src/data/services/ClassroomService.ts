@@ -2,6 +2,7 @@ import {
     arrayRemove,
     arrayUnion,
     collection,
+    deleteField,
     doc,
     getDoc,
     getDocs,
@@ -11,7 +12,23 @@ import {
     where,
 } from "firebase/firestore";
 import { db } from "../../config/firebase";
-import { Classroom, ClassSchedule, Schedule } from "../../domain/model/Classroom";
+import { getAcademicToday } from "../../core/utils/AcademicDateUtils";
+import { getDefaultPolicy } from "../../core/utils/AttendancePolicyUtils";
+import { convertTimetableDays } from "../../core/utils/DayOrderUtils";
+import { addTimetableVersion, getTimetableForDate } from "../../core/utils/ScheduleUtils";
+import { formatDateKey, parseDate } from "../../core/utils/SemesterUtils";
+import { AttendancePolicy, ExcusedAttendancePolicy } from "../../domain/model/Attendance";
+import {
+    Classroom,
+    ClassSchedule,
+    DayOrderSettings,
+    ExtraClass,
+    Schedule,
+    WorkingWeekRules,
+} from "../../domain/model/Classroom";
+
+// University policies rarely change, so they are read once per app session
+const universityPolicyCache = new Map<string, AttendancePolicy | null>();
 
 export class FirebaseClassroomService {
   // Generate a unique 6-digit classroom code
@@ -241,7 +258,8 @@ export class FirebaseClassroomService {
     createdBy: string,
     classes: ClassSchedule[],
     semesterStartDate?: string,
-    semesterEndDate?: string
+    semesterEndDate?: string,
+    dayOrder?: DayOrderSettings
   ): Promise<{ success: boolean; schedule?: Schedule; error?: string }> {
     try {
       console.log("📅 Creating schedule for classroom:", classroomId);
@@ -265,6 +283,9 @@ export class FirebaseClassroomService {
       if (semesterEndDate) {
         schedule.semesterEndDate = semesterEndDate;
       }
+      if (dayOrder) {
+        schedule.dayOrder = dayOrder;
+      }
 
       await setDoc(doc(db, "schedules", scheduleId), schedule);
 
@@ -284,7 +305,12 @@ export class FirebaseClassroomService {
       const querySnapshot = await getDocs(q);
 
       if (!querySnapshot.empty) {
-        return querySnapshot.docs[0].data() as Schedule;
+        const schedule = querySnapshot.docs[0].data() as Schedule;
+        // A version dated ahead takes over once its day comes
+        if (schedule.versions && schedule.versions.length > 0) {
+          schedule.classes = getTimetableForDate(schedule, getAcademicToday());
+        }
+        return schedule;
       }
       return null;
     } catch (error) {
@@ -293,20 +319,45 @@ export class FirebaseClassroomService {
     }
   }
 
-  // Update schedule for a classroom
+  // Update schedule for a classroom. With an effective date the new classes
+  // become a timetable version, and dates before it keep the earlier timetable.
   async updateSchedule(
     scheduleId: string,
-    classes: ClassSchedule[]
+    classes: ClassSchedule[],
+    version?: { effectiveFrom: string; updatedBy: string }
   ): Promise<{ success: boolean; error?: string }> {
     try {
       console.log("📅 Updating schedule:", scheduleId);
+      const now = new Date().toISOString();
+
+      if (!version) {
+        await updateDoc(doc(db, "schedules", scheduleId), {
+          classes,
+          updatedAt: now,
+        });
+        console.log("✅ Schedule updated successfully");
+        return { success: true };
+      }
+
+      const scheduleSnap = await getDoc(doc(db, "schedules", scheduleId));
+      if (!scheduleSnap.exists()) {
+        return { success: false, error: "Schedule not found" };
+      }
+
+      const schedule = scheduleSnap.data() as Schedule;
+      const versions = addTimetableVersion(
+        schedule,
+        { effectiveFrom: version.effectiveFrom, classes, createdBy: version.updatedBy, createdAt: now },
+        this.getTimetableOrigin(schedule)
+      );
 
       await updateDoc(doc(db, "schedules", scheduleId), {
-        classes,
-        updatedAt: new Date().toISOString(),
+        classes: getTimetableForDate({ classes, versions }, getAcademicToday()),
+        versions,
+        updatedAt: now,
       });
 
-      console.log("✅ Schedule updated successfully");
+      console.log("✅ Schedule updated successfully, effective from", version.effectiveFrom);
       return { success: true };
     } catch (error) {
       console.error("❌ Error updating schedule:", error);
@@ -314,6 +365,301 @@ export class FirebaseClassroomService {
     }
   }
 
+  // The date an unversioned timetable is taken to have started: the semester
+  // start, or the day the schedule was created
+  private getTimetableOrigin(schedule: Schedule): string {
+    const semesterStart = parseDate(schedule.semesterStartDate || "");
+    return semesterStart ? formatDateKey(semesterStart) : schedule.createdAt.slice(0, 10);
+  }
+
+  // Switch a classroom between weekday and day-order timetables. The classes
+  // move to the new day names as a timetable version (from Day 1 when switching
+  // on, from today when switching off), so earlier dates keep the old ones.
+  async updateDayOrder(
+    classroomId: string,
+    userId: string,
+    settings: Pick<DayOrderSettings, "enabled" | "cycleLength" | "startDate">
+  ): Promise<{ success: boolean; error?: string }> {
+    try {
+      const schedule = await this.getClassroomSchedule(classroomId);
+      if (!schedule) {
+        return { success: false, error: "Add the classroom timetable first" };
+      }
+
+      const previous = schedule.dayOrder;
+      if (!settings.enabled && !previous) {
+        return { success: true };
+      }
+
+      const now = new Date().toISOString();
+      const today = getAcademicToday();
+      // Firestore rejects undefined fields, so overrides are only kept while Day 1 stays put
+      const dayOrder: DayOrderSettings = {
+        enabled: settings.enabled,
+        cycleLength: settings.cycleLength,
+        startDate: settings.enabled ? settings.startDate : previous!.startDate,
+      };
+      if (previous?.overrides && previous.startDate === dayOrder.startDate) {
+        dayOrder.overrides = previous.overrides;
+      }
+
+      const update: Partial<Schedule> = { dayOrder, updatedAt: now };
+      if (settings.enabled !== !!previous?.enabled || settings.cycleLength !== previous?.cycleLength) {
+        const effectiveFrom = settings.enabled ? settings.startDate : today;
+        const converted = convertTimetableDays(
+          getTimetableForDate(schedule, effectiveFrom),
+          settings.enabled,
+          settings.cycleLength
+        );
+        const versions = addTimetableVersion(
+          schedule,
+          { effectiveFrom, classes: converted, createdBy: userId, createdAt: now },
+          this.getTimetableOrigin(schedule)
+        );
+        update.versions = versions;
+        update.classes = getTimetableForDate({ classes: converted, versions }, today);
+      }
+
+      await updateDoc(doc(db, "schedules", schedule.id), update);
+
+      console.log("✅ Day order updated:", classroomId, settings.enabled ? `Day 1 on ${dayOrder.startDate}` : "weekdays");
+      return { success: true };
+    } catch (error) {
+      console.error("❌ Error updating day order:", error);
+      return { success: false, error: "Failed to update day order" };
+    }
+  }
+
+  // Announce the day order of a date ("today is Day 3"), or clear the
+  // announcement with null. Counting carries on from it.
+  async setDayOrderOverride(
+    classroomId: string,
+    date: string,
+    dayOrder: number | null
+  ): Promise<{ success: boolean; error?: string }> {
+    try {
+      const schedule = await this.getClassroomSchedule(classroomId);
+      if (!schedule?.dayOrder) {
+        return { success: false, error: "The classroom doesn't use a day-order timetable" };
+      }
+
+      await updateDoc(doc(db, "schedules", schedule.id), {
+        [`dayOrder.overrides.${date}`]: dayOrder ?? deleteField(),
+        updatedAt: new Date().toISOString(),
+      });
+
+      console.log("✅ Day order override:", classroomId, date, dayOrder ?? "cleared");
+      return { success: true };
+    } catch (error) {
+      console.error("❌ Error setting day order override:", error);
+      return { success: false, error: "Failed to set the day order" };
+    }
+  }
+
+  // Add a one-off extra or makeup class to a classroom schedule
+  async addExtraClass(
+    scheduleId: string,
+    extraClass: ExtraClass
+  ): Promise<{ success: boolean; error?: string }> {
+    try {
+      const scheduleSnap = await getDoc(doc(db, "schedules", scheduleId));
+      if (!scheduleSnap.exists()) {
+        return { success: false, error: "Schedule not found" };
+      }
+
+      const schedule = scheduleSnap.data() as Schedule;
+      if (!schedule.classes.some((c) => c.id === extraClass.classId)) {
+        return { success: false, error: "Subject not found in this schedule" };
+      }
+
+      await updateDoc(doc(db, "schedules", scheduleId), {
+        extraClasses: arrayUnion(extraClass),
+        updatedAt: new Date().toISOString(),
+      });
+
+      console.log("✅ Extra class added:", extraClass.id, extraClass.date);
+      return { success: true };
+    } catch (error) {
+      console.error("❌ Error adding extra class:", error);
+      return { success: false, error: "Failed to add extra class" };
+    }
+  }
+
+  // Remove a one-off extra or makeup class from a classroom schedule
+  async removeExtraClass(
+    scheduleId: string,
+    extraClassId: string
+  ): Promise<{ success: boolean; error?: string }> {
+    try {
+      const scheduleSnap = await getDoc(doc(db, "schedules", scheduleId));
+      if (!scheduleSnap.exists()) {
+        return { success: false, error: "Schedule not found" };
+      }
+
+      const schedule = scheduleSnap.data() as Schedule;
+      await updateDoc(doc(db, "schedules", scheduleId), {
+        extraClasses: (schedule.extraClasses || []).filter((c) => c.id !== extraClassId),
+        updatedAt: new Date().toISOString(),
+      });
+
+      console.log("✅ Extra class removed:", extraClassId);
+      return { success: true };
+    } catch (error) {
+      console.error("❌ Error removing extra class:", error);
+      return { success: false, error: "Failed to remove extra class" };
+    }
+  }
+
+  // Update how excused (duty/medical leave) classes count in a classroom
+  async updateExcusedPolicy(
+    classroomId: string,
+    excusedPolicy: ExcusedAttendancePolicy
+  ): Promise<{ success: boolean; error?: string }> {
+    try {
+      await updateDoc(doc(db, "classrooms", classroomId), {
+        excusedPolicy,
+        updatedAt: new Date().toISOString(),
+      });
+
+      console.log("✅ Excused policy updated:", classroomId, excusedPolicy);
+      return { success: true };
+    } catch (error) {
+      console.error("❌ Error updating excused policy:", error);
+      return { success: false, error: "Failed to update excused policy" };
+    }
+  }
+
+  // Choose whether lab, tutorial and theory attendance are reported separately
+  async updateSessionReporting(
+    classroomId: string,
+    reportSessionTypesSeparately: boolean
+  ): Promise<{ success: boolean; error?: string }> {
+    try {
+      await updateDoc(doc(db, "classrooms", classroomId), {
+        reportSessionTypesSeparately,
+        updatedAt: new Date().toISOString(),
+      });
+
+      console.log("✅ Session reporting updated:", classroomId, reportSessionTypesSeparately);
+      return { success: true };
+    } catch (error) {
+      console.error("❌ Error updating session reporting:", error);
+      return { success: false, error: "Failed to update session reporting" };
+    }
+  }
+
+  // Set (or clear, with null) the state whose holiday calendar the classroom follows
+  async updateHolidayState(
+    classroomId: string,
+    holidayState: string | null
+  ): Promise<{ success: boolean; error?: string }> {
+    try {
+      await updateDoc(doc(db, "classrooms", classroomId), {
+        holidayState: holidayState?.trim() || null,
+        updatedAt: new Date().toISOString(),
+      });
+
+      console.log("✅ Holiday state updated:", classroomId, holidayState || "national only");
+      return { success: true };
+    } catch (error) {
+      console.error("❌ Error updating holiday state:", error);
+      return { success: false, error: "Failed to update holiday state" };
+    }
+  }
+
+  // Set (or clear, with null) which Saturdays the classroom works
+  async updateWorkingWeek(
+    classroomId: string,
+    rules: WorkingWeekRules | null
+  ): Promise<{ success: boolean; error?: string }> {
+    try {
+      // Firestore rejects undefined fields, so only keep the reference date when it is used
+      const workingWeek: WorkingWeekRules | null = rules
+        ? rules.saturdays === "alternate_off" && rules.alternateOffFrom
+          ? { saturdays: rules.saturdays, alternateOffFrom: rules.alternateOffFrom }
+          : { saturdays: rules.saturdays }
+        : null;
+
+      await updateDoc(doc(db, "classrooms", classroomId), {
+        workingWeek,
+        updatedAt: new Date().toISOString(),
+      });
+
+      console.log("✅ Working week updated:", classroomId, workingWeek?.saturdays ?? "default");
+      return { success: true };
+    } catch (error) {
+      console.error("❌ Error updating working week:", error);
+      return { success: false, error: "Failed to update working week" };
+    }
+  }
+
+  // Get the attendance policy of a university (seeded by admins, keyed by the
+  // university name in lowercase letters and digits)
+  async getUniversityPolicy(university: string): Promise<AttendancePolicy | null> {
+    const universityKey = university.toLowerCase().replace(/[^a-z0-9]/g, "");
+    if (!universityKey) return null;
+    if (universityPolicyCache.has(universityKey)) {
+      return universityPolicyCache.get(universityKey) || null;
+    }
+
+    try {
+      const policySnap = await getDoc(doc(db, "universityPolicies", universityKey));
+      const policy = policySnap.exists() ? (policySnap.data() as AttendancePolicy) : null;
+      universityPolicyCache.set(universityKey, policy);
+      return policy;
+    } catch (error) {
+      console.error("Error getting university policy:", error);
+      return null;
+    }
+  }
+
+  // Resolve the policy that applies to a classroom: its own policy, then its
+  // university's, then a per-subject minimum of its attendance target
+  async getAttendancePolicy(classroom: Classroom): Promise<AttendancePolicy> {
+    if (classroom.attendancePolicy) {
+      return classroom.attendancePolicy;
+    }
+    const universityPolicy = classroom.university
+      ? await this.getUniversityPolicy(classroom.university)
+      : null;
+    return universityPolicy || getDefaultPolicy(classroom.attendanceTarget || 75);
+  }
+
+  // Set (or clear, with null) the attendance policy of a classroom
+  async updateAttendancePolicy(
+    classroomId: string,
+    policy: AttendancePolicy | null
+  ): Promise<{ success: boolean; error?: string }> {
+    try {
+      // Firestore rejects undefined fields, so only set the optional parts in use
+      let attendancePolicy: AttendancePolicy | null = null;
+      if (policy) {
+        attendancePolicy = {
+          scope: policy.scope,
+          minimumPercentage: policy.minimumPercentage,
+          rounding: policy.rounding,
+        };
+        if (policy.condonation) {
+          attendancePolicy.condonation = policy.condonation;
+        }
+        if (policy.subjectMinimums && Object.keys(policy.subjectMinimums).length > 0) {
+          attendancePolicy.subjectMinimums = policy.subjectMinimums;
+        }
+      }
+
+      await updateDoc(doc(db, "classrooms", classroomId), {
+        attendancePolicy,
+        updatedAt: new Date().toISOString(),
+      });
+
+      console.log("✅ Attendance policy updated:", classroomId, attendancePolicy?.minimumPercentage ?? "default");
+      return { success: true };
+    } catch (error) {
+      console.error("❌ Error updating attendance policy:", error);
+      return { success: false, error: "Failed to update attendance policy" };
+    }
+  }
+
   // Leave a classroom
   async leaveClassroom(
     userId: string,
@@ -0,0 +1,164 @@
+import { doc, getDoc, writeBatch } from "firebase/firestore";
+import { db } from "../../config/firebase";
+import {
+    getBuiltinNationalCalendar,
+    getHolidayCalendarId,
+    getYearsInRange,
+    groupHolidaysByYear,
+    parseHolidayFile,
+    toHolidayDateSet,
+} from "../../core/utils/HolidayUtils";
+import { Classroom } from "../../domain/model/Classroom";
+import { HolidayCalendar, HolidayCalendarScope, ResolvedHoliday } from "../../domain/model/Holiday";
+import { FirebaseClassroomService } from "./ClassroomService";
+
+// Holiday calendars change a few times a year, so they are read once per app
+// session (null marks a calendar that doesn't exist)
+const holidayCalendarCache = new Map<string, HolidayCalendar | null>();
+
+type HolidayImportInput = {
+  classroomId: string;
+  scope: Exclude<HolidayCalendarScope, "national">;
+  content: string;
+};
+
+export class FirebaseHolidayService {
+  private classroomService = new FirebaseClassroomService();
+
+  // Get the calendar of a scope and year. National calendars fall back to the
+  // holidays shipped with the app when none was seeded for that year.
+  async getCalendar(
+    scope: HolidayCalendarScope,
+    year: number,
+    region?: string
+  ): Promise<HolidayCalendar | null> {
+    const id = getHolidayCalendarId(scope, year, region);
+    if (scope !== "national" && !region?.trim()) return null;
+
+    if (!holidayCalendarCache.has(id)) {
+      try {
+        const calendarSnap = await getDoc(doc(db, "holidayCalendars", id));
+        holidayCalendarCache.set(id, calendarSnap.exists() ? (calendarSnap.data() as HolidayCalendar) : null);
+      } catch (error) {
+        console.error("Error getting holiday calendar:", error);
+        // Don't cache failures, so the next read retries
+        return scope === "national" ? getBuiltinNationalCalendar(year) : null;
+      }
+    }
+
+    const calendar = holidayCalendarCache.get(id) || null;
+    return calendar || (scope === "national" ? getBuiltinNationalCalendar(year) : null);
+  }
+
+  // Get every calendar that applies to a classroom in a year: national, then
+  // its state's, then its university's
+  async getCalendarsForClassroom(
+    classroom: Pick<Classroom, "holidayState" | "university"> | null,
+    year: number
+  ): Promise<HolidayCalendar[]> {
+    const calendars = await Promise.all([
+      this.getCalendar("national", year),
+      classroom?.holidayState ? this.getCalendar("state", year, classroom.holidayState) : null,
+      classroom?.university ? this.getCalendar("university", year, classroom.university) : null,
+    ]);
+    return calendars.filter((calendar): calendar is HolidayCalendar => calendar !== null);
+  }
+
+  // Get the holidays of a classroom in a year, each with the calendar it came
+  // from (a date listed in several calendars is shown once)
+  async getHolidaysForClassroom(
+    classroom: Pick<Classroom, "holidayState" | "university"> | null,
+    year: number
+  ): Promise<ResolvedHoliday[]> {
+    const calendars = await this.getCalendarsForClassroom(classroom, year);
+    const byDate = new Map<string, ResolvedHoliday>();
+    for (const calendar of calendars) {
+      for (const holiday of calendar.holidays) {
+        if (!byDate.has(holiday.date)) byDate.set(holiday.date, { ...holiday, scope: calendar.scope });
+      }
+    }
+    return Array.from(byDate.values()).sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  // Get the holiday dates (YYYY-MM-DD) of a classroom between two dates
+  async getHolidayDatesForRange(
+    classroom: Pick<Classroom, "holidayState" | "university"> | null,
+    startDate: string,
+    endDate: string
+  ): Promise<Set<string>> {
+    const calendars = await Promise.all(
+      getYearsInRange(startDate, endDate).map(year => this.getCalendarsForClassroom(classroom, year))
+    );
+    return toHolidayDateSet(calendars.flat());
+  }
+
+  // Import a state or university holiday list from the contents of an ICS or
+  // CSV file. Each year in the file replaces that year's calendar. Calendars are
+  // shared, so only the admin of a classroom in that state or university may
+  // import one, the region always comes from the classroom, and a calendar can
+  // only be replaced by whoever imported it.
+  async importCalendar(
+    userId: string,
+    input: HolidayImportInput
+  ): Promise<{ success: boolean; importedCount?: number; years?: number[]; error?: string }> {
+    try {
+      const classroom = await this.classroomService.getClassroom(input.classroomId);
+      if (!classroom) {
+        return { success: false, error: "Classroom not found" };
+      }
+      if (classroom.createdBy !== userId) {
+        return { success: false, error: "Only the classroom admin can import holidays" };
+      }
+
+      const region = (input.scope === "state" ? classroom.holidayState : classroom.university) || "";
+      if (!region.trim()) {
+        return { success: false, error: input.scope === "state" ? "Enter a state first" : "Set the classroom's university first" };
+      }
+
+      const { format, holidays } = parseHolidayFile(input.content);
+      if (holidays.length === 0) {
+        return { success: false, error: "No holidays found. Paste an ICS calendar or CSV rows of date and name." };
+      }
+
+      // Check every year first; the years are then written together in one batch
+      const byYear = groupHolidaysByYear(holidays);
+      for (const year of byYear.keys()) {
+        const existingSnap = await getDoc(doc(db, "holidayCalendars", getHolidayCalendarId(input.scope, year, region)));
+        if (existingSnap.exists() && (existingSnap.data() as HolidayCalendar).updatedBy !== userId) {
+          return {
+            success: false,
+            error: `The ${region} calendar for ${year} was imported by another classroom's admin, so only they can replace it`,
+          };
+        }
+      }
+
+      const batch = writeBatch(db);
+      const now = new Date().toISOString();
+      const calendars: HolidayCalendar[] = [];
+      for (const [year, yearHolidays] of byYear) {
+        const calendar: HolidayCalendar = {
+          id: getHolidayCalendarId(input.scope, year, region),
+          scope: input.scope,
+          region,
+          year,
+          holidays: yearHolidays,
+          source: format,
+          classroomId: classroom.id,
+          updatedBy: userId,
+          updatedAt: now,
+        };
+        batch.set(doc(db, "holidayCalendars", calendar.id), calendar);
+        calendars.push(calendar);
+      }
+      await batch.commit();
+      calendars.forEach(calendar => holidayCalendarCache.set(calendar.id, calendar));
+
+      const years = Array.from(byYear.keys()).sort();
+      console.log("✅ Holiday calendar imported:", input.scope, region, years.join(", "), holidays.length);
+      return { success: true, importedCount: holidays.length, years };
+    } catch (error) {
+      console.error("❌ Error importing holiday calendar:", error);
+      return { success: false, error: "Failed to import holidays" };
+    }
+  }
+}
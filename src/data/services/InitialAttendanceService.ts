@@ -0,0 +1,120 @@
+import {
+    collection,
+    deleteDoc,
+    doc,
+    getDoc,
+    getDocs,
+    query,
+    setDoc,
+    where,
+} from "firebase/firestore";
+import { db } from "../../config/firebase";
+import { getAcademicToday } from "../../core/utils/AcademicDateUtils";
+import { InitialAttendance } from "../../domain/model/Attendance";
+
+type InitialAttendanceInput = Pick<
+  InitialAttendance,
+  "userId" | "classroomId" | "classId" | "subject" | "conductedClasses" | "attendedClasses" | "asOfDate" | "semesterId"
+>;
+
+export class FirebaseInitialAttendanceService {
+  private getInitialAttendanceId(userId: string, classroomId: string, classId: string): string {
+    return `${userId}_${classroomId}_${classId}`;
+  }
+
+  // Save the portal counts of a subject, replacing any earlier entry
+  async saveInitialAttendance(
+    input: InitialAttendanceInput
+  ): Promise<{ success: boolean; initialAttendance?: InitialAttendance; error?: string }> {
+    try {
+      const { conductedClasses, attendedClasses, asOfDate } = input;
+      if (!Number.isInteger(conductedClasses) || !Number.isInteger(attendedClasses) ||
+        conductedClasses < 0 || attendedClasses < 0) {
+        return { success: false, error: "Class counts must be whole numbers" };
+      }
+      if (attendedClasses > conductedClasses) {
+        return { success: false, error: "Attended classes can't exceed conducted classes" };
+      }
+      if (asOfDate > getAcademicToday()) {
+        return { success: false, error: "The as-of date can't be in the future" };
+      }
+
+      const id = this.getInitialAttendanceId(input.userId, input.classroomId, input.classId);
+      const ref = doc(db, "initialAttendance", id);
+      const existingSnap = await getDoc(ref);
+      const now = new Date().toISOString();
+
+      const initialAttendance: InitialAttendance = {
+        ...input,
+        id,
+        createdAt: existingSnap.exists() ? (existingSnap.data() as InitialAttendance).createdAt : now,
+        updatedAt: now,
+      };
+      await setDoc(ref, initialAttendance);
+      console.log("✅ Initial attendance saved:", id, `${attendedClasses}/${conductedClasses}`);
+      return { success: true, initialAttendance };
+    } catch (error) {
+      console.error("❌ Error saving initial attendance:", error);
+      return { success: false, error: "Failed to save attendance from the portal" };
+    }
+  }
+
+  // Remove the portal counts of a subject
+  async deleteInitialAttendance(
+    userId: string,
+    classroomId: string,
+    classId: string
+  ): Promise<{ success: boolean; error?: string }> {
+    try {
+      await deleteDoc(doc(db, "initialAttendance", this.getInitialAttendanceId(userId, classroomId, classId)));
+      return { success: true };
+    } catch (error) {
+      console.error("❌ Error deleting initial attendance:", error);
+      return { success: false, error: "Failed to remove attendance from the portal" };
+    }
+  }
+
+  // Get the portal counts of one subject
+  async getInitialAttendance(
+    userId: string,
+    classroomId: string,
+    classId: string
+  ): Promise<InitialAttendance | null> {
+    try {
+      const snap = await getDoc(doc(db, "initialAttendance", this.getInitialAttendanceId(userId, classroomId, classId)));
+      return snap.exists() ? (snap.data() as InitialAttendance) : null;
+    } catch (error) {
+      console.error("Error getting initial attendance:", error);
+      return null;
+    }
+  }
+
+  // Get the portal counts of one subject when its classroom isn't known
+  async getInitialAttendanceForClass(userId: string, classId: string): Promise<InitialAttendance | null> {
+    try {
+      const snapshot = await getDocs(query(
+        collection(db, "initialAttendance"),
+        where("userId", "==", userId),
+        where("classId", "==", classId)
+      ));
+      return snapshot.empty ? null : (snapshot.docs[0].data() as InitialAttendance);
+    } catch (error) {
+      console.error("Error getting initial attendance:", error);
+      return null;
+    }
+  }
+
+  // Get every subject's portal counts for a user
+  async getUserInitialAttendance(userId: string): Promise<InitialAttendance[]> {
+    try {
+      const snapshot = await getDocs(query(
+        collection(db, "initialAttendance"),
+        where("userId", "==", userId)
+      ));
+      return snapshot.docs.map(doc => doc.data() as InitialAttendance);
+    } catch (error) {
+      console.error("Error getting initial attendance:", error);
+      return [];
+    }
+  }
+}
@@ -0,0 +1,286 @@
+import {
+    collection,
+    doc,
+    getDoc,
+    getDocs,
+    query,
+    setDoc,
+    where,
+    writeBatch,
+} from "firebase/firestore";
+import { db } from "../../config/firebase";
+import { addDaysToDateKey, getAcademicToday } from "../../core/utils/AcademicDateUtils";
+import {
+    addBaselineCounts,
+    calculateAttendancePercentage,
+    countAttendance,
+    excludeBaselineRecords,
+    excludeCancelledRecords,
+    isInSemester,
+} from "../../core/utils/AttendanceUtils";
+import { getTimetableForDate, resolveRecordSessions } from "../../core/utils/ScheduleUtils";
+import { formatDateKey, formatSemesterDate, parseDate } from "../../core/utils/SemesterUtils";
+import { AttendanceRecord } from "../../domain/model/Attendance";
+import { Classroom, Schedule } from "../../domain/model/Classroom";
+import {
+    Semester,
+    SemesterResult,
+    SemesterRolloverInput,
+    SubjectSemesterResult,
+} from "../../domain/model/Semester";
+import { FirebaseCancellationService } from "./CancellationService";
+import { FirebaseClassroomService } from "./ClassroomService";
+import { FirebaseInitialAttendanceService } from "./InitialAttendanceService";
+
+export class FirebaseSemesterService {
+  private classroomService = new FirebaseClassroomService();
+  private cancellationService = new FirebaseCancellationService();
+  private initialAttendanceService = new FirebaseInitialAttendanceService();
+
+  // Get every semester of a classroom, oldest first
+  async getSemesters(classroomId: string): Promise<Semester[]> {
+    try {
+      const snapshot = await getDocs(
+        query(collection(db, "semesters"), where("classroomId", "==", classroomId))
+      );
+      return snapshot.docs
+        .map(semesterDoc => semesterDoc.data() as Semester)
+        .sort((a, b) => a.number - b.number);
+    } catch (error) {
+      console.error("Error getting semesters:", error);
+      return [];
+    }
+  }
+
+  // Get the running semester of a classroom (null until it first rolls over)
+  async getCurrentSemester(classroom: Pick<Classroom, "currentSemesterId">): Promise<Semester | null> {
+    if (!classroom.currentSemesterId) return null;
+
+    try {
+      const semesterSnap = await getDoc(doc(db, "semesters", classroom.currentSemesterId));
+      return semesterSnap.exists() ? (semesterSnap.data() as Semester) : null;
+    } catch (error) {
+      console.error("Error getting current semester:", error);
+      return null;
+    }
+  }
+
+  // Archive the running semester and start the next one. The timetable is kept
+  // on the archived semester and, when asked, cloned into the new one; one-off
+  // extra classes always stay behind. Only the classroom admin can roll over.
+  async rolloverSemester(
+    userId: string,
+    classroomId: string,
+    input: SemesterRolloverInput
+  ): Promise<{ success: boolean; semester?: Semester; error?: string }> {
+    try {
+      const name = input.name.trim();
+      const currentName = input.currentName.trim();
+      if (!name || !currentName) {
+        return { success: false, error: "Please name both semesters" };
+      }
+      if (input.endDate <= input.startDate) {
+        return { success: false, error: "The new semester must end after it starts" };
+      }
+
+      const classroom = await this.classroomService.getClassroom(classroomId);
+      if (!classroom) {
+        return { success: false, error: "Classroom not found" };
+      }
+      if (classroom.createdBy !== userId) {
+        return { success: false, error: "Only the classroom admin can start a new semester" };
+      }
+
+      const schedule = await this.classroomService.getClassroomSchedule(classroomId);
+      const current = await this.getCurrentSemester(classroom);
+      const toDateKey = (value?: string) => {
+        const date = parseDate(value || "");
+        return date ? formatDateKey(date) : "";
+      };
+
+      // Before the first rollover the running semester only exists as the schedule's dates
+      const currentStart = current?.startDate || toDateKey(schedule?.semesterStartDate) || classroom.createdAt.slice(0, 10);
+      if (input.startDate <= currentStart) {
+        return { success: false, error: "The new semester must start after the current one" };
+      }
+      const dayBeforeNext = addDaysToDateKey(input.startDate, -1);
+      const plannedEnd = current?.endDate || toDateKey(schedule?.semesterEndDate) || dayBeforeNext;
+      const currentNumber = current?.number || 1;
+      const now = new Date().toISOString();
+      const archivedEnd = plannedEnd < dayBeforeNext ? plannedEnd : dayBeforeNext;
+
+      const archived: Semester = {
+        id: current?.id || `${classroomId}_${currentNumber}`,
+        classroomId,
+        number: currentNumber,
+        name: currentName,
+        startDate: currentStart,
+        endDate: archivedEnd,
+        status: "archived",
+        timetable: schedule ? getTimetableForDate(schedule, archivedEnd) : [],
+        ...(schedule?.versions?.length ? { timetableVersions: schedule.versions } : {}),
+        createdBy: current?.createdBy || userId,
+        createdAt: current?.createdAt || now,
+        archivedAt: now,
+      };
+      const next: Semester = {
+        id: `${classroomId}_${currentNumber + 1}`,
+        classroomId,
+        number: currentNumber + 1,
+        name,
+        startDate: input.startDate,
+        endDate: input.endDate,
+        status: "active",
+        createdBy: userId,
+        createdAt: now,
+      };
+
+      const batch = writeBatch(db);
+      batch.set(doc(db, "semesters", archived.id), archived);
+      batch.set(doc(db, "semesters", next.id), next);
+      batch.update(doc(db, "classrooms", classroomId), {
+        currentSemesterId: next.id,
+        updatedAt: now,
+      });
+      if (schedule) {
+        batch.update(doc(db, "schedules", schedule.id), {
+          classes: input.cloneTimetable ? getTimetableForDate(schedule, input.startDate) : [],
+          extraClasses: [],
+          versions: [],
+          // A day-order timetable starts again from Day 1 with the new semester
+          ...(schedule.dayOrder
+            ? { dayOrder: { enabled: schedule.dayOrder.enabled, cycleLength: schedule.dayOrder.cycleLength, startDate: next.startDate } }
+            : {}),
+          semesterId: next.id,
+          semesterStartDate: formatSemesterDate(next.startDate),
+          semesterEndDate: formatSemesterDate(next.endDate),
+          updatedAt: now,
+        });
+      }
+      await batch.commit();
+
+      console.log("✅ Semester rolled over:", archived.id, "→", next.id);
+      return { success: true, semester: next };
+    } catch (error) {
+      console.error("❌ Error rolling over semester:", error);
+      return { success: false, error: "Failed to start the new semester" };
+    }
+  }
+
+  // Get the user's final attendance in every archived semester of their
+  // classrooms, newest first
+  async getSemesterHistory(userId: string): Promise<SemesterResult[]> {
+    try {
+      const classrooms = await this.classroomService.getUserClassrooms(userId);
+      const results: SemesterResult[] = [];
+
+      for (const classroom of classrooms) {
+        const semesters = await this.getSemesters(classroom.id);
+        for (const semester of semesters.filter(s => s.status === "archived")) {
+          results.push(await this.getSemesterResult(userId, classroom, semester));
+        }
+      }
+
+      return results.sort((a, b) => b.endDate.localeCompare(a.endDate));
+    } catch (error) {
+      console.error("Error getting semester history:", error);
+      return [];
+    }
+  }
+
+  // Archived semesters never change, so a student's result is computed from
+  // their records once and then read back
+  private async getSemesterResult(
+    userId: string,
+    classroom: Classroom,
+    semester: Semester
+  ): Promise<SemesterResult> {
+    const resultRef = doc(db, "semesterResults", `${userId}_${semester.id}`);
+    const resultSnap = await getDoc(resultRef);
+    if (resultSnap.exists()) {
+      return resultSnap.data() as SemesterResult;
+    }
+
+    const scope = {
+      semesterId: semester.id,
+      semesterStartDate: formatSemesterDate(semester.startDate),
+      semesterEndDate: formatSemesterDate(semester.endDate),
+    };
+    const recordsSnapshot = await getDocs(query(
+      collection(db, "attendance"),
+      where("userId", "==", userId),
+      where("classroomId", "==", classroom.id)
+    ));
+    const records = recordsSnapshot.docs
+      .map(recordDoc => recordDoc.data() as AttendanceRecord)
+      .filter(record => isInSemester(record, record.date, scope));
+    const baselines = (await this.initialAttendanceService.getUserInitialAttendance(userId))
+      .filter(baseline => baseline.classroomId === classroom.id && isInSemester(baseline, baseline.asOfDate, scope));
+    const cancellations = await this.cancellationService.getConfirmedCancellations(classroom.id);
+
+    // Older records take their session weight from the timetable of that semester
+    const timetable: Schedule = {
+      id: "",
+      classroomId: classroom.id,
+      classes: semester.timetable || [],
+      ...(semester.timetableVersions ? { versions: semester.timetableVersions } : {}),
+      semesterStartDate: formatSemesterDate(semester.startDate),
+      createdBy: semester.createdBy,
+      createdAt: semester.createdAt,
+      updatedAt: semester.archivedAt || semester.createdAt,
+    };
+
+    const classIds = Array.from(new Set([...records.map(r => r.classId), ...baselines.map(b => b.classId)]));
+    const subjects: SubjectSemesterResult[] = classIds.map(classId => {
+      const baseline = baselines.find(b => b.classId === classId) || null;
+      const subjectRecords = records.filter(r => r.classId === classId);
+      const counts = addBaselineCounts(
+        countAttendance(
+          resolveRecordSessions(
+            excludeBaselineRecords(excludeCancelledRecords(subjectRecords, cancellations), baseline),
+            timetable
+          ),
+          classroom.excusedPolicy
+        ),
+        baseline
+      );
+      return {
+        classId,
+        subject: subjectRecords[0]?.subject || baseline?.subject ||
+          timetable.classes.find(c => c.id === classId)?.name || "Unknown Subject",
+        totalClasses: counts.totalClasses,
+        attendedClasses: counts.attendedClasses,
+        attendancePercentage: calculateAttendancePercentage(counts),
+      };
+    }).sort((a, b) => a.subject.localeCompare(b.subject));
+
+    const totalClasses = subjects.reduce((sum, s) => sum + s.totalClasses, 0);
+    const attendedClasses = subjects.reduce((sum, s) => sum + s.attendedClasses, 0);
+    const result: SemesterResult = {
+      id: resultRef.id,
+      userId,
+      semesterId: semester.id,
+      classroomId: classroom.id,
+      classroomName: classroom.name,
+      semesterName: semester.name,
+      startDate: semester.startDate,
+      endDate: semester.endDate,
+      totalClasses,
+      attendedClasses,
+      overallPercentage: calculateAttendancePercentage({
+        totalClasses,
+        attendedClasses,
+        absentClasses: 0,
+        excusedClasses: 0,
+      }),
+      subjects,
+      computedAt: new Date().toISOString(),
+    };
+
+    // Keep computing on the fly until the last day of the semester has passed
+    if (semester.endDate < getAcademicToday()) {
+      await setDoc(resultRef, result);
+    }
+    return result;
+  }
+}
@@ -12,9 +12,40 @@ import {
 } from "firebase/firestore";
 import { db } from "../../config/firebase";
 import { CreateTaskData, Task, UpdateTaskData } from "../../domain/model/Task";
+import { FirebaseClassroomService } from "./ClassroomService";
 
 export class FirebaseTaskService {
   private readonly COLLECTION_NAME = "tasks";
+  private classroomService = new FirebaseClassroomService();
+
+  // Get the running semester of each of the user's classrooms
+  private async getCurrentSemesterIds(userId: string): Promise<Set<string>> {
+    const classrooms = await this.classroomService.getUserClassrooms(userId);
+    return new Set(
+      classrooms
+        .map(classroom => classroom.currentSemesterId)
+        .filter((semesterId): semesterId is string => !!semesterId)
+    );
+  }
+
+  // Get the running semester of the classroom a subject is taught in. Subjects
+  // taught in no classroom, or in several, leave the task untagged.
+  private async getSemesterIdForSubject(userId: string, subject: string): Promise<string | undefined> {
+    const classrooms = await this.classroomService.getUserClassrooms(userId);
+    const subjectName = subject.trim().toLowerCase();
+    const schedules = await Promise.all(
+      classrooms.map(classroom => this.classroomService.getClassroomSchedule(classroom.id))
+    );
+    const teaching = classrooms.filter((_, i) =>
+      schedules[i]?.classes.some(cls => cls.name.trim().toLowerCase() === subjectName)
+    );
+    return teaching.length === 1 ? teaching[0].currentSemesterId || undefined : undefined;
+  }
+
+  // Tasks of archived semesters stay out of the current task list
+  private isInCurrentSemester(task: Task, semesterIds: Set<string>): boolean {
+    return !task.semesterId || semesterIds.has(task.semesterId);
+  }
 
   // Create a new task
   async createTask(userId: string, taskData: CreateTaskData): Promise<string> {
@@ -22,10 +53,12 @@ export class FirebaseTaskService {
       console.log("🔥 FirebaseTaskService: Creating task for user:", userId);
       
       const now = new Date();
+      const semesterId = await this.getSemesterIdForSubject(userId, taskData.subject);
       const taskToCreate = {
         ...taskData,
         userId,
         completed: false,
+        ...(semesterId ? { semesterId } : {}),
         createdAt: Timestamp.fromDate(now),
         updatedAt: Timestamp.fromDate(now),
       };
@@ -71,6 +104,7 @@ export class FirebaseTaskService {
           description: data.description,
           color: data.color,
           userId: data.userId,
+          semesterId: data.semesterId,
           createdAt: data.createdAt?.toDate ? data.createdAt.toDate() : (typeof data.createdAt === 'string' ? new Date(data.createdAt) : new Date()),
           updatedAt: data.updatedAt?.toDate ? data.updatedAt.toDate() : (typeof data.updatedAt === 'string' ? new Date(data.updatedAt) : new Date()),
         });
@@ -78,9 +112,12 @@ export class FirebaseTaskService {
 
       // Sort tasks by creation date (newest first)
       tasks.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
-      
-      console.log("✅ Fetched", tasks.length, "tasks");
-      return tasks;
+
+      const semesterIds = await this.getCurrentSemesterIds(userId);
+      const currentTasks = tasks.filter(task => this.isInCurrentSemester(task, semesterIds));
+
+      console.log("✅ Fetched", currentTasks.length, "tasks");
+      return currentTasks;
     } catch (error) {
       console.error("❌ Error fetching tasks:", error);
       throw error;
@@ -99,6 +136,9 @@ export class FirebaseTaskService {
       where("userId", "==", userId)
     );
 
+    // Updates wait for the user's current semesters to load
+    const semesterIdsPromise = this.getCurrentSemesterIds(userId).catch(() => new Set<string>());
+
     return onSnapshot(
       q, 
       (querySnapshot) => {
@@ -116,6 +156,7 @@ export class FirebaseTaskService {
             description: data.description,
             color: data.color,
             userId: data.userId,
+            semesterId: data.semesterId,
             createdAt: data.createdAt?.toDate() || new Date(),
             updatedAt: data.updatedAt?.toDate() || new Date(),
           });
@@ -124,8 +165,11 @@ export class FirebaseTaskService {
         // Sort tasks by creation date (newest first)
         tasks.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
         
-        console.log("🔄 Real-time update: received", tasks.length, "tasks");
-        callback(tasks);
+        semesterIdsPromise.then(semesterIds => {
+          const currentTasks = tasks.filter(task => this.isInCurrentSemester(task, semesterIds));
+          console.log("🔄 Real-time update: received", currentTasks.length, "tasks");
+          callback(currentTasks);
+        });
       },
       (error) => {
         console.error("❌ Error in tasks subscription:", error);
@@ -9,6 +9,7 @@ import {
     where,
 } from "firebase/firestore";
 import { db } from "../../config/firebase";
+import { MissedClassHandling } from "../../domain/model/Attendance";
 
 export interface UserProfile {
   name: string;
@@ -30,6 +31,9 @@ export interface UserProfile {
   classroomId?: string;
   semesterStartDate?: string;
   semesterEndDate?: string;
+  dateKeysMigratedAt?: string; // set once records keyed by UTC date were moved to local dates
+  attendanceReconciledThrough?: string; // last day (YYYY-MM-DD) checked for unmarked classes
+  missedClassHandling?: MissedClassHandling; // defaults to 'auto-absent'
   createdAt: string;
   onboardingCompleted: boolean;
 }
@@ -4,7 +4,7 @@
  */
 
 // Models
-export type { ClassSchedule, Classroom, ClassroomMember, Schedule } from './model/Classroom';
+export type { ClassCancellation, ClassInstance, ClassSchedule, Classroom, ClassroomMember, ExtraClass, Schedule, SessionType } from './model/Classroom';
 export type { CreateTaskData, Task, UpdateTaskData } from './model/Task';
 export type { AuthResult, LoginCredentials, SignupData, User } from './model/User';
 
@@ -0,0 +1,19 @@
+// Kinds of dated blocks on a classroom's academic calendar
+export type AcademicBlockType = 'exam' | 'study_holiday' | 'fest' | 'internship' | 'event';
+
+// A dated block on a classroom's academic calendar (mid-sem exams, study
+// holidays, fest days, internship weeks...)
+export interface AcademicBlock {
+  id: string;
+  classroomId: string;
+  type: AcademicBlockType;
+  title: string; // e.g. "Mid-sem exams"
+  startDate: string; // ISO date string (YYYY-MM-DD)
+  endDate: string; // ISO date string (YYYY-MM-DD), inclusive
+  classesRun: boolean; // False when regular classes are suspended for the block
+  createdBy: string;
+  createdAt: string;
+}
+
+// What the admin enters for a new block
+export type AcademicBlockInput = Pick<AcademicBlock, 'type' | 'title' | 'startDate' | 'endDate' | 'classesRun'>;
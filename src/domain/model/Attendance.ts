@@ -1,3 +1,45 @@
+import { AcademicBlock } from './AcademicCalendar';
+import { ClassCancellation, ClassInstance, ExtraClass, SessionType } from './Classroom';
+
+// Excused = approved duty leave (sports, NSS, hackathons) or medical leave
+export type AttendanceStatus = 'present' | 'absent' | 'excused';
+
+export type ExcusedLeaveType = 'duty' | 'medical';
+
+// Why a class was missed; free-text notes go in `reason`
+export type AbsenceReasonCategory = 'sick' | 'travel' | 'event' | 'overslept' | 'other';
+
+// How excused classes count: left out of the total, or treated as attended
+export type ExcusedAttendancePolicy = 'exclude' | 'count_as_present';
+
+// How a percentage is rounded before it is compared with the minimum (e.g. 74.5% → 75%)
+export type PolicyRoundingRule = 'none' | 'nearest' | 'up' | 'down';
+
+// Institutional eligibility rules, attached to a classroom or a university
+export interface AttendancePolicy {
+  scope: 'per-subject' | 'aggregate'; // Minimum applies to every subject, or to all subjects combined
+  minimumPercentage: number;
+  rounding: PolicyRoundingRule;
+  condonation?: {
+    minimumPercentage: number; // Lowest percentage that can still be condoned (e.g. 65)
+    requirement: string; // What the student must submit (e.g. "Medical certificate")
+  };
+  subjectMinimums?: Record<string, number>; // Per-subject overrides of the minimum, by ClassSchedule id
+}
+
+export type EligibilityStatus = 'eligible' | 'condonable' | 'ineligible';
+
+// Result of evaluating attendance against an AttendancePolicy
+export interface PolicyEvaluation {
+  requiredPercentage: number;
+  effectivePercentage: number; // Current percentage after the policy's rounding
+  status: EligibilityStatus;
+  isCritical: boolean; // Below the minimum (condonation doesn't count as safe)
+  classesToAttend: number;
+  classesCanSkip: number;
+  condonationRequirement?: string; // Set when the status is 'condonable'
+}
+
 export interface AttendanceRecord {
   id: string;
   userId: string;
@@ -5,12 +47,136 @@ export interface AttendanceRecord {
   classId: string; // Reference to ClassSchedule id
   subject: string; // Subject name for easy filtering and display
   date: string; // ISO date string (YYYY-MM-DD)
-  status: 'present' | 'absent';
-  reason?: string; // Optional reason for absence
+  startTime?: string; // Start time of the class instance (HH:mm); missing on legacy per-day records
+  status: AttendanceStatus;
+  reason?: string; // Optional reason for absence or leave
+  reasonCategory?: AbsenceReasonCategory; // Only set on absent records; missing on older records
+  leaveType?: ExcusedLeaveType; // Only set on excused records
+  sessionType?: SessionType; // Copied from the class slot; missing on older records
+  weight?: number; // Attendance units of the class slot; older records resolve it from the schedule
+  semesterId?: string; // Missing on records from before the classroom tracked semesters
+  movedFromId?: string; // Id before the date-key migration moved the record; earlier history stays under it
   markedAt: string; // ISO timestamp when attendance was marked
   updatedAt?: string; // ISO timestamp when attendance was last updated
 }
 
+// A reason the user gave for a recent absence, offered again as a quick pick
+export interface RecentAbsenceReason {
+  category: AbsenceReasonCategory;
+  note?: string;
+}
+
+// Where an attendance change came from
+export type AttendanceChangeSource = 'manual' | 'auto-absent' | 'bulk' | 'import' | 'migration';
+
+// Immutable entry appended on every attendance mutation (never updated or deleted)
+export interface AttendanceHistoryEntry {
+  id: string;
+  recordId: string; // Reference to AttendanceRecord id
+  userId: string;
+  classroomId: string;
+  classId: string;
+  date: string; // ISO date string (YYYY-MM-DD) of the class instance
+  startTime?: string;
+  previousStatus: AttendanceStatus | null; // null when the record was first created
+  newStatus: AttendanceStatus;
+  reason?: string;
+  reasonCategory?: AbsenceReasonCategory;
+  leaveType?: ExcusedLeaveType;
+  source: AttendanceChangeSource;
+  changedBy: string; // User id of whoever made the change
+  changedAt: string; // ISO timestamp
+}
+
+// An attendance change saved on the device until it reaches Firestore
+export interface PendingAttendanceChange {
+  id: string; // Class instance key: {classId}_{date}_{startTime}, or day_{date} for a whole day
+  scope?: 'class' | 'day'; // A day change marks every class of the date; class when missing
+  userId: string;
+  classroomId: string; // Empty on day changes, like classId, subject and startTime
+  classId: string;
+  subject: string;
+  date: string; // ISO date string (YYYY-MM-DD)
+  startTime: string;
+  status: AttendanceStatus;
+  reason?: string;
+  reasonCategory?: AbsenceReasonCategory;
+  leaveType?: ExcusedLeaveType;
+  source?: AttendanceChangeSource; // Recorded in the history when synced; manual when missing
+  queuedAt: string; // ISO timestamp of the latest local change
+  attempts: number; // Failed sync attempts so far
+  lastError?: string;
+  markedCount?: number; // Classes a synced day change marked
+}
+
+// Colour of a day on the semester heatmap
+export type HeatmapDayStatus =
+  | 'present' // Every marked class attended (or excused)
+  | 'absent' // Every marked class missed
+  | 'partial' // Some classes attended, some missed
+  | 'unmarked' // Classes were held but none was marked
+  | 'holiday'
+  | 'no-class'
+  | 'upcoming'; // Classes scheduled later in the semester
+
+// One day of the semester heatmap
+export interface SemesterHeatmapDay {
+  date: string; // ISO date string (YYYY-MM-DD)
+  status: HeatmapDayStatus;
+  scheduledClasses: number; // Class instances held, cancellations excluded
+  presentClasses: number;
+  absentClasses: number;
+  excusedClasses: number;
+  cancelledClasses: number;
+}
+
+export interface SemesterHeatmap {
+  startDate: string;
+  endDate: string;
+  days: SemesterHeatmapDay[];
+}
+
+// How past class instances nobody marked are handled when the app catches up
+export type MissedClassHandling = 'auto-absent' | 'review';
+
+// A past class instance left unmarked, waiting on the "review unmarked classes" screen
+export interface UnmarkedClassReview {
+  id: string; // {userId}_{classId}_{date}_{startTime}
+  userId: string;
+  classroomId: string;
+  classId: string;
+  subject: string;
+  date: string; // ISO date string (YYYY-MM-DD)
+  startTime: string;
+  endTime: string;
+  sessionType?: SessionType;
+  weight?: number;
+  queuedAt: string;
+}
+
+// Outcome of one catch-up pass over the days since the last reconciled date
+export interface ReconciliationResult {
+  fromDate?: string; // First day processed (unset when there was nothing to do)
+  throughDate?: string; // Last day processed
+  autoMarked: number;
+  queued: number;
+}
+
+// Outcome of one pass over the offline attendance queue
+export interface AttendanceSyncResult {
+  synced: PendingAttendanceChange[];
+  conflicts: PendingAttendanceChange[]; // Dropped: changed elsewhere later, or rejected by the server
+  pending: PendingAttendanceChange[]; // Still waiting for connectivity
+}
+
+// A scheduled class instance together with its attendance record (if marked)
+export interface ClassInstanceAttendance {
+  instance: ClassInstance;
+  classroomName: string;
+  record?: AttendanceRecord;
+  cancellation?: ClassCancellation; // Proposed or confirmed cancellation of this instance
+}
+
 export interface AttendanceStreak {
   userId: string;
   currentStreak: number;
@@ -20,6 +186,22 @@ export interface AttendanceStreak {
   updatedAt: string;
 }
 
+// Attendance a student already had before tracking in the app, copied from the
+// college portal (e.g. 18 of 24 classes as of the day they installed BunkSafe)
+export interface InitialAttendance {
+  id: string; // Format: {userId}_{classroomId}_{classId}
+  userId: string;
+  classroomId: string;
+  classId: string;
+  subject: string;
+  conductedClasses: number;
+  attendedClasses: number;
+  asOfDate: string; // ISO date string (YYYY-MM-DD); app records up to this date are already in the counts
+  semesterId?: string; // Missing on counts entered before the classroom tracked semesters
+  createdAt: string;
+  updatedAt: string;
+}
+
 // Real-time statistics per subject (stored in DB, updated with each mark)
 export interface SubjectAttendanceStats {
   id: string; // Format: {userId}_{classroomId}_{classId}
@@ -29,20 +211,37 @@ export interface SubjectAttendanceStats {
   subject: string;
   instructor: string;
   
-  // Current period (app tracked)
+  // Current period (app tracked, plus the portal baseline when one was entered)
   totalClasses: number;
   attendedClasses: number;
   absentClasses: number;
+  excusedClasses: number; // Counted according to the classroom's excused policy
+  presentClasses?: number; // Raw present count kept for deltas (missing on older stats)
+  weighted?: boolean; // Totals are in session weight units (older stats count sessions)
   attendancePercentage: number; // Cached percentage for fast access
-  
+
+  // Baseline entered from the college portal, already included in the totals above
+  baselineClasses?: number;
+  baselineAttendedClasses?: number;
+  baselineAsOfDate?: string; // Records up to this date are left out of the totals
   
   // Metadata
+  semesterId?: string; // Semester the totals cover; stats of an earlier semester are rebuilt
   lastMarkedDate?: string;
-  lastMarkedStatus?: 'present' | 'absent';
+  lastMarkedStatus?: AttendanceStatus;
+  verifiedAt?: string; // When the stats were last rebuilt from raw records
   updatedAt: string;
   createdAt: string;
 }
 
+// Attendance of one session type within a subject, in weighted units
+export interface SessionTypeAttendance {
+  sessionType: SessionType;
+  totalClasses: number;
+  attendedClasses: number;
+  attendancePercentage: number;
+}
+
 // Calculated summary (NOT stored in DB, computed from SubjectAttendanceStats)
 export interface AttendanceSummary {
   classId: string;
@@ -54,7 +253,9 @@ export interface AttendanceSummary {
   totalClassesSoFar: number;
   totalAttendedSoFar: number;
   totalAbsences: number;
+  totalExcused: number;
   currentAttendancePercentage: number;
+  sessionBreakdown?: SessionTypeAttendance[]; // Per session type, set when the subject has more than one
   
   // Requirements and predictions
   requiredAttendancePercentage: number;
@@ -63,10 +264,39 @@ export interface AttendanceSummary {
   classesToAttend: number;
   classesCanSkip: number;
   isAttendanceCritical: boolean;
+  eligibility?: EligibilityStatus;
   
   // Quick display
   lastMarkedDate?: string;
-  lastMarkedStatus?: 'present' | 'absent';
+  lastMarkedStatus?: AttendanceStatus;
+}
+
+// Everything the "what-if" bunk planner needs to project attendance
+export interface BunkPlannerData {
+  subjects: AttendanceSummary[]; // remainingClasses filled from the upcoming instances
+  upcomingInstances: ClassInstance[]; // Unmarked class instances from today until semester end
+  policies?: Record<string, AttendancePolicy>; // Attendance policy of each classroom, by classroom id
+}
+
+// Projected attendance of one subject after skipping the planned class instances
+export interface SubjectBunkProjection {
+  classId: string;
+  classroomId: string;
+  subject: string;
+  requiredAttendancePercentage: number;
+  currentAttendancePercentage: number;
+  remainingClasses: number;
+  plannedSkips: number;
+  projectedPercentageAfterSkips: number; // Right after the last planned skip, attending everything else
+  projectedFinalPercentage: number; // At semester end, attending everything else
+  skipsLeftAfterPlan: number; // Further classes that can still be skipped this semester
+  fallsBelowTarget: boolean;
+}
+
+export interface BunkSimulationResult {
+  projections: SubjectBunkProjection[];
+  skippedInstances: ClassInstance[];
+  subjectsBelowTarget: number;
 }
 
 export interface SemesterInfo {
@@ -80,9 +310,11 @@ export interface SemesterInfo {
   requiredAttendanceDays: number;
   canSkipDays: number;
   isOnTrack: boolean;
+  eligibility?: EligibilityStatus;
   currentPerformancePercentage: number;
   targetDaysForSemester: number;
   projectedFinalPercentage: number;
+  baselinePercentage?: number; // Portal attendance used for the days before registration, when entered
 }
 
 export interface DashboardData {
@@ -91,23 +323,40 @@ export interface DashboardData {
   attendanceStreak: AttendanceStreak;
   attendanceSummary: AttendanceSummary[];
   overallAttendancePercentage: number;
+  overallEvaluation?: PolicyEvaluation; // Overall attendance against the primary classroom's policy
   totalTasks: number;
   semesterInfo?: SemesterInfo;
+  academicBlocks?: AcademicBlockBanner[]; // Exams, breaks and events running now or starting this week
+}
+
+// An academic calendar block shown as a banner, with the classroom it belongs to
+export interface AcademicBlockBanner extends AcademicBlock {
+  classroomName: string;
 }
 
 export interface TodaysClass {
-  id: string;
+  id: string; // Class instance key: {classId}_{date}_{startTime}
   classId: string; // Reference to ClassSchedule id
   classroomId: string; // Reference to Classroom id
   subject: string;
+  date: string; // ISO date string (YYYY-MM-DD)
+  startTime: string;
   time: string;
   instructor: string;
   room: string;
   isCheckedIn: boolean;
-  attendanceStatus?: 'present' | 'absent';
+  attendanceStatus?: AttendanceStatus;
   reason?: string;
+  reasonCategory?: AbsenceReasonCategory;
+  leaveType?: ExcusedLeaveType;
+  cancellation?: ClassCancellation; // Proposed or confirmed cancellation of this instance
+  extraKind?: ExtraClass['kind']; // Set for one-off makeup/extra classes
+  sessionType?: SessionType;
+  weight?: number; // Attendance units this class counts for
+  isPendingSync?: boolean; // Marked offline and not yet saved to Firestore
   totalClasses: number; // Classes tracked in app so far
   attendedClasses: number; // Classes attended in app so far
   requiredAttendancePercentage: number;
+  attendancePolicy?: AttendancePolicy; // Policy of the class's classroom
   TotalClassesForSemester?: number; // Total expected for entire semester
 }
\ No newline at end of file
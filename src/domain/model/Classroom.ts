@@ -1,3 +1,5 @@
+import { AttendancePolicy, ExcusedAttendancePolicy } from './Attendance';
+
 export interface Classroom {
   id: string;
   name: string;
@@ -7,11 +9,32 @@ export interface Classroom {
   university: string;
   department: string;
   attendanceTarget: number;
+  excusedPolicy?: ExcusedAttendancePolicy; // Defaults to excluding excused classes from the total
+  reportSessionTypesSeparately?: boolean; // Show lab, tutorial and theory attendance as separate percentages
+  attendancePolicy?: AttendancePolicy | null; // Overrides the university policy and attendanceTarget
+  holidayState?: string | null; // State whose holiday calendar applies on top of the national one (e.g. "KA")
+  workingWeek?: WorkingWeekRules | null; // Defaults to every Saturday being a full working day
+  currentSemesterId?: string | null; // Missing until the classroom first rolls over to a new semester
   members: string[]; // Array of user IDs
   createdAt: string;
   updatedAt: string;
 }
 
+// Which Saturdays a classroom works: all, none, all but the 2nd/4th (or 1st/3rd),
+// every other one, or all of them as half days
+export type SaturdayRule =
+  | 'working'
+  | 'off'
+  | 'second_fourth_off'
+  | 'first_third_off'
+  | 'alternate_off'
+  | 'half_day';
+
+export interface WorkingWeekRules {
+  saturdays: SaturdayRule;
+  alternateOffFrom?: string; // YYYY-MM-DD of a Saturday that is off, for 'alternate_off'
+}
+
 export interface ClassroomMember {
   userId: string;
   nickname: string;
@@ -24,13 +47,48 @@ export interface Schedule {
   id: string;
   classroomId: string;
   classes: ClassSchedule[];
+  extraClasses?: ExtraClass[]; // One-off dated classes outside the weekly pattern
   semesterStartDate?: string;
   semesterEndDate?: string;
+  semesterId?: string; // Semester the dates and classes belong to; missing before the first rollover
+  versions?: TimetableVersion[]; // Timetable history in effective-date order; `classes` is the one in force today
+  dayOrder?: DayOrderSettings; // Set once the classroom has used a day-order timetable
   createdBy: string;
   createdAt: string;
   updatedAt: string;
 }
 
+// Day-order timetables (SRM/VIT style) name their days "Day 1" … "Day N"
+// instead of weekdays; the day order moves on by one each working day
+export interface DayOrderSettings {
+  enabled: boolean; // False once the classroom went back to weekdays; kept so past dates still resolve
+  cycleLength: number; // Day orders before the cycle wraps, usually 6
+  startDate: string; // ISO date string (YYYY-MM-DD) of Day 1
+  overrides?: Record<string, number>; // YYYY-MM-DD → announced day order; counting continues from it
+}
+
+// A weekly timetable and the date it took effect. Past dates resolve against
+// the version in force then, so a mid-semester change doesn't rewrite history.
+export interface TimetableVersion {
+  effectiveFrom: string; // ISO date string (YYYY-MM-DD)
+  classes: ClassSchedule[];
+  createdBy: string;
+  createdAt: string;
+}
+
+// How a class session is taught; some institutions report each type separately
+export type SessionType = 'theory' | 'lab' | 'tutorial';
+
+// How often a weekly class slot meets; odd/even and every-N weeks count
+// teaching weeks from the semester start (week 1 holds the start date)
+export type RecurrencePattern = 'weekly' | 'odd_weeks' | 'even_weeks' | 'every_n_weeks';
+
+export interface ClassRecurrence {
+  pattern: RecurrencePattern;
+  interval?: number; // every_n_weeks only: meets once every this many weeks
+  startWeek?: number; // every_n_weeks only: first teaching week it meets, defaults to 1
+}
+
 export interface ClassSchedule {
   code: string;
   subject: any;
@@ -41,4 +99,61 @@ export interface ClassSchedule {
   startTime: string;
   endTime: string;
   location: string;
-}
\ No newline at end of file
+  sessionType?: SessionType; // Defaults to 'theory'
+  weight?: number; // Attendance units per session (e.g. 3 for a 3-hour lab), defaults to 1
+  recurrence?: ClassRecurrence; // Defaults to every week
+}
+
+// A one-off dated class (makeup lecture, extra lab slot) counted toward an existing subject
+export interface ExtraClass {
+  id: string;
+  classId: string; // ClassSchedule id of the subject it counts toward
+  name: string;
+  instructor: string;
+  location: string;
+  date: string; // ISO date string (YYYY-MM-DD)
+  startTime: string;
+  endTime: string;
+  kind: 'makeup' | 'extra';
+  sessionType?: SessionType; // Defaults to the subject's weekly slot
+  weight?: number; // Defaults to the subject's weekly slot
+  createdBy: string;
+  createdAt: string;
+}
+
+// A single dated occurrence of a ClassSchedule entry (class + date + start time)
+export interface ClassInstance {
+  key: string; // Format: {classId}_{date}_{startTime}
+  classId: string;
+  classroomId: string;
+  subject: string;
+  instructor: string;
+  location: string;
+  date: string; // ISO date string (YYYY-MM-DD)
+  startTime: string;
+  endTime: string;
+  sessionType: SessionType;
+  weight: number; // Attendance units this instance counts for
+  extraClassId?: string; // Set when the instance comes from a one-off ExtraClass
+  semesterId?: string; // Copied from the schedule once the classroom tracks semesters
+}
+
+// A class instance the lecturer called off. Confirmed cancellations are left
+// out of everyone's totals; proposed ones are waiting for more member votes.
+export interface ClassCancellation {
+  id: string; // Format: {classroomId}_{instanceKey}
+  classroomId: string;
+  classId: string;
+  subject: string;
+  date: string; // ISO date string (YYYY-MM-DD)
+  startTime: string;
+  instanceKey: string; // Format: {classId}_{date}_{startTime}
+  status: 'proposed' | 'confirmed';
+  confirmedBy?: 'admin' | 'consensus';
+  reason?: string;
+  createdBy: string;
+  votes: string[]; // Members who reported the cancellation
+  requiredVotes: number; // Votes needed for consensus (fixed when first reported)
+  createdAt: string;
+  updatedAt: string;
+}
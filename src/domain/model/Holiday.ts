@@ -0,0 +1,28 @@
+// Who a holiday calendar applies to: everyone, one state, or one university
+export type HolidayCalendarScope = 'national' | 'state' | 'university';
+
+// Where a calendar's holidays came from
+export type HolidayCalendarSource = 'builtin' | 'ics' | 'csv' | 'manual';
+
+export interface Holiday {
+  date: string; // ISO date string (YYYY-MM-DD)
+  name: string;
+}
+
+// Holidays of one scope for one calendar year
+export interface HolidayCalendar {
+  id: string; // Format: national_{year}, state_{regionKey}_{year} or university_{regionKey}_{year}
+  scope: HolidayCalendarScope;
+  region?: string; // State code (e.g. "KA") or university name; missing on national calendars
+  year: number;
+  holidays: Holiday[];
+  source: HolidayCalendarSource;
+  classroomId?: string; // Classroom whose admin imported it; missing on built-in calendars
+  updatedBy?: string; // User id of whoever imported it; missing on built-in calendars
+  updatedAt: string;
+}
+
+// A holiday as it applies to a classroom, with the calendar it came from
+export interface ResolvedHoliday extends Holiday {
+  scope: HolidayCalendarScope;
+}
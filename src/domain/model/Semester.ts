@@ -0,0 +1,54 @@
+import { ClassSchedule, TimetableVersion } from './Classroom';
+
+// The current semester of a classroom is active; earlier ones are archived and read-only
+export type SemesterStatus = 'active' | 'archived';
+
+export interface Semester {
+  id: string; // Format: {classroomId}_{number}
+  classroomId: string;
+  number: number; // 1 for the first semester the classroom tracked in the app
+  name: string; // e.g. "Semester 5" or "Odd 2026"
+  startDate: string; // ISO date string (YYYY-MM-DD)
+  endDate: string; // ISO date string (YYYY-MM-DD)
+  status: SemesterStatus;
+  timetable?: ClassSchedule[]; // Weekly classes as they stood when the semester was archived
+  timetableVersions?: TimetableVersion[]; // Timetable history of the semester, when it changed mid-semester
+  createdBy: string;
+  createdAt: string;
+  archivedAt?: string;
+}
+
+// Final attendance of one subject in an archived semester
+export interface SubjectSemesterResult {
+  classId: string;
+  subject: string;
+  totalClasses: number;
+  attendedClasses: number;
+  attendancePercentage: number;
+}
+
+// A student's final attendance in an archived semester, computed once and kept
+export interface SemesterResult {
+  id: string; // Format: {userId}_{semesterId}
+  userId: string;
+  semesterId: string;
+  classroomId: string;
+  classroomName: string;
+  semesterName: string;
+  startDate: string;
+  endDate: string;
+  totalClasses: number;
+  attendedClasses: number;
+  overallPercentage: number;
+  subjects: SubjectSemesterResult[];
+  computedAt: string;
+}
+
+// What the rollover wizard collects
+export interface SemesterRolloverInput {
+  currentName: string; // Name for the semester being archived
+  name: string;
+  startDate: string; // ISO date string (YYYY-MM-DD)
+  endDate: string; // ISO date string (YYYY-MM-DD)
+  cloneTimetable: boolean; // Keep the weekly classes for the new semester
+}
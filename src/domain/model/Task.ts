@@ -8,6 +8,7 @@ export interface Task {
   description: string;
   color: string;
   userId: string;
+  semesterId?: string; // Semester the task was created in; older tasks show in every semester
   createdAt: Date;
   updatedAt: Date;
 }
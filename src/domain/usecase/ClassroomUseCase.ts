@@ -1,6 +1,6 @@
 import { FirebaseClassroomService } from "../../data/services/ClassroomService";
 import { FirebaseUserService } from "../../data/services/UserService";
-import { Classroom, ClassSchedule, Schedule } from "../model/Classroom";
+import { Classroom, ClassSchedule, DayOrderSettings, Schedule } from "../model/Classroom";
 
 export interface CreateClassroomData {
   name: string;
@@ -95,7 +95,8 @@ export class ClassroomUseCase {
     classroomId: string,
     classes: ClassSchedule[],
     semesterStartDate?: string,
-    semesterEndDate?: string
+    semesterEndDate?: string,
+    dayOrder?: DayOrderSettings
   ): Promise<{ success: boolean; schedule?: Schedule; error?: string }> {
     try {
       console.log("ClassroomUseCase: Creating schedule for classroom:", classroomId);
@@ -111,7 +112,8 @@ export class ClassroomUseCase {
         userId,
         classes,
         semesterStartDate,
-        semesterEndDate
+        semesterEndDate,
+        dayOrder
       );
 
       return result;
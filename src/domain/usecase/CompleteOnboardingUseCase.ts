@@ -1,7 +1,9 @@
 import { OnboardingError } from '../../core/errors/AppError';
+import { getAcademicToday } from '../../core/utils/AcademicDateUtils';
+import { formatDateKey, parseDate } from '../../core/utils/SemesterUtils';
 import { StringUtils } from '../../core/utils/StringUtils';
 import { FirebaseUserService } from '../../data/services/UserService';
-import { ClassSchedule } from '../model/Classroom';
+import { ClassSchedule, DayOrderSettings } from '../model/Classroom';
 import { AuthResult } from '../model/User';
 import { AuthRepository } from '../repository/AuthRepository';
 import { ClassroomUseCase } from './ClassroomUseCase';
@@ -39,6 +41,7 @@ export interface OnboardingData {
   classes?: ClassSchedule[];
   semesterStartDate?: string;
   semesterEndDate?: string;
+  dayOrderCycle?: number; // Days in the cycle of a day-order timetable; missing for weekday timetables
   
 }
 
@@ -98,7 +101,10 @@ export class CompleteOnboardingUseCase {
                 classroomId,
                 onboardingData.classes,
                 onboardingData.semesterStartDate,
-                onboardingData.semesterEndDate
+                onboardingData.semesterEndDate,
+                onboardingData.dayOrderCycle
+                  ? this.getDayOrderSettings(onboardingData.dayOrderCycle, onboardingData.semesterStartDate)
+                  : undefined
               );
 
               if (scheduleResult.success) {
@@ -141,6 +147,17 @@ export class CompleteOnboardingUseCase {
     }
   }
 
+  // Day 1 of a day-order timetable entered during onboarding falls on the
+  // first day of the semester, or today when no start date was given
+  private getDayOrderSettings(cycleLength: number, semesterStartDate?: string): DayOrderSettings {
+    const semesterStart = semesterStartDate ? parseDate(semesterStartDate) : null;
+    return {
+      enabled: true,
+      cycleLength,
+      startDate: semesterStart && !isNaN(semesterStart.getTime()) ? formatDateKey(semesterStart) : getAcademicToday(),
+    };
+  }
+
   private generateEmail(nickname: string, university: string): string {
     return StringUtils.generateEmail(nickname, university);
   }
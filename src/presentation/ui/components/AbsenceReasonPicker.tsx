@@ -0,0 +1,63 @@
+import React from 'react';
+import { Text, TouchableOpacity, View } from 'react-native';
+import {
+  ABSENCE_REASON_CATEGORIES,
+  ABSENCE_REASON_LABELS,
+  formatAbsenceReason,
+} from '../../../core/utils/AttendanceUtils';
+import { AbsenceReasonCategory, RecentAbsenceReason } from '../../../domain/model/Attendance';
+
+interface AbsenceReasonPickerProps {
+  category: AbsenceReasonCategory | null;
+  onSelectCategory: (category: AbsenceReasonCategory | null) => void;
+  recentReasons: RecentAbsenceReason[];
+  onSelectRecent: (reason: RecentAbsenceReason) => void; // Fills in both the category and the note
+}
+
+// Quick picks for why a class was missed: the categories and the last few reasons used
+export const AbsenceReasonPicker: React.FC<AbsenceReasonPickerProps> = ({
+  category,
+  onSelectCategory,
+  recentReasons,
+  onSelectRecent,
+}) => {
+  return (
+    <View className="mb-2">
+      <View className="flex-row flex-wrap mb-2">
+        {ABSENCE_REASON_CATEGORIES.map(option => {
+          const isSelected = category === option;
+          return (
+            <TouchableOpacity
+              key={option}
+              onPress={() => onSelectCategory(isSelected ? null : option)}
+              className={`px-4 py-2 rounded-lg mr-2 mb-2 ${isSelected ? 'bg-red-500' : 'bg-gray-100'}`}
+            >
+              <Text className={`font-medium ${isSelected ? 'text-white' : 'text-gray-700'}`}>
+                {ABSENCE_REASON_LABELS[option]}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      {recentReasons.length > 0 && (
+        <>
+          <Text className="text-xs text-gray-500 mb-2">Recently used</Text>
+          <View className="flex-row flex-wrap">
+            {recentReasons.map(reason => (
+              <TouchableOpacity
+                key={`${reason.category}_${reason.note || ''}`}
+                onPress={() => onSelectRecent(reason)}
+                className="px-3 py-1 rounded-full border border-gray-200 mr-2 mb-2"
+              >
+                <Text className="text-sm text-gray-600" numberOfLines={1}>
+                  {formatAbsenceReason(reason.category, reason.note)}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </>
+      )}
+    </View>
+  );
+};
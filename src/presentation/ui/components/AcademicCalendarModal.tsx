@@ -0,0 +1,274 @@
+import { Ionicons } from '@expo/vector-icons';
+import React, { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Modal,
+  ScrollView,
+  Switch,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import {
+  ACADEMIC_BLOCK_LABELS,
+  CLASS_FREE_BLOCK_TYPES,
+  formatBlockDates,
+} from '../../../core/utils/AcademicCalendarUtils';
+import { getAcademicToday } from '../../../core/utils/AcademicDateUtils';
+import { formatDateKey, parseDate } from '../../../core/utils/SemesterUtils';
+import { FirebaseAcademicCalendarService } from '../../../data/services/AcademicCalendarService';
+import { AcademicBlock, AcademicBlockType } from '../../../domain/model/AcademicCalendar';
+
+interface AcademicCalendarModalProps {
+  visible: boolean;
+  onClose: () => void;
+  userId: string;
+  classroomId: string;
+  classroomName: string;
+  isAdmin: boolean;
+  onUpdated: () => void;
+}
+
+const BLOCK_TYPES = Object.keys(ACADEMIC_BLOCK_LABELS) as AcademicBlockType[];
+
+// Create service instance once
+let academicCalendarServiceInstance: FirebaseAcademicCalendarService | null = null;
+
+const getAcademicCalendarService = () => {
+  if (!academicCalendarServiceInstance) {
+    academicCalendarServiceInstance = new FirebaseAcademicCalendarService();
+  }
+  return academicCalendarServiceInstance;
+};
+
+// DD/MM/YYYY → YYYY-MM-DD, or null when the date can't be read
+const toDateKey = (value: string) => {
+  const date = parseDate(value.trim());
+  return date && !isNaN(date.getTime()) ? formatDateKey(date) : null;
+};
+
+export const AcademicCalendarModal: React.FC<AcademicCalendarModalProps> = ({
+  visible,
+  onClose,
+  userId,
+  classroomId,
+  classroomName,
+  isAdmin,
+  onUpdated,
+}) => {
+  const [blocks, setBlocks] = useState<AcademicBlock[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [type, setType] = useState<AcademicBlockType>('exam');
+  const [title, setTitle] = useState('');
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [classesRun, setClassesRun] = useState(false);
+
+  useEffect(() => {
+    if (!visible) return;
+
+    const loadBlocks = async () => {
+      setLoading(true);
+      try {
+        setBlocks(await getAcademicCalendarService().getBlocks(classroomId));
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadBlocks();
+  }, [visible, classroomId]);
+
+  const handleTypeChange = (nextType: AcademicBlockType) => {
+    setType(nextType);
+    setClassesRun(!CLASS_FREE_BLOCK_TYPES.has(nextType));
+  };
+
+  const handleAdd = async () => {
+    const start = toDateKey(startDate);
+    const end = toDateKey(endDate || startDate);
+    if (!start || !end) {
+      Alert.alert('Invalid Date', 'Please use DD/MM/YYYY format (e.g., 15/03/2026)');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const result = await getAcademicCalendarService().addBlock(userId, classroomId, {
+        type,
+        title: title || ACADEMIC_BLOCK_LABELS[type],
+        startDate: start,
+        endDate: end,
+        classesRun,
+      });
+      if (!result.success || !result.block) {
+        Alert.alert('Error', result.error || 'Failed to add to the academic calendar');
+        return;
+      }
+      setBlocks(prev => [...prev, result.block!].sort((a, b) => a.startDate.localeCompare(b.startDate)));
+      setTitle('');
+      setStartDate('');
+      setEndDate('');
+      onUpdated();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = (block: AcademicBlock) => {
+    Alert.alert('Remove', `Remove ${block.title} from the academic calendar?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Remove',
+        style: 'destructive',
+        onPress: async () => {
+          const result = await getAcademicCalendarService().deleteBlock(userId, block.id);
+          if (!result.success) {
+            Alert.alert('Error', result.error || 'Failed to remove from the academic calendar');
+            return;
+          }
+          setBlocks(prev => prev.filter(b => b.id !== block.id));
+          onUpdated();
+        },
+      },
+    ]);
+  };
+
+  const today = getAcademicToday();
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <View className="flex-1 bg-gray-50">
+        <View className="bg-white border-b border-gray-200 px-4 py-4 pt-16">
+          <View className="flex-row items-center justify-between">
+            <TouchableOpacity onPress={onClose} className="flex-row items-center">
+              <Ionicons name="chevron-back" size={24} color="#6b7280" />
+              <Text className="text-gray-600 ml-2">Back</Text>
+            </TouchableOpacity>
+            <Text className="text-xl font-bold text-gray-800">Academic Calendar</Text>
+            <View className="w-16" />
+          </View>
+        </View>
+
+        <ScrollView className="flex-1 p-4" keyboardShouldPersistTaps="handled">
+          <View className="bg-white rounded-2xl p-4 mb-4 border border-gray-100">
+            <Text className="text-lg font-semibold text-gray-800 mb-1">{classroomName}</Text>
+            <Text className="text-sm text-gray-600 mb-3">
+              Regular classes are left out of attendance, reminders and working days during blocks without classes.
+            </Text>
+
+            {loading ? (
+              <ActivityIndicator size="small" color="#22c55e" />
+            ) : blocks.length === 0 ? (
+              <Text className="text-gray-500 text-sm">Nothing on the calendar yet</Text>
+            ) : (
+              blocks.map(block => (
+                <View
+                  key={block.id}
+                  className={`flex-row items-center py-3 border-t border-gray-100 ${block.endDate < today ? 'opacity-50' : ''}`}
+                >
+                  <View className="flex-1">
+                    <Text className="font-medium text-gray-800">{block.title}</Text>
+                    <Text className="text-xs text-gray-500">
+                      {ACADEMIC_BLOCK_LABELS[block.type]} • {formatBlockDates(block)}
+                      {block.classesRun ? ' • classes run' : ' • no classes'}
+                    </Text>
+                  </View>
+                  {isAdmin && (
+                    <TouchableOpacity onPress={() => handleDelete(block)} className="p-2">
+                      <Ionicons name="trash-outline" size={18} color="#dc2626" />
+                    </TouchableOpacity>
+                  )}
+                </View>
+              ))
+            )}
+          </View>
+
+          {isAdmin && (
+            <View className="bg-white rounded-2xl p-4 mb-4 border border-gray-100">
+              <Text className="text-lg font-semibold text-gray-800 mb-3">Add to Calendar</Text>
+              <View className="flex-row flex-wrap mb-2">
+                {BLOCK_TYPES.map(blockType => (
+                  <TouchableOpacity
+                    key={blockType}
+                    onPress={() => handleTypeChange(blockType)}
+                    className={`px-4 py-2 rounded-lg mr-2 mb-2 ${type === blockType ? 'bg-green-500' : 'bg-gray-100'}`}
+                  >
+                    <Text className={type === blockType ? 'text-white font-medium' : 'text-gray-700'}>
+                      {ACADEMIC_BLOCK_LABELS[blockType]}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+
+              <Text className="text-gray-700 font-medium mb-2">Name</Text>
+              <TextInput
+                value={title}
+                onChangeText={setTitle}
+                placeholder={`e.g. Mid-sem ${ACADEMIC_BLOCK_LABELS[type].toLowerCase()}`}
+                className="border border-gray-300 rounded-lg p-3 text-gray-800 mb-3"
+              />
+              <View className="flex-row mb-3">
+                <View className="flex-1 mr-2">
+                  <Text className="text-gray-700 font-medium mb-2">From (DD/MM/YYYY)</Text>
+                  <TextInput
+                    value={startDate}
+                    onChangeText={setStartDate}
+                    placeholder="DD/MM/YYYY"
+                    keyboardType="numbers-and-punctuation"
+                    className="border border-gray-300 rounded-lg p-3 text-gray-800"
+                  />
+                </View>
+                <View className="flex-1">
+                  <Text className="text-gray-700 font-medium mb-2">To (optional)</Text>
+                  <TextInput
+                    value={endDate}
+                    onChangeText={setEndDate}
+                    placeholder="DD/MM/YYYY"
+                    keyboardType="numbers-and-punctuation"
+                    className="border border-gray-300 rounded-lg p-3 text-gray-800"
+                  />
+                </View>
+              </View>
+
+              <View className="flex-row items-center justify-between mb-4">
+                <View className="flex-1 mr-3">
+                  <Text className="font-medium text-gray-800">Regular classes run</Text>
+                  <Text className="text-sm text-gray-600 mt-1">
+                    Turn off for exams and breaks; extra classes still count.
+                  </Text>
+                </View>
+                <Switch
+                  value={classesRun}
+                  onValueChange={setClassesRun}
+                  trackColor={{ false: '#d1d5db', true: '#22c55e' }}
+                  thumbColor={classesRun ? '#ffffff' : '#f3f4f6'}
+                />
+              </View>
+
+              <TouchableOpacity
+                onPress={handleAdd}
+                disabled={saving}
+                className="bg-green-500 py-3 rounded-xl items-center"
+              >
+                {saving ? (
+                  <ActivityIndicator size="small" color="white" />
+                ) : (
+                  <Text className="text-white font-semibold">Add</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          )}
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+};
@@ -0,0 +1,150 @@
+import { Ionicons } from '@expo/vector-icons';
+import React, { useEffect, useState } from 'react';
+import { ActivityIndicator, Modal, ScrollView, Text, TouchableOpacity, View } from 'react-native';
+import { formatAbsenceReason } from '../../../core/utils/AttendanceUtils';
+import { FirebaseAttendanceService } from '../../../data/services/AttendanceService';
+import {
+  AttendanceChangeSource,
+  AttendanceHistoryEntry,
+  AttendanceStatus,
+} from '../../../domain/model/Attendance';
+
+interface AttendanceHistoryModalProps {
+  visible: boolean;
+  onClose: () => void;
+  userId: string;
+  recordId: string | null;
+  title?: string;
+}
+
+const STATUS_LABELS: Record<AttendanceStatus, string> = {
+  present: 'Present',
+  absent: 'Absent',
+  excused: 'Excused',
+};
+
+const STATUS_COLORS: Record<AttendanceStatus, string> = {
+  present: '#16a34a',
+  absent: '#dc2626',
+  excused: '#d97706',
+};
+
+const SOURCE_LABELS: Record<AttendanceChangeSource, string> = {
+  manual: 'Marked manually',
+  'auto-absent': 'Auto-marked absent',
+  bulk: 'Bulk marked',
+  import: 'Imported',
+  migration: 'Moved to the correct date',
+};
+
+// Create service instance once
+let attendanceServiceInstance: FirebaseAttendanceService | null = null;
+
+const getAttendanceService = () => {
+  if (!attendanceServiceInstance) {
+    attendanceServiceInstance = new FirebaseAttendanceService();
+  }
+  return attendanceServiceInstance;
+};
+
+export const AttendanceHistoryModal: React.FC<AttendanceHistoryModalProps> = ({
+  visible,
+  onClose,
+  userId,
+  recordId,
+  title,
+}) => {
+  const [entries, setEntries] = useState<AttendanceHistoryEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!visible || !recordId) return;
+
+    const loadHistory = async () => {
+      setLoading(true);
+      try {
+        setEntries(await getAttendanceService().getAttendanceHistory(userId, recordId));
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadHistory();
+  }, [visible, recordId, userId]);
+
+  const formatTimestamp = (timestamp: string) => {
+    return new Date(timestamp).toLocaleString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit',
+    });
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <View className="flex-1 justify-end bg-black/40">
+        <View className="bg-white rounded-t-3xl p-6" style={{ maxHeight: '75%' }}>
+          <View className="flex-row items-center justify-between mb-1">
+            <Text className="text-lg font-bold text-gray-800">Change History</Text>
+            <TouchableOpacity onPress={onClose}>
+              <Ionicons name="close" size={24} color="#6b7280" />
+            </TouchableOpacity>
+          </View>
+          {title ? <Text className="text-sm text-gray-500 mb-4">{title}</Text> : null}
+
+          {loading ? (
+            <View className="py-8 items-center">
+              <ActivityIndicator size="small" color="#22c55e" />
+            </View>
+          ) : entries.length === 0 ? (
+            <View className="py-8 items-center">
+              <Ionicons name="time-outline" size={32} color="#9ca3af" />
+              <Text className="text-gray-500 text-sm mt-2 text-center">
+                No changes recorded for this class yet
+              </Text>
+            </View>
+          ) : (
+            <ScrollView showsVerticalScrollIndicator={false}>
+              {entries.map((entry, index) => (
+                <View key={entry.id} className="flex-row">
+                  {/* Timeline */}
+                  <View className="items-center mr-3">
+                    <View
+                      className="w-3 h-3 rounded-full mt-1"
+                      style={{ backgroundColor: STATUS_COLORS[entry.newStatus] }}
+                    />
+                    {index < entries.length - 1 && <View className="w-0.5 flex-1 bg-gray-200" />}
+                  </View>
+
+                  <View className="flex-1 pb-4">
+                    <Text className="text-sm font-semibold text-gray-800">
+                      {entry.previousStatus
+                        ? `${STATUS_LABELS[entry.previousStatus]} → ${STATUS_LABELS[entry.newStatus]}`
+                        : `Marked ${STATUS_LABELS[entry.newStatus]}`}
+                    </Text>
+                    <Text className="text-xs text-gray-500 mt-1">
+                      {SOURCE_LABELS[entry.source]} • {formatTimestamp(entry.changedAt)}
+                    </Text>
+                    {entry.reason || entry.reasonCategory ? (
+                      <Text className="text-xs text-gray-600 mt-1">
+                        {entry.leaveType === 'medical' ? 'Medical leave: ' : entry.leaveType === 'duty' ? 'Duty leave: ' : 'Reason: '}
+                        {formatAbsenceReason(entry.reasonCategory, entry.reason)}
+                      </Text>
+                    ) : null}
+                  </View>
+                </View>
+              ))}
+            </ScrollView>
+          )}
+        </View>
+      </View>
+    </Modal>
+  );
+};
@@ -0,0 +1,288 @@
+import { Ionicons } from '@expo/vector-icons';
+import React, { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Modal,
+  ScrollView,
+  Switch,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { FirebaseClassroomService } from '../../../data/services/ClassroomService';
+import { AttendancePolicy, PolicyRoundingRule } from '../../../domain/model/Attendance';
+import { ClassSchedule } from '../../../domain/model/Classroom';
+
+interface AttendancePolicyModalProps {
+  visible: boolean;
+  onClose: () => void;
+  classroomId: string;
+  policy: AttendancePolicy; // Policy currently in effect (own, university or default)
+  hasOwnPolicy: boolean;
+  onPolicyUpdated: () => void;
+}
+
+const MINIMUM_OPTIONS = [60, 65, 70, 75, 80, 85];
+
+const CONDONATION_OPTIONS = [50, 55, 60, 65, 70];
+
+const SCOPE_OPTIONS: { value: AttendancePolicy['scope']; label: string; description: string }[] = [
+  { value: 'per-subject', label: 'Per subject', description: 'Every subject must reach the minimum' },
+  { value: 'aggregate', label: 'Overall', description: 'All subjects combined must reach the minimum' },
+];
+
+const ROUNDING_OPTIONS: { value: PolicyRoundingRule; label: string }[] = [
+  { value: 'none', label: 'Exact' },
+  { value: 'nearest', label: 'Nearest' },
+  { value: 'up', label: 'Up' },
+  { value: 'down', label: 'Down' },
+];
+
+const DEFAULT_CONDONATION_REQUIREMENT = 'Medical certificate';
+
+// Create service instance once
+let classroomServiceInstance: FirebaseClassroomService | null = null;
+
+const getClassroomService = () => {
+  if (!classroomServiceInstance) {
+    classroomServiceInstance = new FirebaseClassroomService();
+  }
+  return classroomServiceInstance;
+};
+
+export const AttendancePolicyModal: React.FC<AttendancePolicyModalProps> = ({
+  visible,
+  onClose,
+  classroomId,
+  policy,
+  hasOwnPolicy,
+  onPolicyUpdated,
+}) => {
+  const [draft, setDraft] = useState<AttendancePolicy>(policy);
+  const [subjects, setSubjects] = useState<ClassSchedule[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!visible) return;
+    setDraft(policy);
+
+    const loadSubjects = async () => {
+      const schedule = await getClassroomService().getClassroomSchedule(classroomId);
+      const seen = new Set<string>();
+      setSubjects(
+        (schedule?.classes || []).filter(cls => {
+          if (seen.has(cls.id)) return false;
+          seen.add(cls.id);
+          return true;
+        })
+      );
+    };
+
+    loadSubjects();
+  }, [visible, classroomId, policy]);
+
+  const setSubjectMinimum = (classId: string, minimum: number | null) => {
+    setDraft(prev => {
+      const subjectMinimums = { ...(prev.subjectMinimums || {}) };
+      if (minimum === null) {
+        delete subjectMinimums[classId];
+      } else {
+        subjectMinimums[classId] = minimum;
+      }
+      return { ...prev, subjectMinimums };
+    });
+  };
+
+  const toggleCondonation = (enabled: boolean) => {
+    setDraft(prev => ({
+      ...prev,
+      condonation: enabled
+        ? { minimumPercentage: Math.min(65, prev.minimumPercentage - 5), requirement: DEFAULT_CONDONATION_REQUIREMENT }
+        : undefined,
+    }));
+  };
+
+  const savePolicy = async (nextPolicy: AttendancePolicy | null) => {
+    if (nextPolicy?.condonation && nextPolicy.condonation.minimumPercentage >= nextPolicy.minimumPercentage) {
+      Alert.alert('Invalid Policy', 'The condonation band must start below the minimum attendance.');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const result = await getClassroomService().updateAttendancePolicy(classroomId, nextPolicy);
+      if (!result.success) {
+        Alert.alert('Error', result.error || 'Failed to update attendance policy');
+        return;
+      }
+      onPolicyUpdated();
+      onClose();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleReset = () => {
+    Alert.alert(
+      'Use Default Policy',
+      "The classroom will follow its university's policy, or its attendance target if the university has none.",
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Reset', style: 'destructive', onPress: () => savePolicy(null) },
+      ]
+    );
+  };
+
+  const renderChip = (label: string, isSelected: boolean, onPress: () => void, key?: string | number) => (
+    <TouchableOpacity
+      key={key ?? label}
+      onPress={onPress}
+      className={`px-4 py-2 rounded-lg mr-2 mb-2 ${isSelected ? 'bg-green-500' : 'bg-gray-100'}`}
+    >
+      <Text className={`font-medium ${isSelected ? 'text-white' : 'text-gray-700'}`}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <View className="flex-1 bg-gray-50">
+        <View className="bg-white border-b border-gray-200 px-4 py-4 pt-16">
+          <View className="flex-row items-center justify-between">
+            <TouchableOpacity onPress={onClose} className="flex-row items-center">
+              <Ionicons name="chevron-back" size={24} color="#6b7280" />
+              <Text className="text-gray-600 ml-2">Back</Text>
+            </TouchableOpacity>
+            <Text className="text-xl font-bold text-gray-800">Attendance Policy</Text>
+            <TouchableOpacity
+              onPress={() => savePolicy(draft)}
+              disabled={saving}
+              className="bg-green-500 px-4 py-2 rounded-lg"
+            >
+              {saving ? (
+                <ActivityIndicator size="small" color="white" />
+              ) : (
+                <Text className="text-white font-medium">Save</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+
+        <ScrollView className="flex-1 p-4">
+          {/* Scope */}
+          <View className="bg-white rounded-2xl p-4 mb-4 border border-gray-100">
+            <Text className="text-lg font-bold text-gray-800 mb-3">Minimum Applies To</Text>
+            {SCOPE_OPTIONS.map(option => (
+              <TouchableOpacity
+                key={option.value}
+                onPress={() => setDraft(prev => ({ ...prev, scope: option.value }))}
+                className={`p-3 rounded-xl mb-2 border ${draft.scope === option.value ? 'border-green-500 bg-green-50' : 'border-gray-200'}`}
+              >
+                <Text className="font-semibold text-gray-800">{option.label}</Text>
+                <Text className="text-sm text-gray-500">{option.description}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          {/* Minimum and rounding */}
+          <View className="bg-white rounded-2xl p-4 mb-4 border border-gray-100">
+            <Text className="text-lg font-bold text-gray-800 mb-3">Minimum Attendance</Text>
+            <View className="flex-row flex-wrap mb-2">
+              {MINIMUM_OPTIONS.map(minimum =>
+                renderChip(`${minimum}%`, draft.minimumPercentage === minimum, () =>
+                  setDraft(prev => ({ ...prev, minimumPercentage: minimum })), minimum)
+              )}
+            </View>
+
+            <Text className="text-gray-700 font-medium mb-2">Rounding</Text>
+            <View className="flex-row flex-wrap">
+              {ROUNDING_OPTIONS.map(option =>
+                renderChip(option.label, draft.rounding === option.value, () =>
+                  setDraft(prev => ({ ...prev, rounding: option.value })), option.value)
+              )}
+            </View>
+            <Text className="text-xs text-gray-500 mt-1">
+              {draft.rounding === 'nearest'
+                ? `${draft.minimumPercentage - 0.5}% rounds to ${draft.minimumPercentage}% and passes`
+                : draft.rounding === 'up'
+                  ? `Anything above ${draft.minimumPercentage - 1}% rounds up and passes`
+                  : draft.rounding === 'down'
+                    ? 'Fractions are dropped before comparing'
+                    : `Exactly ${draft.minimumPercentage}% or more is required`}
+            </Text>
+          </View>
+
+          {/* Condonation */}
+          <View className="bg-white rounded-2xl p-4 mb-4 border border-gray-100">
+            <View className="flex-row items-center justify-between">
+              <View className="flex-1 mr-3">
+                <Text className="text-lg font-bold text-gray-800">Condonation</Text>
+                <Text className="text-sm text-gray-500">
+                  Shortages in a band below the minimum can be condoned with a {DEFAULT_CONDONATION_REQUIREMENT.toLowerCase()}
+                </Text>
+              </View>
+              <Switch value={!!draft.condonation} onValueChange={toggleCondonation} />
+            </View>
+
+            {draft.condonation && (
+              <View className="mt-3">
+                <Text className="text-gray-700 font-medium mb-2">Condonable from</Text>
+                <View className="flex-row flex-wrap">
+                  {CONDONATION_OPTIONS.filter(minimum => minimum < draft.minimumPercentage).map(minimum =>
+                    renderChip(`${minimum}%`, draft.condonation?.minimumPercentage === minimum, () =>
+                      setDraft(prev => ({
+                        ...prev,
+                        condonation: {
+                          minimumPercentage: minimum,
+                          requirement: prev.condonation?.requirement || DEFAULT_CONDONATION_REQUIREMENT,
+                        },
+                      })), minimum)
+                  )}
+                </View>
+              </View>
+            )}
+          </View>
+
+          {/* Per-subject minimums */}
+          {draft.scope === 'per-subject' && subjects.length > 0 && (
+            <View className="bg-white rounded-2xl p-4 mb-4 border border-gray-100">
+              <Text className="text-lg font-bold text-gray-800 mb-1">Subject Minimums</Text>
+              <Text className="text-sm text-gray-500 mb-3">Subjects without an override use {draft.minimumPercentage}%</Text>
+              {subjects.map(cls => {
+                const override = draft.subjectMinimums?.[cls.id];
+                return (
+                  <View key={cls.id} className="mb-3">
+                    <Text className="font-medium text-gray-800 mb-2">{cls.name}</Text>
+                    <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+                      <View className="flex-row">
+                        {renderChip('Default', override === undefined, () => setSubjectMinimum(cls.id, null), 'default')}
+                        {MINIMUM_OPTIONS.map(minimum =>
+                          renderChip(`${minimum}%`, override === minimum, () => setSubjectMinimum(cls.id, minimum), minimum)
+                        )}
+                      </View>
+                    </ScrollView>
+                  </View>
+                );
+              })}
+            </View>
+          )}
+
+          {hasOwnPolicy && (
+            <TouchableOpacity
+              onPress={handleReset}
+              disabled={saving}
+              className="bg-white border border-red-200 rounded-2xl p-4 mb-8 items-center"
+            >
+              <Text className="text-red-600 font-medium">Use University / Default Policy</Text>
+            </TouchableOpacity>
+          )}
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+};
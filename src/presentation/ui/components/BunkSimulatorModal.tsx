@@ -0,0 +1,254 @@
+import { Ionicons } from '@expo/vector-icons';
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  ActivityIndicator,
+  Modal,
+  ScrollView,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { getInstanceKeysForDates, simulateBunks } from '../../../core/utils/BunkSimulatorUtils';
+import { FirebaseAttendanceService } from '../../../data/services/AttendanceService';
+import { BunkPlannerData } from '../../../domain/model/Attendance';
+import { ClassInstance } from '../../../domain/model/Classroom';
+
+interface BunkSimulatorModalProps {
+  visible: boolean;
+  onClose: () => void;
+  userId: string;
+}
+
+// Number of upcoming days rendered at a time
+const DAYS_PER_PAGE = 14;
+
+// Create service instance once
+let attendanceServiceInstance: FirebaseAttendanceService | null = null;
+
+const getAttendanceService = () => {
+  if (!attendanceServiceInstance) {
+    attendanceServiceInstance = new FirebaseAttendanceService();
+  }
+  return attendanceServiceInstance;
+};
+
+export const BunkSimulatorModal: React.FC<BunkSimulatorModalProps> = ({
+  visible,
+  onClose,
+  userId,
+}) => {
+  const [plannerData, setPlannerData] = useState<BunkPlannerData | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [skippedKeys, setSkippedKeys] = useState<Set<string>>(new Set());
+  const [visibleDays, setVisibleDays] = useState(DAYS_PER_PAGE);
+
+  useEffect(() => {
+    if (!visible) return;
+
+    const loadPlannerData = async () => {
+      setLoading(true);
+      try {
+        const data = await getAttendanceService().getBunkPlannerData(userId);
+        setPlannerData(data);
+        setSkippedKeys(new Set());
+        setVisibleDays(DAYS_PER_PAGE);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadPlannerData();
+  }, [visible, userId]);
+
+  const simulation = useMemo(
+    () => (plannerData ? simulateBunks(plannerData, skippedKeys) : null),
+    [plannerData, skippedKeys]
+  );
+
+  // Group upcoming instances by date, preserving order
+  const instancesByDate = useMemo(() => {
+    const groups: { date: string; instances: ClassInstance[] }[] = [];
+    plannerData?.upcomingInstances.forEach(instance => {
+      const lastGroup = groups[groups.length - 1];
+      if (lastGroup && lastGroup.date === instance.date) {
+        lastGroup.instances.push(instance);
+      } else {
+        groups.push({ date: instance.date, instances: [instance] });
+      }
+    });
+    return groups;
+  }, [plannerData]);
+
+  const toggleInstance = (key: string) => {
+    const next = new Set(skippedKeys);
+    if (next.has(key)) {
+      next.delete(key);
+    } else {
+      next.add(key);
+    }
+    setSkippedKeys(next);
+  };
+
+  const toggleDay = (date: string, instances: ClassInstance[]) => {
+    const dayKeys = getInstanceKeysForDates(instances, [date]);
+    const isDaySkipped = dayKeys.every(key => skippedKeys.has(key));
+    const next = new Set(skippedKeys);
+    dayKeys.forEach(key => (isDaySkipped ? next.delete(key) : next.add(key)));
+    setSkippedKeys(next);
+  };
+
+  const formatDate = (date: string) => {
+    return new Date(date + 'T00:00:00').toLocaleDateString('en-US', {
+      weekday: 'short',
+      month: 'short',
+      day: 'numeric',
+    });
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <View className="flex-1 bg-gray-50">
+        {/* Header */}
+        <View className="bg-white border-b border-gray-200 px-6 py-4">
+          <View className="flex-row items-center justify-between">
+            <TouchableOpacity onPress={onClose}>
+              <Ionicons name="close" size={24} color="#6b7280" />
+            </TouchableOpacity>
+            <Text className="text-lg font-bold text-gray-800">What-if Planner</Text>
+            <TouchableOpacity
+              onPress={() => setSkippedKeys(new Set())}
+              disabled={skippedKeys.size === 0}
+            >
+              <Text className={`font-medium ${skippedKeys.size === 0 ? 'text-gray-300' : 'text-green-600'}`}>
+                Reset
+              </Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+
+        {loading || !simulation ? (
+          <View className="flex-1 justify-center items-center">
+            <ActivityIndicator size="large" color="#22c55e" />
+          </View>
+        ) : (
+          <ScrollView className="flex-1 px-4 py-4">
+            {/* Projection Summary */}
+            <View className="bg-white rounded-2xl p-4 mb-4 border border-gray-100">
+              <View className="flex-row items-center justify-between mb-3">
+                <Text className="text-base font-semibold text-gray-800">Projected Attendance</Text>
+                <Text className="text-xs text-gray-500">
+                  {simulation.skippedInstances.length} classes skipped
+                </Text>
+              </View>
+
+              {simulation.subjectsBelowTarget > 0 && (
+                <View className="bg-red-50 rounded-xl p-3 mb-3 flex-row items-center">
+                  <Ionicons name="warning-outline" size={18} color="#dc2626" />
+                  <Text className="text-red-700 text-sm ml-2 flex-1">
+                    {simulation.subjectsBelowTarget} subject{simulation.subjectsBelowTarget > 1 ? 's' : ''} would drop below target
+                  </Text>
+                </View>
+              )}
+
+              {simulation.projections.length === 0 ? (
+                <Text className="text-gray-500 text-sm">No subjects found in your classrooms</Text>
+              ) : (
+                simulation.projections.map(projection => (
+                  <View
+                    key={`${projection.classroomId}_${projection.classId}`}
+                    className="py-3 border-b border-gray-100"
+                  >
+                    <View className="flex-row items-center justify-between">
+                      <Text className="text-sm font-medium text-gray-800 flex-1 mr-2">
+                        {projection.subject}
+                      </Text>
+                      <Text
+                        className={`text-sm font-bold ${projection.fallsBelowTarget ? 'text-red-600' : 'text-green-600'}`}
+                      >
+                        {projection.currentAttendancePercentage}% → {projection.projectedPercentageAfterSkips}%
+                      </Text>
+                    </View>
+                    <Text className="text-xs text-gray-500 mt-1">
+                      Target {projection.requiredAttendancePercentage}% • Skipping {projection.plannedSkips} of {projection.remainingClasses} left • End of semester {projection.projectedFinalPercentage}% • {projection.skipsLeftAfterPlan} more skips allowed
+                    </Text>
+                  </View>
+                ))
+              )}
+            </View>
+
+            {/* Upcoming Classes */}
+            <Text className="text-base font-semibold text-gray-800 mb-3">Plan Your Skips</Text>
+
+            {instancesByDate.length === 0 ? (
+              <View className="bg-white rounded-2xl p-6 border border-gray-100 items-center">
+                <Ionicons name="calendar-clear-outline" size={32} color="#9ca3af" />
+                <Text className="text-gray-500 text-sm mt-2 text-center">
+                  No upcoming classes left this semester
+                </Text>
+              </View>
+            ) : (
+              instancesByDate.slice(0, visibleDays).map(({ date, instances }) => {
+                const isDaySkipped = instances.every(i => skippedKeys.has(i.key));
+
+                return (
+                  <View key={date} className="bg-white rounded-2xl p-4 mb-3 border border-gray-100">
+                    <View className="flex-row items-center justify-between mb-2">
+                      <Text className="text-sm font-semibold text-gray-800">{formatDate(date)}</Text>
+                      <TouchableOpacity
+                        onPress={() => toggleDay(date, instances)}
+                        className={`px-3 py-1 rounded-lg ${isDaySkipped ? 'bg-red-500' : 'bg-gray-100'}`}
+                      >
+                        <Text className={`text-xs font-medium ${isDaySkipped ? 'text-white' : 'text-gray-700'}`}>
+                          {isDaySkipped ? 'Skipping day' : 'Skip whole day'}
+                        </Text>
+                      </TouchableOpacity>
+                    </View>
+
+                    {instances.map(instance => {
+                      const isSkipped = skippedKeys.has(instance.key);
+                      return (
+                        <TouchableOpacity
+                          key={instance.key}
+                          onPress={() => toggleInstance(instance.key)}
+                          className="flex-row items-center py-2"
+                        >
+                          <Ionicons
+                            name={isSkipped ? 'close-circle' : 'checkmark-circle-outline'}
+                            size={20}
+                            color={isSkipped ? '#ef4444' : '#22c55e'}
+                          />
+                          <Text className={`text-sm ml-2 flex-1 ${isSkipped ? 'text-red-600 line-through' : 'text-gray-700'}`}>
+                            {instance.subject}
+                          </Text>
+                          <Text className="text-xs text-gray-500">
+                            {instance.startTime} - {instance.endTime}
+                          </Text>
+                        </TouchableOpacity>
+                      );
+                    })}
+                  </View>
+                );
+              })
+            )}
+
+            {visibleDays < instancesByDate.length && (
+              <TouchableOpacity
+                onPress={() => setVisibleDays(visibleDays + DAYS_PER_PAGE)}
+                className="py-3 items-center"
+              >
+                <Text className="text-green-600 font-medium">Show more days</Text>
+              </TouchableOpacity>
+            )}
+
+            <View className="h-8" />
+          </ScrollView>
+        )}
+      </View>
+    </Modal>
+  );
+};
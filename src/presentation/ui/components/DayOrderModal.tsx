@@ -0,0 +1,311 @@
+import { Ionicons } from '@expo/vector-icons';
+import React, { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Modal,
+  ScrollView,
+  Switch,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { addDaysToDateKey, getAcademicToday } from '../../../core/utils/AcademicDateUtils';
+import {
+  DAY_ORDER_CYCLE_OPTIONS,
+  DEFAULT_DAY_ORDER_CYCLE,
+  getDayOrderForDate,
+  getDayOrderName,
+} from '../../../core/utils/DayOrderUtils';
+import { getDayNameForDate } from '../../../core/utils/ScheduleUtils';
+import { formatDateKey, formatSemesterDate, parseDate, WorkingDayCalendar } from '../../../core/utils/SemesterUtils';
+import { FirebaseAcademicCalendarService } from '../../../data/services/AcademicCalendarService';
+import { FirebaseClassroomService } from '../../../data/services/ClassroomService';
+import { DayOrderSettings, WorkingWeekRules } from '../../../domain/model/Classroom';
+
+interface DayOrderModalProps {
+  visible: boolean;
+  onClose: () => void;
+  userId: string;
+  classroomId: string;
+  classroomName: string;
+  university?: string;
+  holidayState?: string | null;
+  workingWeek?: WorkingWeekRules | null;
+  isAdmin: boolean;
+  onUpdated: () => void;
+}
+
+// Days of day orders shown ahead, so students can check the count
+const PREVIEW_DAYS = 7;
+
+// Create service instances once
+let classroomServiceInstance: FirebaseClassroomService | null = null;
+let academicCalendarServiceInstance: FirebaseAcademicCalendarService | null = null;
+
+const getClassroomService = () => {
+  if (!classroomServiceInstance) {
+    classroomServiceInstance = new FirebaseClassroomService();
+  }
+  return classroomServiceInstance;
+};
+
+const getAcademicCalendarService = () => {
+  if (!academicCalendarServiceInstance) {
+    academicCalendarServiceInstance = new FirebaseAcademicCalendarService();
+  }
+  return academicCalendarServiceInstance;
+};
+
+// DD/MM/YYYY → YYYY-MM-DD, or null when the date can't be read
+const toDateKey = (value: string) => {
+  const date = parseDate(value.trim());
+  return date && !isNaN(date.getTime()) ? formatDateKey(date) : null;
+};
+
+export const DayOrderModal: React.FC<DayOrderModalProps> = ({
+  visible,
+  onClose,
+  userId,
+  classroomId,
+  classroomName,
+  university,
+  holidayState,
+  workingWeek,
+  isAdmin,
+  onUpdated,
+}) => {
+  const [dayOrder, setDayOrder] = useState<DayOrderSettings | null>(null);
+  const [calendar, setCalendar] = useState<WorkingDayCalendar | undefined>(undefined);
+  const [enabled, setEnabled] = useState(false);
+  const [cycleLength, setCycleLength] = useState(DEFAULT_DAY_ORDER_CYCLE);
+  const [startDate, setStartDate] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const today = getAcademicToday();
+
+  // Bumped after a save so the settings and preview are read again
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    if (!visible) return;
+
+    const loadDayOrder = async () => {
+      setLoading(true);
+      try {
+        const schedule = await getClassroomService().getClassroomSchedule(classroomId);
+        const settings = schedule?.dayOrder || null;
+        setDayOrder(settings);
+        setEnabled(!!settings?.enabled);
+        setCycleLength(settings?.cycleLength || DEFAULT_DAY_ORDER_CYCLE);
+        setStartDate(formatSemesterDate(settings?.startDate || today));
+        setCalendar(
+          settings
+            ? await getAcademicCalendarService().getWorkingDayCalendar(
+                { id: classroomId, university: university || '', holidayState, workingWeek },
+                schedule,
+                today,
+                addDaysToDateKey(today, PREVIEW_DAYS)
+              )
+            : undefined
+        );
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadDayOrder();
+  }, [visible, classroomId, university, holidayState, workingWeek, today, reloadKey]);
+
+  const handleSave = async () => {
+    const start = toDateKey(startDate);
+    if (enabled && !start) {
+      Alert.alert('Invalid Date', 'Please use DD/MM/YYYY format (e.g., 15/03/2026)');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const result = await getClassroomService().updateDayOrder(classroomId, userId, {
+        enabled,
+        cycleLength,
+        startDate: start || today,
+      });
+      if (!result.success) {
+        Alert.alert('Error', result.error || 'Failed to update day order');
+        return;
+      }
+      setReloadKey(key => key + 1);
+      onUpdated();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleOverride = async (order: number | null) => {
+    setSaving(true);
+    try {
+      const result = await getClassroomService().setDayOrderOverride(classroomId, today, order);
+      if (!result.success) {
+        Alert.alert('Error', result.error || 'Failed to set the day order');
+        return;
+      }
+      setReloadKey(key => key + 1);
+      onUpdated();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const isOn = !!dayOrder?.enabled;
+  const todayOverride = dayOrder?.overrides?.[today];
+  const preview = isOn && dayOrder
+    ? Array.from({ length: PREVIEW_DAYS }, (_, i) => {
+        const date = addDaysToDateKey(today, i);
+        return { date, order: getDayOrderForDate(dayOrder, date, calendar) };
+      })
+    : [];
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <View className="flex-1 bg-gray-50">
+        <View className="bg-white border-b border-gray-200 px-4 py-4 pt-16">
+          <View className="flex-row items-center justify-between">
+            <TouchableOpacity onPress={onClose} className="flex-row items-center">
+              <Ionicons name="chevron-back" size={24} color="#6b7280" />
+              <Text className="text-gray-600 ml-2">Back</Text>
+            </TouchableOpacity>
+            <Text className="text-xl font-bold text-gray-800">Day Order</Text>
+            <View className="w-16" />
+          </View>
+        </View>
+
+        {loading ? (
+          <View className="flex-1 items-center justify-center">
+            <ActivityIndicator size="large" color="#22c55e" />
+          </View>
+        ) : (
+          <ScrollView className="flex-1 p-4" keyboardShouldPersistTaps="handled">
+            {isOn && (
+              <View className="bg-white rounded-2xl p-4 mb-4 border border-gray-100">
+                <Text className="text-lg font-semibold text-gray-800 mb-1">{classroomName}</Text>
+                <Text className="text-sm text-gray-600 mb-3">
+                  The day order moves on each working day and skips holidays, days off and exam breaks.
+                </Text>
+                {preview.map(({ date, order }) => (
+                  <View key={date} className="flex-row items-center justify-between py-2 border-t border-gray-100">
+                    <Text className={date === today ? 'font-semibold text-gray-800' : 'text-gray-700'}>
+                      {date === today ? 'Today' : getDayNameForDate(date).substring(0, 3)} · {formatSemesterDate(date)}
+                    </Text>
+                    <Text className={order ? 'font-medium text-gray-800' : 'text-gray-400'}>
+                      {order ? getDayOrderName(order) : 'No classes'}
+                    </Text>
+                  </View>
+                ))}
+              </View>
+            )}
+
+            {isOn && isAdmin && (
+              <View className="bg-white rounded-2xl p-4 mb-4 border border-gray-100">
+                <Text className="text-lg font-semibold text-gray-800 mb-1">Today is</Text>
+                <Text className="text-sm text-gray-600 mb-3">
+                  When the college announces a different day order, set it here; the following days count on from it.
+                </Text>
+                <View className="flex-row flex-wrap">
+                  {Array.from({ length: dayOrder!.cycleLength }, (_, i) => i + 1).map(order => (
+                    <TouchableOpacity
+                      key={order}
+                      onPress={() => handleOverride(order)}
+                      disabled={saving}
+                      className={`px-4 py-2 rounded-lg mr-2 mb-2 ${todayOverride === order ? 'bg-green-500' : 'bg-gray-100'}`}
+                    >
+                      <Text className={todayOverride === order ? 'text-white font-medium' : 'text-gray-700'}>
+                        {getDayOrderName(order)}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+                {todayOverride !== undefined && (
+                  <TouchableOpacity onPress={() => handleOverride(null)} disabled={saving} className="mt-1">
+                    <Text className="text-red-600 font-medium">Clear announcement</Text>
+                  </TouchableOpacity>
+                )}
+              </View>
+            )}
+
+            {isAdmin ? (
+              <View className="bg-white rounded-2xl p-4 mb-4 border border-gray-100">
+                <View className="flex-row items-center justify-between mb-3">
+                  <View className="flex-1 mr-3">
+                    <Text className="font-medium text-gray-800">Day-order timetable</Text>
+                    <Text className="text-sm text-gray-600 mt-1">
+                      Classes follow Day 1, Day 2… instead of weekdays. The current timetable moves over (Monday becomes Day 1).
+                    </Text>
+                  </View>
+                  <Switch
+                    value={enabled}
+                    onValueChange={setEnabled}
+                    trackColor={{ false: '#d1d5db', true: '#22c55e' }}
+                    thumbColor={enabled ? '#ffffff' : '#f3f4f6'}
+                  />
+                </View>
+
+                {enabled && (
+                  <View>
+                    <Text className="text-gray-700 font-medium mb-2">Days in a cycle</Text>
+                    <View className="flex-row flex-wrap mb-2">
+                      {DAY_ORDER_CYCLE_OPTIONS.map(option => (
+                        <TouchableOpacity
+                          key={option}
+                          onPress={() => setCycleLength(option)}
+                          className={`px-4 py-2 rounded-lg mr-2 mb-2 ${cycleLength === option ? 'bg-green-500' : 'bg-gray-100'}`}
+                        >
+                          <Text className={cycleLength === option ? 'text-white font-medium' : 'text-gray-700'}>
+                            {option}
+                          </Text>
+                        </TouchableOpacity>
+                      ))}
+                    </View>
+                    <Text className="text-gray-700 font-medium mb-2">Day 1 falls on (DD/MM/YYYY)</Text>
+                    <TextInput
+                      value={startDate}
+                      onChangeText={setStartDate}
+                      placeholder="DD/MM/YYYY"
+                      keyboardType="numbers-and-punctuation"
+                      className="border border-gray-300 rounded-lg p-3 text-gray-800 mb-4"
+                    />
+                  </View>
+                )}
+
+                <TouchableOpacity
+                  onPress={handleSave}
+                  disabled={saving}
+                  className="bg-green-500 py-3 rounded-xl items-center"
+                >
+                  {saving ? (
+                    <ActivityIndicator size="small" color="white" />
+                  ) : (
+                    <Text className="text-white font-semibold">Save</Text>
+                  )}
+                </TouchableOpacity>
+              </View>
+            ) : !isOn && (
+              <View className="bg-white rounded-2xl p-4 mb-4 border border-gray-100">
+                <Text className="text-gray-600 text-sm">
+                  {classroomName} follows a weekday timetable. The classroom admin can switch it to day orders.
+                </Text>
+              </View>
+            )}
+          </ScrollView>
+        )}
+      </View>
+    </Modal>
+  );
+};
@@ -0,0 +1,354 @@
+import { Ionicons } from '@expo/vector-icons';
+import { DateTimePickerAndroid, DateTimePickerEvent } from '@react-native-community/datetimepicker';
+import React, { useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Modal,
+  ScrollView,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { getClassInstancesForDate } from '../../../core/utils/ScheduleUtils';
+import { formatDateKey } from '../../../core/utils/SemesterUtils';
+import { FirebaseClassroomService } from '../../../data/services/ClassroomService';
+import { ClassSchedule, ExtraClass, Schedule } from '../../../domain/model/Classroom';
+
+interface ExtraClassesModalProps {
+  visible: boolean;
+  onClose: () => void;
+  schedule: Schedule;
+  userId: string;
+  onExtraClassesUpdated: () => void;
+}
+
+const TIME_OPTIONS = [
+  '08:00', '08:30', '09:00', '09:30', '10:00', '10:30', '11:00', '11:30',
+  '12:00', '12:30', '13:00', '13:30', '14:00', '14:30', '15:00', '15:30',
+  '16:00', '16:30', '17:00', '17:30', '18:00', '18:30', '19:00', '19:30', '20:00'
+];
+
+const EXTRA_CLASS_KINDS: { value: ExtraClass['kind']; label: string }[] = [
+  { value: 'makeup', label: 'Makeup' },
+  { value: 'extra', label: 'Extra' },
+];
+
+interface ExtraClassFormData {
+  classId: string;
+  kind: ExtraClass['kind'];
+  date: string;
+  startTime: string;
+  endTime: string;
+  location: string;
+}
+
+// Create service instance once
+let classroomServiceInstance: FirebaseClassroomService | null = null;
+
+const getClassroomService = () => {
+  if (!classroomServiceInstance) {
+    classroomServiceInstance = new FirebaseClassroomService();
+  }
+  return classroomServiceInstance;
+};
+
+export const ExtraClassesModal: React.FC<ExtraClassesModalProps> = ({
+  visible,
+  onClose,
+  schedule,
+  userId,
+  onExtraClassesUpdated,
+}) => {
+  const [saving, setSaving] = useState(false);
+  const [formData, setFormData] = useState<ExtraClassFormData>({
+    classId: '',
+    kind: 'makeup',
+    date: formatDateKey(new Date()),
+    startTime: '09:00',
+    endTime: '10:00',
+    location: '',
+  });
+
+  const todayKey = formatDateKey(new Date());
+  const extraClasses = [...(schedule.extraClasses || [])].sort((a, b) =>
+    `${a.date}_${a.startTime}`.localeCompare(`${b.date}_${b.startTime}`)
+  );
+
+  // One entry per subject (a subject may meet several times a week)
+  const subjects = schedule.classes.filter(
+    (cls, index, all) => all.findIndex(c => c.id === cls.id) === index
+  );
+  const selectedSubject = subjects.find(cls => cls.id === formData.classId) || subjects[0];
+
+  const openDatePicker = () => {
+    DateTimePickerAndroid.open({
+      value: new Date(formData.date + 'T00:00:00'),
+      onChange: (event: DateTimePickerEvent, selectedDate?: Date) => {
+        if (event.type === 'set' && selectedDate) {
+          setFormData(prev => ({ ...prev, date: formatDateKey(selectedDate) }));
+        }
+      },
+      mode: 'date',
+    });
+  };
+
+  const validateForm = (subject?: ClassSchedule): boolean => {
+    if (!subject) {
+      Alert.alert('Error', 'Please choose the subject this class counts toward');
+      return false;
+    }
+    if (formData.startTime >= formData.endTime) {
+      Alert.alert('Error', 'End time must be after start time');
+      return false;
+    }
+
+    // Overlapping classes on the same date would share attendance slots
+    const conflictingInstance = getClassInstancesForDate(schedule, formData.date).find(instance =>
+      formData.startTime < instance.endTime && formData.endTime > instance.startTime
+    );
+    if (conflictingInstance) {
+      Alert.alert(
+        'Time Conflict',
+        `This time slot conflicts with "${conflictingInstance.subject}" (${conflictingInstance.startTime} - ${conflictingInstance.endTime})`
+      );
+      return false;
+    }
+
+    return true;
+  };
+
+  const handleAddExtraClass = async () => {
+    if (!validateForm(selectedSubject) || !selectedSubject) return;
+
+    const extraClass: ExtraClass = {
+      id: `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      classId: selectedSubject.id,
+      name: selectedSubject.name,
+      instructor: selectedSubject.instructor,
+      location: formData.location.trim() || selectedSubject.location,
+      date: formData.date,
+      startTime: formData.startTime,
+      endTime: formData.endTime,
+      kind: formData.kind,
+      createdBy: userId,
+      createdAt: new Date().toISOString(),
+    };
+
+    setSaving(true);
+    try {
+      const result = await getClassroomService().addExtraClass(schedule.id, extraClass);
+      if (!result.success) {
+        Alert.alert('Error', result.error || 'Failed to add extra class');
+        return;
+      }
+
+      setFormData(prev => ({ ...prev, location: '' }));
+      onExtraClassesUpdated();
+      Alert.alert('Success', `${extraClass.name} added on ${formatDate(extraClass.date)}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemoveExtraClass = (extraClass: ExtraClass) => {
+    Alert.alert(
+      'Remove Class',
+      `Remove the ${extraClass.kind} class of "${extraClass.name}" on ${formatDate(extraClass.date)}?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: async () => {
+            setSaving(true);
+            try {
+              const result = await getClassroomService().removeExtraClass(schedule.id, extraClass.id);
+              if (!result.success) {
+                Alert.alert('Error', result.error || 'Failed to remove extra class');
+                return;
+              }
+              onExtraClassesUpdated();
+            } finally {
+              setSaving(false);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const formatDate = (date: string) => {
+    return new Date(date + 'T00:00:00').toLocaleDateString('en-US', {
+      weekday: 'short',
+      month: 'short',
+      day: 'numeric',
+    });
+  };
+
+  const renderTimeOptions = (selected: string, onSelect: (time: string) => void) => (
+    <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+      <View className="flex-row">
+        {TIME_OPTIONS.map((time) => (
+          <TouchableOpacity
+            key={time}
+            onPress={() => onSelect(time)}
+            className={`px-3 py-2 rounded-lg mr-1 ${selected === time ? 'bg-green-500' : 'bg-gray-100'}`}
+          >
+            <Text className={`text-sm font-medium ${selected === time ? 'text-white' : 'text-gray-700'}`}>
+              {time}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+    </ScrollView>
+  );
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <View className="flex-1 bg-gray-50">
+        <View className="bg-white border-b border-gray-200 px-4 py-4 pt-16">
+          <View className="flex-row items-center justify-between">
+            <TouchableOpacity onPress={onClose} className="flex-row items-center">
+              <Ionicons name="chevron-back" size={24} color="#6b7280" />
+              <Text className="text-gray-600 ml-2">Back</Text>
+            </TouchableOpacity>
+            <Text className="text-xl font-bold text-gray-800">Extra Classes</Text>
+            <TouchableOpacity
+              onPress={handleAddExtraClass}
+              disabled={saving || subjects.length === 0}
+              className="bg-green-500 px-4 py-2 rounded-lg"
+            >
+              {saving ? (
+                <ActivityIndicator size="small" color="white" />
+              ) : (
+                <Text className="text-white font-medium">Add</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+
+        <ScrollView className="flex-1 p-4">
+          {subjects.length === 0 ? (
+            <View className="bg-white rounded-2xl p-8 items-center border border-gray-100">
+              <Ionicons name="calendar-outline" size={32} color="#9ca3af" />
+              <Text className="text-gray-500 text-center text-sm mt-2">
+                Add subjects to the weekly schedule before scheduling extra classes
+              </Text>
+            </View>
+          ) : (
+            <View className="bg-white rounded-2xl p-4 mb-4 border border-gray-100">
+              <Text className="text-lg font-bold text-gray-800 mb-3">New Class</Text>
+
+              {/* Subject */}
+              <Text className="text-gray-700 font-medium mb-2">Counts toward *</Text>
+              <ScrollView horizontal showsHorizontalScrollIndicator={false} className="mb-4">
+                <View className="flex-row">
+                  {subjects.map((cls) => (
+                    <TouchableOpacity
+                      key={cls.id}
+                      onPress={() => setFormData(prev => ({ ...prev, classId: cls.id }))}
+                      className={`px-4 py-2 rounded-lg mr-2 ${selectedSubject?.id === cls.id ? 'bg-green-500' : 'bg-gray-100'}`}
+                    >
+                      <Text className={`font-medium ${selectedSubject?.id === cls.id ? 'text-white' : 'text-gray-700'}`}>
+                        {cls.name}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              </ScrollView>
+
+              {/* Kind */}
+              <Text className="text-gray-700 font-medium mb-2">Type</Text>
+              <View className="flex-row mb-4">
+                {EXTRA_CLASS_KINDS.map(({ value, label }) => (
+                  <TouchableOpacity
+                    key={value}
+                    onPress={() => setFormData(prev => ({ ...prev, kind: value }))}
+                    className={`flex-1 py-2 rounded-lg items-center ${value === 'makeup' ? 'mr-2' : ''} ${formData.kind === value ? 'bg-green-500' : 'bg-gray-100'}`}
+                  >
+                    <Text className={`font-medium ${formData.kind === value ? 'text-white' : 'text-gray-700'}`}>
+                      {label}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+
+              {/* Date */}
+              <Text className="text-gray-700 font-medium mb-2">Date *</Text>
+              <TouchableOpacity
+                onPress={openDatePicker}
+                className="bg-gray-50 border border-gray-200 rounded-lg px-4 py-3 flex-row items-center justify-between mb-4"
+              >
+                <Text className="text-gray-800">{formatDate(formData.date)}</Text>
+                <Ionicons name="calendar-outline" size={20} color="#6b7280" />
+              </TouchableOpacity>
+
+              {/* Time */}
+              <Text className="text-gray-700 font-medium mb-2">Start Time *</Text>
+              <View className="mb-4">
+                {renderTimeOptions(formData.startTime, time => setFormData(prev => ({ ...prev, startTime: time })))}
+              </View>
+              <Text className="text-gray-700 font-medium mb-2">End Time *</Text>
+              <View className="mb-4">
+                {renderTimeOptions(formData.endTime, time => setFormData(prev => ({ ...prev, endTime: time })))}
+              </View>
+
+              {/* Location */}
+              <Text className="text-gray-700 font-medium mb-2">Location</Text>
+              <TextInput
+                value={formData.location}
+                onChangeText={(text) => setFormData(prev => ({ ...prev, location: text }))}
+                placeholder={selectedSubject?.location || 'e.g., Room 101, Lab A'}
+                className="bg-gray-50 border border-gray-200 rounded-lg px-4 py-3 text-gray-800"
+              />
+            </View>
+          )}
+
+          {/* Scheduled extra classes */}
+          <Text className="text-lg font-bold text-gray-800 mb-3">Scheduled</Text>
+          {extraClasses.length === 0 ? (
+            <View className="bg-white rounded-2xl p-6 items-center border border-gray-100">
+              <Text className="text-gray-500 text-sm">No extra or makeup classes yet</Text>
+            </View>
+          ) : (
+            extraClasses.map((extraClass) => (
+              <View
+                key={extraClass.id}
+                className={`bg-white rounded-2xl p-4 mb-3 border border-gray-100 ${extraClass.date < todayKey ? 'opacity-60' : ''}`}
+              >
+                <View className="flex-row items-start justify-between">
+                  <View className="flex-1">
+                    <Text className="text-base font-bold text-gray-800">{extraClass.name}</Text>
+                    <Text className="text-xs text-blue-600 mt-1">
+                      {extraClass.kind === 'makeup' ? 'Makeup class' : 'Extra class'}
+                    </Text>
+                    <Text className="text-gray-600 text-sm mt-1">
+                      {formatDate(extraClass.date)} • {extraClass.startTime} - {extraClass.endTime}
+                    </Text>
+                    <Text className="text-gray-500 text-sm">{extraClass.location}</Text>
+                  </View>
+                  <TouchableOpacity
+                    onPress={() => handleRemoveExtraClass(extraClass)}
+                    disabled={saving}
+                    className="bg-red-100 p-2 rounded-lg"
+                  >
+                    <Ionicons name="trash" size={16} color="#ef4444" />
+                  </TouchableOpacity>
+                </View>
+              </View>
+            ))
+          )}
+
+          <View className="h-8" />
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+};
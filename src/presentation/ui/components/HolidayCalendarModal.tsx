@@ -0,0 +1,329 @@
+import { Ionicons } from '@expo/vector-icons';
+import * as DocumentPicker from 'expo-document-picker';
+import { File } from 'expo-file-system';
+import React, { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Modal,
+  ScrollView,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { getAcademicToday } from '../../../core/utils/AcademicDateUtils';
+import { FirebaseClassroomService } from '../../../data/services/ClassroomService';
+import { FirebaseHolidayService } from '../../../data/services/HolidayService';
+import { HolidayCalendarScope, ResolvedHoliday } from '../../../domain/model/Holiday';
+
+interface HolidayCalendarModalProps {
+  visible: boolean;
+  onClose: () => void;
+  userId: string;
+  classroomId: string;
+  university?: string;
+  holidayState?: string | null;
+  isAdmin: boolean; // Only the classroom creator can change the state or import holidays
+  onUpdated: () => void;
+}
+
+const SCOPE_LABELS: Record<HolidayCalendarScope, string> = {
+  national: 'National',
+  state: 'State',
+  university: 'University',
+};
+
+const SCOPE_COLORS: Record<HolidayCalendarScope, string> = {
+  national: 'bg-orange-100 text-orange-700',
+  state: 'bg-blue-100 text-blue-700',
+  university: 'bg-purple-100 text-purple-700',
+};
+
+// Create service instances once
+let classroomServiceInstance: FirebaseClassroomService | null = null;
+let holidayServiceInstance: FirebaseHolidayService | null = null;
+
+const getClassroomService = () => {
+  if (!classroomServiceInstance) {
+    classroomServiceInstance = new FirebaseClassroomService();
+  }
+  return classroomServiceInstance;
+};
+
+const getHolidayService = () => {
+  if (!holidayServiceInstance) {
+    holidayServiceInstance = new FirebaseHolidayService();
+  }
+  return holidayServiceInstance;
+};
+
+// YYYY-MM-DD → "Mon, 26 Jan"
+const formatHolidayDate = (dateKey: string) => {
+  return new Date(dateKey + 'T00:00:00').toLocaleDateString('en-IN', {
+    weekday: 'short',
+    day: 'numeric',
+    month: 'short',
+  });
+};
+
+export const HolidayCalendarModal: React.FC<HolidayCalendarModalProps> = ({
+  visible,
+  onClose,
+  userId,
+  classroomId,
+  university,
+  holidayState,
+  isAdmin,
+  onUpdated,
+}) => {
+  const currentYear = Number(getAcademicToday().slice(0, 4));
+  const [year, setYear] = useState(currentYear);
+  const [state, setState] = useState(holidayState || '');
+  const [savedState, setSavedState] = useState(holidayState || '');
+  const [holidays, setHolidays] = useState<ResolvedHoliday[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [importScope, setImportScope] = useState<'state' | 'university'>('state');
+  const [importContent, setImportContent] = useState('');
+  const [importFileName, setImportFileName] = useState<string | null>(null);
+  const [importCount, setImportCount] = useState(0); // Bumped after an import to reload the list
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!visible) return;
+    setState(holidayState || '');
+    setSavedState(holidayState || '');
+    setImportContent('');
+    setImportFileName(null);
+  }, [visible, holidayState]);
+
+  useEffect(() => {
+    if (!visible) return;
+
+    const loadHolidays = async () => {
+      setLoading(true);
+      try {
+        setHolidays(
+          await getHolidayService().getHolidaysForClassroom({ university: university || '', holidayState: savedState }, year)
+        );
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadHolidays();
+  }, [visible, year, savedState, university, importCount]);
+
+  const handleSaveState = async () => {
+    setSaving(true);
+    try {
+      const nextState = state.trim().toUpperCase();
+      const result = await getClassroomService().updateHolidayState(classroomId, nextState || null);
+      if (!result.success) {
+        Alert.alert('Error', result.error || 'Failed to update holiday state');
+        return;
+      }
+      setState(nextState);
+      setSavedState(nextState);
+      onUpdated();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Load an ICS or CSV file from the device into the import box
+  const handlePickFile = async () => {
+    try {
+      const result = await DocumentPicker.getDocumentAsync({
+        type: ['text/calendar', 'text/csv', 'text/comma-separated-values', 'text/plain'],
+        copyToCacheDirectory: true,
+      });
+      if (result.canceled) return;
+
+      const [asset] = result.assets;
+      setImportContent(await new File(asset.uri).text());
+      setImportFileName(asset.name);
+    } catch (error) {
+      console.error('Error reading holiday file:', error);
+      Alert.alert('Error', 'Could not read the selected file');
+    }
+  };
+
+  const handleImport = async () => {
+    if (!importContent.trim()) {
+      Alert.alert('Nothing to import', 'Choose an ICS or CSV file, or paste its contents first');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const result = await getHolidayService().importCalendar(userId, {
+        classroomId,
+        scope: importScope,
+        content: importContent,
+      });
+      if (!result.success) {
+        Alert.alert('Import Failed', result.error || 'Failed to import holidays');
+        return;
+      }
+      Alert.alert(
+        'Holidays Imported',
+        `${result.importedCount} holidays saved for ${result.years?.join(', ')}`
+      );
+      setImportContent('');
+      setImportFileName(null);
+      setImportCount(count => count + 1);
+      onUpdated();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <View className="flex-1 bg-gray-50">
+        <View className="bg-white border-b border-gray-200 px-4 py-4 pt-16">
+          <View className="flex-row items-center justify-between">
+            <TouchableOpacity onPress={onClose} className="flex-row items-center">
+              <Ionicons name="chevron-back" size={24} color="#6b7280" />
+              <Text className="text-gray-600 ml-2">Back</Text>
+            </TouchableOpacity>
+            <Text className="text-xl font-bold text-gray-800">Holidays</Text>
+            <View className="w-16" />
+          </View>
+        </View>
+
+        <ScrollView className="flex-1 p-4" keyboardShouldPersistTaps="handled">
+          {/* Year */}
+          <View className="flex-row flex-wrap mb-2">
+            {[currentYear, currentYear + 1].map(option => (
+              <TouchableOpacity
+                key={option}
+                onPress={() => setYear(option)}
+                className={`px-4 py-2 rounded-lg mr-2 mb-2 ${year === option ? 'bg-green-500' : 'bg-gray-100'}`}
+              >
+                <Text className={year === option ? 'text-white font-medium' : 'text-gray-700'}>{option}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          {/* State */}
+          <View className="bg-white rounded-2xl p-4 mb-4 border border-gray-100">
+            <Text className="text-gray-700 font-medium mb-1">State holidays</Text>
+            <Text className="text-xs text-gray-500 mb-3">
+              National holidays always apply. Add the state code to include its holidays too
+              {university ? `, along with ${university}'s own calendar.` : '.'}
+            </Text>
+            <View className="flex-row items-center">
+              <TextInput
+                value={state}
+                onChangeText={setState}
+                editable={isAdmin}
+                placeholder="e.g. KA"
+                autoCapitalize="characters"
+                className="flex-1 border border-gray-300 rounded-lg p-3 text-gray-800"
+              />
+              {isAdmin && state.trim().toUpperCase() !== savedState && (
+                <TouchableOpacity
+                  onPress={handleSaveState}
+                  disabled={saving}
+                  className="bg-green-500 px-4 py-3 rounded-lg ml-2"
+                >
+                  <Text className="text-white font-medium">Save</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          </View>
+
+          {/* Resolved holidays */}
+          <View className="bg-white rounded-2xl p-4 mb-4 border border-gray-100">
+            <Text className="text-gray-700 font-medium mb-3">Holidays in {year}</Text>
+            {loading ? (
+              <ActivityIndicator size="small" color="#22c55e" />
+            ) : holidays.length === 0 ? (
+              <Text className="text-gray-500 text-sm">No holidays found for {year}</Text>
+            ) : (
+              holidays.map(holiday => (
+                <View key={holiday.date} className="flex-row items-center justify-between py-2 border-b border-gray-50">
+                  <View className="flex-1 mr-3">
+                    <Text className="text-gray-800">{holiday.name}</Text>
+                    <Text className="text-xs text-gray-500">{formatHolidayDate(holiday.date)}</Text>
+                  </View>
+                  <Text className={`text-xs font-medium px-2 py-1 rounded-full ${SCOPE_COLORS[holiday.scope]}`}>
+                    {SCOPE_LABELS[holiday.scope]}
+                  </Text>
+                </View>
+              ))
+            )}
+          </View>
+
+          {/* Import */}
+          {isAdmin && (
+            <View className="bg-white rounded-2xl p-4 mb-4 border border-gray-100">
+              <Text className="text-gray-700 font-medium mb-1">Import holidays</Text>
+              <Text className="text-xs text-gray-500 mb-3">
+                Choose an ICS calendar or a CSV file of date and name rows (e.g. 2026-11-01, Rajyotsava),
+                or paste its contents.
+                Each year in the file replaces the holidays of that year.
+              </Text>
+              <View className="flex-row flex-wrap">
+                {(['state', 'university'] as const).map(scope => (
+                  <TouchableOpacity
+                    key={scope}
+                    onPress={() => setImportScope(scope)}
+                    className={`px-4 py-2 rounded-lg mr-2 mb-2 ${importScope === scope ? 'bg-green-500' : 'bg-gray-100'}`}
+                  >
+                    <Text className={importScope === scope ? 'text-white font-medium' : 'text-gray-700'}>
+                      {scope === 'state' ? `State${savedState ? ` (${savedState})` : ''}` : 'University'}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+              <TouchableOpacity
+                onPress={handlePickFile}
+                disabled={saving}
+                className="flex-row items-center justify-center border border-green-500 py-3 rounded-lg mb-3"
+              >
+                <Ionicons name="document-attach-outline" size={18} color="#22c55e" />
+                <Text className="text-green-600 font-medium ml-2" numberOfLines={1}>
+                  {importFileName || 'Choose File'}
+                </Text>
+              </TouchableOpacity>
+              <TextInput
+                value={importContent}
+                onChangeText={text => {
+                  setImportContent(text);
+                  setImportFileName(null);
+                }}
+                placeholder="BEGIN:VCALENDAR… or date,name"
+                multiline
+                numberOfLines={6}
+                textAlignVertical="top"
+                autoCapitalize="none"
+                autoCorrect={false}
+                className="border border-gray-300 rounded-lg p-3 text-gray-800 h-32 mb-3"
+              />
+              <TouchableOpacity
+                onPress={handleImport}
+                disabled={saving}
+                className="bg-green-500 py-3 rounded-lg items-center"
+              >
+                {saving ? (
+                  <ActivityIndicator size="small" color="white" />
+                ) : (
+                  <Text className="text-white font-medium">Import</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          )}
+          <View className="h-8" />
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+};
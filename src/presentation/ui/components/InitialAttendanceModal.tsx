@@ -0,0 +1,273 @@
+import { Ionicons } from '@expo/vector-icons';
+import React, { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Modal,
+  ScrollView,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { getAcademicToday } from '../../../core/utils/AcademicDateUtils';
+import { formatDateKey, parseDate } from '../../../core/utils/SemesterUtils';
+import { FirebaseAttendanceService } from '../../../data/services/AttendanceService';
+import { FirebaseClassroomService } from '../../../data/services/ClassroomService';
+
+interface InitialAttendanceModalProps {
+  visible: boolean;
+  onClose: () => void;
+  userId: string;
+  onSaved: () => void; // Called after counts changed, so totals can be reloaded
+}
+
+// One subject row: the counts as typed, and what was saved before
+interface SubjectBaselineRow {
+  classroomId: string;
+  classroomName: string;
+  classId: string;
+  subject: string;
+  conducted: string;
+  attended: string;
+  savedConducted?: number;
+  savedAttended?: number;
+  savedAsOfDate?: string;
+}
+
+// Create service instances once
+let attendanceServiceInstance: FirebaseAttendanceService | null = null;
+let classroomServiceInstance: FirebaseClassroomService | null = null;
+
+const getAttendanceService = () => {
+  if (!attendanceServiceInstance) {
+    attendanceServiceInstance = new FirebaseAttendanceService();
+  }
+  return attendanceServiceInstance;
+};
+
+const getClassroomService = () => {
+  if (!classroomServiceInstance) {
+    classroomServiceInstance = new FirebaseClassroomService();
+  }
+  return classroomServiceInstance;
+};
+
+// YYYY-MM-DD → DD/MM/YYYY for the date field
+const toDisplayDate = (dateKey: string) => {
+  const [year, month, day] = dateKey.split('-');
+  return `${day}/${month}/${year}`;
+};
+
+const isRowChanged = (row: SubjectBaselineRow) => {
+  return row.conducted !== (row.savedConducted?.toString() ?? '') ||
+    row.attended !== (row.savedAttended?.toString() ?? '');
+};
+
+export const InitialAttendanceModal: React.FC<InitialAttendanceModalProps> = ({
+  visible,
+  onClose,
+  userId,
+  onSaved,
+}) => {
+  const [rows, setRows] = useState<SubjectBaselineRow[]>([]);
+  const [asOfDate, setAsOfDate] = useState(toDisplayDate(getAcademicToday()));
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!visible) return;
+
+    const loadRows = async () => {
+      setLoading(true);
+      try {
+        const [classrooms, baselines] = await Promise.all([
+          getClassroomService().getUserClassrooms(userId),
+          getAttendanceService().getInitialAttendance(userId),
+        ]);
+
+        const nextRows: SubjectBaselineRow[] = [];
+        for (const classroom of classrooms) {
+          const schedule = await getClassroomService().getClassroomSchedule(classroom.id);
+          const seen = new Set<string>();
+          for (const cls of schedule?.classes || []) {
+            if (seen.has(cls.id)) continue;
+            seen.add(cls.id);
+
+            const baseline = baselines.find(b => b.classroomId === classroom.id && b.classId === cls.id);
+            nextRows.push({
+              classroomId: classroom.id,
+              classroomName: classroom.name,
+              classId: cls.id,
+              subject: cls.name,
+              conducted: baseline ? baseline.conductedClasses.toString() : '',
+              attended: baseline ? baseline.attendedClasses.toString() : '',
+              savedConducted: baseline?.conductedClasses,
+              savedAttended: baseline?.attendedClasses,
+              savedAsOfDate: baseline?.asOfDate,
+            });
+          }
+        }
+        setRows(nextRows);
+        setAsOfDate(toDisplayDate(getAcademicToday()));
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadRows();
+  }, [visible, userId]);
+
+  const updateRow = (classroomId: string, classId: string, changes: Partial<SubjectBaselineRow>) => {
+    setRows(prev => prev.map(row =>
+      row.classroomId === classroomId && row.classId === classId ? { ...row, ...changes } : row
+    ));
+  };
+
+  const handleSave = async () => {
+    const changedRows = rows.filter(isRowChanged);
+    if (changedRows.length === 0) {
+      onClose();
+      return;
+    }
+
+    const parsedDate = parseDate(asOfDate.trim());
+    if (!parsedDate || isNaN(parsedDate.getTime())) {
+      Alert.alert('Invalid Date', 'Please use DD/MM/YYYY format (e.g., 15/09/2025)');
+      return;
+    }
+    const dateKey = formatDateKey(parsedDate);
+
+    setSaving(true);
+    try {
+      for (const row of changedRows) {
+        // Clearing both fields removes the subject's portal counts
+        const result = !row.conducted.trim() && !row.attended.trim()
+          ? await getAttendanceService().removeInitialAttendance(userId, row.classroomId, row.classId)
+          : await getAttendanceService().saveInitialAttendance({
+            userId,
+            classroomId: row.classroomId,
+            classId: row.classId,
+            subject: row.subject,
+            conductedClasses: Number(row.conducted),
+            attendedClasses: Number(row.attended),
+            asOfDate: dateKey,
+          });
+
+        if (!result.success) {
+          Alert.alert(row.subject, result.error || 'Failed to save attendance');
+          return;
+        }
+        updateRow(row.classroomId, row.classId, {
+          savedConducted: row.conducted.trim() ? Number(row.conducted) : undefined,
+          savedAttended: row.attended.trim() ? Number(row.attended) : undefined,
+          savedAsOfDate: row.conducted.trim() ? dateKey : undefined,
+        });
+      }
+      onSaved();
+      onClose();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <View className="flex-1 bg-gray-50">
+        <View className="bg-white border-b border-gray-200 px-4 py-4 pt-16">
+          <View className="flex-row items-center justify-between">
+            <TouchableOpacity onPress={onClose} className="flex-row items-center">
+              <Ionicons name="chevron-back" size={24} color="#6b7280" />
+              <Text className="text-gray-600 ml-2">Back</Text>
+            </TouchableOpacity>
+            <Text className="text-xl font-bold text-gray-800">Portal Attendance</Text>
+            <TouchableOpacity
+              onPress={handleSave}
+              disabled={saving || loading}
+              className="bg-green-500 px-4 py-2 rounded-lg"
+            >
+              {saving ? (
+                <ActivityIndicator size="small" color="white" />
+              ) : (
+                <Text className="text-white font-medium">Save</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+
+        {loading ? (
+          <View className="flex-1 items-center justify-center">
+            <ActivityIndicator size="large" color="#22c55e" />
+          </View>
+        ) : (
+          <ScrollView className="flex-1 p-4" keyboardShouldPersistTaps="handled">
+            <View className="bg-white rounded-2xl p-4 mb-4 border border-gray-100">
+              <Text className="text-sm text-gray-600 mb-3">
+                Copy the conducted and attended classes your college portal shows for each subject.
+                Classes you marked in the app up to this date are replaced by these counts.
+              </Text>
+              <Text className="text-gray-700 font-medium mb-2">Counts as of (DD/MM/YYYY)</Text>
+              <TextInput
+                value={asOfDate}
+                onChangeText={setAsOfDate}
+                placeholder="DD/MM/YYYY"
+                keyboardType="numbers-and-punctuation"
+                className="border border-gray-300 rounded-lg p-3 text-gray-800"
+              />
+            </View>
+
+            {rows.length === 0 ? (
+              <View className="bg-white rounded-2xl p-8 items-center border border-gray-100">
+                <Ionicons name="school-outline" size={32} color="#9ca3af" />
+                <Text className="text-gray-500 text-center text-sm mt-2">
+                  Join a classroom with a timetable to enter its attendance
+                </Text>
+              </View>
+            ) : (
+              rows.map(row => (
+                <View
+                  key={`${row.classroomId}_${row.classId}`}
+                  className="bg-white rounded-2xl p-4 mb-3 border border-gray-100"
+                >
+                  <Text className="font-semibold text-gray-800">{row.subject}</Text>
+                  <Text className="text-xs text-gray-500 mb-3">
+                    {row.classroomName}
+                    {row.savedAsOfDate ? ` • saved as of ${toDisplayDate(row.savedAsOfDate)}` : ''}
+                  </Text>
+                  <View className="flex-row">
+                    <View className="flex-1 mr-2">
+                      <Text className="text-xs text-gray-500 mb-1">Conducted</Text>
+                      <TextInput
+                        value={row.conducted}
+                        onChangeText={value => updateRow(row.classroomId, row.classId, { conducted: value.replace(/[^0-9]/g, '') })}
+                        placeholder="0"
+                        keyboardType="number-pad"
+                        className="border border-gray-300 rounded-lg p-3 text-gray-800"
+                      />
+                    </View>
+                    <View className="flex-1">
+                      <Text className="text-xs text-gray-500 mb-1">Attended</Text>
+                      <TextInput
+                        value={row.attended}
+                        onChangeText={value => updateRow(row.classroomId, row.classId, { attended: value.replace(/[^0-9]/g, '') })}
+                        placeholder="0"
+                        keyboardType="number-pad"
+                        className="border border-gray-300 rounded-lg p-3 text-gray-800"
+                      />
+                    </View>
+                  </View>
+                </View>
+              ))
+            )}
+            <View className="h-8" />
+          </ScrollView>
+        )}
+      </View>
+    </Modal>
+  );
+};
@@ -0,0 +1,449 @@
+import { Ionicons } from '@expo/vector-icons';
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Modal,
+  ScrollView,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { formatAbsenceReason, hasAbsenceReason } from '../../../core/utils/AttendanceUtils';
+import { formatDateKey } from '../../../core/utils/SemesterUtils';
+import { AttendanceQueueService } from '../../../data/services/AttendanceQueueService';
+import { FirebaseAttendanceService } from '../../../data/services/AttendanceService';
+import {
+  AbsenceReasonCategory,
+  ClassInstanceAttendance,
+  RecentAbsenceReason,
+} from '../../../domain/model/Attendance';
+import { AbsenceReasonPicker } from './AbsenceReasonPicker';
+
+interface PastAttendanceModalProps {
+  visible: boolean;
+  onClose: () => void;
+  userId: string;
+  onAttendanceUpdated?: () => void;
+}
+
+const WEEKDAY_LABELS = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+
+// Create service instance once
+let attendanceServiceInstance: FirebaseAttendanceService | null = null;
+
+const getAttendanceService = () => {
+  if (!attendanceServiceInstance) {
+    attendanceServiceInstance = new FirebaseAttendanceService();
+  }
+  return attendanceServiceInstance;
+};
+
+export const PastAttendanceModal: React.FC<PastAttendanceModalProps> = ({
+  visible,
+  onClose,
+  userId,
+  onAttendanceUpdated,
+}) => {
+  const todayKey = formatDateKey(new Date());
+  const [visibleMonth, setVisibleMonth] = useState(() => {
+    const now = new Date();
+    return new Date(now.getFullYear(), now.getMonth(), 1);
+  });
+  const [selectedDate, setSelectedDate] = useState(todayKey);
+  const [entries, setEntries] = useState<ClassInstanceAttendance[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [savingKey, setSavingKey] = useState<string | null>(null);
+  const [absentTarget, setAbsentTarget] = useState<ClassInstanceAttendance | null>(null);
+  const [absentReason, setAbsentReason] = useState('');
+  const [reasonCategory, setReasonCategory] = useState<AbsenceReasonCategory | null>(null);
+  const [recentReasons, setRecentReasons] = useState<RecentAbsenceReason[]>([]);
+  const [isWholeDayAbsent, setIsWholeDayAbsent] = useState(false);
+  const [isSavingDay, setIsSavingDay] = useState(false);
+
+  const loadEntries = useCallback(async (date: string) => {
+    setLoading(true);
+    try {
+      const result = await getAttendanceService().getAttendanceForDate(userId, date);
+      setEntries(result);
+    } finally {
+      setLoading(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    if (visible) {
+      loadEntries(selectedDate);
+    }
+  }, [visible, selectedDate, loadEntries]);
+
+  useEffect(() => {
+    if (visible) {
+      getAttendanceService().getRecentAbsenceReasons(userId).then(setRecentReasons);
+    }
+  }, [visible, userId]);
+
+  const getMonthCells = (): (Date | null)[] => {
+    const year = visibleMonth.getFullYear();
+    const month = visibleMonth.getMonth();
+    const daysInMonth = new Date(year, month + 1, 0).getDate();
+    const cells: (Date | null)[] = [];
+
+    for (let i = 0; i < visibleMonth.getDay(); i++) {
+      cells.push(null);
+    }
+    for (let day = 1; day <= daysInMonth; day++) {
+      cells.push(new Date(year, month, day));
+    }
+    return cells;
+  };
+
+  const changeMonth = (offset: number) => {
+    setVisibleMonth(new Date(visibleMonth.getFullYear(), visibleMonth.getMonth() + offset, 1));
+  };
+
+  const isNextMonthDisabled = () => {
+    const now = new Date();
+    return visibleMonth.getFullYear() === now.getFullYear() && visibleMonth.getMonth() === now.getMonth();
+  };
+
+  const saveAttendance = async (
+    entry: ClassInstanceAttendance,
+    status: 'present' | 'absent',
+    reason?: string,
+    category?: AbsenceReasonCategory
+  ) => {
+    setSavingKey(entry.instance.key);
+    try {
+      const result = await getAttendanceService().markAttendanceForDate(
+        userId,
+        entry.instance.classroomId,
+        entry.instance.classId,
+        entry.instance.date,
+        entry.instance.startTime,
+        status,
+        reason,
+        undefined,
+        category
+      );
+
+      if (!result.success) {
+        Alert.alert('Error', result.error || 'Failed to mark attendance');
+        return;
+      }
+
+      await loadEntries(selectedDate);
+      onAttendanceUpdated?.();
+    } finally {
+      setSavingKey(null);
+    }
+  };
+
+  // Mark every class of the selected date at once
+  const saveWholeDay = async (
+    status: 'present' | 'absent',
+    reason?: string,
+    category?: AbsenceReasonCategory
+  ) => {
+    setIsSavingDay(true);
+    try {
+      const result = await AttendanceQueueService.getInstance().markWholeDay(
+        userId, selectedDate, status, reason, undefined, category
+      );
+
+      if (!result.success) {
+        Alert.alert('Error', result.error || 'Failed to mark attendance');
+        return;
+      }
+      if (result.isPending) {
+        Alert.alert('📡 Saved Offline', "This day's classes will sync when you're back online.");
+      }
+
+      await loadEntries(selectedDate);
+      onAttendanceUpdated?.();
+    } finally {
+      setIsSavingDay(false);
+    }
+  };
+
+  const closeAbsentModal = () => {
+    setAbsentTarget(null);
+    setIsWholeDayAbsent(false);
+    setAbsentReason('');
+    setReasonCategory(null);
+  };
+
+  const selectRecentReason = (reason: RecentAbsenceReason) => {
+    setReasonCategory(reason.category);
+    setAbsentReason(reason.note || '');
+  };
+
+  const submitAbsent = async () => {
+    if (!absentTarget && !isWholeDayAbsent) return;
+    if (!hasAbsenceReason('absent', reasonCategory, absentReason)) {
+      Alert.alert('Reason Required', 'Pick a reason or describe why you were absent.');
+      return;
+    }
+
+    const reason = absentReason.trim() || undefined;
+    const category = reasonCategory || undefined;
+
+    if (isWholeDayAbsent) {
+      closeAbsentModal();
+      await saveWholeDay('absent', reason, category);
+      return;
+    }
+
+    const target = absentTarget!;
+    closeAbsentModal();
+    await saveAttendance(target, 'absent', reason, category);
+  };
+
+  const formatSelectedDate = () => {
+    return new Date(selectedDate + 'T00:00:00').toLocaleDateString('en-US', {
+      weekday: 'long',
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric',
+    });
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <View className="flex-1 bg-gray-50">
+        {/* Header */}
+        <View className="bg-white border-b border-gray-200 px-6 py-4">
+          <View className="flex-row items-center justify-between">
+            <TouchableOpacity onPress={onClose}>
+              <Ionicons name="close" size={24} color="#6b7280" />
+            </TouchableOpacity>
+            <Text className="text-lg font-bold text-gray-800">Mark Past Attendance</Text>
+            <View style={{ width: 24 }} />
+          </View>
+        </View>
+
+        <ScrollView className="flex-1 px-4 py-4">
+          {/* Month Calendar */}
+          <View className="bg-white rounded-2xl p-4 mb-4 border border-gray-100">
+            <View className="flex-row items-center justify-between mb-4">
+              <TouchableOpacity onPress={() => changeMonth(-1)} className="p-2">
+                <Ionicons name="chevron-back" size={20} color="#374151" />
+              </TouchableOpacity>
+              <Text className="text-base font-semibold text-gray-800">
+                {visibleMonth.toLocaleDateString('en-US', { month: 'long', year: 'numeric' })}
+              </Text>
+              <TouchableOpacity
+                onPress={() => changeMonth(1)}
+                disabled={isNextMonthDisabled()}
+                className="p-2"
+              >
+                <Ionicons
+                  name="chevron-forward"
+                  size={20}
+                  color={isNextMonthDisabled() ? '#d1d5db' : '#374151'}
+                />
+              </TouchableOpacity>
+            </View>
+
+            <View className="flex-row mb-2">
+              {WEEKDAY_LABELS.map((label, index) => (
+                <View key={index} style={{ width: '14.28%' }} className="items-center">
+                  <Text className="text-xs font-medium text-gray-500">{label}</Text>
+                </View>
+              ))}
+            </View>
+
+            <View className="flex-row flex-wrap">
+              {getMonthCells().map((cellDate, index) => {
+                if (!cellDate) {
+                  return <View key={`empty-${index}`} style={{ width: '14.28%', height: 40 }} />;
+                }
+
+                const dateKey = formatDateKey(cellDate);
+                const isFuture = dateKey > todayKey;
+                const isSelected = dateKey === selectedDate;
+
+                return (
+                  <TouchableOpacity
+                    key={dateKey}
+                    onPress={() => setSelectedDate(dateKey)}
+                    disabled={isFuture}
+                    style={{ width: '14.28%', height: 40 }}
+                    className="items-center justify-center"
+                  >
+                    <View
+                      className={`w-8 h-8 rounded-full items-center justify-center ${isSelected ? 'bg-green-500' : ''}`}
+                    >
+                      <Text
+                        className={`text-sm ${isSelected ? 'text-white font-bold' : isFuture ? 'text-gray-300' : 'text-gray-800'}`}
+                      >
+                        {cellDate.getDate()}
+                      </Text>
+                    </View>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          </View>
+
+          {/* Classes on selected date */}
+          <Text className="text-base font-semibold text-gray-800 mb-3">{formatSelectedDate()}</Text>
+
+          {!loading && entries.some(entry => entry.cancellation?.status !== 'confirmed') && (
+            <View className="flex-row items-center mb-3">
+              <Text className="text-xs text-gray-500 mr-2">Whole day:</Text>
+              <TouchableOpacity
+                onPress={() => saveWholeDay('present')}
+                disabled={isSavingDay}
+                className="px-3 py-1 rounded-full bg-green-50 border border-green-100 mr-2"
+              >
+                <Text className="text-xs font-medium text-green-700">All Present</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                onPress={() => setIsWholeDayAbsent(true)}
+                disabled={isSavingDay}
+                className="px-3 py-1 rounded-full bg-red-50 border border-red-100"
+              >
+                <Text className="text-xs font-medium text-red-700">All Absent</Text>
+              </TouchableOpacity>
+              {isSavingDay && <ActivityIndicator size="small" color="#22c55e" style={{ marginLeft: 8 }} />}
+            </View>
+          )}
+
+          {loading ? (
+            <View className="py-8 items-center">
+              <ActivityIndicator size="small" color="#22c55e" />
+            </View>
+          ) : entries.length === 0 ? (
+            <View className="bg-white rounded-2xl p-6 border border-gray-100 items-center">
+              <Ionicons name="calendar-clear-outline" size={32} color="#9ca3af" />
+              <Text className="text-gray-500 text-sm mt-2 text-center">
+                No classes scheduled on this day
+              </Text>
+            </View>
+          ) : (
+            entries.map(entry => {
+              const status = entry.record?.status;
+              const isSaving = savingKey === entry.instance.key;
+              const isCancelled = entry.cancellation?.status === 'confirmed';
+
+              return (
+                <View
+                  key={entry.instance.key}
+                  className="bg-white rounded-2xl p-4 mb-3 border border-gray-100"
+                >
+                  <View className="flex-row items-center justify-between mb-3">
+                    <View className="flex-1 mr-3">
+                      <Text className="text-base font-semibold text-gray-800">
+                        {entry.instance.subject}
+                      </Text>
+                      <Text className="text-xs text-gray-500 mt-1">
+                        {entry.instance.startTime} - {entry.instance.endTime} • {entry.classroomName}
+                      </Text>
+                      {status === 'absent' && (entry.record?.reason || entry.record?.reasonCategory) && (
+                        <Text className="text-xs text-gray-400 mt-1">
+                          Reason: {formatAbsenceReason(entry.record.reasonCategory, entry.record.reason)}
+                        </Text>
+                      )}
+                      {status === 'excused' && (
+                        <Text className="text-xs text-amber-600 mt-1">
+                          Excused{entry.record?.reason ? `: ${entry.record.reason}` : ''}
+                        </Text>
+                      )}
+                    </View>
+                    {isSaving && <ActivityIndicator size="small" color="#22c55e" />}
+                  </View>
+
+                  {isCancelled ? (
+                    <View className="bg-gray-100 rounded-xl py-2 items-center">
+                      <Text className="text-gray-600 font-medium">Class cancelled</Text>
+                    </View>
+                  ) : (
+                    <View className="flex-row">
+                      <TouchableOpacity
+                        onPress={() => saveAttendance(entry, 'present')}
+                        disabled={isSaving}
+                        className={`flex-1 py-2 rounded-xl mr-2 items-center ${status === 'present' ? 'bg-green-500' : 'bg-green-50'}`}
+                      >
+                        <Text className={`font-medium ${status === 'present' ? 'text-white' : 'text-green-700'}`}>
+                          Present
+                        </Text>
+                      </TouchableOpacity>
+                      <TouchableOpacity
+                        onPress={() => {
+                          setAbsentTarget(entry);
+                          setAbsentReason(entry.record?.reason || '');
+                          setReasonCategory(entry.record?.reasonCategory || null);
+                        }}
+                        disabled={isSaving}
+                        className={`flex-1 py-2 rounded-xl items-center ${status === 'absent' ? 'bg-red-500' : 'bg-red-50'}`}
+                      >
+                        <Text className={`font-medium ${status === 'absent' ? 'text-white' : 'text-red-700'}`}>
+                          Absent
+                        </Text>
+                      </TouchableOpacity>
+                    </View>
+                  )}
+                </View>
+              );
+            })
+          )}
+
+          <View className="h-8" />
+        </ScrollView>
+
+        {/* Absence Reason */}
+        <Modal
+          visible={!!absentTarget || isWholeDayAbsent}
+          transparent
+          animationType="fade"
+          onRequestClose={closeAbsentModal}
+        >
+          <View className="flex-1 justify-center items-center bg-black/40 px-6">
+            <View className="bg-white rounded-2xl p-6 w-full">
+              <Text className="text-lg font-bold text-gray-800 mb-1">Reason for Absence</Text>
+              <Text className="text-sm text-gray-500 mb-4">
+                {isWholeDayAbsent
+                  ? `All classes on ${formatSelectedDate()}`
+                  : `${absentTarget?.instance.subject} • ${absentTarget?.instance.startTime}`}
+              </Text>
+              <AbsenceReasonPicker
+                category={reasonCategory}
+                onSelectCategory={setReasonCategory}
+                recentReasons={recentReasons}
+                onSelectRecent={selectRecentReason}
+              />
+              <TextInput
+                value={absentReason}
+                onChangeText={setAbsentReason}
+                placeholder="Notes (optional)"
+                className="bg-gray-50 border border-gray-200 rounded-xl px-4 py-3 text-gray-800 mb-4"
+                multiline
+              />
+              <View className="flex-row">
+                <TouchableOpacity
+                  onPress={closeAbsentModal}
+                  className="flex-1 py-3 rounded-xl bg-gray-100 mr-2 items-center"
+                >
+                  <Text className="text-gray-700 font-medium">Cancel</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  onPress={submitAbsent}
+                  className="flex-1 py-3 rounded-xl bg-red-500 items-center"
+                >
+                  <Text className="text-white font-medium">Mark Absent</Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+          </View>
+        </Modal>
+      </View>
+    </Modal>
+  );
+};
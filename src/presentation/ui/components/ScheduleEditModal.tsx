@@ -9,7 +9,21 @@ import {
     TouchableOpacity,
     View
 } from 'react-native';
-import { ClassSchedule, Schedule } from '../../../domain/model/Classroom';
+import { getAcademicToday } from '../../../core/utils/AcademicDateUtils';
+import { DEFAULT_DAY_ORDER_CYCLE, getDayOrderNames, parseDayOrderName } from '../../../core/utils/DayOrderUtils';
+import {
+    describeRecurrence,
+    getSessionWeight,
+    getTeachingWeekNumber,
+    getTeachingWeekStart,
+    getTimetableForDate,
+    RECURRENCE_LABELS,
+    recurrencesOverlap,
+    SESSION_TYPE_LABELS,
+} from '../../../core/utils/ScheduleUtils';
+import { formatDateKey, formatSemesterDate, parseDate } from '../../../core/utils/SemesterUtils';
+import { ClassRecurrence, ClassSchedule, RecurrencePattern, Schedule, SessionType } from '../../../domain/model/Classroom';
+import { ExtraClassesModal } from './ExtraClassesModal';
 import { ScheduleSkeleton } from './skeletons/ScheduleSkeleton';
 import { SkeletonLoader } from './skeletons/SkeletonLoader';
 
@@ -29,6 +43,16 @@ const TIME_OPTIONS = [
   '16:00', '16:30', '17:00', '17:30', '18:00', '18:30', '19:00', '19:30', '20:00'
 ];
 
+const SESSION_TYPES: SessionType[] = ['theory', 'lab', 'tutorial'];
+
+// Attendance units a session can count for (e.g. 3 for a 3-hour lab)
+const WEIGHT_OPTIONS = [1, 2, 3, 4];
+
+const RECURRENCE_PATTERNS = Object.keys(RECURRENCE_LABELS) as RecurrencePattern[];
+
+// How many weeks apart an every-N-weeks class can meet
+const INTERVAL_OPTIONS = [2, 3, 4];
+
 interface ClassFormData {
   id?: string;
   name: string;
@@ -37,8 +61,56 @@ interface ClassFormData {
   startTime: string;
   endTime: string;
   location: string;
+  sessionType: SessionType;
+  weight: number;
+  recurrence: RecurrencePattern;
+  interval: number; // every_n_weeks only
+  startWeek: number; // every_n_weeks only
 }
 
+const EMPTY_FORM: ClassFormData = {
+  name: '',
+  instructor: '',
+  day: 'Monday',
+  startTime: '09:00',
+  endTime: '10:00',
+  location: '',
+  sessionType: 'theory',
+  weight: 1,
+  recurrence: 'weekly',
+  interval: 2,
+  startWeek: 1
+};
+
+// The recurrence rule a form describes; weekly classes carry none
+const toRecurrence = (form: ClassFormData): ClassRecurrence | null => {
+  switch (form.recurrence) {
+    case 'weekly':
+      return null;
+    case 'every_n_weeks':
+      return { pattern: form.recurrence, interval: form.interval, startWeek: form.startWeek };
+    default:
+      return { pattern: form.recurrence };
+  }
+};
+
+// Firestore rejects undefined fields, so a weekly class drops the field instead
+const withRecurrence = (cls: ClassSchedule, recurrence: ClassRecurrence | null): ClassSchedule => {
+  const updated = { ...cls };
+  if (recurrence) {
+    updated.recurrence = recurrence;
+  } else {
+    delete updated.recurrence;
+  }
+  return updated;
+};
+
+// DD/MM/YYYY → YYYY-MM-DD, or null when the date can't be read
+const toDateKey = (value: string) => {
+  const date = parseDate(value.trim());
+  return date && !isNaN(date.getTime()) ? formatDateKey(date) : null;
+};
+
 export const ScheduleEditModal: React.FC<ScheduleEditModalProps> = ({
   visible,
   onClose,
@@ -50,22 +122,30 @@ export const ScheduleEditModal: React.FC<ScheduleEditModalProps> = ({
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [showAddForm, setShowAddForm] = useState(false);
+  const [showExtraClasses, setShowExtraClasses] = useState(false);
   const [editingClass, setEditingClass] = useState<ClassSchedule | null>(null);
-  const [formData, setFormData] = useState<ClassFormData>({
-    name: '',
-    instructor: '',
-    day: 'Monday',
-    startTime: '09:00',
-    endTime: '10:00',
-    location: ''
-  });
+  const [effectiveFrom, setEffectiveFrom] = useState(formatSemesterDate(getAcademicToday()));
+  const [formData, setFormData] = useState<ClassFormData>(EMPTY_FORM);
 
   useEffect(() => {
     if (visible) {
+      setEffectiveFrom(formatSemesterDate(getAcademicToday()));
       loadSchedule();
     }
   }, [visible, classroomId]);
 
+  // Edits start from the timetable in force on the effective date
+  const effectiveKey = toDateKey(effectiveFrom) || getAcademicToday();
+  const timetable = schedule ? getTimetableForDate(schedule, effectiveKey) : [];
+  const currentWeek = schedule ? getTeachingWeekNumber(getTeachingWeekStart(schedule), getAcademicToday()) : 1;
+  // Day-order timetables list Day 1 … Day N instead of weekdays
+  const usesDayOrder = timetable.length > 0
+    ? timetable.some(c => parseDayOrderName(c.day) !== null)
+    : !!schedule?.dayOrder?.enabled;
+  const dayOptions = usesDayOrder
+    ? getDayOrderNames(schedule?.dayOrder?.cycleLength || DEFAULT_DAY_ORDER_CYCLE)
+    : DAYS_OF_WEEK;
+
   const loadSchedule = async () => {
     try {
       setLoading(true);
@@ -83,19 +163,13 @@ export const ScheduleEditModal: React.FC<ScheduleEditModalProps> = ({
   };
 
   const resetForm = () => {
-    setFormData({
-      name: '',
-      instructor: '',
-      day: 'Monday',
-      startTime: '09:00',
-      endTime: '10:00',
-      location: ''
-    });
+    setFormData(EMPTY_FORM);
     setEditingClass(null);
   };
 
   const handleAddClass = () => {
     resetForm();
+    setFormData({ ...EMPTY_FORM, day: dayOptions[0] });
     setShowAddForm(true);
   };
 
@@ -107,13 +181,28 @@ export const ScheduleEditModal: React.FC<ScheduleEditModalProps> = ({
       day: classItem.day,
       startTime: classItem.startTime,
       endTime: classItem.endTime,
-      location: classItem.location
+      location: classItem.location,
+      sessionType: classItem.sessionType || 'theory',
+      weight: getSessionWeight(classItem),
+      recurrence: classItem.recurrence?.pattern || 'weekly',
+      interval: classItem.recurrence?.interval || 2,
+      startWeek: classItem.recurrence?.startWeek || 1
     });
     setEditingClass(classItem);
     setShowAddForm(true);
   };
 
+  const checkEffectiveDate = (): boolean => {
+    if (schedule && !toDateKey(effectiveFrom)) {
+      Alert.alert('Invalid Date', 'Please enter the effective date as DD/MM/YYYY (e.g., 15/03/2026)');
+      return false;
+    }
+    return true;
+  };
+
   const handleDeleteClass = (classItem: ClassSchedule) => {
+    if (!checkEffectiveDate()) return;
+
     Alert.alert(
       'Delete Class',
       `Are you sure you want to delete "${classItem.name}"?`,
@@ -129,7 +218,7 @@ export const ScheduleEditModal: React.FC<ScheduleEditModalProps> = ({
 
     try {
       setSaving(true);
-      const updatedClasses = schedule.classes.filter(c => c.id !== classId);
+      const updatedClasses = timetable.filter(c => c.id !== classId);
       await saveSchedule(updatedClasses);
       
       // Show success message
@@ -143,6 +232,7 @@ export const ScheduleEditModal: React.FC<ScheduleEditModalProps> = ({
   };
 
   const validateForm = (): boolean => {
+    if (!checkEffectiveDate()) return false;
     if (!formData.name.trim()) {
       Alert.alert('Error', 'Subject name is required');
       return false;
@@ -160,11 +250,14 @@ export const ScheduleEditModal: React.FC<ScheduleEditModalProps> = ({
       return false;
     }
 
-    // Check for time conflicts (excluding current class if editing)
-    const existingClasses = schedule?.classes || [];
+    // Check for time conflicts (excluding current class if editing); odd and
+    // even week batches can share a slot
+    const existingClasses = timetable;
+    const recurrence = toRecurrence(formData) || undefined;
     const conflictingClass = existingClasses.find(c => 
       c.id !== formData.id && // Exclude current class if editing
       c.day === formData.day &&
+      recurrencesOverlap(c.recurrence, recurrence) &&
       ((formData.startTime >= c.startTime && formData.startTime < c.endTime) ||
        (formData.endTime > c.startTime && formData.endTime <= c.endTime) ||
        (formData.startTime <= c.startTime && formData.endTime >= c.endTime))
@@ -186,27 +279,29 @@ export const ScheduleEditModal: React.FC<ScheduleEditModalProps> = ({
 
     try {
       setSaving(true);
-      const existingClasses = schedule?.classes || [];
+      const existingClasses = timetable;
       let updatedClasses: ClassSchedule[];
 
       if (editingClass) {
         // Update existing class
         updatedClasses = existingClasses.map(c => 
           c.id === editingClass.id 
-            ? {
+            ? withRecurrence({
                 ...c,
                 name: formData.name.trim(),
                 instructor: formData.instructor.trim(),
                 day: formData.day,
                 startTime: formData.startTime,
                 endTime: formData.endTime,
-                location: formData.location.trim()
-              }
+                location: formData.location.trim(),
+                sessionType: formData.sessionType,
+                weight: formData.weight
+              }, toRecurrence(formData))
             : c
         );
       } else {
         // Add new class
-        const newClass: ClassSchedule = {
+        const newClass: ClassSchedule = withRecurrence({
           id: `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`, // Better ID generation
           code: '', // Empty code for now
           subject: formData.name.trim(), // Using name as subject
@@ -215,8 +310,10 @@ export const ScheduleEditModal: React.FC<ScheduleEditModalProps> = ({
           day: formData.day,
           startTime: formData.startTime,
           endTime: formData.endTime,
-          location: formData.location.trim()
-        };
+          location: formData.location.trim(),
+          sessionType: formData.sessionType,
+          weight: formData.weight
+        }, toRecurrence(formData));
         updatedClasses = [...existingClasses, newClass];
       }
 
@@ -242,8 +339,11 @@ export const ScheduleEditModal: React.FC<ScheduleEditModalProps> = ({
     const classroomService = new FirebaseClassroomService();
 
     if (schedule) {
-      // Update existing schedule
-      const result = await classroomService.updateSchedule(schedule.id, classes);
+      // Update existing schedule as a new timetable version from the effective date
+      const result = await classroomService.updateSchedule(schedule.id, classes, {
+        effectiveFrom: effectiveKey,
+        updatedBy: userId,
+      });
       if (!result.success) {
         throw new Error(result.error || 'Failed to update schedule');
       }
@@ -317,16 +417,57 @@ export const ScheduleEditModal: React.FC<ScheduleEditModalProps> = ({
             </View>
           </View>
 
+          {/* Session Type */}
+          <View className="bg-white rounded-2xl p-4 mb-4 border border-gray-100">
+            <Text className="text-lg font-bold text-gray-800 mb-3">Session Type</Text>
+            <View className="flex-row mb-4">
+              {SESSION_TYPES.map((sessionType) => (
+                <TouchableOpacity
+                  key={sessionType}
+                  onPress={() => setFormData(prev => ({ ...prev, sessionType }))}
+                  className={`flex-1 py-2 rounded-lg mr-2 items-center ${
+                    formData.sessionType === sessionType ? 'bg-green-500' : 'bg-gray-100'
+                  }`}
+                >
+                  <Text className={`font-medium ${
+                    formData.sessionType === sessionType ? 'text-white' : 'text-gray-700'
+                  }`}>
+                    {SESSION_TYPE_LABELS[sessionType]}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <Text className="text-gray-700 font-medium mb-2">Counts as</Text>
+            <View className="flex-row">
+              {WEIGHT_OPTIONS.map((weight) => (
+                <TouchableOpacity
+                  key={weight}
+                  onPress={() => setFormData(prev => ({ ...prev, weight }))}
+                  className={`flex-1 py-2 rounded-lg mr-2 items-center ${
+                    formData.weight === weight ? 'bg-green-500' : 'bg-gray-100'
+                  }`}
+                >
+                  <Text className={`font-medium ${
+                    formData.weight === weight ? 'text-white' : 'text-gray-700'
+                  }`}>
+                    {weight} {weight === 1 ? 'class' : 'classes'}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </View>
+
           {/* Schedule Details */}
           <View className="bg-white rounded-2xl p-4 mb-4 border border-gray-100">
             <Text className="text-lg font-bold text-gray-800 mb-3">Schedule</Text>
             
             {/* Day Selection */}
             <View className="mb-4">
-              <Text className="text-gray-700 font-medium mb-2">Day *</Text>
+              <Text className="text-gray-700 font-medium mb-2">{usesDayOrder ? 'Day order *' : 'Day *'}</Text>
               <ScrollView horizontal showsHorizontalScrollIndicator={false}>
                 <View className="flex-row">
-                  {DAYS_OF_WEEK.map((day) => (
+                  {dayOptions.map((day) => (
                     <TouchableOpacity
                       key={day}
                       onPress={() => setFormData(prev => ({ ...prev, day }))}
@@ -337,7 +478,7 @@ export const ScheduleEditModal: React.FC<ScheduleEditModalProps> = ({
                       <Text className={`font-medium ${
                         formData.day === day ? 'text-white' : 'text-gray-700'
                       }`}>
-                        {day.substring(0, 3)}
+                        {usesDayOrder ? day : day.substring(0, 3)}
                       </Text>
                     </TouchableOpacity>
                   ))}
@@ -345,6 +486,79 @@ export const ScheduleEditModal: React.FC<ScheduleEditModalProps> = ({
               </ScrollView>
             </View>
 
+            {/* Recurrence */}
+            <View className="mb-4">
+              <Text className="text-gray-700 font-medium mb-2">Repeats</Text>
+              <View className="flex-row flex-wrap">
+                {RECURRENCE_PATTERNS.map((pattern) => (
+                  <TouchableOpacity
+                    key={pattern}
+                    onPress={() => setFormData(prev => ({ ...prev, recurrence: pattern }))}
+                    className={`px-4 py-2 rounded-lg mr-2 mb-2 ${
+                      formData.recurrence === pattern ? 'bg-green-500' : 'bg-gray-100'
+                    }`}
+                  >
+                    <Text className={`font-medium ${
+                      formData.recurrence === pattern ? 'text-white' : 'text-gray-700'
+                    }`}>
+                      {RECURRENCE_LABELS[pattern]}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+
+              {formData.recurrence === 'every_n_weeks' && (
+                <View>
+                  <Text className="text-gray-700 font-medium mb-2">Every</Text>
+                  <View className="flex-row mb-2">
+                    {INTERVAL_OPTIONS.map((interval) => (
+                      <TouchableOpacity
+                        key={interval}
+                        onPress={() => setFormData(prev => ({
+                          ...prev,
+                          interval,
+                          startWeek: Math.min(prev.startWeek, interval)
+                        }))}
+                        className={`flex-1 py-2 rounded-lg mr-2 items-center ${
+                          formData.interval === interval ? 'bg-green-500' : 'bg-gray-100'
+                        }`}
+                      >
+                        <Text className={`font-medium ${
+                          formData.interval === interval ? 'text-white' : 'text-gray-700'
+                        }`}>
+                          {interval} weeks
+                        </Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                  <Text className="text-gray-700 font-medium mb-2">Starting in week</Text>
+                  <View className="flex-row mb-2">
+                    {Array.from({ length: formData.interval }, (_, i) => i + 1).map((startWeek) => (
+                      <TouchableOpacity
+                        key={startWeek}
+                        onPress={() => setFormData(prev => ({ ...prev, startWeek }))}
+                        className={`flex-1 py-2 rounded-lg mr-2 items-center ${
+                          formData.startWeek === startWeek ? 'bg-green-500' : 'bg-gray-100'
+                        }`}
+                      >
+                        <Text className={`font-medium ${
+                          formData.startWeek === startWeek ? 'text-white' : 'text-gray-700'
+                        }`}>
+                          {startWeek}
+                        </Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                </View>
+              )}
+
+              {formData.recurrence !== 'weekly' && (
+                <Text className="text-gray-500 text-sm">
+                  Weeks count from the semester start. This is week {currentWeek} ({currentWeek % 2 === 0 ? 'even' : 'odd'}).
+                </Text>
+              )}
+            </View>
+
             {/* Time Selection */}
             <View className="flex-row mb-4">
               <View className="flex-1 mr-2">
@@ -449,11 +663,44 @@ export const ScheduleEditModal: React.FC<ScheduleEditModalProps> = ({
           </View>
         </View>
 
-        <ScrollView className="flex-1 p-4">
-          {schedule && schedule.classes.length > 0 ? (
+        <ScrollView className="flex-1 p-4" keyboardShouldPersistTaps="handled">
+          {schedule && (
+            <View className="bg-white rounded-2xl p-4 mb-6 border border-gray-100">
+              <Text className="text-base font-bold text-gray-800 mb-1">Changes take effect from</Text>
+              <Text className="text-gray-500 text-sm mb-3">
+                Earlier dates keep the timetable that was in force then
+              </Text>
+              <TextInput
+                value={effectiveFrom}
+                onChangeText={setEffectiveFrom}
+                placeholder="DD/MM/YYYY"
+                keyboardType="numbers-and-punctuation"
+                className={`border rounded-lg p-3 text-gray-800 ${toDateKey(effectiveFrom) ? 'border-gray-300' : 'border-red-400'}`}
+              />
+            </View>
+          )}
+
+          {schedule && timetable.length > 0 ? (
             <View>
-              {DAYS_OF_WEEK.map((day) => {
-                const dayClasses = schedule.classes
+              {/* One-off extra and makeup classes */}
+              <TouchableOpacity
+                onPress={() => setShowExtraClasses(true)}
+                className="bg-white rounded-2xl p-4 mb-6 border border-gray-100 flex-row items-center"
+              >
+                <View className="bg-blue-100 p-2 rounded-lg mr-3">
+                  <Ionicons name="calendar-number-outline" size={20} color="#3b82f6" />
+                </View>
+                <View className="flex-1">
+                  <Text className="text-base font-bold text-gray-800">Extra & Makeup Classes</Text>
+                  <Text className="text-gray-500 text-sm">
+                    {schedule.extraClasses?.length || 0} one-off classes scheduled
+                  </Text>
+                </View>
+                <Ionicons name="chevron-forward" size={20} color="#9ca3af" />
+              </TouchableOpacity>
+
+              {dayOptions.map((day) => {
+                const dayClasses = timetable
                   .filter(c => c.day === day)
                   .sort((a, b) => a.startTime.localeCompare(b.startTime));
 
@@ -476,6 +723,16 @@ export const ScheduleEditModal: React.FC<ScheduleEditModalProps> = ({
                               <Text className="text-gray-600 mb-2">
                                 {classItem.instructor}
                               </Text>
+                              {classItem.recurrence && classItem.recurrence.pattern !== 'weekly' && (
+                                <Text className="text-purple-600 text-sm mb-2">
+                                  {describeRecurrence(classItem.recurrence)}
+                                </Text>
+                              )}
+                              {(classItem.sessionType && classItem.sessionType !== 'theory' || getSessionWeight(classItem) > 1) && (
+                                <Text className="text-blue-600 text-sm mb-2">
+                                  {SESSION_TYPE_LABELS[classItem.sessionType || 'theory']} • counts as {getSessionWeight(classItem)}
+                                </Text>
+                              )}
                               <View className="flex-row items-center mb-1">
                                 <Ionicons name="time-outline" size={16} color="#6b7280" />
                                 <Text className="text-gray-600 ml-2">
@@ -541,6 +798,19 @@ export const ScheduleEditModal: React.FC<ScheduleEditModalProps> = ({
       </View>
 
       {renderClassForm()}
+
+      {schedule && (
+        <ExtraClassesModal
+          visible={showExtraClasses}
+          onClose={() => setShowExtraClasses(false)}
+          schedule={schedule}
+          userId={userId}
+          onExtraClassesUpdated={async () => {
+            await loadSchedule();
+            onScheduleUpdated();
+          }}
+        />
+      )}
     </Modal>
   );
 };
\ No newline at end of file
@@ -0,0 +1,274 @@
+import { Ionicons } from '@expo/vector-icons';
+import React, { useEffect, useMemo, useState } from 'react';
+import { ActivityIndicator, Modal, ScrollView, Text, TouchableOpacity, View } from 'react-native';
+import { getWeekdayIndex } from '../../../core/utils/AcademicDateUtils';
+import { formatAbsenceReason } from '../../../core/utils/AttendanceUtils';
+import { FirebaseAttendanceService } from '../../../data/services/AttendanceService';
+import {
+  ClassInstanceAttendance,
+  HeatmapDayStatus,
+  SemesterHeatmap,
+  SemesterHeatmapDay,
+} from '../../../domain/model/Attendance';
+
+interface SemesterHeatmapModalProps {
+  visible: boolean;
+  onClose: () => void;
+  userId: string;
+}
+
+const WEEKDAY_LABELS = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+
+const DAY_STATUS_STYLES: Record<HeatmapDayStatus, { label: string; color: string; textColor: string }> = {
+  present: { label: 'Present', color: '#22c55e', textColor: '#ffffff' },
+  partial: { label: 'Partial', color: '#facc15', textColor: '#713f12' },
+  absent: { label: 'Absent', color: '#ef4444', textColor: '#ffffff' },
+  unmarked: { label: 'Unmarked', color: '#d1d5db', textColor: '#374151' },
+  holiday: { label: 'Holiday', color: '#c4b5fd', textColor: '#4c1d95' },
+  'no-class': { label: 'No class', color: '#f3f4f6', textColor: '#9ca3af' },
+  upcoming: { label: 'Upcoming', color: '#e0f2fe', textColor: '#0369a1' },
+};
+
+const RECORD_STATUS_STYLES = {
+  present: { label: 'Present', color: '#16a34a' },
+  absent: { label: 'Absent', color: '#dc2626' },
+  excused: { label: 'Excused', color: '#d97706' },
+};
+
+// Create service instance once
+let attendanceServiceInstance: FirebaseAttendanceService | null = null;
+
+const getAttendanceService = () => {
+  if (!attendanceServiceInstance) {
+    attendanceServiceInstance = new FirebaseAttendanceService();
+  }
+  return attendanceServiceInstance;
+};
+
+// Group heatmap days by month (YYYY-MM), keeping calendar order
+const groupByMonth = (days: SemesterHeatmapDay[]) => {
+  const months = new Map<string, SemesterHeatmapDay[]>();
+  for (const day of days) {
+    const monthKey = day.date.slice(0, 7);
+    months.set(monthKey, [...(months.get(monthKey) || []), day]);
+  }
+  return Array.from(months.entries());
+};
+
+const formatMonth = (monthKey: string) => {
+  return new Date(monthKey + '-01T00:00:00').toLocaleDateString('en-US', { month: 'long', year: 'numeric' });
+};
+
+const formatDay = (date: string) => {
+  return new Date(date + 'T00:00:00').toLocaleDateString('en-US', {
+    weekday: 'long',
+    month: 'short',
+    day: 'numeric',
+  });
+};
+
+export const SemesterHeatmapModal: React.FC<SemesterHeatmapModalProps> = ({
+  visible,
+  onClose,
+  userId,
+}) => {
+  const [heatmap, setHeatmap] = useState<SemesterHeatmap | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [selectedDay, setSelectedDay] = useState<SemesterHeatmapDay | null>(null);
+  const [dayEntries, setDayEntries] = useState<ClassInstanceAttendance[]>([]);
+  const [loadingDay, setLoadingDay] = useState(false);
+
+  useEffect(() => {
+    if (!visible) return;
+
+    const loadHeatmap = async () => {
+      setLoading(true);
+      try {
+        setHeatmap(await getAttendanceService().getSemesterHeatmap(userId));
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadHeatmap();
+  }, [visible, userId]);
+
+  const months = useMemo(() => groupByMonth(heatmap?.days || []), [heatmap]);
+
+  const dayTotals = useMemo(() => {
+    const totals: Partial<Record<HeatmapDayStatus, number>> = {};
+    for (const day of heatmap?.days || []) {
+      totals[day.status] = (totals[day.status] || 0) + 1;
+    }
+    return totals;
+  }, [heatmap]);
+
+  const handleSelectDay = async (day: SemesterHeatmapDay) => {
+    if (day.status === 'no-class') return;
+
+    setSelectedDay(day);
+    setDayEntries([]);
+    setLoadingDay(true);
+    try {
+      setDayEntries(await getAttendanceService().getAttendanceForDate(userId, day.date));
+    } finally {
+      setLoadingDay(false);
+    }
+  };
+
+  const renderMonth = (monthKey: string, days: SemesterHeatmapDay[]) => {
+    // Pad the first week so days line up under their weekday
+    const leadingBlanks = getWeekdayIndex(days[0].date);
+    const cells: (SemesterHeatmapDay | null)[] = [...Array(leadingBlanks).fill(null), ...days];
+
+    return (
+      <View key={monthKey} className="bg-white rounded-2xl p-4 mb-4 border border-gray-100">
+        <Text className="text-base font-bold text-gray-800 mb-3">{formatMonth(monthKey)}</Text>
+        <View className="flex-row mb-1">
+          {WEEKDAY_LABELS.map((label, index) => (
+            <Text key={index} className="text-xs text-gray-400 text-center" style={{ width: '14.28%' }}>
+              {label}
+            </Text>
+          ))}
+        </View>
+        <View className="flex-row flex-wrap">
+          {cells.map((day, index) => (
+            <View key={day?.date || `blank_${index}`} style={{ width: '14.28%', padding: 2 }}>
+              {day ? (
+                <TouchableOpacity
+                  onPress={() => handleSelectDay(day)}
+                  disabled={day.status === 'no-class'}
+                  className="rounded-md items-center justify-center"
+                  style={{ aspectRatio: 1, backgroundColor: DAY_STATUS_STYLES[day.status].color }}
+                  activeOpacity={0.7}
+                >
+                  <Text className="text-xs font-medium" style={{ color: DAY_STATUS_STYLES[day.status].textColor }}>
+                    {Number(day.date.slice(8))}
+                  </Text>
+                </TouchableOpacity>
+              ) : null}
+            </View>
+          ))}
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <View className="flex-1 bg-gray-50">
+        <View className="bg-white border-b border-gray-200 px-4 py-4 pt-16">
+          <View className="flex-row items-center justify-between">
+            <TouchableOpacity onPress={onClose} className="flex-row items-center">
+              <Ionicons name="chevron-back" size={24} color="#6b7280" />
+              <Text className="text-gray-600 ml-2">Back</Text>
+            </TouchableOpacity>
+            <Text className="text-xl font-bold text-gray-800">Semester Calendar</Text>
+            <View className="w-16" />
+          </View>
+        </View>
+
+        {loading ? (
+          <View className="flex-1 items-center justify-center">
+            <ActivityIndicator size="large" color="#22c55e" />
+          </View>
+        ) : !heatmap ? (
+          <View className="flex-1 items-center justify-center p-8">
+            <Ionicons name="calendar-outline" size={40} color="#9ca3af" />
+            <Text className="text-gray-500 text-center mt-3">
+              Set your semester dates to see the whole semester at a glance
+            </Text>
+          </View>
+        ) : (
+          <ScrollView className="flex-1 p-4">
+            {/* Legend */}
+            <View className="bg-white rounded-2xl p-4 mb-4 border border-gray-100">
+              <View className="flex-row flex-wrap">
+                {(Object.keys(DAY_STATUS_STYLES) as HeatmapDayStatus[]).map(status => (
+                  <View key={status} className="flex-row items-center mr-4 mb-2">
+                    <View className="w-3 h-3 rounded-sm mr-1" style={{ backgroundColor: DAY_STATUS_STYLES[status].color }} />
+                    <Text className="text-xs text-gray-600">
+                      {DAY_STATUS_STYLES[status].label}
+                      {dayTotals[status] ? ` (${dayTotals[status]})` : ''}
+                    </Text>
+                  </View>
+                ))}
+              </View>
+            </View>
+
+            {months.map(([monthKey, days]) => renderMonth(monthKey, days))}
+            <View className="h-8" />
+          </ScrollView>
+        )}
+      </View>
+
+      {/* Day drill-down */}
+      <Modal
+        visible={!!selectedDay}
+        transparent
+        animationType="slide"
+        onRequestClose={() => setSelectedDay(null)}
+      >
+        <View className="flex-1 justify-end bg-black/40">
+          <View className="bg-white rounded-t-3xl p-6" style={{ maxHeight: '70%' }}>
+            <View className="flex-row items-center justify-between mb-1">
+              <Text className="text-lg font-bold text-gray-800">
+                {selectedDay ? formatDay(selectedDay.date) : ''}
+              </Text>
+              <TouchableOpacity onPress={() => setSelectedDay(null)}>
+                <Ionicons name="close" size={24} color="#6b7280" />
+              </TouchableOpacity>
+            </View>
+            {selectedDay && (
+              <Text className="text-sm text-gray-500 mb-4">
+                {DAY_STATUS_STYLES[selectedDay.status].label}
+                {selectedDay.cancelledClasses > 0 ? ` • ${selectedDay.cancelledClasses} cancelled` : ''}
+              </Text>
+            )}
+
+            {loadingDay ? (
+              <View className="py-8 items-center">
+                <ActivityIndicator size="small" color="#22c55e" />
+              </View>
+            ) : dayEntries.length === 0 ? (
+              <Text className="text-gray-500 text-sm text-center py-6">No classes were scheduled on this day</Text>
+            ) : (
+              <ScrollView showsVerticalScrollIndicator={false}>
+                {dayEntries.map(({ instance, record, cancellation, classroomName }) => {
+                  const isCancelled = cancellation?.status === 'confirmed';
+                  const recordStyle = record ? RECORD_STATUS_STYLES[record.status] : null;
+                  return (
+                    <View key={instance.key} className="flex-row items-center py-3 border-b border-gray-100">
+                      <View className="flex-1">
+                        <Text className="font-semibold text-gray-800">{instance.subject}</Text>
+                        <Text className="text-xs text-gray-500">
+                          {instance.startTime} - {instance.endTime} • {classroomName}
+                        </Text>
+                        {record?.reason || record?.reasonCategory ? (
+                          <Text className="text-xs text-gray-600 mt-1">
+                            Reason: {formatAbsenceReason(record.reasonCategory, record.reason)}
+                          </Text>
+                        ) : null}
+                      </View>
+                      <Text
+                        className="text-sm font-medium"
+                        style={{ color: isCancelled ? '#6b7280' : recordStyle?.color || '#9ca3af' }}
+                      >
+                        {isCancelled ? 'Cancelled' : recordStyle?.label || 'Not marked'}
+                      </Text>
+                    </View>
+                  );
+                })}
+              </ScrollView>
+            )}
+          </View>
+        </View>
+      </Modal>
+    </Modal>
+  );
+};
@@ -0,0 +1,123 @@
+import { Ionicons } from '@expo/vector-icons';
+import React, { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Modal,
+  ScrollView,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { formatSemesterDate } from '../../../core/utils/SemesterUtils';
+import { FirebaseSemesterService } from '../../../data/services/SemesterService';
+import { SemesterResult } from '../../../domain/model/Semester';
+
+interface SemesterHistoryModalProps {
+  visible: boolean;
+  onClose: () => void;
+  userId: string;
+}
+
+// Create service instance once
+let semesterServiceInstance: FirebaseSemesterService | null = null;
+
+const getSemesterService = () => {
+  if (!semesterServiceInstance) {
+    semesterServiceInstance = new FirebaseSemesterService();
+  }
+  return semesterServiceInstance;
+};
+
+export const SemesterHistoryModal: React.FC<SemesterHistoryModalProps> = ({
+  visible,
+  onClose,
+  userId,
+}) => {
+  const [results, setResults] = useState<SemesterResult[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!visible) return;
+
+    const loadHistory = async () => {
+      setLoading(true);
+      try {
+        setResults(await getSemesterService().getSemesterHistory(userId));
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadHistory();
+  }, [visible, userId]);
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <View className="flex-1 bg-gray-50">
+        <View className="bg-white border-b border-gray-200 px-4 py-4 pt-16">
+          <View className="flex-row items-center justify-between">
+            <TouchableOpacity onPress={onClose} className="flex-row items-center">
+              <Ionicons name="chevron-back" size={24} color="#6b7280" />
+              <Text className="text-gray-600 ml-2">Back</Text>
+            </TouchableOpacity>
+            <Text className="text-xl font-bold text-gray-800">Past Semesters</Text>
+            <View className="w-16" />
+          </View>
+        </View>
+
+        {loading ? (
+          <View className="flex-1 items-center justify-center">
+            <ActivityIndicator size="large" color="#22c55e" />
+          </View>
+        ) : results.length === 0 ? (
+          <View className="flex-1 items-center justify-center p-8">
+            <Ionicons name="archive-outline" size={48} color="#9ca3af" />
+            <Text className="text-lg font-semibold text-gray-800 mt-4 mb-2">No Past Semesters</Text>
+            <Text className="text-gray-500 text-center text-sm">
+              When a classroom starts a new semester, your final attendance in the old one shows up here
+            </Text>
+          </View>
+        ) : (
+          <ScrollView className="flex-1 p-4">
+            {results.map(result => (
+              <View key={result.id} className="bg-white rounded-2xl p-4 mb-4 border border-gray-100">
+                <View className="flex-row items-start justify-between mb-3">
+                  <View className="flex-1 mr-3">
+                    <Text className="text-lg font-semibold text-gray-800">{result.semesterName}</Text>
+                    <Text className="text-sm text-gray-500">
+                      {result.classroomName} · {formatSemesterDate(result.startDate)} – {formatSemesterDate(result.endDate)}
+                    </Text>
+                  </View>
+                  <View className="items-end">
+                    <Text className="text-2xl font-bold text-green-600">{result.overallPercentage}%</Text>
+                    <Text className="text-xs text-gray-500">
+                      {result.attendedClasses}/{result.totalClasses} classes
+                    </Text>
+                  </View>
+                </View>
+
+                {result.subjects.map(subject => (
+                  <View
+                    key={subject.classId}
+                    className="flex-row items-center justify-between py-2 border-t border-gray-100"
+                  >
+                    <Text className="text-gray-700 flex-1 mr-3">{subject.subject}</Text>
+                    <Text className="text-sm text-gray-500 mr-3">
+                      {subject.attendedClasses}/{subject.totalClasses}
+                    </Text>
+                    <Text className="font-semibold text-gray-800">{subject.attendancePercentage}%</Text>
+                  </View>
+                ))}
+              </View>
+            ))}
+          </ScrollView>
+        )}
+      </View>
+    </Modal>
+  );
+};
@@ -0,0 +1,216 @@
+import { Ionicons } from '@expo/vector-icons';
+import React, { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Modal,
+  ScrollView,
+  Switch,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { getAcademicToday } from '../../../core/utils/AcademicDateUtils';
+import { formatDateKey, formatSemesterDate, parseDate } from '../../../core/utils/SemesterUtils';
+import { FirebaseSemesterService } from '../../../data/services/SemesterService';
+import { Semester } from '../../../domain/model/Semester';
+
+interface SemesterRolloverModalProps {
+  visible: boolean;
+  onClose: () => void;
+  userId: string;
+  classroomId: string;
+  classroomName: string;
+  currentSemester: Semester | null;
+  onRolledOver: () => void;
+}
+
+// Create service instance once
+let semesterServiceInstance: FirebaseSemesterService | null = null;
+
+const getSemesterService = () => {
+  if (!semesterServiceInstance) {
+    semesterServiceInstance = new FirebaseSemesterService();
+  }
+  return semesterServiceInstance;
+};
+
+// "Semester 5" → "Semester 6"; names without a trailing number are left for the admin
+const suggestNextName = (name: string) => {
+  const match = name.match(/^(.*?)(\d+)$/);
+  return match ? `${match[1]}${Number(match[2]) + 1}` : '';
+};
+
+// DD/MM/YYYY → YYYY-MM-DD, or null when the date can't be read
+const toDateKey = (value: string) => {
+  const date = parseDate(value.trim());
+  return date && !isNaN(date.getTime()) ? formatDateKey(date) : null;
+};
+
+export const SemesterRolloverModal: React.FC<SemesterRolloverModalProps> = ({
+  visible,
+  onClose,
+  userId,
+  classroomId,
+  classroomName,
+  currentSemester,
+  onRolledOver,
+}) => {
+  const [currentName, setCurrentName] = useState('');
+  const [name, setName] = useState('');
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [cloneTimetable, setCloneTimetable] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!visible) return;
+    const runningName = currentSemester?.name || 'Semester 1';
+    setCurrentName(runningName);
+    setName(suggestNextName(runningName));
+    setStartDate(formatSemesterDate(getAcademicToday()));
+    setEndDate('');
+    setCloneTimetable(true);
+  }, [visible, currentSemester]);
+
+  const rollover = async (start: string, end: string) => {
+    setSaving(true);
+    try {
+      const result = await getSemesterService().rolloverSemester(userId, classroomId, {
+        currentName,
+        name,
+        startDate: start,
+        endDate: end,
+        cloneTimetable,
+      });
+      if (!result.success) {
+        Alert.alert('Error', result.error || 'Failed to start the new semester');
+        return;
+      }
+      onRolledOver();
+      onClose();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleStart = () => {
+    const start = toDateKey(startDate);
+    const end = toDateKey(endDate);
+    if (!start || !end) {
+      Alert.alert('Invalid Date', 'Please use DD/MM/YYYY format (e.g., 15/01/2026)');
+      return;
+    }
+
+    Alert.alert(
+      'Start New Semester',
+      `${currentName.trim() || 'The current semester'} will be archived and its attendance becomes read-only. ` +
+        `${cloneTimetable ? 'The weekly timetable is copied over.' : 'The timetable starts empty.'}`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Start', onPress: () => rollover(start, end) },
+      ]
+    );
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <View className="flex-1 bg-gray-50">
+        <View className="bg-white border-b border-gray-200 px-4 py-4 pt-16">
+          <View className="flex-row items-center justify-between">
+            <TouchableOpacity onPress={onClose} className="flex-row items-center">
+              <Ionicons name="chevron-back" size={24} color="#6b7280" />
+              <Text className="text-gray-600 ml-2">Back</Text>
+            </TouchableOpacity>
+            <Text className="text-xl font-bold text-gray-800">New Semester</Text>
+            <TouchableOpacity
+              onPress={handleStart}
+              disabled={saving}
+              className="bg-green-500 px-4 py-2 rounded-lg"
+            >
+              {saving ? (
+                <ActivityIndicator size="small" color="white" />
+              ) : (
+                <Text className="text-white font-medium">Start</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+
+        <ScrollView className="flex-1 p-4" keyboardShouldPersistTaps="handled">
+          <View className="bg-white rounded-2xl p-4 mb-4 border border-gray-100">
+            <Text className="text-lg font-semibold text-gray-800 mb-1">1. Archive the current semester</Text>
+            <Text className="text-sm text-gray-600 mb-3">
+              Attendance, stats and tasks of {classroomName} so far stay with this semester and show up under
+              Past Semesters.
+            </Text>
+            <Text className="text-gray-700 font-medium mb-2">Name</Text>
+            <TextInput
+              value={currentName}
+              onChangeText={setCurrentName}
+              placeholder="e.g. Semester 5"
+              className="border border-gray-300 rounded-lg p-3 text-gray-800"
+            />
+          </View>
+
+          <View className="bg-white rounded-2xl p-4 mb-4 border border-gray-100">
+            <Text className="text-lg font-semibold text-gray-800 mb-3">2. Set up the new semester</Text>
+            <Text className="text-gray-700 font-medium mb-2">Name</Text>
+            <TextInput
+              value={name}
+              onChangeText={setName}
+              placeholder="e.g. Semester 6"
+              className="border border-gray-300 rounded-lg p-3 text-gray-800 mb-3"
+            />
+            <View className="flex-row">
+              <View className="flex-1 mr-2">
+                <Text className="text-gray-700 font-medium mb-2">Starts (DD/MM/YYYY)</Text>
+                <TextInput
+                  value={startDate}
+                  onChangeText={setStartDate}
+                  placeholder="DD/MM/YYYY"
+                  keyboardType="numbers-and-punctuation"
+                  className="border border-gray-300 rounded-lg p-3 text-gray-800"
+                />
+              </View>
+              <View className="flex-1">
+                <Text className="text-gray-700 font-medium mb-2">Ends (DD/MM/YYYY)</Text>
+                <TextInput
+                  value={endDate}
+                  onChangeText={setEndDate}
+                  placeholder="DD/MM/YYYY"
+                  keyboardType="numbers-and-punctuation"
+                  className="border border-gray-300 rounded-lg p-3 text-gray-800"
+                />
+              </View>
+            </View>
+          </View>
+
+          <View className="bg-white rounded-2xl p-4 mb-4 border border-gray-100">
+            <Text className="text-lg font-semibold text-gray-800 mb-3">3. Timetable</Text>
+            <View className="flex-row items-center justify-between">
+              <View className="flex-1 mr-3">
+                <Text className="font-medium text-gray-800">Copy the weekly timetable</Text>
+                <Text className="text-sm text-gray-600 mt-1">
+                  Turn off when the subjects change; the timetable then starts empty. Extra classes are never copied.
+                </Text>
+              </View>
+              <Switch
+                value={cloneTimetable}
+                onValueChange={setCloneTimetable}
+                trackColor={{ false: '#d1d5db', true: '#22c55e' }}
+                thumbColor={cloneTimetable ? '#ffffff' : '#f3f4f6'}
+              />
+            </View>
+          </View>
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+};
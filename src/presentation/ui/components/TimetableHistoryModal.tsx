@@ -0,0 +1,164 @@
+import { Ionicons } from '@expo/vector-icons';
+import React, { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Modal,
+  ScrollView,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { getAcademicToday } from '../../../core/utils/AcademicDateUtils';
+import { diffTimetables } from '../../../core/utils/ScheduleUtils';
+import { formatSemesterDate } from '../../../core/utils/SemesterUtils';
+import { FirebaseClassroomService } from '../../../data/services/ClassroomService';
+import { ClassSchedule, TimetableVersion } from '../../../domain/model/Classroom';
+
+interface TimetableHistoryModalProps {
+  visible: boolean;
+  onClose: () => void;
+  classroomId: string;
+  classroomName: string;
+}
+
+// Create service instance once
+let classroomServiceInstance: FirebaseClassroomService | null = null;
+
+const getClassroomService = () => {
+  if (!classroomServiceInstance) {
+    classroomServiceInstance = new FirebaseClassroomService();
+  }
+  return classroomServiceInstance;
+};
+
+const describeSlot = (cls: ClassSchedule) => `${cls.name} · ${cls.day} ${cls.startTime}-${cls.endTime}`;
+
+export const TimetableHistoryModal: React.FC<TimetableHistoryModalProps> = ({
+  visible,
+  onClose,
+  classroomId,
+  classroomName,
+}) => {
+  const [versions, setVersions] = useState<TimetableVersion[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!visible) return;
+
+    const loadVersions = async () => {
+      setLoading(true);
+      try {
+        const schedule = await getClassroomService().getClassroomSchedule(classroomId);
+        setVersions(schedule?.versions || []);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadVersions();
+  }, [visible, classroomId]);
+
+  const today = getAcademicToday();
+  const inForce = versions.filter(v => v.effectiveFrom <= today).pop() || versions[0];
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <View className="flex-1 bg-gray-50">
+        <View className="bg-white border-b border-gray-200 px-4 py-4 pt-16">
+          <View className="flex-row items-center justify-between">
+            <TouchableOpacity onPress={onClose} className="flex-row items-center">
+              <Ionicons name="chevron-back" size={24} color="#6b7280" />
+              <Text className="text-gray-600 ml-2">Back</Text>
+            </TouchableOpacity>
+            <Text className="text-xl font-bold text-gray-800">Timetable History</Text>
+            <View className="w-16" />
+          </View>
+        </View>
+
+        {loading ? (
+          <View className="flex-1 items-center justify-center">
+            <ActivityIndicator size="large" color="#22c55e" />
+          </View>
+        ) : versions.length === 0 ? (
+          <View className="flex-1 items-center justify-center p-8">
+            <Ionicons name="git-compare-outline" size={48} color="#9ca3af" />
+            <Text className="text-lg font-semibold text-gray-800 mt-4 mb-2">No Timetable Changes</Text>
+            <Text className="text-gray-500 text-center text-sm">
+              When the admin changes the timetable of {classroomName}, each version and what changed shows up here
+            </Text>
+          </View>
+        ) : (
+          <ScrollView className="flex-1 p-4">
+            {versions.map((version, index) => {
+              const previous = versions[index - 1];
+              const diff = previous ? diffTimetables(previous.classes, version.classes) : null;
+              const unchanged = diff && diff.added.length + diff.removed.length + diff.changed.length === 0;
+
+              return (
+                <View key={version.effectiveFrom} className="bg-white rounded-2xl p-4 mb-4 border border-gray-100">
+                  <View className="flex-row items-start justify-between mb-2">
+                    <View className="flex-1 mr-3">
+                      <Text className="text-lg font-semibold text-gray-800">
+                        From {formatSemesterDate(version.effectiveFrom)}
+                      </Text>
+                      <Text className="text-sm text-gray-500">
+                        {version.classes.length} weekly classes · saved {formatSemesterDate(version.createdAt.slice(0, 10))}
+                      </Text>
+                    </View>
+                    {version === inForce && (
+                      <View className="bg-green-100 px-2 py-1 rounded-full">
+                        <Text className="text-xs font-medium text-green-700">In force</Text>
+                      </View>
+                    )}
+                    {version.effectiveFrom > today && (
+                      <View className="bg-blue-100 px-2 py-1 rounded-full">
+                        <Text className="text-xs font-medium text-blue-700">Upcoming</Text>
+                      </View>
+                    )}
+                  </View>
+
+                  {!diff ? (
+                    <Text className="text-sm text-gray-600">Original timetable</Text>
+                  ) : unchanged ? (
+                    <Text className="text-sm text-gray-600">No changes to the classes</Text>
+                  ) : (
+                    <View>
+                      {diff.added.map(cls => (
+                        <View key={`added_${cls.id}`} className="flex-row items-start py-1">
+                          <Ionicons name="add-circle-outline" size={16} color="#16a34a" />
+                          <Text className="text-sm text-gray-700 ml-2 flex-1">{describeSlot(cls)}</Text>
+                        </View>
+                      ))}
+                      {diff.removed.map(cls => (
+                        <View key={`removed_${cls.id}`} className="flex-row items-start py-1">
+                          <Ionicons name="remove-circle-outline" size={16} color="#dc2626" />
+                          <Text className="text-sm text-gray-500 ml-2 flex-1 line-through">{describeSlot(cls)}</Text>
+                        </View>
+                      ))}
+                      {diff.changed.map(({ after, changes }) => (
+                        <View key={`changed_${after.id}`} className="flex-row items-start py-1">
+                          <Ionicons name="swap-horizontal-outline" size={16} color="#d97706" />
+                          <View className="ml-2 flex-1">
+                            <Text className="text-sm text-gray-700">{after.name}</Text>
+                            {changes.map(change => (
+                              <Text key={change} className="text-xs text-gray-500">{change}</Text>
+                            ))}
+                          </View>
+                        </View>
+                      ))}
+                    </View>
+                  )}
+                </View>
+              );
+            }).reverse()}
+          </ScrollView>
+        )}
+      </View>
+    </Modal>
+  );
+};
@@ -0,0 +1,226 @@
+import { Ionicons } from '@expo/vector-icons';
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Modal,
+  ScrollView,
+  Switch,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { SESSION_TYPE_LABELS } from '../../../core/utils/ScheduleUtils';
+import { FirebaseAttendanceService } from '../../../data/services/AttendanceService';
+import { FirebaseUserService } from '../../../data/services/UserService';
+import { AttendanceStatus, UnmarkedClassReview } from '../../../domain/model/Attendance';
+
+interface UnmarkedClassesModalProps {
+  visible: boolean;
+  onClose: () => void;
+  userId: string;
+  onResolved: () => void; // Called after classes were marked, so totals can be reloaded
+}
+
+// Create service instances once
+let attendanceServiceInstance: FirebaseAttendanceService | null = null;
+let userServiceInstance: FirebaseUserService | null = null;
+
+const getAttendanceService = () => {
+  if (!attendanceServiceInstance) {
+    attendanceServiceInstance = new FirebaseAttendanceService();
+  }
+  return attendanceServiceInstance;
+};
+
+const getUserService = () => {
+  if (!userServiceInstance) {
+    userServiceInstance = new FirebaseUserService();
+  }
+  return userServiceInstance;
+};
+
+const formatReviewDate = (date: string) => {
+  return new Date(date + 'T00:00:00').toLocaleDateString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+  });
+};
+
+export const UnmarkedClassesModal: React.FC<UnmarkedClassesModalProps> = ({
+  visible,
+  onClose,
+  userId,
+  onResolved,
+}) => {
+  const [reviews, setReviews] = useState<UnmarkedClassReview[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [isMarkingAll, setIsMarkingAll] = useState(false);
+  const [autoMarkAbsent, setAutoMarkAbsent] = useState(false);
+
+  const loadReviews = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [pendingReviews, user] = await Promise.all([
+        getAttendanceService().getUnmarkedClassReviews(userId),
+        getUserService().getUserById(userId),
+      ]);
+      setReviews(pendingReviews);
+      setAutoMarkAbsent((user?.missedClassHandling || 'auto-absent') === 'auto-absent');
+    } finally {
+      setLoading(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    if (visible) {
+      loadReviews();
+    }
+  }, [visible, loadReviews]);
+
+  const handleResolve = async (review: UnmarkedClassReview, status: AttendanceStatus) => {
+    setSavingId(review.id);
+    try {
+      const result = await getAttendanceService().resolveUnmarkedClass(review, status);
+      if (!result.success) {
+        Alert.alert('Could Not Mark Class', result.error || 'Failed to mark attendance');
+        await loadReviews();
+        return;
+      }
+      setReviews(prev => prev.filter(r => r.id !== review.id));
+      onResolved();
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const handleMarkAllAbsent = () => {
+    Alert.alert(
+      'Mark All Absent',
+      `${reviews.length} unmarked ${reviews.length === 1 ? 'class' : 'classes'} will be marked absent.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Mark Absent',
+          style: 'destructive',
+          onPress: async () => {
+            setIsMarkingAll(true);
+            try {
+              for (const review of reviews) {
+                await getAttendanceService().resolveUnmarkedClass(review, 'absent');
+              }
+              await loadReviews();
+              onResolved();
+            } finally {
+              setIsMarkingAll(false);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleToggleAutoMark = async (enabled: boolean) => {
+    setAutoMarkAbsent(enabled);
+    const result = await getAttendanceService().updateMissedClassHandling(
+      userId,
+      enabled ? 'auto-absent' : 'review'
+    );
+    if (!result.success) {
+      setAutoMarkAbsent(!enabled);
+      Alert.alert('Error', result.error || 'Failed to update setting');
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <View className="flex-1 bg-gray-50">
+        <View className="bg-white border-b border-gray-200 px-4 py-4 pt-16">
+          <View className="flex-row items-center justify-between">
+            <TouchableOpacity onPress={onClose} className="flex-row items-center">
+              <Ionicons name="chevron-back" size={24} color="#6b7280" />
+              <Text className="text-gray-600 ml-2">Back</Text>
+            </TouchableOpacity>
+            <Text className="text-xl font-bold text-gray-800">Unmarked Classes</Text>
+            <TouchableOpacity
+              onPress={handleMarkAllAbsent}
+              disabled={isMarkingAll || reviews.length === 0}
+              className={`px-4 py-2 rounded-lg ${reviews.length === 0 ? 'bg-gray-200' : 'bg-red-500'}`}
+            >
+              {isMarkingAll ? (
+                <ActivityIndicator size="small" color="white" />
+              ) : (
+                <Text className="text-white font-medium">All Absent</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+
+        <ScrollView className="flex-1 p-4">
+          <View className="bg-white rounded-2xl p-4 mb-4 border border-gray-100 flex-row items-center">
+            <View className="flex-1 mr-3">
+              <Text className="font-semibold text-gray-800">Auto-mark missed classes absent</Text>
+              <Text className="text-sm text-gray-500">
+                When off, classes you didn&apos;t mark are listed here instead
+              </Text>
+            </View>
+            <Switch value={autoMarkAbsent} onValueChange={handleToggleAutoMark} />
+          </View>
+
+          {loading ? (
+            <View className="py-8 items-center">
+              <ActivityIndicator size="small" color="#22c55e" />
+            </View>
+          ) : reviews.length === 0 ? (
+            <View className="bg-white rounded-2xl p-8 items-center border border-gray-100">
+              <Ionicons name="checkmark-done-outline" size={32} color="#9ca3af" />
+              <Text className="text-gray-500 text-center text-sm mt-2">
+                Every past class has been marked
+              </Text>
+            </View>
+          ) : (
+            reviews.map(review => (
+              <View key={review.id} className="bg-white rounded-2xl p-4 mb-3 border border-gray-100">
+                <View className="flex-row items-center justify-between mb-3">
+                  <View className="flex-1">
+                    <Text className="font-semibold text-gray-800">{review.subject}</Text>
+                    <Text className="text-sm text-gray-500">
+                      {formatReviewDate(review.date)} • {review.startTime} - {review.endTime}
+                      {review.sessionType && review.sessionType !== 'theory'
+                        ? ` • ${SESSION_TYPE_LABELS[review.sessionType]}`
+                        : ''}
+                    </Text>
+                  </View>
+                  {savingId === review.id && <ActivityIndicator size="small" color="#22c55e" />}
+                </View>
+                <View className="flex-row">
+                  <TouchableOpacity
+                    onPress={() => handleResolve(review, 'present')}
+                    disabled={!!savingId || isMarkingAll}
+                    className="flex-1 bg-green-500 py-2 rounded-lg mr-2 items-center"
+                  >
+                    <Text className="text-white font-medium">Present</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    onPress={() => handleResolve(review, 'absent')}
+                    disabled={!!savingId || isMarkingAll}
+                    className="flex-1 bg-red-500 py-2 rounded-lg items-center"
+                  >
+                    <Text className="text-white font-medium">Absent</Text>
+                  </TouchableOpacity>
+                </View>
+              </View>
+            ))
+          )}
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+};
@@ -1,7 +1,22 @@
 import { Ionicons } from '@expo/vector-icons';
 import React, { useEffect, useState } from 'react';
 import { BackHandler, InteractionManager, Modal, ScrollView, Text, TouchableOpacity, View } from 'react-native';
-import { AttendanceSummary } from '../../../domain/model/Attendance';
+import { ACADEMIC_BLOCK_LABELS, formatBlockDates } from '../../../core/utils/AcademicCalendarUtils';
+import { getDayOrderForDate, getDayOrderName } from '../../../core/utils/DayOrderUtils';
+import { getAcademicToday, getAcademicWeekdayName } from '../../../core/utils/AcademicDateUtils';
+import {
+  describeRecurrence,
+  getClassInstanceKey,
+  getClassInstancesForDate,
+  getDayNameForDate,
+  getTeachingWeekNumber,
+  getTeachingWeekStart,
+  getTimetableForDate,
+  meetsInWeek,
+} from '../../../core/utils/ScheduleUtils';
+import { formatDateKey } from '../../../core/utils/SemesterUtils';
+import { AcademicBlockBanner, AttendanceStatus, AttendanceSummary } from '../../../domain/model/Attendance';
+import { ExtraClass } from '../../../domain/model/Classroom';
 import { dataCache } from '../../utils/DataCache';
 import { ScheduleEditModal } from './ScheduleEditModal';
 import { ScheduleSkeleton } from './skeletons/ScheduleSkeleton';
@@ -17,8 +32,10 @@ interface WeeklyClass {
   location: string;
   color: string;
   day: string;
+  extraKind?: ExtraClass['kind']; // Set for one-off classes shown in their week only
+  recurrenceLabel?: string; // Set for classes that don't meet every week, e.g. "Odd weeks"
   attendanceSummary?: AttendanceSummary;
-  todayAttendance?: 'present' | 'absent' | null;
+  todayAttendance?: TodayStatus | null;
 }
 
 interface WeeklyScheduleCalendarProps {
@@ -29,6 +46,24 @@ interface WeeklyScheduleCalendarProps {
 
 const DAYS_OF_WEEK = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
 
+// The current teaching week of a classroom whose timetable alternates between weeks
+interface TeachingWeek {
+  classroomId: string;
+  classroomName: string;
+  week: number;
+}
+
+// Today's status of a class: its attendance, or cancelled by the lecturer
+type TodayStatus = AttendanceStatus | 'cancelled';
+
+// Display style of today's status
+const TODAY_STATUS_STYLES: Record<TodayStatus, { label: string; color: string; background: string; icon: 'checkmark-circle' | 'close-circle' | 'medkit' | 'ban' }> = {
+  present: { label: 'Present', color: '#16a34a', background: '#dcfce7', icon: 'checkmark-circle' },
+  absent: { label: 'Absent', color: '#dc2626', background: '#fee2e2', icon: 'close-circle' },
+  excused: { label: 'Excused', color: '#d97706', background: '#fef3c7', icon: 'medkit' },
+  cancelled: { label: 'Cancelled', color: '#6b7280', background: '#f3f4f6', icon: 'ban' },
+};
+
 const TIME_SLOTS = [
   '08:00', '09:00', '10:00', '11:00', '12:00', '13:00', '14:00', '15:00', '16:00', '17:00', '18:00'
 ];
@@ -59,6 +94,9 @@ export const WeeklyScheduleCalendar: React.FC<WeeklyScheduleCalendarProps> = ({
   const cacheKey = `weekly_schedule_${userId}`;
   const cachedSchedule = dataCache.get<{ [key: string]: WeeklyClass[] }>(cacheKey);
   const cachedColors = dataCache.get<{ [key: string]: string }>(`schedule_colors_${userId}`);
+  const cachedBlocks = dataCache.get<AcademicBlockBanner[]>(`schedule_blocks_${userId}`);
+  const cachedWeeks = dataCache.get<TeachingWeek[]>(`schedule_weeks_${userId}`);
+  const cachedDayOrders = dataCache.get<{ [key: string]: string }>(`schedule_day_orders_${userId}`);
   
   const [selectedDay, setSelectedDay] = useState<string | null>(null);
   const [selectedClass, setSelectedClass] = useState<WeeklyClass | null>(null);
@@ -66,6 +104,9 @@ export const WeeklyScheduleCalendar: React.FC<WeeklyScheduleCalendarProps> = ({
   const [loading, setLoading] = useState(!cachedSchedule); // Don't show loading if we have cached data
   const [error, setError] = useState<string | null>(null);
   const [subjectColors, setSubjectColors] = useState<{ [key: string]: string }>(cachedColors || {});
+  const [weekBlocks, setWeekBlocks] = useState<AcademicBlockBanner[]>(cachedBlocks || []);
+  const [teachingWeeks, setTeachingWeeks] = useState<TeachingWeek[]>(cachedWeeks || []);
+  const [dayOrderLabels, setDayOrderLabels] = useState<{ [key: string]: string }>(cachedDayOrders || {});
   const [showEditModal, setShowEditModal] = useState(false);
   const [editingClassroomId, setEditingClassroomId] = useState<string | null>(null);
 
@@ -112,9 +153,13 @@ export const WeeklyScheduleCalendar: React.FC<WeeklyScheduleCalendarProps> = ({
 
       const { FirebaseClassroomService } = await import('../../../data/services/ClassroomService');
       const { FirebaseAttendanceService } = await import('../../../data/services/AttendanceService');
+      const { FirebaseCancellationService } = await import('../../../data/services/CancellationService');
+      const { FirebaseAcademicCalendarService } = await import('../../../data/services/AcademicCalendarService');
 
       const classroomService = new FirebaseClassroomService();
       const attendanceService = new FirebaseAttendanceService();
+      const cancellationService = new FirebaseCancellationService();
+      const academicCalendarService = new FirebaseAcademicCalendarService();
 
       // Get user's classrooms
       const classrooms = await classroomService.getUserClassrooms(userId);
@@ -125,9 +170,26 @@ export const WeeklyScheduleCalendar: React.FC<WeeklyScheduleCalendarProps> = ({
         scheduleData[day] = [];
       });
 
-      const today = new Date().toISOString().split('T')[0];
-      const todayDay = new Date().toLocaleDateString('en-US', { weekday: 'long' });
+      const today = getAcademicToday();
+      const todayDay = getAcademicWeekdayName(today);
       const dynamicSubjectColors: { [key: string]: string } = {};
+      const weekDateKeys = getCurrentWeekDates().map(formatDateKey);
+
+      // Today's records are matched to class instances (a subject may meet twice a day)
+      const todayRecords = await attendanceService.getAttendanceRecordsForDate(userId, today);
+
+      // Exams, breaks and events overlapping this week
+      const blocksByClassroom = await academicCalendarService.getBlocksForClassrooms(classrooms.map(c => c.id));
+      const blocksThisWeek: AcademicBlockBanner[] = classrooms
+        .flatMap(classroom => (blocksByClassroom.get(classroom.id) || [])
+          .filter(block => block.endDate >= weekDateKeys[0] && block.startDate <= weekDateKeys[weekDateKeys.length - 1])
+          .map(block => ({ ...block, classroomName: classroom.name })))
+        .sort((a, b) => a.startDate.localeCompare(b.startDate));
+
+      // Classrooms with odd/even or rotating classes, and which week this is for them
+      const weeksThisWeek: TeachingWeek[] = [];
+      // Day orders of this week's days, for classrooms on a day-order timetable
+      const dayOrdersThisWeek: { [key: string]: Set<string> } = {};
 
       // Fetch all data in parallel for much better performance
       const classroomDataPromises = classrooms.map(async (classroom) => {
@@ -135,25 +197,62 @@ export const WeeklyScheduleCalendar: React.FC<WeeklyScheduleCalendarProps> = ({
           // Get schedule for this classroom
           const schedule = await classroomService.getClassroomSchedule(classroom.id);
           if (!schedule) return [];
+          const attendancePolicy = await classroomService.getAttendancePolicy(classroom);
+          // Classes left per subject, projected once for the whole classroom
+          const projection = await attendanceService.getRemainingClassProjection(userId, classroom.id);
+          const getRemaining = (classId: string) => (projection ? projection.get(classId) || 0 : undefined);
+
+          const calendar = await academicCalendarService.getDayOrderCalendar(
+            classroom,
+            schedule,
+            weekDateKeys[weekDateKeys.length - 1]
+          );
+          const todayAttendance = attendanceService.matchRecordsToInstances(
+            getClassInstancesForDate(schedule, today, calendar),
+            todayRecords
+          );
+          const cancelledTodayKeys = new Set(
+            (await cancellationService.getCancellationsForDate(classroom.id, today))
+              .filter(c => c.status === 'confirmed')
+              .map(c => c.instanceKey)
+          );
+
+          // Each day shows the timetable in force on that date, so a change
+          // effective mid-week only shows from its first day, and only the
+          // alternating classes that meet this week. Day-order classes show
+          // under the weekday their day order falls on.
+          const week = getTeachingWeekNumber(getTeachingWeekStart(schedule), weekDateKeys[0]);
+          let alternates = false;
+          const weekClasses = weekDateKeys.flatMap(dateKey => {
+            const day = getDayNameForDate(dateKey);
+            const dayOrder = schedule.dayOrder ? getDayOrderForDate(schedule.dayOrder, dateKey, calendar) : null;
+            const dayOrderName = dayOrder ? getDayOrderName(dayOrder) : null;
+            if (dayOrderName && schedule.dayOrder?.enabled) {
+              (dayOrdersThisWeek[day] = dayOrdersThisWeek[day] || new Set()).add(dayOrderName);
+            }
+            return getTimetableForDate(schedule, dateKey)
+              .filter(cls => {
+                if (cls.recurrence && cls.recurrence.pattern !== 'weekly') alternates = true;
+                return (cls.day === day || cls.day === dayOrderName) && meetsInWeek(cls.recurrence, week);
+              })
+              .map(cls => ({ cls, day }));
+          });
+          if (alternates) {
+            weeksThisWeek.push({ classroomId: classroom.id, classroomName: classroom.name, week });
+          }
 
           // Fetch all class data in parallel
-          const classDataPromises = schedule.classes.map(async (cls) => {
+          const classDataPromises = weekClasses.map(async ({ cls, day }) => {
             try {
-              // Parallel fetch attendance summary and today's record
-              const [attendanceSummary, todayRecord] = await Promise.all([
-                attendanceService.getAttendanceSummary(userId, cls.id, classroom.attendanceTarget)
-                  .catch(err => {
-                    console.warn('Failed to fetch attendance summary:', err);
-                    return null;
-                  }),
-                cls.day === todayDay
-                  ? attendanceService.getAttendanceRecord(userId, cls.id, today)
-                      .catch(err => {
-                        console.warn('Failed to fetch today record:', err);
-                        return null;
-                      })
-                  : Promise.resolve(null)
-              ]);
+              const attendanceSummary = await attendanceService
+                .getAttendanceSummary(userId, cls.id, attendancePolicy, classroom.excusedPolicy, getRemaining(cls.id))
+                .catch(err => {
+                  console.warn('Failed to fetch attendance summary:', err);
+                  return null;
+                });
+              const todayKey = getClassInstanceKey(cls.id, today, cls.startTime);
+              const todayRecord = day === todayDay ? todayAttendance.get(todayKey) : undefined;
+              const isCancelledToday = day === todayDay && cancelledTodayKeys.has(todayKey);
 
               // Generate or get existing color for this subject
               if (!dynamicSubjectColors[cls.name]) {
@@ -161,7 +260,7 @@ export const WeeklyScheduleCalendar: React.FC<WeeklyScheduleCalendarProps> = ({
               }
 
               const weeklyClass: WeeklyClass = {
-                id: cls.id,
+                id: `${cls.id}_${day}_${cls.startTime}`,
                 classId: cls.id,
                 classroomId: classroom.id,
                 subject: cls.name,
@@ -170,9 +269,12 @@ export const WeeklyScheduleCalendar: React.FC<WeeklyScheduleCalendarProps> = ({
                 endTime: cls.endTime,
                 location: cls.location,
                 color: dynamicSubjectColors[cls.name],
-                day: cls.day,
+                day,
+                ...(cls.recurrence && cls.recurrence.pattern !== 'weekly'
+                  ? { recurrenceLabel: describeRecurrence(cls.recurrence) }
+                  : {}),
                 attendanceSummary: attendanceSummary || undefined,
-                todayAttendance: todayRecord?.status || null
+                todayAttendance: isCancelledToday ? 'cancelled' : todayRecord?.status || null
               };
 
               return weeklyClass;
@@ -182,7 +284,42 @@ export const WeeklyScheduleCalendar: React.FC<WeeklyScheduleCalendarProps> = ({
             }
           });
 
-          return Promise.all(classDataPromises);
+          // One-off extra classes only appear in the week they are held
+          const extraClassDataPromises = (schedule.extraClasses || [])
+            .filter(extra => weekDateKeys.includes(extra.date))
+            .map(async (extra) => {
+              const attendanceSummary = await attendanceService
+                .getAttendanceSummary(userId, extra.classId, attendancePolicy, classroom.excusedPolicy, getRemaining(extra.classId))
+                .catch(() => null);
+              const extraKey = getClassInstanceKey(extra.classId, extra.date, extra.startTime);
+              const isToday = extra.date === today;
+
+              if (!dynamicSubjectColors[extra.name]) {
+                dynamicSubjectColors[extra.name] = generateSubjectColor(extra.name);
+              }
+
+              const weeklyClass: WeeklyClass = {
+                id: `${extra.classId}_${extra.date}_${extra.startTime}`,
+                classId: extra.classId,
+                classroomId: classroom.id,
+                subject: extra.name,
+                instructor: extra.instructor,
+                startTime: extra.startTime,
+                endTime: extra.endTime,
+                location: extra.location,
+                color: dynamicSubjectColors[extra.name],
+                day: getDayNameForDate(extra.date),
+                extraKind: extra.kind,
+                attendanceSummary: attendanceSummary || undefined,
+                todayAttendance: isToday && cancelledTodayKeys.has(extraKey)
+                  ? 'cancelled'
+                  : (isToday && todayAttendance.get(extraKey)?.status) || null
+              };
+
+              return weeklyClass;
+            });
+
+          return Promise.all([...classDataPromises, ...extraClassDataPromises]);
         } catch (err) {
           console.warn('Error processing classroom:', err);
           return [];
@@ -206,10 +343,19 @@ export const WeeklyScheduleCalendar: React.FC<WeeklyScheduleCalendarProps> = ({
 
       setWeeklySchedule(scheduleData);
       setSubjectColors(dynamicSubjectColors);
+      setWeekBlocks(blocksThisWeek);
+      setTeachingWeeks(weeksThisWeek);
+      const dayOrderLabelsThisWeek = Object.fromEntries(
+        Object.entries(dayOrdersThisWeek).map(([day, names]) => [day, Array.from(names).join(' / ')])
+      );
+      setDayOrderLabels(dayOrderLabelsThisWeek);
       
       // Cache the schedule for 10 minutes
       dataCache.set(cacheKey, scheduleData, 10 * 60 * 1000);
       dataCache.set(`schedule_colors_${userId}`, dynamicSubjectColors, 10 * 60 * 1000);
+      dataCache.set(`schedule_blocks_${userId}`, blocksThisWeek, 10 * 60 * 1000);
+      dataCache.set(`schedule_weeks_${userId}`, weeksThisWeek, 10 * 60 * 1000);
+      dataCache.set(`schedule_day_orders_${userId}`, dayOrderLabelsThisWeek, 10 * 60 * 1000);
     } catch (err) {
       console.error('Error loading weekly schedule:', err);
       setError('Failed to load schedule data');
@@ -338,6 +484,14 @@ export const WeeklyScheduleCalendar: React.FC<WeeklyScheduleCalendarProps> = ({
               <Text className="text-lg text-gray-600 mb-2">
                 {selectedClass.day} • {selectedClass.startTime} - {selectedClass.endTime}
               </Text>
+              {selectedClass.extraKind && (
+                <Text className="text-sm text-blue-600 mb-2">
+                  {selectedClass.extraKind === 'makeup' ? 'Makeup class' : 'Extra class'} • this week only
+                </Text>
+              )}
+              {selectedClass.recurrenceLabel && (
+                <Text className="text-sm text-purple-600 mb-2">{selectedClass.recurrenceLabel}</Text>
+              )}
 
               <View className="flex-row items-center mb-2">
                 <Ionicons name="person-outline" size={16} color="#6b7280" />
@@ -394,6 +548,11 @@ export const WeeklyScheduleCalendar: React.FC<WeeklyScheduleCalendarProps> = ({
                 <Text className="text-red-600 mt-2">
                   Your attendance is below the required {attendanceSummary.requiredAttendancePercentage}% threshold.
                 </Text>
+                {attendanceSummary.eligibility === 'condonable' && (
+                  <Text className="text-red-600 mt-1 text-sm">
+                    It is within the condonation band, so the shortage can still be condoned.
+                  </Text>
+                )}
               </View>
             ) : (
               <View className="bg-green-100 border border-green-200 rounded-lg p-4 mb-4">
@@ -425,6 +584,18 @@ export const WeeklyScheduleCalendar: React.FC<WeeklyScheduleCalendarProps> = ({
                 <Text className="text-orange-600 font-bold text-xl">{attendanceSummary.classesCanSkip}</Text>
               </View>
 
+              {attendanceSummary.remainingClasses > 0 && (
+                <View className="flex-row items-center justify-between bg-gray-50 rounded-lg p-4">
+                  <View className="flex-row items-center flex-1">
+                    <View className="bg-blue-500 w-4 h-4 rounded-full mr-3"></View>
+                    <Text className="text-gray-700 font-medium">Classes left this semester</Text>
+                  </View>
+                  <Text className="text-blue-600 font-bold text-xl">
+                    {attendanceSummary.remainingClasses} of {attendanceSummary.TotalClassesForSemester}
+                  </Text>
+                </View>
+              )}
+
               <View className="flex-row items-center justify-between bg-gray-50 rounded-lg p-4">
                 <View className="flex-row items-center flex-1">
                   <View className="bg-red-500 w-4 h-4 rounded-full mr-3"></View>
@@ -443,21 +614,21 @@ export const WeeklyScheduleCalendar: React.FC<WeeklyScheduleCalendarProps> = ({
             <View
               className="flex-row items-center p-4 rounded-lg"
               style={{
-                backgroundColor: selectedClass.todayAttendance === 'present' ? '#dcfce7' : '#fee2e2'
+                backgroundColor: TODAY_STATUS_STYLES[selectedClass.todayAttendance].background
               }}
             >
               <Ionicons
-                name={selectedClass.todayAttendance === 'present' ? 'checkmark-circle' : 'close-circle'}
+                name={TODAY_STATUS_STYLES[selectedClass.todayAttendance].icon}
                 size={24}
-                color={selectedClass.todayAttendance === 'present' ? '#16a34a' : '#dc2626'}
+                color={TODAY_STATUS_STYLES[selectedClass.todayAttendance].color}
               />
               <Text
                 className="ml-3 font-bold text-lg"
                 style={{
-                  color: selectedClass.todayAttendance === 'present' ? '#16a34a' : '#dc2626'
+                  color: TODAY_STATUS_STYLES[selectedClass.todayAttendance].color
                 }}
               >
-                {selectedClass.todayAttendance === 'present' ? 'Present' : 'Absent'}
+                {TODAY_STATUS_STYLES[selectedClass.todayAttendance].label}
               </Text>
             </View>
           </View>
@@ -517,6 +688,9 @@ export const WeeklyScheduleCalendar: React.FC<WeeklyScheduleCalendarProps> = ({
                   <Text className="text-lg font-bold text-gray-800 mt-1">
                     {formatDate(weekDates[index])}
                   </Text>
+                  {dayOrderLabels[day] && (
+                    <Text className="text-xs font-medium text-cyan-700">{dayOrderLabels[day]}</Text>
+                  )}
                   {hasClasses && (
                     <View className="flex-row mt-1">
                       {dayClasses.slice(0, 3).map((cls, i) => (
@@ -537,6 +711,39 @@ export const WeeklyScheduleCalendar: React.FC<WeeklyScheduleCalendarProps> = ({
           </View>
         </View>
 
+        {/* Academic Calendar */}
+        {weekBlocks.map(block => (
+          <View
+            key={block.id}
+            className={`mx-4 mt-4 rounded-2xl p-4 border ${block.classesRun ? 'bg-blue-50 border-blue-200' : 'bg-purple-50 border-purple-200'}`}
+          >
+            <Text className={`font-semibold ${block.classesRun ? 'text-blue-800' : 'text-purple-800'}`}>
+              {block.title}
+            </Text>
+            <Text className="text-gray-700 text-sm mt-1">
+              {ACADEMIC_BLOCK_LABELS[block.type]} • {formatBlockDates(block)} • {block.classroomName}
+              {block.classesRun ? ' • classes run as usual' : ' • no regular classes'}
+            </Text>
+          </View>
+        ))}
+
+        {/* Teaching week of alternating timetables */}
+        {teachingWeeks.length > 0 && (
+          <View className="mx-4 mt-4 flex-row flex-wrap">
+            {teachingWeeks.map(teachingWeek => (
+              <View
+                key={teachingWeek.classroomId}
+                className="bg-purple-50 self-start px-3 py-1 rounded-full mr-2 mb-2 flex-row items-center"
+              >
+                <Ionicons name="repeat-outline" size={12} color="#7c3aed" />
+                <Text className="text-xs font-medium text-purple-700 ml-1">
+                  Week {teachingWeek.week} ({teachingWeek.week % 2 === 0 ? 'even' : 'odd'}) • {teachingWeek.classroomName}
+                </Text>
+              </View>
+            ))}
+          </View>
+        )}
+
         {/* Overall Stats */}
         {/* {allClasses.length > 0 && (
           <View className="bg-white mx-4 mt-4 rounded-2xl p-4 border border-gray-100">
@@ -604,7 +811,7 @@ export const WeeklyScheduleCalendar: React.FC<WeeklyScheduleCalendarProps> = ({
                           }}
                         >
                           <Text className="text-xs font-semibold text-gray-800" numberOfLines={1}>
-                            {cls.subject}
+                            {cls.extraKind ? '+ ' : ''}{cls.subject}
                           </Text>
                           <Text className="text-xs text-gray-500" numberOfLines={1}>
                             {cls.startTime} - {cls.endTime}
@@ -626,7 +833,7 @@ export const WeeklyScheduleCalendar: React.FC<WeeklyScheduleCalendarProps> = ({
                                 <View
                                   className="w-2 h-2 rounded-full"
                                   style={{
-                                    backgroundColor: cls.todayAttendance === 'present' ? '#10b981' : '#ef4444'
+                                    backgroundColor: TODAY_STATUS_STYLES[cls.todayAttendance].color
                                   }}
                                 />
                               )}
@@ -721,6 +928,15 @@ export const WeeklyScheduleCalendar: React.FC<WeeklyScheduleCalendarProps> = ({
                         </View>
                       </View>
 
+                      {cls.extraKind && (
+                        <Text className="text-xs text-blue-600 mb-1">
+                          {cls.extraKind === 'makeup' ? 'Makeup class' : 'Extra class'}
+                        </Text>
+                      )}
+                      {cls.recurrenceLabel && (
+                        <Text className="text-xs text-purple-600 mb-1">{cls.recurrenceLabel}</Text>
+                      )}
+
                       <View className="flex-row items-center mb-1">
                         <Ionicons name="person-outline" size={14} color="#6b7280" />
                         <Text className="text-gray-600 ml-2 text-sm">{cls.instructor}</Text>
@@ -753,16 +969,16 @@ export const WeeklyScheduleCalendar: React.FC<WeeklyScheduleCalendarProps> = ({
                                 <View
                                   className="w-2 h-2 rounded-full mr-1"
                                   style={{
-                                    backgroundColor: cls.todayAttendance === 'present' ? '#10b981' : '#ef4444'
+                                    backgroundColor: TODAY_STATUS_STYLES[cls.todayAttendance].color
                                   }}
                                 />
                                 <Text
                                   className="text-xs font-medium"
                                   style={{
-                                    color: cls.todayAttendance === 'present' ? '#10b981' : '#ef4444'
+                                    color: TODAY_STATUS_STYLES[cls.todayAttendance].color
                                   }}
                                 >
-                                  {cls.todayAttendance === 'present' ? 'Present' : 'Absent'}
+                                  {TODAY_STATUS_STYLES[cls.todayAttendance].label}
                                 </Text>
                               </View>
                             )}
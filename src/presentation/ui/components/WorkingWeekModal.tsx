@@ -0,0 +1,167 @@
+import { Ionicons } from '@expo/vector-icons';
+import React, { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Modal,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { addDaysToDateKey, getAcademicToday, getWeekdayIndex } from '../../../core/utils/AcademicDateUtils';
+import { SATURDAY_RULE_LABELS } from '../../../core/utils/SemesterUtils';
+import { FirebaseClassroomService } from '../../../data/services/ClassroomService';
+import { SaturdayRule, WorkingWeekRules } from '../../../domain/model/Classroom';
+
+interface WorkingWeekModalProps {
+  visible: boolean;
+  onClose: () => void;
+  classroomId: string;
+  workingWeek?: WorkingWeekRules | null;
+  onUpdated: () => void;
+}
+
+const SATURDAY_RULE_DESCRIPTIONS: Record<SaturdayRule, string> = {
+  working: 'Classes every Saturday',
+  off: 'Monday to Friday only',
+  second_fourth_off: 'The 2nd and 4th Saturday of every month are off',
+  first_third_off: 'The 1st and 3rd Saturday of every month are off',
+  alternate_off: 'Every other Saturday is off',
+  half_day: 'Saturdays count as half a working day',
+};
+
+const SATURDAY_RULES = Object.keys(SATURDAY_RULE_LABELS) as SaturdayRule[];
+
+// Create service instance once
+let classroomServiceInstance: FirebaseClassroomService | null = null;
+
+const getClassroomService = () => {
+  if (!classroomServiceInstance) {
+    classroomServiceInstance = new FirebaseClassroomService();
+  }
+  return classroomServiceInstance;
+};
+
+// Today when it is a Saturday, otherwise the coming one
+const getUpcomingSaturday = () => {
+  const today = getAcademicToday();
+  return addDaysToDateKey(today, (6 - getWeekdayIndex(today) + 7) % 7);
+};
+
+export const WorkingWeekModal: React.FC<WorkingWeekModalProps> = ({
+  visible,
+  onClose,
+  classroomId,
+  workingWeek,
+  onUpdated,
+}) => {
+  const [saturdays, setSaturdays] = useState<SaturdayRule>(workingWeek?.saturdays || 'working');
+  const [upcomingSaturdayOff, setUpcomingSaturdayOff] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!visible) return;
+    setSaturdays(workingWeek?.saturdays || 'working');
+
+    // An upcoming Saturday is off when it is an even number of weeks from the saved one
+    const upcoming = getUpcomingSaturday();
+    const reference = workingWeek?.alternateOffFrom;
+    const weeksApart = reference
+      ? Math.round((Date.parse(upcoming) - Date.parse(reference)) / (7 * 86400000))
+      : 0;
+    setUpcomingSaturdayOff(weeksApart % 2 === 0);
+  }, [visible, workingWeek]);
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const upcoming = getUpcomingSaturday();
+      const rules: WorkingWeekRules | null = saturdays === 'working'
+        ? null
+        : {
+          saturdays,
+          alternateOffFrom: upcomingSaturdayOff ? upcoming : addDaysToDateKey(upcoming, 7),
+        };
+
+      const result = await getClassroomService().updateWorkingWeek(classroomId, rules);
+      if (!result.success) {
+        Alert.alert('Error', result.error || 'Failed to update working week');
+        return;
+      }
+      onUpdated();
+      onClose();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <View className="flex-1 justify-end bg-black/40">
+        <View className="bg-white rounded-t-3xl p-6">
+          <View className="flex-row items-center justify-between mb-1">
+            <Text className="text-lg font-bold text-gray-800">Working Saturdays</Text>
+            <TouchableOpacity onPress={onClose}>
+              <Ionicons name="close" size={24} color="#6b7280" />
+            </TouchableOpacity>
+          </View>
+          <Text className="text-sm text-gray-500 mb-4">
+            Used to count working days left in the semester and the classes you can still skip
+          </Text>
+
+          {SATURDAY_RULES.map(rule => (
+            <TouchableOpacity
+              key={rule}
+              onPress={() => setSaturdays(rule)}
+              className={`flex-row items-center p-3 rounded-xl mb-2 border ${
+                saturdays === rule ? 'border-green-500 bg-green-50' : 'border-gray-100'
+              }`}
+            >
+              <View className="flex-1">
+                <Text className="font-medium text-gray-800">{SATURDAY_RULE_LABELS[rule]}</Text>
+                <Text className="text-xs text-gray-500">{SATURDAY_RULE_DESCRIPTIONS[rule]}</Text>
+              </View>
+              {saturdays === rule && <Ionicons name="checkmark-circle" size={20} color="#22c55e" />}
+            </TouchableOpacity>
+          ))}
+
+          {saturdays === 'alternate_off' && (
+            <View className="mt-2">
+              <Text className="text-gray-700 font-medium mb-2">This coming Saturday is</Text>
+              <View className="flex-row flex-wrap">
+                {[true, false].map(isOff => (
+                  <TouchableOpacity
+                    key={isOff ? 'off' : 'working'}
+                    onPress={() => setUpcomingSaturdayOff(isOff)}
+                    className={`px-4 py-2 rounded-lg mr-2 mb-2 ${upcomingSaturdayOff === isOff ? 'bg-green-500' : 'bg-gray-100'}`}
+                  >
+                    <Text className={upcomingSaturdayOff === isOff ? 'text-white font-medium' : 'text-gray-700'}>
+                      {isOff ? 'Off' : 'Working'}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </View>
+          )}
+
+          <TouchableOpacity
+            onPress={handleSave}
+            disabled={saving}
+            className="bg-green-500 py-3 rounded-xl items-center mt-4 mb-4"
+          >
+            {saving ? (
+              <ActivityIndicator size="small" color="white" />
+            ) : (
+              <Text className="text-white font-semibold">Save</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+};
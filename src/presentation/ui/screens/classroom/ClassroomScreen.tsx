@@ -1,10 +1,29 @@
 import { Ionicons } from '@expo/vector-icons';
 import * as Clipboard from 'expo-clipboard';
 import React, { useEffect, useRef, useState } from 'react';
-import { Dimensions, Modal, RefreshControl, ScrollView, Text, TouchableOpacity, View } from 'react-native';
+import { Alert, Dimensions, Modal, RefreshControl, ScrollView, Text, TouchableOpacity, View } from 'react-native';
+import { addDaysToDateKey, getAcademicToday } from '../../../../core/utils/AcademicDateUtils';
+import { describePolicy } from '../../../../core/utils/AttendancePolicyUtils';
+import { SESSION_TYPE_LABELS } from '../../../../core/utils/ScheduleUtils';
+import { describeWorkingWeek } from '../../../../core/utils/SemesterUtils';
 import { FirebaseAttendanceService } from '../../../../data/services/AttendanceService';
+import { ClassroomOverviewData } from '../../../../data/services/ClassroomAnalyticsService';
 import { FirebaseClassroomService } from '../../../../data/services/ClassroomService';
+import { ExcusedAttendancePolicy, SessionTypeAttendance } from '../../../../domain/model/Attendance';
 import { useClassroomAnalytics } from '../../../hooks/useClassroomAnalytics';
+import { AcademicCalendarModal } from '../../components/AcademicCalendarModal';
+import { AttendanceHistoryModal } from '../../components/AttendanceHistoryModal';
+import { AttendancePolicyModal } from '../../components/AttendancePolicyModal';
+import { BunkSimulatorModal } from '../../components/BunkSimulatorModal';
+import { DayOrderModal } from '../../components/DayOrderModal';
+import { HolidayCalendarModal } from '../../components/HolidayCalendarModal';
+import { InitialAttendanceModal } from '../../components/InitialAttendanceModal';
+import { WorkingWeekModal } from '../../components/WorkingWeekModal';
+import { PastAttendanceModal } from '../../components/PastAttendanceModal';
+import { SemesterHeatmapModal } from '../../components/SemesterHeatmapModal';
+import { SemesterHistoryModal } from '../../components/SemesterHistoryModal';
+import { SemesterRolloverModal } from '../../components/SemesterRolloverModal';
+import { TimetableHistoryModal } from '../../components/TimetableHistoryModal';
 import { WeeklyScheduleCalendar } from '../../components/WeeklyScheduleCalendar';
 import { ClassroomSkeleton } from '../../components/skeletons';
 
@@ -34,10 +53,23 @@ interface ClassroomScreenProps {
 
 export const ClassroomScreen: React.FC<ClassroomScreenProps> = ({ userId }) => {
   const [showWeeklySchedule, setShowWeeklySchedule] = useState(false);
+  const [showPastAttendance, setShowPastAttendance] = useState(false);
+  const [showInitialAttendance, setShowInitialAttendance] = useState(false);
+  const [showSemesterHeatmap, setShowSemesterHeatmap] = useState(false);
+  const [showBunkSimulator, setShowBunkSimulator] = useState(false);
+  const [showSemesterHistory, setShowSemesterHistory] = useState(false);
   const [currentSubjectPage, setCurrentSubjectPage] = useState(0);
   const [selectedSubject, setSelectedSubject] = useState<any>(null);
   const [subjectDetails, setSubjectDetails] = useState<any>(null);
   const [loadingDetails, setLoadingDetails] = useState(false);
+  const [historyRecord, setHistoryRecord] = useState<{ recordId: string; title: string } | null>(null);
+  const [policyClassroom, setPolicyClassroom] = useState<ClassroomOverviewData | null>(null);
+  const [holidayClassroom, setHolidayClassroom] = useState<ClassroomOverviewData | null>(null);
+  const [workingWeekClassroom, setWorkingWeekClassroom] = useState<ClassroomOverviewData | null>(null);
+  const [rolloverClassroom, setRolloverClassroom] = useState<ClassroomOverviewData | null>(null);
+  const [calendarClassroom, setCalendarClassroom] = useState<ClassroomOverviewData | null>(null);
+  const [timetableClassroom, setTimetableClassroom] = useState<ClassroomOverviewData | null>(null);
+  const [dayOrderClassroom, setDayOrderClassroom] = useState<ClassroomOverviewData | null>(null);
   const { analytics, loading, error, refreshing, refresh } = useClassroomAnalytics(userId);
   
   // Always show skeleton initially for instant render
@@ -68,11 +100,8 @@ export const ClassroomScreen: React.FC<ClassroomScreenProps> = ({ userId }) => {
         const attendanceService = getAttendanceService();
 
         // Fetch schedule and prepare attendance dates in parallel
-        const dates = Array.from({ length: 7 }, (_, i) => {
-          const date = new Date();
-          date.setDate(date.getDate() - i);
-          return date.toISOString().split('T')[0];
-        });
+        const today = getAcademicToday();
+        const dates = Array.from({ length: 7 }, (_, i) => addDaysToDateKey(today, -i));
 
         const [schedule] = await Promise.all([
           classroomService.getClassroomSchedule(selectedSubject.classroomId)
@@ -83,35 +112,43 @@ export const ClassroomScreen: React.FC<ClassroomScreenProps> = ({ userId }) => {
         
         // Get recent attendance records (last 5 days) with parallel fetching
         let recentAttendance: Array<{
+          recordId: string;
           date: string;
           status: string;
           time: string;
         }> = [];
         
         if (selectedSubject.classId) {
-          // Fetch all attendance records in parallel (much faster than sequential)
+          // Fetch each day's records in parallel (much faster than sequential);
+          // a day can hold several instances of the same class
           const attendancePromises = dates.slice(0, 5).map(date =>
-            attendanceService.getAttendanceRecord(userId, selectedSubject.classId, date)
-              .then(record => ({ date, record }))
+            attendanceService.getAttendanceRecordsForDate(userId, date)
+              .then(records => records
+                .filter(record => record.classId === selectedSubject.classId)
+                .sort((a, b) => (a.startTime || '').localeCompare(b.startTime || '')))
               .catch(err => {
                 console.warn('Failed to fetch attendance for', date, err);
-                return { date, record: null };
+                return [];
               })
           );
 
           const attendanceResults = await Promise.all(attendancePromises);
           
-          recentAttendance = attendanceResults
-            .filter(({ record }) => record !== null)
-            .map(({ date, record }) => ({
-              date: new Date(date).toLocaleDateString('en-US', { 
+          recentAttendance = attendanceResults.flat().map(record => {
+            const slot = schedule?.classes.find(
+              (cls: any) => cls.id === record.classId && cls.startTime === record.startTime
+            ) || classDetails;
+            return {
+              recordId: record.id,
+              date: new Date(record.date).toLocaleDateString('en-US', { 
                 weekday: 'short', 
                 month: 'short', 
                 day: 'numeric' 
               }),
-              status: record!.status,
-              time: classDetails ? `${classDetails.startTime} - ${classDetails.endTime}` : 'N/A'
-            }));
+              status: record.status,
+              time: slot ? `${slot.startTime} - ${slot.endTime}` : 'N/A'
+            };
+          });
         }
 
         // Only update state if component is still mounted
@@ -144,6 +181,51 @@ export const ClassroomScreen: React.FC<ClassroomScreenProps> = ({ userId }) => {
   const endIndex = startIndex + SUBJECTS_PER_PAGE;
   const currentSubjects = subjects.slice(startIndex, endIndex);
 
+  // Admins switch how excused (duty/medical leave) classes count in their classroom
+  const handleToggleExcusedPolicy = (classroomId: string, currentPolicy?: ExcusedAttendancePolicy) => {
+    const nextPolicy: ExcusedAttendancePolicy = currentPolicy === 'count_as_present' ? 'exclude' : 'count_as_present';
+    const description = nextPolicy === 'count_as_present'
+      ? 'Excused classes will count as attended.'
+      : 'Excused classes will be left out of the total.';
+
+    Alert.alert('Change Leave Policy', description, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Change',
+        onPress: async () => {
+          const result = await getClassroomService().updateExcusedPolicy(classroomId, nextPolicy);
+          if (!result.success) {
+            Alert.alert('Error', result.error || 'Failed to update leave policy');
+            return;
+          }
+          await getAttendanceService().refreshClassroomStats(userId, classroomId);
+          refresh();
+        },
+      },
+    ]);
+  };
+
+  const handleToggleSessionReporting = (classroomId: string, reportSeparately?: boolean) => {
+    const description = reportSeparately
+      ? 'Lab, tutorial and theory classes will be reported as one percentage.'
+      : 'Lab, tutorial and theory attendance will also be shown separately.';
+
+    Alert.alert('Change Session Reporting', description, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Change',
+        onPress: async () => {
+          const result = await getClassroomService().updateSessionReporting(classroomId, !reportSeparately);
+          if (!result.success) {
+            Alert.alert('Error', result.error || 'Failed to update session reporting');
+            return;
+          }
+          refresh();
+        },
+      },
+    ]);
+  };
+
   const handlePreviousPage = () => {
     setCurrentSubjectPage((prev) => Math.max(0, prev - 1));
   };
@@ -245,6 +327,106 @@ export const ClassroomScreen: React.FC<ClassroomScreenProps> = ({ userId }) => {
                               <Ionicons name="copy-outline" size={12} color="#374151" />
                             </TouchableOpacity>
                           )}
+                          <TouchableOpacity
+                            className="bg-amber-50 self-start px-3 py-1 rounded-full mt-2 flex-row items-center"
+                            activeOpacity={0.7}
+                            disabled={!classroom.isAdmin}
+                            onPress={() => handleToggleExcusedPolicy(classroom.id, classroom.excusedPolicy)}
+                          >
+                            <Ionicons name="medkit-outline" size={12} color="#b45309" />
+                            <Text className="text-xs font-medium text-amber-700 ml-1">
+                              Leave: {classroom.excusedPolicy === 'count_as_present' ? 'counted as present' : 'not counted'}
+                            </Text>
+                          </TouchableOpacity>
+                          <TouchableOpacity
+                            className="bg-blue-50 self-start px-3 py-1 rounded-full mt-2 flex-row items-center"
+                            activeOpacity={0.7}
+                            disabled={!classroom.isAdmin}
+                            onPress={() => handleToggleSessionReporting(classroom.id, classroom.reportSessionTypesSeparately)}
+                          >
+                            <Ionicons name="flask-outline" size={12} color="#1d4ed8" />
+                            <Text className="text-xs font-medium text-blue-700 ml-1">
+                              Labs: {classroom.reportSessionTypesSeparately ? 'reported separately' : 'combined with theory'}
+                            </Text>
+                          </TouchableOpacity>
+                          {classroom.attendancePolicy && (
+                            <TouchableOpacity
+                              className="bg-purple-50 self-start px-3 py-1 rounded-full mt-2 flex-row items-center"
+                              activeOpacity={0.7}
+                              disabled={!classroom.isAdmin}
+                              onPress={() => setPolicyClassroom(classroom)}
+                            >
+                              <Ionicons name="shield-checkmark-outline" size={12} color="#7c3aed" />
+                              <Text className="text-xs font-medium text-purple-700 ml-1">
+                                Policy: {describePolicy(classroom.attendancePolicy)}
+                              </Text>
+                            </TouchableOpacity>
+                          )}
+                          <TouchableOpacity
+                            className="bg-orange-50 self-start px-3 py-1 rounded-full mt-2 flex-row items-center"
+                            activeOpacity={0.7}
+                            onPress={() => setHolidayClassroom(classroom)}
+                          >
+                            <Ionicons name="sunny-outline" size={12} color="#c2410c" />
+                            <Text className="text-xs font-medium text-orange-700 ml-1">
+                              Holidays: {classroom.holidayState ? `national + ${classroom.holidayState}` : 'national'}
+                            </Text>
+                          </TouchableOpacity>
+                          <TouchableOpacity
+                            className="bg-teal-50 self-start px-3 py-1 rounded-full mt-2 flex-row items-center"
+                            activeOpacity={0.7}
+                            disabled={!classroom.isAdmin}
+                            onPress={() => setWorkingWeekClassroom(classroom)}
+                          >
+                            <Ionicons name="calendar-outline" size={12} color="#0f766e" />
+                            <Text className="text-xs font-medium text-teal-700 ml-1">
+                              Week: {describeWorkingWeek(classroom.workingWeek)}
+                            </Text>
+                          </TouchableOpacity>
+                          <TouchableOpacity
+                            className="bg-cyan-50 self-start px-3 py-1 rounded-full mt-2 flex-row items-center"
+                            activeOpacity={0.7}
+                            onPress={() => setDayOrderClassroom(classroom)}
+                          >
+                            <Ionicons name="list-outline" size={12} color="#0e7490" />
+                            <Text className="text-xs font-medium text-cyan-700 ml-1">
+                              Timetable: {classroom.dayOrder?.enabled
+                                ? classroom.todayDayOrder ? `Day ${classroom.todayDayOrder} today` : 'day order, no classes today'
+                                : 'weekdays'}
+                            </Text>
+                          </TouchableOpacity>
+                          <TouchableOpacity
+                            className="bg-rose-50 self-start px-3 py-1 rounded-full mt-2 flex-row items-center"
+                            activeOpacity={0.7}
+                            onPress={() => setCalendarClassroom(classroom)}
+                          >
+                            <Ionicons name="document-text-outline" size={12} color="#be123c" />
+                            <Text className="text-xs font-medium text-rose-700 ml-1">
+                              Exams & breaks
+                            </Text>
+                          </TouchableOpacity>
+                          <TouchableOpacity
+                            className="bg-sky-50 self-start px-3 py-1 rounded-full mt-2 flex-row items-center"
+                            activeOpacity={0.7}
+                            onPress={() => setTimetableClassroom(classroom)}
+                          >
+                            <Ionicons name="git-compare-outline" size={12} color="#0369a1" />
+                            <Text className="text-xs font-medium text-sky-700 ml-1">
+                              Timetable history
+                            </Text>
+                          </TouchableOpacity>
+                          <TouchableOpacity
+                            className="bg-indigo-50 self-start px-3 py-1 rounded-full mt-2 flex-row items-center"
+                            activeOpacity={0.7}
+                            disabled={!classroom.isAdmin}
+                            onPress={() => setRolloverClassroom(classroom)}
+                          >
+                            <Ionicons name="school-outline" size={12} color="#4338ca" />
+                            <Text className="text-xs font-medium text-indigo-700 ml-1">
+                              Semester: {classroom.currentSemester?.name || 'first'}
+                              {classroom.isAdmin ? ' · start next' : ''}
+                            </Text>
+                          </TouchableOpacity>
                         </View>
                       </View>
                       <View className="items-end ml-3">
@@ -279,6 +461,61 @@ export const ClassroomScreen: React.FC<ClassroomScreenProps> = ({ userId }) => {
                 <Text className="text-white font-medium ml-2">View Timetable</Text>
               </View>
             </TouchableOpacity>
+
+            <TouchableOpacity
+              onPress={() => setShowSemesterHeatmap(true)}
+              className="bg-white border border-green-500 px-2 items-center py-2 rounded-lg mx-2 mb-2"
+              activeOpacity={0.7}
+            >
+              <View className="flex-row items-center">
+                <Ionicons name="grid-outline" size={16} color="#22c55e" />
+                <Text className="text-green-600 font-medium ml-2">Semester Calendar</Text>
+              </View>
+            </TouchableOpacity>
+
+            <TouchableOpacity
+              onPress={() => setShowPastAttendance(true)}
+              className="bg-white border border-green-500 px-2 items-center py-2 rounded-lg mx-2 mb-2"
+              activeOpacity={0.7}
+            >
+              <View className="flex-row items-center">
+                <Ionicons name="calendar-outline" size={16} color="#22c55e" />
+                <Text className="text-green-600 font-medium ml-2">Mark Past Attendance</Text>
+              </View>
+            </TouchableOpacity>
+
+            <TouchableOpacity
+              onPress={() => setShowInitialAttendance(true)}
+              className="bg-white border border-green-500 px-2 items-center py-2 rounded-lg mx-2 mb-2"
+              activeOpacity={0.7}
+            >
+              <View className="flex-row items-center">
+                <Ionicons name="document-text-outline" size={16} color="#22c55e" />
+                <Text className="text-green-600 font-medium ml-2">Enter Portal Attendance</Text>
+              </View>
+            </TouchableOpacity>
+
+            <TouchableOpacity
+              onPress={() => setShowBunkSimulator(true)}
+              className="bg-white border border-green-500 px-2 items-center py-2 rounded-lg mx-2 mb-2"
+              activeOpacity={0.7}
+            >
+              <View className="flex-row items-center">
+                <Ionicons name="flask-outline" size={16} color="#22c55e" />
+                <Text className="text-green-600 font-medium ml-2">What-if Planner</Text>
+              </View>
+            </TouchableOpacity>
+
+            <TouchableOpacity
+              onPress={() => setShowSemesterHistory(true)}
+              className="bg-white border border-green-500 px-2 items-center py-2 rounded-lg mx-2 mb-2"
+              activeOpacity={0.7}
+            >
+              <View className="flex-row items-center">
+                <Ionicons name="archive-outline" size={16} color="#22c55e" />
+                <Text className="text-green-600 font-medium ml-2">Past Semesters</Text>
+              </View>
+            </TouchableOpacity>
             
           </View>
 
@@ -456,7 +693,38 @@ export const ClassroomScreen: React.FC<ClassroomScreenProps> = ({ userId }) => {
             </View>
           </View>
 
-
+          {/* Absence Reasons */}
+          {analytics.absenceReasons?.totalAbsences > 0 && (
+            <View className="bg-white rounded-3xl p-6 mb-6 border border-gray-100">
+              <Text className="text-xl font-bold text-gray-800 mb-1">Absence Reasons</Text>
+              <Text className="text-sm text-gray-500 mb-4">
+                {analytics.absenceReasons.totalAbsences} missed {analytics.absenceReasons.totalAbsences === 1 ? 'class' : 'classes'} this semester
+              </Text>
+              {([
+                { title: 'By Reason', items: analytics.absenceReasons.byCategory, color: '#ef4444' },
+                { title: 'By Subject', items: analytics.absenceReasons.bySubject, color: '#f59e0b' },
+                { title: 'By Weekday', items: analytics.absenceReasons.byWeekday, color: '#8b5cf6' },
+              ]).map(breakdown => (
+                <View key={breakdown.title} className="mb-4">
+                  <Text className="text-gray-700 font-semibold mb-2">{breakdown.title}</Text>
+                  {breakdown.items.map(item => (
+                    <View key={item.key} className="mb-2">
+                      <View className="flex-row justify-between mb-1">
+                        <Text className="text-sm text-gray-700" numberOfLines={1}>{item.label}</Text>
+                        <Text className="text-sm text-gray-500">{item.count} • {item.percentage}%</Text>
+                      </View>
+                      <View className="h-2 bg-gray-100 rounded-full overflow-hidden">
+                        <View
+                          className="h-full rounded-full"
+                          style={{ width: `${item.percentage}%`, backgroundColor: breakdown.color }}
+                        />
+                      </View>
+                    </View>
+                  ))}
+                </View>
+              ))}
+            </View>
+          )}
 
           {/* Stats Grid */}
           <View className="mb-6">
@@ -495,6 +763,132 @@ export const ClassroomScreen: React.FC<ClassroomScreenProps> = ({ userId }) => {
         userId={userId}
       />
 
+      {/* Semester Heatmap */}
+      <SemesterHeatmapModal
+        visible={showSemesterHeatmap}
+        onClose={() => setShowSemesterHeatmap(false)}
+        userId={userId}
+      />
+
+      {/* Backdated Attendance */}
+      <PastAttendanceModal
+        visible={showPastAttendance}
+        onClose={() => setShowPastAttendance(false)}
+        userId={userId}
+        onAttendanceUpdated={refresh}
+      />
+
+      {/* Attendance from before tracking started */}
+      <InitialAttendanceModal
+        visible={showInitialAttendance}
+        onClose={() => setShowInitialAttendance(false)}
+        userId={userId}
+        onSaved={refresh}
+      />
+
+      {/* Attendance Policy */}
+      {policyClassroom && (
+        <AttendancePolicyModal
+          visible={!!policyClassroom}
+          onClose={() => setPolicyClassroom(null)}
+          classroomId={policyClassroom.id}
+          policy={policyClassroom.attendancePolicy}
+          hasOwnPolicy={policyClassroom.hasOwnPolicy}
+          onPolicyUpdated={refresh}
+        />
+      )}
+
+      {/* Holiday Calendar */}
+      {holidayClassroom && (
+        <HolidayCalendarModal
+          visible={!!holidayClassroom}
+          onClose={() => setHolidayClassroom(null)}
+          userId={userId}
+          classroomId={holidayClassroom.id}
+          university={holidayClassroom.university}
+          holidayState={holidayClassroom.holidayState}
+          isAdmin={holidayClassroom.isAdmin}
+          onUpdated={refresh}
+        />
+      )}
+
+      {/* Working Week */}
+      {workingWeekClassroom && (
+        <WorkingWeekModal
+          visible={!!workingWeekClassroom}
+          onClose={() => setWorkingWeekClassroom(null)}
+          classroomId={workingWeekClassroom.id}
+          workingWeek={workingWeekClassroom.workingWeek}
+          onUpdated={refresh}
+        />
+      )}
+
+      {/* Academic Calendar */}
+      {calendarClassroom && (
+        <AcademicCalendarModal
+          visible={!!calendarClassroom}
+          onClose={() => setCalendarClassroom(null)}
+          userId={userId}
+          classroomId={calendarClassroom.id}
+          classroomName={calendarClassroom.name}
+          isAdmin={calendarClassroom.isAdmin}
+          onUpdated={refresh}
+        />
+      )}
+
+      {/* Day Order */}
+      {dayOrderClassroom && (
+        <DayOrderModal
+          visible={!!dayOrderClassroom}
+          onClose={() => setDayOrderClassroom(null)}
+          userId={userId}
+          classroomId={dayOrderClassroom.id}
+          classroomName={dayOrderClassroom.name}
+          university={dayOrderClassroom.university}
+          holidayState={dayOrderClassroom.holidayState}
+          workingWeek={dayOrderClassroom.workingWeek}
+          isAdmin={dayOrderClassroom.isAdmin}
+          onUpdated={refresh}
+        />
+      )}
+
+      {/* Timetable History */}
+      {timetableClassroom && (
+        <TimetableHistoryModal
+          visible={!!timetableClassroom}
+          onClose={() => setTimetableClassroom(null)}
+          classroomId={timetableClassroom.id}
+          classroomName={timetableClassroom.name}
+        />
+      )}
+
+      {/* Semester Rollover */}
+      {rolloverClassroom && (
+        <SemesterRolloverModal
+          visible={!!rolloverClassroom}
+          onClose={() => setRolloverClassroom(null)}
+          userId={userId}
+          classroomId={rolloverClassroom.id}
+          classroomName={rolloverClassroom.name}
+          currentSemester={rolloverClassroom.currentSemester}
+          onRolledOver={refresh}
+        />
+      )}
+
+      {/* Past Semesters */}
+      <SemesterHistoryModal
+        visible={showSemesterHistory}
+        onClose={() => setShowSemesterHistory(false)}
+        userId={userId}
+      />
+
+      {/* What-if Bunk Planner */}
+      <BunkSimulatorModal
+        visible={showBunkSimulator}
+        onClose={() => setShowBunkSimulator(false)}
+        userId={userId}
+      />
+
       {/* Subject Detail Modal */}
       {selectedSubject && (
         <Modal
@@ -636,6 +1030,21 @@ export const ClassroomScreen: React.FC<ClassroomScreenProps> = ({ userId }) => {
                   </View>
                 </View>
 
+                {/* Lab / tutorial / theory split */}
+                {selectedSubject.sessionBreakdown && (
+                  <View className="flex-row mb-4">
+                    {(selectedSubject.sessionBreakdown as SessionTypeAttendance[]).map(session => (
+                      <View key={session.sessionType} className="flex-1 bg-gray-50 rounded-xl p-3 mx-1 items-center">
+                        <Text className="text-xs text-gray-500">{SESSION_TYPE_LABELS[session.sessionType]}</Text>
+                        <Text className="text-lg font-bold text-gray-800">{String(session.attendancePercentage)}%</Text>
+                        <Text className="text-xs text-gray-500">
+                          {String(session.attendedClasses)}/{String(session.totalClasses)} units
+                        </Text>
+                      </View>
+                    ))}
+                  </View>
+                )}
+
                 {/* Attendance Status */}
                 {(selectedSubject.attendance || 0) < (selectedSubject.targetPercentage || 75) ? (
                   <View className="bg-red-100 border border-red-200 rounded-lg p-4 mb-4">
@@ -696,20 +1105,26 @@ export const ClassroomScreen: React.FC<ClassroomScreenProps> = ({ userId }) => {
               {/* Recent Attendance */}
               {subjectDetails?.recentAttendance && subjectDetails.recentAttendance.length > 0 ? (
                 <View className="bg-white rounded-2xl p-6 mb-4 border border-gray-100">
-                  <Text className="text-xl font-bold text-gray-800 mb-4">🗓️ Recent Attendance</Text>
+                  <Text className="text-xl font-bold text-gray-800 mb-1">🗓️ Recent Attendance</Text>
+                  <Text className="text-xs text-gray-500 mb-4">Tap a class to see its change history</Text>
                   <View>
                     {subjectDetails.recentAttendance.slice(0, 5).map((record: any, index: number) => (
-                      <View
+                      <TouchableOpacity
                         key={index}
+                        onPress={() => setHistoryRecord({
+                          recordId: record.recordId,
+                          title: `${subjectDetails?.name || selectedSubject?.name || ''} • ${record.date}${record.time ? ` • ${record.time}` : ''}`,
+                        })}
+                        activeOpacity={0.7}
                         className={`flex-row items-center justify-between p-4 rounded-lg mb-2 ${
-                          record.status === 'present' ? 'bg-green-50' : 'bg-red-50'
+                          record.status === 'present' ? 'bg-green-50' : record.status === 'excused' ? 'bg-amber-50' : 'bg-red-50'
                         }`}
                       >
                         <View className="flex-row items-center flex-1">
                           <Ionicons
-                            name={record.status === 'present' ? 'checkmark-circle' : 'close-circle'}
+                            name={record.status === 'present' ? 'checkmark-circle' : record.status === 'excused' ? 'medkit' : 'close-circle'}
                             size={20}
-                            color={record.status === 'present' ? '#16a34a' : '#dc2626'}
+                            color={record.status === 'present' ? '#16a34a' : record.status === 'excused' ? '#d97706' : '#dc2626'}
                           />
                           <View className="ml-3">
                             <Text className="text-gray-800 font-medium">
@@ -723,12 +1138,13 @@ export const ClassroomScreen: React.FC<ClassroomScreenProps> = ({ userId }) => {
                         <Text
                           className="text-sm font-bold"
                           style={{
-                            color: record.status === 'present' ? '#16a34a' : '#dc2626'
+                            color: record.status === 'present' ? '#16a34a' : record.status === 'excused' ? '#d97706' : '#dc2626'
                           }}
                         >
-                          {record.status === 'present' ? 'Present' : 'Absent'}
+                          {record.status === 'present' ? 'Present' : record.status === 'excused' ? 'Excused' : 'Absent'}
                         </Text>
-                      </View>
+                        <Ionicons name="time-outline" size={16} color="#9ca3af" style={{ marginLeft: 8 }} />
+                      </TouchableOpacity>
                     ))}
                   </View>
                 </View>
@@ -746,6 +1162,15 @@ export const ClassroomScreen: React.FC<ClassroomScreenProps> = ({ userId }) => {
             </ScrollView>
             )}
           </View>
+
+          {/* Attendance Change History */}
+          <AttendanceHistoryModal
+            visible={!!historyRecord}
+            onClose={() => setHistoryRecord(null)}
+            userId={userId}
+            recordId={historyRecord?.recordId || null}
+            title={historyRecord?.title}
+          />
         </Modal>
       )}
     </View>
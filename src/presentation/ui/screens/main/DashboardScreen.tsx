@@ -1,10 +1,18 @@
-import { DashboardData, TodaysClass } from '@/src/domain/model/Attendance';
+import { AbsenceReasonCategory, AttendanceStatus, DashboardData, ExcusedLeaveType, PendingAttendanceChange, RecentAbsenceReason, TodaysClass } from '@/src/domain/model/Attendance';
 import { Ionicons } from '@expo/vector-icons';
 import React, { useEffect, useRef, useState } from 'react';
-import { Alert, InteractionManager, Modal, RefreshControl, ScrollView, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import { Alert, AppState, InteractionManager, Modal, RefreshControl, ScrollView, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import { AttendanceQueueService } from '../../../../data/services/AttendanceQueueService';
+import { ACADEMIC_BLOCK_LABELS, formatBlockDates } from '../../../../core/utils/AcademicCalendarUtils';
+import { getAcademicToday, getAcademicYesterday } from '../../../../core/utils/AcademicDateUtils';
+import { evaluateAttendance, getDefaultPolicy } from '../../../../core/utils/AttendancePolicyUtils';
+import { formatAbsenceReason, hasAbsenceReason } from '../../../../core/utils/AttendanceUtils';
+import { SESSION_TYPE_LABELS } from '../../../../core/utils/ScheduleUtils';
 import { FirebaseAttendanceService } from '../../../../data/services/AttendanceService';
 import { dataCache } from '../../../utils/DataCache';
+import { AbsenceReasonPicker } from '../../components/AbsenceReasonPicker';
 import { DashboardSkeleton } from '../../components/skeletons/DashboardSkeleton';
+import { UnmarkedClassesModal } from '../../components/UnmarkedClassesModal';
 
 // Pre-instantiate service outside component to avoid recreation
 let attendanceServiceInstance: FirebaseAttendanceService | null = null;
@@ -15,6 +23,30 @@ const getAttendanceService = () => {
   return attendanceServiceInstance;
 };
 
+// Show queued offline changes on today's cards until they reach Firestore.
+// A class change is always newer than a queued change to its whole day.
+const applyPendingChanges = (
+  classes: TodaysClass[],
+  pendingChanges: PendingAttendanceChange[]
+): TodaysClass[] => {
+  return classes.map(item => {
+    const change = pendingChanges.find(c => c.id === item.id) ||
+      (item.cancellation?.status !== 'confirmed'
+        ? pendingChanges.find(c => c.scope === 'day' && c.date === item.date)
+        : undefined);
+    if (!change) return { ...item, isPendingSync: false };
+
+    return {
+      ...item,
+      isCheckedIn: true,
+      attendanceStatus: change.status,
+      reason: change.reason,
+      reasonCategory: change.reasonCategory,
+      leaveType: change.leaveType,
+      isPendingSync: true,
+    };
+  });
+};
 
 interface DashboardScreenProps {
   userId: string;
@@ -39,7 +71,15 @@ export const DashboardScreen: React.FC<DashboardScreenProps> = ({
   const [showSemesterSetupModal, setShowSemesterSetupModal] = useState(false);
   const [selectedClass, setSelectedClass] = useState<TodaysClass | null>(null);
   const [absentReason, setAbsentReason] = useState('');
+  const [reasonCategory, setReasonCategory] = useState<AbsenceReasonCategory | null>(null);
+  const [recentReasons, setRecentReasons] = useState<RecentAbsenceReason[]>([]);
   const [editMode, setEditMode] = useState<'present' | 'absent' | null>(null);
+  const [absenceStatus, setAbsenceStatus] = useState<'absent' | 'excused'>('absent');
+  const [leaveType, setLeaveType] = useState<ExcusedLeaveType>('duty');
+  const [isWholeDayAbsence, setIsWholeDayAbsence] = useState(false);
+  const [isMarkingWholeDay, setIsMarkingWholeDay] = useState(false);
+  const [unmarkedReviewCount, setUnmarkedReviewCount] = useState(0);
+  const [showUnmarkedReview, setShowUnmarkedReview] = useState(false);
 
   // Semester setup state
   const [semesterStartDate, setSemesterStartDate] = useState('');
@@ -69,20 +109,15 @@ export const DashboardScreen: React.FC<DashboardScreenProps> = ({
 
       console.log('📊 Loading dashboard for user:', userId);
       
-      // Run auto-mark and data fetch in parallel for faster loading
-      const [, data] = await Promise.all([
-        attendanceService.autoMarkUnmarkedAsAbsent(userId).catch(err => {
-          console.warn('⚠️ Auto-mark failed (non-critical):', err);
-          return null; // Don't block loading if this fails
-        }),
-        attendanceService.getDashboardData(userId)
-      ]);
+      const data = await attendanceService.getDashboardData(userId);
 
       // Only update state if component is still mounted
       if (!isMountedRef.current) return;
 
       if (data) {
         console.log('✅ Dashboard data loaded successfully');
+        const pendingChanges = await AttendanceQueueService.getInstance().getPendingChanges(userId);
+        data.todaysClasses = applyPendingChanges(data.todaysClasses, pendingChanges);
         setDashboardData(data);
         
         // Cache the data for 3 minutes (dashboard updates frequently)
@@ -126,12 +161,68 @@ export const DashboardScreen: React.FC<DashboardScreenProps> = ({
     }
   }, [loadDashboardData, cachedData]);
 
+  // Keep syncing queued check-ins while the dashboard is mounted
+  useEffect(() => {
+    const attendanceQueue = AttendanceQueueService.getInstance();
+    const unsubscribe = attendanceQueue.subscribe(result => {
+      if (!isMountedRef.current) return;
+
+      if (result.synced.length > 0 || result.conflicts.length > 0) {
+        loadDashboardData(true);
+      }
+      if (result.conflicts.length > 0) {
+        Alert.alert(
+          '⚠️ Some Changes Not Saved',
+          result.conflicts
+            .map(change => `${change.subject} (${change.startTime}): ${change.lastError || 'Changed elsewhere'}`)
+            .join('\n')
+        );
+      }
+    });
+    attendanceQueue.startAutoSync(userId);
+
+    // Catch up on every day missed since the last reconciliation: unmarked
+    // classes are auto-marked absent or queued for review
+    const reconcileMissedClasses = async () => {
+      const attendanceService = getAttendanceService();
+      const result = await attendanceService.reconcileMissedClasses(userId);
+      const reviews = await attendanceService.getUnmarkedClassReviews(userId);
+      if (!isMountedRef.current) return;
+
+      setUnmarkedReviewCount(reviews.length);
+      if (result.autoMarked > 0) {
+        loadDashboardData(true);
+      }
+    };
+
+    // Records saved under UTC dates by older versions are moved once, before
+    // missed days are looked for
+    getAttendanceService().migrateUtcDateKeys(userId).then(movedCount => {
+      if (movedCount > 0 && isMountedRef.current) {
+        loadDashboardData(true);
+      }
+      reconcileMissedClasses();
+    });
+
+    const appStateSubscription = AppState.addEventListener('change', nextAppState => {
+      if (nextAppState === 'active') {
+        reconcileMissedClasses();
+      }
+    });
+
+    return () => {
+      unsubscribe();
+      attendanceQueue.stopAutoSync();
+      appStateSubscription.remove();
+    };
+  }, [userId, loadDashboardData]);
+
   const onRefresh = () => {
     loadDashboardData(true);
   };
 
   const getCurrentDate = () => {
-    return new Date().toISOString().split('T')[0];
+    return getAcademicToday();
   };
 
   const calculateAttendanceDetails = (classItem: TodaysClass) => {
@@ -139,7 +230,7 @@ export const DashboardScreen: React.FC<DashboardScreenProps> = ({
       totalClasses = 0, 
       attendedClasses = 0, 
       requiredAttendancePercentage = 75,
-      TotalClassesForSemester = 0
+      TotalClassesForSemester
     } = classItem;
 
     // Calculate current attendance
@@ -147,27 +238,28 @@ export const DashboardScreen: React.FC<DashboardScreenProps> = ({
       ? (attendedClasses / totalClasses) * 100 
       : 0;
 
-    // Use expected total classes for semester, or fallback to classes so far
-    const totalExpectedClasses = TotalClassesForSemester || totalClasses;
-    const remainingClasses = Math.max(0, totalExpectedClasses - totalClasses);
+    // Classes left come from the projected total for the semester; without one
+    // (semester end unknown) the counts are consecutive classes from now
+    const remainingClasses = TotalClassesForSemester !== undefined
+      ? Math.max(0, TotalClassesForSemester - totalClasses)
+      : undefined;
 
-    // Calculate how many classes need to attend to reach required percentage
-    const requiredTotalAttended = Math.ceil((requiredAttendancePercentage / 100) * totalExpectedClasses);
-    const classesToAttend = Math.max(0, requiredTotalAttended - attendedClasses);
-
-    // Calculate how many classes can be skipped
-    const maxAllowedAbsences = totalExpectedClasses - requiredTotalAttended;
-    const currentAbsences = totalClasses - attendedClasses;
-    const classesCanSkip = Math.max(0, maxAllowedAbsences - currentAbsences);
+    // Classes to attend or skip until semester end, under the classroom's policy
+    const evaluation = evaluateAttendance(
+      classItem.attendancePolicy || getDefaultPolicy(requiredAttendancePercentage),
+      { attendedClasses, totalClasses, classId: classItem.classId, remainingClasses }
+    );
 
     return {
       currentAttendancePercentage: Math.round(currentAttendancePercentage * 100) / 100,
-      classesToAttend,
-      classesCanSkip,
+      classesToAttend: evaluation.classesToAttend,
+      classesCanSkip: evaluation.classesCanSkip,
       remainingClasses,
       totalClassesSoFar: totalClasses,
       totalAttendedSoFar: attendedClasses,
-      isAttendanceCritical: currentAttendancePercentage < requiredAttendancePercentage
+      isAttendanceCritical: evaluation.isCritical,
+      eligibility: evaluation.status,
+      condonationRequirement: evaluation.condonationRequirement,
     };
   };
 
@@ -180,7 +272,7 @@ export const DashboardScreen: React.FC<DashboardScreenProps> = ({
     if (!dashboardData) return;
 
     const today = getCurrentDate();
-    const yesterday = new Date(Date.now() - 86400000).toISOString().split('T')[0];
+    const yesterday = getAcademicYesterday();
 
     if (attended) {
       const updatedStreak = { ...dashboardData.attendanceStreak };
@@ -199,50 +291,73 @@ export const DashboardScreen: React.FC<DashboardScreenProps> = ({
     }
   };
 
-  const handleCheckIn = async (classItem: TodaysClass, attended: boolean, reason?: string) => {
-    try {
-      const { FirebaseAttendanceService } = await import('../../../../data/services/AttendanceService');
-      const attendanceService = new FirebaseAttendanceService();
-
-      const result = await attendanceService.markAttendance(
-        userId,
-        classItem.classroomId,
-        classItem.classId,
-        attended ? 'present' : 'absent',
-        reason,
-        classItem.subject
-      );
-
-      if (result.success) {
-        // Fetch updated streak from database (regardless of present/absent)
-        const updatedStreak = await attendanceService.getAttendanceStreak(userId);
-        if (updatedStreak && dashboardData) {
-          setDashboardData(prev => prev ? { ...prev, attendanceStreak: updatedStreak } : null);
-        }
+  // Queue an attendance change on the device, show it right away and try to sync it.
+  // Returns whether the change has reached Firestore yet.
+  const saveAttendanceChange = async (
+    classItem: TodaysClass,
+    status: AttendanceStatus,
+    reason?: string,
+    excusedLeaveType?: ExcusedLeaveType,
+    category?: AbsenceReasonCategory | null
+  ): Promise<'synced' | 'pending' | 'conflict'> => {
+    const attendanceQueue = AttendanceQueueService.getInstance();
+    const change = await attendanceQueue.enqueue({
+      userId,
+      classroomId: classItem.classroomId,
+      classId: classItem.classId,
+      subject: classItem.subject,
+      date: classItem.date,
+      startTime: classItem.startTime,
+      status,
+      reason: reason?.trim() || undefined,
+      reasonCategory: category || undefined,
+      leaveType: excusedLeaveType,
+    });
+
+    // Optimistic update of the card
+    setDashboardData(prev => prev ? {
+      ...prev,
+      todaysClasses: prev.todaysClasses.map(item =>
+        item.id === change.id
+          ? {
+            ...item,
+            isCheckedIn: true,
+            attendanceStatus: change.status,
+            reason: change.reason,
+            reasonCategory: change.reasonCategory,
+            leaveType: change.leaveType,
+            isPendingSync: true
+          }
+          : item
+      ),
+    } : null);
+
+    const result = await attendanceQueue.sync(userId);
+    if (result.synced.some(c => c.id === change.id)) return 'synced';
+    if (result.conflicts.some(c => c.id === change.id)) return 'conflict';
+    return 'pending';
+  };
 
-        // Update local state for checked-in classes
-        if (dashboardData) {
-          const updatedClasses = dashboardData.todaysClasses.map(item =>
-            item.id === classItem.id
-              ? {
-                ...item,
-                isCheckedIn: true,
-                attendanceStatus: (attended ? 'present' : 'absent') as 'present' | 'absent',
-                reason: attended ? undefined : reason
-              }
-              : item
-          );
-
-          setDashboardData(prev => prev ? { ...prev, todaysClasses: updatedClasses } : null);
-        }
+  const handleCheckIn = async (
+    classItem: TodaysClass,
+    status: AttendanceStatus,
+    reason?: string,
+    excusedLeaveType?: ExcusedLeaveType,
+    category?: AbsenceReasonCategory | null
+  ) => {
+    try {
+      const outcome = await saveAttendanceChange(classItem, status, reason, excusedLeaveType, category);
 
-        if (attended) {
+      if (outcome === 'pending') {
+        Alert.alert('📡 Saved Offline', `${classItem.subject} will sync when you're back online.`);
+      } else if (outcome === 'synced') {
+        if (status === 'present') {
           Alert.alert('✅ Checked In', `You've marked attendance for ${classItem.subject}!`);
+        } else if (status === 'excused') {
+          Alert.alert('🩺 Leave Recorded', `Your leave for ${classItem.subject} has been recorded.`);
         } else {
           Alert.alert('📝 Absence Noted', `Your absence for ${classItem.subject} has been recorded.`);
         }
-      } else {
-        Alert.alert('Error', result.error || 'Failed to mark attendance');
       }
     } catch (error) {
       console.error('Error marking attendance:', error);
@@ -250,25 +365,146 @@ export const DashboardScreen: React.FC<DashboardScreenProps> = ({
     }
   };
 
+  // Offer the last few reasons as quick picks in the reason modal
+  const loadRecentReasons = async () => {
+    setRecentReasons(await getAttendanceService().getRecentAbsenceReasons(userId));
+  };
+
+  const selectRecentReason = (reason: RecentAbsenceReason) => {
+    setReasonCategory(reason.category);
+    setAbsentReason(reason.note || '');
+  };
+
   const openReasonModal = (classItem: TodaysClass) => {
     setSelectedClass(classItem);
     setShowReasonModal(true);
+    loadRecentReasons();
   };
 
   const submitAbsence = () => {
-    if (selectedClass && absentReason.trim()) {
-      handleCheckIn(selectedClass, false, absentReason);
+    if (selectedClass && hasAbsenceReason(absenceStatus, reasonCategory, absentReason)) {
+      handleCheckIn(selectedClass, absenceStatus, absentReason, leaveType, absenceStatus === 'absent' ? reasonCategory : null);
       setShowReasonModal(false);
       setAbsentReason('');
+      setReasonCategory(null);
+      setAbsenceStatus('absent');
       setSelectedClass(null);
     } else {
       Alert.alert('Error', 'Please provide a reason for absence.');
     }
   };
 
+  // Mark every class of today with one status (queued as one change when offline)
+  const handleMarkWholeDay = async (
+    status: AttendanceStatus,
+    reason?: string,
+    excusedLeaveType?: ExcusedLeaveType,
+    category?: AbsenceReasonCategory | null
+  ) => {
+    setIsMarkingWholeDay(true);
+    try {
+      const result = await AttendanceQueueService.getInstance().markWholeDay(
+        userId, getAcademicToday(), status, reason, excusedLeaveType, category || undefined
+      );
+      if (!result.success) {
+        Alert.alert('Error', result.error || 'Failed to mark attendance');
+        return;
+      }
+
+      await loadDashboardData(true);
+      if (result.isPending) {
+        Alert.alert('📡 Saved Offline', "Today's classes will sync when you're back online.");
+      } else if (status === 'present') {
+        Alert.alert('✅ All Checked In', `${result.markedCount} classes marked present for today!`);
+      } else {
+        Alert.alert('📝 Day Marked', `${result.markedCount} classes marked ${status} for today.`);
+      }
+    } catch (error) {
+      console.error('Error marking whole day:', error);
+      Alert.alert('Error', 'Failed to mark attendance');
+    } finally {
+      setIsMarkingWholeDay(false);
+    }
+  };
+
+  const confirmMarkAllPresent = () => {
+    Alert.alert(
+      'Mark All Present',
+      "Mark all of today's classes as present?",
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Mark Present', onPress: () => handleMarkWholeDay('present') },
+      ]
+    );
+  };
+
+  const openWholeDayReasonModal = () => {
+    setIsWholeDayAbsence(true);
+    setShowReasonModal(true);
+    loadRecentReasons();
+  };
+
+  const submitWholeDayAbsence = () => {
+    if (!hasAbsenceReason(absenceStatus, reasonCategory, absentReason)) {
+      Alert.alert('Error', 'Please provide a reason for absence.');
+      return;
+    }
+
+    handleMarkWholeDay(absenceStatus, absentReason.trim(), leaveType, absenceStatus === 'absent' ? reasonCategory : null);
+    closeModals();
+  };
+
+  // Report the class as cancelled, or take back an earlier report
+  const handleToggleCancellation = async (classItem: TodaysClass) => {
+    try {
+      const { FirebaseCancellationService } = await import('../../../../data/services/CancellationService');
+      const { AttendanceCronService } = await import('../../../../core/services/AttendanceCronService');
+      const cancellationService = new FirebaseCancellationService();
+      const hasReported = !!classItem.cancellation?.votes.includes(userId);
+
+      let isConfirmed = false;
+      let result: { success: boolean; error?: string };
+      if (hasReported) {
+        result = await cancellationService.withdrawCancellation(userId, classItem.classroomId, classItem.id);
+      } else {
+        const reportResult = await cancellationService.reportCancellation(userId, { ...classItem, key: classItem.id });
+        isConfirmed = reportResult.cancellation?.status === 'confirmed';
+        result = reportResult;
+      }
+
+      if (!result.success) {
+        Alert.alert('Error', result.error || 'Failed to update cancellation');
+        return;
+      }
+
+      // Totals and reminders depend on which classes are cancelled
+      await getAttendanceService().refreshClassroomStats(userId, classItem.classroomId);
+      AttendanceCronService.getInstance().refreshReminders(userId).catch(err => {
+        console.warn('⚠️ Reminder refresh failed (non-critical):', err);
+      });
+
+      closeModals();
+      loadDashboardData(true);
+
+      if (hasReported) {
+        Alert.alert('↩️ Report Withdrawn', `Your cancellation report for ${classItem.subject} was withdrawn.`);
+      } else if (isConfirmed) {
+        Alert.alert('🚫 Class Cancelled', `${classItem.subject} won't count toward anyone's attendance.`);
+      } else {
+        Alert.alert('🗳️ Report Sent', `${classItem.subject} will be marked cancelled once enough classmates agree.`);
+      }
+    } catch (error) {
+      console.error('Error updating cancellation:', error);
+      Alert.alert('Error', 'Failed to update cancellation');
+    }
+  };
+
   const handleEditAttendance = (classItem: TodaysClass) => {
     setSelectedClass(classItem);
     setAbsentReason(classItem.reason || '');
+    setReasonCategory(classItem.reasonCategory || null);
+    setAbsenceStatus(classItem.attendanceStatus === 'excused' ? 'excused' : 'absent');
+    setLeaveType(classItem.leaveType || 'duty');
     setShowEditModal(true);
   };
 
@@ -277,42 +513,17 @@ export const DashboardScreen: React.FC<DashboardScreenProps> = ({
     if (newStatus === 'absent') {
       setShowEditModal(false);
       setShowReasonModal(true);
+      loadRecentReasons();
     } else {
       // Mark as present
       if (selectedClass) {
         try {
-          const { FirebaseAttendanceService } = await import('../../../../data/services/AttendanceService');
-          const attendanceService = new FirebaseAttendanceService();
-
-          const today = getCurrentDate();
-          const result = await attendanceService.updateAttendance(
-            userId,
-            selectedClass.classId,
-            today,
-            'present'
-          );
-
-          if (result.success) {
-            // Fetch updated streak from database
-            const updatedStreak = await attendanceService.getAttendanceStreak(userId);
-            if (updatedStreak && dashboardData) {
-              setDashboardData(prev => prev ? { ...prev, attendanceStreak: updatedStreak } : null);
-            }
-
-            // Update local state
-            if (dashboardData) {
-              const updatedClasses = dashboardData.todaysClasses.map(item =>
-                item.id === selectedClass.id
-                  ? { ...item, isCheckedIn: true, attendanceStatus: 'present' as const, reason: undefined }
-                  : item
-              );
-
-              setDashboardData(prev => prev ? { ...prev, todaysClasses: updatedClasses } : null);
-            }
+          const outcome = await saveAttendanceChange(selectedClass, 'present');
 
+          if (outcome === 'synced') {
             Alert.alert('✅ Updated', `${selectedClass.subject} marked as present!`);
-          } else {
-            Alert.alert('Error', result.error || 'Failed to update attendance');
+          } else if (outcome === 'pending') {
+            Alert.alert('📡 Saved Offline', `${selectedClass.subject} will sync when you're back online.`);
           }
         } catch (error) {
           console.error('Error updating attendance:', error);
@@ -323,45 +534,21 @@ export const DashboardScreen: React.FC<DashboardScreenProps> = ({
       setSelectedClass(null);
       setEditMode(null);
       setAbsentReason('');
+      setReasonCategory(null);
     }
   };
 
   const submitEdit = async () => {
-    if (selectedClass && editMode === 'absent' && absentReason.trim()) {
+    if (selectedClass && editMode === 'absent' && hasAbsenceReason(absenceStatus, reasonCategory, absentReason)) {
       try {
-        const { FirebaseAttendanceService } = await import('../../../../data/services/AttendanceService');
-        const attendanceService = new FirebaseAttendanceService();
-
-        const today = getCurrentDate();
-        const result = await attendanceService.updateAttendance(
-          userId,
-          selectedClass.classId,
-          today,
-          'absent',
-          absentReason
+        const outcome = await saveAttendanceChange(
+          selectedClass, absenceStatus, absentReason, leaveType, absenceStatus === 'absent' ? reasonCategory : null
         );
 
-        if (result.success) {
-          // Fetch updated streak from database
-          const updatedStreak = await attendanceService.getAttendanceStreak(userId);
-          if (updatedStreak && dashboardData) {
-            setDashboardData(prev => prev ? { ...prev, attendanceStreak: updatedStreak } : null);
-          }
-
-          // Update local state
-          if (dashboardData) {
-            const updatedClasses = dashboardData.todaysClasses.map(item =>
-              item.id === selectedClass.id
-                ? { ...item, isCheckedIn: true, attendanceStatus: 'absent' as const, reason: absentReason }
-                : item
-            );
-
-            setDashboardData(prev => prev ? { ...prev, todaysClasses: updatedClasses } : null);
-          }
-
-          Alert.alert('📝 Updated', `${selectedClass.subject} marked as absent with reason.`);
-        } else {
-          Alert.alert('Error', result.error || 'Failed to update attendance');
+        if (outcome === 'synced') {
+          Alert.alert('📝 Updated', `${selectedClass.subject} marked as ${absenceStatus} with reason.`);
+        } else if (outcome === 'pending') {
+          Alert.alert('📡 Saved Offline', `${selectedClass.subject} will sync when you're back online.`);
         }
       } catch (error) {
         console.error('Error updating attendance:', error);
@@ -370,6 +557,8 @@ export const DashboardScreen: React.FC<DashboardScreenProps> = ({
 
       setShowReasonModal(false);
       setAbsentReason('');
+      setReasonCategory(null);
+      setAbsenceStatus('absent');
       setSelectedClass(null);
       setEditMode(null);
     } else if (editMode === 'absent') {
@@ -384,7 +573,10 @@ export const DashboardScreen: React.FC<DashboardScreenProps> = ({
     setShowSemesterSetupModal(false);
     setSelectedClass(null);
     setAbsentReason('');
+    setReasonCategory(null);
+    setAbsenceStatus('absent');
     setEditMode(null);
+    setIsWholeDayAbsence(false);
     setSemesterStartDate('');
     setSemesterEndDate('');
   };
@@ -485,7 +677,55 @@ export const DashboardScreen: React.FC<DashboardScreenProps> = ({
               </View>
             </View>
 
-          
+            {/* Eligibility under the institution's attendance policy */}
+            {dashboardData.overallEvaluation && dashboardData.overallEvaluation.isCritical && (
+              <View className={`rounded-2xl p-4 border m-1 ${dashboardData.overallEvaluation.status === 'condonable' ? 'bg-amber-50 border-amber-200' : 'bg-red-50 border-red-200'}`}>
+                <View className="flex-row items-center">
+                  <Ionicons
+                    name="warning"
+                    size={20}
+                    color={dashboardData.overallEvaluation.status === 'condonable' ? '#d97706' : '#dc2626'}
+                  />
+                  <Text className={`font-semibold ml-2 ${dashboardData.overallEvaluation.status === 'condonable' ? 'text-amber-800' : 'text-red-700'}`}>
+                    {dashboardData.overallEvaluation.status === 'condonable' ? 'Condonable shortage' : 'Below attendance requirement'}
+                  </Text>
+                </View>
+                <Text className="text-gray-700 text-sm mt-1">
+                  {dashboardData.overallEvaluation.effectivePercentage}% against the required {dashboardData.overallEvaluation.requiredPercentage}%
+                  {dashboardData.overallEvaluation.condonationRequirement
+                    ? ` • ${dashboardData.overallEvaluation.condonationRequirement} required`
+                    : ` • attend the next ${dashboardData.overallEvaluation.classesToAttend} classes`}
+                </Text>
+              </View>
+            )}
+
+            {/* Exams, breaks and events from the academic calendar */}
+            {dashboardData.academicBlocks?.map(block => {
+              const isOngoing = block.startDate <= getAcademicToday();
+              return (
+                <View
+                  key={block.id}
+                  className={`rounded-2xl p-4 border m-1 ${block.classesRun ? 'bg-blue-50 border-blue-200' : 'bg-purple-50 border-purple-200'}`}
+                >
+                  <View className="flex-row items-center">
+                    <Ionicons
+                      name={block.type === 'exam' ? 'document-text-outline' : 'calendar-outline'}
+                      size={20}
+                      color={block.classesRun ? '#2563eb' : '#7c3aed'}
+                    />
+                    <Text className={`font-semibold ml-2 flex-1 ${block.classesRun ? 'text-blue-800' : 'text-purple-800'}`}>
+                      {block.title}
+                    </Text>
+                    <Text className="text-xs text-gray-500">{isOngoing ? 'Now' : 'Coming up'}</Text>
+                  </View>
+                  <Text className="text-gray-700 text-sm mt-1">
+                    {ACADEMIC_BLOCK_LABELS[block.type]} • {formatBlockDates(block)} • {block.classroomName}
+                    {block.classesRun ? ' • classes run as usual' : ' • no regular classes'}
+                  </Text>
+                </View>
+              );
+            })}
+
             {/* Semester Progress */}
             {dashboardData.semesterInfo ? (
               <View className="bg-white rounded-2xl p-4 border border-gray-100 m-1 mb-2">
@@ -541,8 +781,13 @@ export const DashboardScreen: React.FC<DashboardScreenProps> = ({
                   </Text>
                   <Text className="text-green-700 text-sm">
                     Current: {dashboardData.semesterInfo.currentPerformancePercentage}% • 
-                    Target: {dashboardData.semesterInfo.targetAttendancePercentage}% 
+                    Target: {dashboardData.semesterInfo.targetAttendancePercentage}%
                   </Text>
+                  {dashboardData.semesterInfo.baselinePercentage !== undefined && (
+                    <Text className="text-green-600 text-xs mt-1">
+                      Includes {dashboardData.semesterInfo.baselinePercentage}% from your college portal before you joined
+                    </Text>
+                  )}
                 </View>
 
                 {/* Status indicator */}
@@ -550,7 +795,9 @@ export const DashboardScreen: React.FC<DashboardScreenProps> = ({
                   <Text className={`text-center text-sm font-medium ${dashboardData.semesterInfo.isOnTrack ? 'text-green-800' : 'text-red-800'}`}>
                     {dashboardData.semesterInfo.isOnTrack 
                       ? `🎯 On track! Keep up the good work`
-                      : `⚠️ Need to improve attendance rate`
+                      : dashboardData.semesterInfo.eligibility === 'condonable'
+                        ? `⚠️ Below target, but within the condonation band`
+                        : `⚠️ Need to improve attendance rate`
                     }
                   </Text>
                 </View>
@@ -596,6 +843,24 @@ export const DashboardScreen: React.FC<DashboardScreenProps> = ({
 
           </View>
 
+          {/* Past classes waiting for review */}
+          {unmarkedReviewCount > 0 && (
+            <TouchableOpacity
+              onPress={() => setShowUnmarkedReview(true)}
+              className="bg-amber-50 border border-amber-200 rounded-2xl p-4 ml-5 mr-5 mb-4 flex-row items-center"
+              activeOpacity={0.7}
+            >
+              <Ionicons name="alert-circle-outline" size={22} color="#d97706" />
+              <View className="flex-1 ml-3">
+                <Text className="text-amber-800 font-semibold">
+                  {unmarkedReviewCount} past {unmarkedReviewCount === 1 ? 'class needs' : 'classes need'} marking
+                </Text>
+                <Text className="text-amber-700 text-xs">Review unmarked classes from days you missed</Text>
+              </View>
+              <Ionicons name="chevron-forward" size={18} color="#d97706" />
+            </TouchableOpacity>
+          )}
+
           {/* Today's Classes with Check-in */}
           <View className="bg-white rounded-3xl p-6 border border-gray-100 ml-5 mr-5">
             <View className="flex-row items-center justify-between mb-4">
@@ -608,6 +873,26 @@ export const DashboardScreen: React.FC<DashboardScreenProps> = ({
 
               
             </View>
+            {dashboardData.todaysClasses.some(c => c.cancellation?.status !== 'confirmed') && (
+              <View className="flex-row mb-4">
+                <TouchableOpacity
+                  onPress={confirmMarkAllPresent}
+                  disabled={isMarkingWholeDay}
+                  className="flex-1 flex-row items-center justify-center bg-green-50 border border-green-100 py-2 rounded-xl mr-2"
+                >
+                  <Ionicons name="checkmark-done" size={16} color="#16a34a" />
+                  <Text className="text-green-700 text-sm font-medium ml-1">Mark All Present</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  onPress={openWholeDayReasonModal}
+                  disabled={isMarkingWholeDay}
+                  className="flex-1 flex-row items-center justify-center bg-red-50 border border-red-100 py-2 rounded-xl"
+                >
+                  <Ionicons name="close-circle-outline" size={16} color="#dc2626" />
+                  <Text className="text-red-700 text-sm font-medium ml-1">Whole Day Absent</Text>
+                </TouchableOpacity>
+              </View>
+            )}
             <View className="space-y-3">
               {dashboardData.todaysClasses.length === 0 ? (
                 <View className="items-center py-8">
@@ -632,18 +917,50 @@ export const DashboardScreen: React.FC<DashboardScreenProps> = ({
                     >
                       <Text className="font-semibold text-gray-800">{classItem.subject}</Text>
                       <Text className="text-gray-600 text-sm">{classItem.time}</Text>
-                      {classItem.isCheckedIn && classItem.attendanceStatus === 'absent' && classItem.reason && (
-                        <Text className="text-red-500 text-xs mt-1">Absent: {classItem.reason}</Text>
+                      {(classItem.sessionType && classItem.sessionType !== 'theory' || (classItem.weight || 1) > 1) && (
+                        <Text className="text-blue-600 text-xs mt-1">
+                          {SESSION_TYPE_LABELS[classItem.sessionType || 'theory']} • counts as {classItem.weight || 1}
+                        </Text>
+                      )}
+                      {classItem.extraKind && (
+                        <Text className="text-blue-600 text-xs mt-1">
+                          {classItem.extraKind === 'makeup' ? 'Makeup class' : 'Extra class'}
+                        </Text>
+                      )}
+                      {classItem.isPendingSync && (
+                        <View className="flex-row items-center mt-1">
+                          <Ionicons name="cloud-upload-outline" size={12} color="#6b7280" />
+                          <Text className="text-gray-500 text-xs ml-1">Waiting to sync</Text>
+                        </View>
+                      )}
+                      {classItem.isCheckedIn && classItem.attendanceStatus === 'absent' && (classItem.reason || classItem.reasonCategory) && (
+                        <Text className="text-red-500 text-xs mt-1">
+                          Absent: {formatAbsenceReason(classItem.reasonCategory, classItem.reason)}
+                        </Text>
+                      )}
+                      {classItem.cancellation?.status === 'proposed' && (
+                        <Text className="text-gray-500 text-xs mt-1">
+                          Cancellation reported ({classItem.cancellation.votes.length}/{classItem.cancellation.requiredVotes} votes)
+                        </Text>
+                      )}
+                      {classItem.isCheckedIn && classItem.attendanceStatus === 'excused' && (
+                        <Text className="text-amber-600 text-xs mt-1">
+                          {classItem.leaveType === 'medical' ? 'Medical leave' : 'Duty leave'}{classItem.reason ? `: ${classItem.reason}` : ''}
+                        </Text>
                       )}
                     </TouchableOpacity>
 
                     <View className="flex-row items-center space-x-2">
 
 
-                      {!classItem.isCheckedIn ? (
+                      {classItem.cancellation?.status === 'confirmed' ? (
+                        <View className="bg-gray-200 px-3 py-2 rounded-lg m-1">
+                          <Text className="text-gray-600 text-xs font-medium">Cancelled</Text>
+                        </View>
+                      ) : !classItem.isCheckedIn ? (
                         <>
                           <TouchableOpacity
-                            onPress={() => handleCheckIn(classItem, true)}
+                            onPress={() => handleCheckIn(classItem, 'present')}
                             className="bg-green-400 px-2 py-2 rounded-lg m-1"
                           >
                             <Ionicons name="checkmark" size={16} color="white" />
@@ -661,6 +978,10 @@ export const DashboardScreen: React.FC<DashboardScreenProps> = ({
                             <View className="bg-red-100 px-3 py-2 rounded-lg m-1">
                               <Text className="text-red-600 text-xs font-medium">Absent</Text>
                             </View>
+                          ) : classItem.attendanceStatus === 'excused' ? (
+                            <View className="bg-amber-100 px-3 py-2 rounded-lg m-1">
+                              <Text className="text-amber-600 text-xs font-medium">Excused</Text>
+                            </View>
                           ) : (
                             <View className="bg-green-100 px-3 py-2 rounded-lg m-1">
                               <Text className="text-green-600 text-xs font-medium">Present</Text>
@@ -687,6 +1008,19 @@ export const DashboardScreen: React.FC<DashboardScreenProps> = ({
         </View>
       </ScrollView>
 
+      {/* Review Unmarked Classes */}
+      <UnmarkedClassesModal
+        visible={showUnmarkedReview}
+        onClose={() => {
+          setShowUnmarkedReview(false);
+          getAttendanceService().getUnmarkedClassReviews(userId).then(reviews => {
+            if (isMountedRef.current) setUnmarkedReviewCount(reviews.length);
+          });
+        }}
+        userId={userId}
+        onResolved={() => loadDashboardData(true)}
+      />
+
       {/* Absence Reason Modal */}
       <Modal
         visible={showReasonModal}
@@ -697,16 +1031,69 @@ export const DashboardScreen: React.FC<DashboardScreenProps> = ({
         <View className="flex-1 justify-end  bg-opacity-50">
           <View className="bg-white rounded-t-3xl p-6">
             <Text className="text-xl font-bold text-gray-800 mb-4">
-              {editMode ? 'Update Absence Reason' : 'Reason for Absence'}
+              {isWholeDayAbsence ? 'Whole Day Absence' : editMode ? 'Update Absence Reason' : 'Reason for Absence'}
             </Text>
+
+            {/* Absent vs approved leave */}
+            <View className="flex-row bg-gray-100 rounded-lg p-1 mb-4">
+              <TouchableOpacity
+                onPress={() => setAbsenceStatus('absent')}
+                className={`flex-1 py-2 rounded-md ${absenceStatus === 'absent' ? 'bg-white' : ''}`}
+              >
+                <Text className={`text-center font-medium ${absenceStatus === 'absent' ? 'text-red-600' : 'text-gray-500'}`}>
+                  Absent
+                </Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                onPress={() => setAbsenceStatus('excused')}
+                className={`flex-1 py-2 rounded-md ${absenceStatus === 'excused' ? 'bg-white' : ''}`}
+              >
+                <Text className={`text-center font-medium ${absenceStatus === 'excused' ? 'text-amber-600' : 'text-gray-500'}`}>
+                  Approved Leave
+                </Text>
+              </TouchableOpacity>
+            </View>
+
+            {absenceStatus === 'excused' && (
+              <View className="flex-row mb-4">
+                {([
+                  { value: 'duty', label: 'Duty Leave' },
+                  { value: 'medical', label: 'Medical Leave' },
+                ] as const).map(option => (
+                  <TouchableOpacity
+                    key={option.value}
+                    onPress={() => setLeaveType(option.value)}
+                    className={`flex-1 py-2 rounded-lg border m-1 ${leaveType === option.value ? 'border-amber-500 bg-amber-50' : 'border-gray-200'}`}
+                  >
+                    <Text className={`text-center text-sm ${leaveType === option.value ? 'text-amber-700 font-medium' : 'text-gray-600'}`}>
+                      {option.label}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            )}
+
             <Text className="text-gray-600 mb-4">
-              Please provide a reason for missing {selectedClass?.subject}:
+              {isWholeDayAbsence
+                ? "This reason will be used for all of today's classes:"
+                : absenceStatus === 'excused'
+                ? `Describe the approved leave for ${selectedClass?.subject} (e.g., NSS camp, hackathon):`
+                : `Why did you miss ${selectedClass?.subject}?`}
             </Text>
 
+            {absenceStatus === 'absent' && (
+              <AbsenceReasonPicker
+                category={reasonCategory}
+                onSelectCategory={setReasonCategory}
+                recentReasons={recentReasons}
+                onSelectRecent={selectRecentReason}
+              />
+            )}
+
             <TextInput
               value={absentReason}
               onChangeText={setAbsentReason}
-              placeholder="e.g., Sick, Emergency, etc."
+              placeholder={absenceStatus === 'absent' ? 'Notes (optional)' : 'e.g., NSS camp, hackathon'}
               className="border border-gray-300 rounded-lg p-3 mb-4 text-gray-800"
               multiline
               numberOfLines={3}
@@ -721,8 +1108,8 @@ export const DashboardScreen: React.FC<DashboardScreenProps> = ({
               </TouchableOpacity>
 
               <TouchableOpacity
-                onPress={editMode ? submitEdit : submitAbsence}
-                className="flex-1 bg-red-500 py-3 rounded-lg m-1"
+                onPress={isWholeDayAbsence ? submitWholeDayAbsence : editMode ? submitEdit : submitAbsence}
+                className={`flex-1 py-3 rounded-lg m-1 ${absenceStatus === 'excused' ? 'bg-amber-500' : 'bg-red-500'}`}
               >
                 <Text className="text-center text-white font-medium">
                   {editMode ? 'Update' : 'Submit'}
@@ -769,7 +1156,7 @@ export const DashboardScreen: React.FC<DashboardScreenProps> = ({
                 <View className="bg-red-500 w-4 h-4 rounded-full mr-3"></View>
                 <View className="flex-1">
                   <Text className="font-semibold text-gray-800">Mark as Absent</Text>
-                  <Text className="text-gray-600 text-sm">I missed this class</Text>
+                  <Text className="text-gray-600 text-sm">I missed this class or was on approved leave</Text>
                 </View>
                 <Ionicons name="close-circle" size={24} color="#ef4444" />
               </TouchableOpacity>
@@ -881,6 +1268,11 @@ export const DashboardScreen: React.FC<DashboardScreenProps> = ({
                             <Text className="text-red-600 text-sm mt-1">
                               Your attendance is below the required {selectedClass.requiredAttendancePercentage}% threshold.
                             </Text>
+                            {details.eligibility === 'condonable' && (
+                              <Text className="text-red-600 text-sm mt-1">
+                                Within the condonation band{details.condonationRequirement ? ` (${details.condonationRequirement} required)` : ''}.
+                              </Text>
+                            )}
                           </View>
                         ) : (
                           <View className="bg-green-100 border border-green-200 rounded-lg p-3 mb-4">
@@ -911,6 +1303,16 @@ export const DashboardScreen: React.FC<DashboardScreenProps> = ({
                             </View>
                             <Text className="text-orange-600 font-bold text-lg">{details.classesCanSkip}</Text>
                           </View>
+
+                          {details.remainingClasses !== undefined && (
+                            <View className="flex-row items-center justify-between bg-white rounded-lg p-3">
+                              <View className="flex-row items-center flex-1">
+                                <View className="bg-blue-500 w-3 h-3 rounded-full mr-3"></View>
+                                <Text className="text-gray-700">Classes left this semester</Text>
+                              </View>
+                              <Text className="text-blue-600 font-bold text-lg">{details.remainingClasses}</Text>
+                            </View>
+                          )}
                         </View>
 
                         {/* Tips */}
@@ -935,11 +1337,16 @@ export const DashboardScreen: React.FC<DashboardScreenProps> = ({
                       ⚡ Quick Actions
                     </Text>
 
-                    {!selectedClass.isCheckedIn ? (
+                    {selectedClass.cancellation?.status === 'confirmed' ? (
+                      <View className="bg-gray-100 border border-gray-200 rounded-lg p-3">
+                        <Text className="text-gray-700 font-medium">🚫 This class was cancelled</Text>
+                        <Text className="text-gray-500 text-sm mt-1">It doesn&apos;t count toward anyone&apos;s attendance.</Text>
+                      </View>
+                    ) : !selectedClass.isCheckedIn ? (
                       <View className="flex-row space-x-3">
                         <TouchableOpacity
                           onPress={() => {
-                            handleCheckIn(selectedClass, true);
+                            handleCheckIn(selectedClass, 'present');
                             closeModals();
                           }}
                           className="flex-1 bg-green-500 py-3 rounded-lg flex-row items-center justify-center m-1"
@@ -972,6 +1379,28 @@ export const DashboardScreen: React.FC<DashboardScreenProps> = ({
                       </TouchableOpacity>
                     )}
 
+                    {(!selectedClass.cancellation || selectedClass.cancellation.votes.includes(userId)) ? (
+                      <TouchableOpacity
+                        onPress={() => handleToggleCancellation(selectedClass)}
+                        className="bg-gray-100 border border-gray-200 py-3 rounded-lg flex-row items-center justify-center m-1"
+                      >
+                        <Ionicons name={selectedClass.cancellation ? 'arrow-undo' : 'ban'} size={20} color="#4b5563" />
+                        <Text className="text-gray-700 font-medium ml-2">
+                          {selectedClass.cancellation ? 'Withdraw Cancellation Report' : 'Report Class Cancelled'}
+                        </Text>
+                      </TouchableOpacity>
+                    ) : selectedClass.cancellation.status === 'proposed' ? (
+                      <TouchableOpacity
+                        onPress={() => handleToggleCancellation(selectedClass)}
+                        className="bg-gray-100 border border-gray-200 py-3 rounded-lg flex-row items-center justify-center m-1"
+                      >
+                        <Ionicons name="ban" size={20} color="#4b5563" />
+                        <Text className="text-gray-700 font-medium ml-2">
+                          Confirm Cancellation ({selectedClass.cancellation.votes.length}/{selectedClass.cancellation.requiredVotes})
+                        </Text>
+                      </TouchableOpacity>
+                    ) : null}
+
                     {onNavigateToClassroom && (
                       <TouchableOpacity
                         onPress={() => {
@@ -5,10 +5,17 @@ import {
     Modal,
     ScrollView,
     StatusBar,
+    Switch,
     Text,
     TouchableOpacity,
     View,
 } from 'react-native';
+import {
+    convertTimetableDays,
+    DAY_ORDER_CYCLE_OPTIONS,
+    DEFAULT_DAY_ORDER_CYCLE,
+    getDayOrderNames,
+} from '../../../../core/utils/DayOrderUtils';
 import { CustomButton } from '../../components/CustomButton';
 import { CustomInput } from '../../components/CustomInput';
 
@@ -17,6 +24,7 @@ interface TimetableData {
   classes?: ClassData[];
   semesterStartDate?: string;
   semesterEndDate?: string;
+  dayOrderCycle?: number; // Set when classes follow Day 1 … Day N instead of weekdays
 }
 
 interface ClassData {
@@ -65,6 +73,10 @@ export const TimetableUploadScreen: React.FC<TimetableUploadScreenProps> = ({
   const [showDayModal, setShowDayModal] = useState(false);
   const [showStartTimeModal, setShowStartTimeModal] = useState(false);
   const [showEndTimeModal, setShowEndTimeModal] = useState(false);
+  // Day-order timetables list Day 1 … Day N instead of weekdays
+  const [usesDayOrder, setUsesDayOrder] = useState(false);
+  const [dayOrderCycle, setDayOrderCycle] = useState(DEFAULT_DAY_ORDER_CYCLE);
+  const dayOptions = usesDayOrder ? getDayOrderNames(dayOrderCycle) : DAYS_OF_WEEK;
 
   // If timetable upload shouldn't be shown, skip directly
   React.useEffect(() => {
@@ -156,6 +168,15 @@ export const TimetableUploadScreen: React.FC<TimetableUploadScreenProps> = ({
     setClasses(classes.filter(c => c.id !== id));
   };
 
+  // Classes already added move over (Monday becomes Day 1); days the new
+  // cycle doesn't have are dropped
+  const changeDayOrder = (enabled: boolean, cycleLength: number) => {
+    setClasses(convertTimetableDays(classes, enabled, cycleLength));
+    setNewClass({ ...newClass, day: '' });
+    setUsesDayOrder(enabled);
+    setDayOrderCycle(cycleLength);
+  };
+
   const handleNext = () => {
     const data: TimetableData = {
       method: selectedMethod!,
@@ -165,6 +186,9 @@ export const TimetableUploadScreen: React.FC<TimetableUploadScreenProps> = ({
 
     if (selectedMethod === 'manual') {
       data.classes = classes;
+      if (usesDayOrder) {
+        data.dayOrderCycle = dayOrderCycle;
+      }
     }
 
     onNext(data);
@@ -418,6 +442,42 @@ export const TimetableUploadScreen: React.FC<TimetableUploadScreenProps> = ({
                 </TouchableOpacity>
               </View>
 
+              <View className="bg-gray-50 rounded-xl p-4 mb-4">
+                <View className="flex-row items-center justify-between">
+                  <View className="flex-1 mr-3">
+                    <Text className="font-medium text-gray-800">Day-order timetable</Text>
+                    <Text className="text-sm text-gray-600 mt-1">
+                      Classes follow Day 1, Day 2… instead of weekdays
+                    </Text>
+                  </View>
+                  <Switch
+                    value={usesDayOrder}
+                    onValueChange={(enabled) => changeDayOrder(enabled, dayOrderCycle)}
+                    trackColor={{ false: '#d1d5db', true: '#22c55e' }}
+                    thumbColor={usesDayOrder ? '#ffffff' : '#f3f4f6'}
+                  />
+                </View>
+
+                {usesDayOrder && (
+                  <View className="mt-3">
+                    <Text className="text-gray-700 font-medium mb-2">Days in a cycle</Text>
+                    <View className="flex-row flex-wrap">
+                      {DAY_ORDER_CYCLE_OPTIONS.map(option => (
+                        <TouchableOpacity
+                          key={option}
+                          onPress={() => changeDayOrder(true, option)}
+                          className={`px-4 py-2 rounded-lg mr-2 mb-2 ${dayOrderCycle === option ? 'bg-green-500' : 'bg-white'}`}
+                        >
+                          <Text className={dayOrderCycle === option ? 'text-white font-medium' : 'text-gray-700'}>
+                            {option}
+                          </Text>
+                        </TouchableOpacity>
+                      ))}
+                    </View>
+                  </View>
+                )}
+              </View>
+
               {classes.length === 0 ? (
                 <View className="items-center py-8">
                   <Text className="text-4xl mb-2">📚</Text>
@@ -506,7 +566,7 @@ export const TimetableUploadScreen: React.FC<TimetableUploadScreenProps> = ({
               />
 
               <View className="mb-4">
-                <Text className="text-base font-medium text-gray-700 mb-2">Day</Text>
+                <Text className="text-base font-medium text-gray-700 mb-2">{usesDayOrder ? 'Day order' : 'Day'}</Text>
                 <TouchableOpacity
                   onPress={() => setShowDayModal(true)}
                   className="p-4 rounded-xl border border-gray-300 bg-gray-50"
@@ -566,8 +626,8 @@ export const TimetableUploadScreen: React.FC<TimetableUploadScreenProps> = ({
       {/* Selection Modals */}
       <SelectionModal
         visible={showDayModal}
-        title="Select Day"
-        data={DAYS_OF_WEEK}
+        title={usesDayOrder ? 'Select Day Order' : 'Select Day'}
+        data={dayOptions}
         onSelect={(day) => setNewClass({ ...newClass, day })}
         onClose={() => setShowDayModal(false)}
       />
@@ -47,6 +47,7 @@ interface OnboardingData {
   classes?: any[];
   semesterStartDate?: string;
   semesterEndDate?: string;
+  dayOrderCycle?: number;
 }
 
 interface OnboardingFlowProps {
@@ -216,6 +217,7 @@ export const OnboardingFlow: React.FC<OnboardingFlowProps> = ({ onComplete, onBa
               classes: timetableData.classes,
               semesterStartDate: timetableData.semesterStartDate,
               semesterEndDate: timetableData.semesterEndDate,
+              dayOrderCycle: timetableData.dayOrderCycle,
             });
             goToNextStep();
           }}